@@ -0,0 +1,19 @@
+import { deleteLibraryClause, getLibraryClause } from "@/app/utils/documentStore";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return Response.json({ error: "Clause not found." }, { status: 404 });
+}
+
+/** GET -> StoredLibraryClause. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const clause = await getLibraryClause((await params).id);
+  return clause ? Response.json(clause) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  return (await deleteLibraryClause((await params).id)) ? new Response(null, { status: 204 }) : notFound();
+}
@@ -0,0 +1,46 @@
+import { getDocumentSchema } from "@/app/extensions";
+import type { LibraryClauseContent } from "@/app/utils/clauseLibrary";
+import { libraryClauseText, normalizeTags } from "@/app/utils/clauseLibrary";
+import { createLibraryClause, listLibraryClauses } from "@/app/utils/documentStore";
+
+export const runtime = "nodejs";
+
+/**
+ * GET ?q=&tag= -> { clauses: LibraryClauseSummary[], tags: string[] }. Clauses match
+ * every word of `q` in their title, tags or text; `tags` lists the whole library's.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  return Response.json(await listLibraryClauses(searchParams.get("q") ?? "", searchParams.get("tag") || null));
+}
+
+/** POST { title, tags?, content } -> 201 StoredLibraryClause. `content` is `Slice.toJSON()` output. */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 });
+  }
+
+  const { title, tags, content } = (body ?? {}) as Record<string, unknown>;
+  if (typeof title !== "string" || !content || typeof content !== "object") {
+    return Response.json({ error: "Expected { title: string, tags?: string[], content: object }." }, { status: 400 });
+  }
+
+  let text: string;
+  try {
+    text = libraryClauseText(getDocumentSchema(), content as LibraryClauseContent);
+  } catch {
+    return Response.json({ error: "`content` is not a valid document slice." }, { status: 400 });
+  }
+  if (!text) return Response.json({ error: "The clause has no text." }, { status: 400 });
+
+  const clause = await createLibraryClause({
+    title,
+    tags: normalizeTags(tags),
+    content: content as LibraryClauseContent,
+    text,
+  });
+  return Response.json(clause, { status: 201 });
+}
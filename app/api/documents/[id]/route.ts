@@ -0,0 +1,55 @@
+import { isValidDocumentJSON } from "@/app/extensions";
+import type { DocumentPatch } from "@/app/utils/documentStore";
+import { createAutoVersionIfDue, deleteDocument, getDocument, updateDocument } from "@/app/utils/documentStore";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return Response.json({ error: "Document not found." }, { status: 404 });
+}
+
+function isPatch(body: unknown): body is DocumentPatch {
+  if (!body || typeof body !== "object") return false;
+  const { name, content } = body as Record<string, unknown>;
+  return (
+    (name === undefined || typeof name === "string") &&
+    (content === undefined || content === null || typeof content === "object")
+  );
+}
+
+/** GET -> StoredDocument. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const doc = await getDocument((await params).id);
+  return doc ? Response.json(doc) : notFound();
+}
+
+/**
+ * PATCH { name?, content? } -> StoredDocument. Autosave sends content, rename sends name.
+ * Content saves also take the periodic automatic version snapshot when one is due.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 });
+  }
+
+  if (!isPatch(body)) {
+    return Response.json({ error: "Expected { name?: string, content?: object }." }, { status: 400 });
+  }
+  if (body.content && !isValidDocumentJSON(body.content)) {
+    return Response.json({ error: "`content` is not a valid document." }, { status: 400 });
+  }
+
+  const doc = await updateDocument((await params).id, { name: body.name, content: body.content });
+  if (!doc) return notFound();
+  if (body.content) await createAutoVersionIfDue(doc.id);
+  return Response.json(doc);
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  return (await deleteDocument((await params).id)) ? new Response(null, { status: 204 }) : notFound();
+}
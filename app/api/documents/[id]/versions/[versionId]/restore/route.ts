@@ -0,0 +1,12 @@
+import { restoreVersion } from "@/app/utils/documentStore";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; versionId: string }> };
+
+/** POST -> { document, version }. The restored content becomes the document and a new version. */
+export async function POST(_request: Request, { params }: RouteContext) {
+  const { id, versionId } = await params;
+  const result = await restoreVersion(id, versionId);
+  return result ? Response.json(result) : Response.json({ error: "Version not found." }, { status: 404 });
+}
@@ -0,0 +1,12 @@
+import { getVersion } from "@/app/utils/documentStore";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string; versionId: string }> };
+
+/** GET -> StoredVersion, including its content. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id, versionId } = await params;
+  const version = await getVersion(id, versionId);
+  return version ? Response.json(version) : Response.json({ error: "Version not found." }, { status: 404 });
+}
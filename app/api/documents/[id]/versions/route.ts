@@ -0,0 +1,46 @@
+import type { JSONContent } from "@tiptap/core";
+
+import { isValidDocumentJSON } from "@/app/extensions";
+import { createVersion, listVersions } from "@/app/utils/documentStore";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+type CreateVersionRequest = { name?: string; content: JSONContent };
+
+function isCreateRequest(body: unknown): body is CreateVersionRequest {
+  if (!body || typeof body !== "object") return false;
+  const { name, content } = body as Record<string, unknown>;
+  return (name === undefined || typeof name === "string") && !!content && typeof content === "object";
+}
+
+/** GET -> { versions: VersionSummary[] }, newest first. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const versions = await listVersions((await params).id);
+  return versions
+    ? Response.json({ versions })
+    : Response.json({ error: "Document not found." }, { status: 404 });
+}
+
+/** POST { name?, content } -> 201 StoredVersion. A manual snapshot of the editor's current content. */
+export async function POST(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 });
+  }
+
+  if (!isCreateRequest(body)) {
+    return Response.json({ error: "Expected { name?: string, content: object }." }, { status: 400 });
+  }
+  if (!isValidDocumentJSON(body.content)) {
+    return Response.json({ error: "`content` is not a valid document." }, { status: 400 });
+  }
+
+  const version = await createVersion((await params).id, { kind: "manual", name: body.name, content: body.content });
+  return version
+    ? Response.json(version, { status: 201 })
+    : Response.json({ error: "Document not found." }, { status: 404 });
+}
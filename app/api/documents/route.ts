@@ -0,0 +1,37 @@
+import { isValidDocumentJSON } from "@/app/extensions";
+import type { DocumentPatch } from "@/app/utils/documentStore";
+import { createDocument, listDocuments } from "@/app/utils/documentStore";
+
+export const runtime = "nodejs";
+
+/** GET -> { documents: DocumentSummary[] }, most recently updated first. */
+export async function GET() {
+  return Response.json({ documents: await listDocuments() });
+}
+
+/** POST { name?, content? } -> 201 StoredDocument. */
+export async function POST(request: Request) {
+  let body: DocumentPatch = {};
+  try {
+    const text = await request.text();
+    if (text) body = JSON.parse(text) as DocumentPatch;
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return Response.json({ error: "Expected { name?, content? }." }, { status: 400 });
+  }
+  if (body.name !== undefined && typeof body.name !== "string") {
+    return Response.json({ error: "`name` must be a string." }, { status: 400 });
+  }
+  if (body.content !== undefined && body.content !== null && typeof body.content !== "object") {
+    return Response.json({ error: "`content` must be editor JSON." }, { status: 400 });
+  }
+  if (body.content && !isValidDocumentJSON(body.content)) {
+    return Response.json({ error: "`content` is not a valid document." }, { status: 400 });
+  }
+
+  const doc = await createDocument({ name: body.name, content: body.content });
+  return Response.json(doc, { status: 201 });
+}
@@ -0,0 +1,37 @@
+import { toFileName } from "@/app/utils/download";
+import { isPdfExportRequest, renderPdf } from "@/app/utils/pdfExport";
+
+export const runtime = "nodejs";
+
+/**
+ * POST { doc, breaks?, pageSetup?, fieldDate? } -> application/pdf.
+ * `breaks` are the doc positions of the on-screen page breaks, so the PDF pages match.
+ * Without them the server paginates the document itself.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 });
+  }
+
+  if (!isPdfExportRequest(body)) {
+    return Response.json({ error: "Expected { doc, breaks?: number[] }." }, { status: 400 });
+  }
+
+  let pdf: Uint8Array;
+  try {
+    pdf = await renderPdf(body);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Invalid document.";
+    return Response.json({ error: message }, { status: 422 });
+  }
+
+  return new Response(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${toFileName(body.doc.attrs?.documentInfo?.title, "pdf")}"`,
+    },
+  });
+}
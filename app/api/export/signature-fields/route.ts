@@ -0,0 +1,32 @@
+import type { RenderedPdf } from "@/app/utils/pdfExport";
+import { isPdfExportRequest, renderPdfWithFields } from "@/app/utils/pdfExport";
+
+export const runtime = "nodejs";
+
+/**
+ * POST { doc, breaks?, pageSetup?, fieldDate? } -> { fields }.
+ * Where `/api/export/pdf`, given the same request, places each signature block's
+ * signature, initials and date fields: page number and box in PDF points.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 });
+  }
+
+  if (!isPdfExportRequest(body)) {
+    return Response.json({ error: "Expected { doc, breaks?: number[] }." }, { status: 400 });
+  }
+
+  let rendered: RenderedPdf;
+  try {
+    rendered = await renderPdfWithFields(body);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Invalid document.";
+    return Response.json({ error: message }, { status: 422 });
+  }
+
+  return Response.json({ fields: rendered.signatureFields });
+}
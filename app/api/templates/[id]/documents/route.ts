@@ -0,0 +1,45 @@
+import { MAX_MERGE_ROWS, createDocumentsFromTemplate } from "@/app/utils/documentStore";
+import type { MergeFieldValues } from "@/app/utils/mergeFields";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function isRows(rows: unknown): rows is MergeFieldValues[] {
+  return (
+    Array.isArray(rows) &&
+    rows.every(
+      (row) =>
+        !!row &&
+        typeof row === "object" &&
+        !Array.isArray(row) &&
+        Object.values(row as Record<string, unknown>).every((value) => typeof value === "string"),
+    )
+  );
+}
+
+/**
+ * POST { rows: Record<string, string>[] } -> 201 { documents: DocumentSummary[] }.
+ * Creates one document per row, with the row's values filled in; `[{}]` makes a
+ * single blank copy.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 });
+  }
+
+  const rows = (body as { rows?: unknown } | null)?.rows;
+  if (!isRows(rows) || rows.length === 0) {
+    return Response.json({ error: "Expected { rows } with at least one object of string values." }, { status: 400 });
+  }
+  if (rows.length > MAX_MERGE_ROWS) {
+    return Response.json({ error: `At most ${MAX_MERGE_ROWS} documents can be generated at once.` }, { status: 400 });
+  }
+
+  const documents = await createDocumentsFromTemplate((await params).id, rows);
+  if (!documents) return Response.json({ error: "Template not found." }, { status: 404 });
+  return Response.json({ documents }, { status: 201 });
+}
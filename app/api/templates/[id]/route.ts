@@ -0,0 +1,19 @@
+import { deleteTemplate, getTemplate } from "@/app/utils/documentStore";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return Response.json({ error: "Template not found." }, { status: 404 });
+}
+
+/** GET -> StoredTemplate. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const template = await getTemplate((await params).id);
+  return template ? Response.json(template) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  return (await deleteTemplate((await params).id)) ? new Response(null, { status: 204 }) : notFound();
+}
@@ -0,0 +1,30 @@
+import { isValidDocumentJSON } from "@/app/extensions";
+import { createTemplate, listTemplates } from "@/app/utils/documentStore";
+
+export const runtime = "nodejs";
+
+/** GET -> { templates: TemplateSummary[] }, by name. */
+export async function GET() {
+  return Response.json({ templates: await listTemplates() });
+}
+
+/** POST { name?, content } -> 201 StoredTemplate. Field values in `content` are dropped. */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 });
+  }
+
+  const { name, content } = (body ?? {}) as Record<string, unknown>;
+  if ((name !== undefined && typeof name !== "string") || !content || typeof content !== "object") {
+    return Response.json({ error: "Expected { name?: string, content: object }." }, { status: 400 });
+  }
+  if (!isValidDocumentJSON(content)) {
+    return Response.json({ error: "`content` is not a valid document." }, { status: 400 });
+  }
+
+  const template = await createTemplate({ name, content });
+  return Response.json(template, { status: 201 });
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import { EditorContent, useEditor } from "@tiptap/react";
+
+import { documentExtensions, getDocumentSchema } from "@/app/extensions";
+import type { LibraryClauseContent } from "@/app/utils/clauseLibrary";
+import { libraryClauseDoc, normalizeTags, selectionToLibraryContent } from "@/app/utils/clauseLibrary";
+import {
+  createStoredLibraryClause,
+  deleteStoredLibraryClause,
+  fetchLibraryClause,
+  searchLibraryClauses,
+} from "@/app/utils/documentApi";
+import type { LibraryClauseSummary, StoredLibraryClause } from "@/app/utils/documentStore";
+
+export type ClauseLibraryPanelProps = {
+  editor: Editor;
+};
+
+/** Delay after the last keystroke before searching. */
+const SEARCH_DELAY_MS = 200;
+
+const inputCls =
+  "w-full rounded-lg border border-[var(--app-border)] bg-white/70 px-2 py-1 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500/40";
+
+const buttonCls =
+  "px-2.5 py-1.5 text-sm rounded-lg border border-[var(--app-border)] bg-white/70 text-gray-800 transition-colors hover:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50";
+
+/** Read-only rendering of a saved clause, numbered as it would be on its own. */
+function ClausePreview(props: { content: LibraryClauseContent }) {
+  const { content } = props;
+  const doc = useMemo(() => libraryClauseDoc(getDocumentSchema(), content).toJSON(), [content]);
+  const editor = useEditor(
+    {
+      extensions: documentExtensions,
+      content: doc,
+      editable: false,
+      immediatelyRender: false,
+    },
+    [doc],
+  );
+
+  return (
+    <div className="editor-shell max-h-64 overflow-y-auto rounded-lg border border-[var(--app-border)] bg-white px-3">
+      <EditorContent editor={editor} className="prose max-w-none" />
+    </div>
+  );
+}
+
+/**
+ * Reusable clauses: saves the selection as a tagged clause, searches the library by
+ * text and tag, and previews and inserts clauses at the cursor.
+ */
+export function ClauseLibraryPanel(props: ClauseLibraryPanelProps) {
+  const { editor } = props;
+  const [query, setQuery] = useState("");
+  const [tag, setTag] = useState<string | null>(null);
+  const [results, setResults] = useState<LibraryClauseSummary[] | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [selected, setSelected] = useState<StoredLibraryClause | null>(null);
+  // Bumped to search again after the library changes.
+  const [revision, setRevision] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = window.setTimeout(() => {
+      searchLibraryClauses(query, tag)
+        .then((found) => {
+          if (cancelled) return;
+          setResults(found.clauses);
+          setTags(found.tags);
+        })
+        .catch((err: unknown) => {
+          if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+        });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [query, tag, revision]);
+
+  const saveSelection = () => {
+    const content = selectionToLibraryContent(editor.state);
+    if (!content) {
+      window.alert("Select the clause you want to save.");
+      return;
+    }
+    const { from, to } = editor.state.selection;
+    const firstLine = editor.state.doc.textBetween(from, to, "\n", " ").trim().split("\n")[0].slice(0, 60);
+    const title = window.prompt("Clause title:", firstLine);
+    if (title === null) return;
+    const tagList = window.prompt("Tags (comma-separated), e.g. indemnity, governing law:", tag ?? "");
+    if (tagList === null) return;
+    void run(async () => {
+      const clause = await createStoredLibraryClause({ title, tags: normalizeTags(tagList), content });
+      setSelected(clause);
+      setRevision((r) => r + 1);
+    });
+  };
+
+  const preview = (summary: LibraryClauseSummary) =>
+    run(async () => {
+      setSelected(selected?.id === summary.id ? null : await fetchLibraryClause(summary.id));
+    });
+
+  const insert = (clause: StoredLibraryClause) => {
+    if (!editor.chain().focus().insertLibraryClause(clause.content).run()) {
+      window.alert(`“${clause.title}” can't be inserted here.`);
+    }
+  };
+
+  const remove = (clause: StoredLibraryClause) => {
+    if (!window.confirm(`Delete “${clause.title}” from the library?`)) return;
+    void run(async () => {
+      await deleteStoredLibraryClause(clause.id);
+      setSelected(null);
+      setRevision((r) => r + 1);
+    });
+  };
+
+  return (
+    <div className="grid gap-4 rounded-2xl border border-[var(--app-border)] bg-white/70 p-4 text-sm shadow-sm">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 font-medium text-gray-900">Clause library</div>
+        <button type="button" className={buttonCls} disabled={busy} onClick={saveSelection}>
+          Save selection
+        </button>
+      </div>
+
+      <input
+        type="search"
+        aria-label="Search clauses"
+        placeholder="Search clauses"
+        value={query}
+        onChange={(e) => setQuery(e.currentTarget.value)}
+        className={inputCls}
+      />
+
+      {tags.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((t) => (
+            <button
+              key={t}
+              type="button"
+              aria-pressed={t === tag}
+              onClick={() => setTag(t === tag ? null : t)}
+              className={[
+                "rounded-full border px-2 py-0.5 text-xs",
+                t === tag
+                  ? "border-gray-900 bg-gray-900 text-white"
+                  : "border-[var(--app-border)] bg-white/70 text-gray-700 hover:bg-white",
+              ].join(" ")}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+      <ul className="grid max-h-72 gap-1 overflow-y-auto">
+        {results?.length === 0 ? (
+          <li className="text-xs text-gray-500">
+            {query || tag ? "No clauses match." : "No clauses yet. Select text and save it to start the library."}
+          </li>
+        ) : null}
+        {results?.map((clause) => (
+          <li key={clause.id}>
+            <button
+              type="button"
+              aria-expanded={selected?.id === clause.id}
+              onClick={() => void preview(clause)}
+              className={[
+                "w-full rounded-lg px-2 py-1.5 text-left hover:bg-white",
+                selected?.id === clause.id ? "bg-white ring-1 ring-[var(--app-border)]" : "",
+              ].join(" ")}
+            >
+              <div className="truncate text-gray-900">{clause.title}</div>
+              {clause.tags.length > 0 ? <div className="text-xs text-gray-500">{clause.tags.join(", ")}</div> : null}
+              <div className="line-clamp-2 text-xs text-gray-500">{clause.excerpt}</div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected ? (
+        <div className="grid gap-2">
+          <ClausePreview content={selected.content} />
+          <div className="flex gap-2">
+            <button type="button" className={buttonCls} onClick={() => insert(selected)}>
+              Insert at cursor
+            </button>
+            <button type="button" className={buttonCls} disabled={busy} onClick={() => remove(selected)}>
+              Delete
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import type { Editor } from "@tiptap/core";
+import { useEditorState } from "@tiptap/react";
+
+import type { CommentsState } from "@/app/utils/comments";
+import { numberPrintedComments } from "@/app/utils/comments";
+
+export type CommentEndnotesProps = {
+  editor: Editor;
+  comments: CommentsState;
+};
+
+/**
+ * Print-only list of open comment threads, numbered to match the reference marks
+ * the `Comments` extension prints in the text. Starts on a new page.
+ */
+export function CommentEndnotes(props: CommentEndnotesProps) {
+  const { editor, comments } = props;
+  const doc = useEditorState({ editor, selector: ({ editor: e }) => e.state.doc });
+  const printed = numberPrintedComments(doc, comments);
+
+  if (printed.length === 0) return null;
+
+  return (
+    <section className="comment-endnotes hidden break-before-page text-sm text-black print:block">
+      <h2 className="mb-3 text-lg font-semibold">Comments</h2>
+      <ol className="grid gap-3">
+        {printed.map(({ number, text, thread }) => (
+          <li key={thread.id} className="grid gap-1">
+            <div>
+              <span className="font-semibold">{number}.</span> <span className="italic">“{text}”</span>
+            </div>
+            {thread.messages.map((message) => (
+              <div key={message.id} className="pl-4">
+                <span className="font-medium">{message.author || "Anonymous"}:</span> {message.text}
+              </div>
+            ))}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useLayoutEffect, useRef, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import { useEditorState } from "@tiptap/react";
+
+import { getActiveCommentId } from "@/app/extensions/Comments";
+import type { CommentAnchorPosition } from "@/app/hooks/useCommentAnchors";
+import { useCommentAnchors } from "@/app/hooks/useCommentAnchors";
+import type { CommentsState, CommentThread } from "@/app/utils/comments";
+import type { PaginationResult } from "@/app/utils/pageCalculations";
+
+export const COMMENT_RAIL_WIDTH_PX = 260;
+
+/** Space kept free at the top of the rail for its header. */
+const RAIL_HEADER_PX = 36;
+const CARD_GAP_PX = 8;
+
+const buttonCls =
+  "px-2 py-1 text-xs rounded-lg border border-[var(--app-border)] bg-white/70 text-gray-800 transition-colors hover:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50";
+
+const inputCls =
+  "w-full rounded-lg border border-[var(--app-border)] bg-white/70 px-2 py-1 text-xs text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500/40";
+
+export type CommentRailProps = {
+  editor: Editor;
+  pagination: PaginationResult | null;
+  comments: CommentsState;
+};
+
+function formatCreatedAt(iso: string): string {
+  return iso ? new Date(iso).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" }) : "";
+}
+
+function CommentCard(props: {
+  editor: Editor;
+  thread: CommentThread;
+  anchor: CommentAnchorPosition;
+  active: boolean;
+  cardRef: (el: HTMLDivElement | null) => void;
+}) {
+  const { editor, thread, anchor, active, cardRef } = props;
+  const [reply, setReply] = useState("");
+
+  const sendReply = () => {
+    if (editor.commands.replyToComment(thread.id, reply)) setReply("");
+  };
+
+  return (
+    <div
+      ref={cardRef}
+      data-thread-id={thread.id}
+      className={[
+        "absolute left-0 right-0 grid gap-2 rounded-xl border bg-white p-3 text-xs shadow-sm transition-[top]",
+        active ? "border-amber-400 shadow-md" : "border-[var(--app-border)]",
+        thread.resolved ? "opacity-60" : "",
+      ].join(" ")}
+      style={{ top: `${anchor.top}px` }}
+      // Selecting the anchored text makes this the active thread.
+      onMouseDown={(e) => {
+        if ((e.target as HTMLElement).closest("button, input")) return;
+        editor.commands.setTextSelection(anchor.from);
+      }}
+    >
+      <div className="truncate text-[10px] text-gray-500">
+        Page {anchor.pageIndex + 1} · “{anchor.text}”
+      </div>
+      {thread.messages.map((message) => (
+        <div key={message.id}>
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="font-medium text-gray-900">{message.author || "Anonymous"}</span>
+            <span className="shrink-0 text-[10px] text-gray-500">{formatCreatedAt(message.createdAt)}</span>
+          </div>
+          <div className="whitespace-pre-wrap text-gray-800">{message.text}</div>
+        </div>
+      ))}
+      {active && !thread.resolved ? (
+        <input
+          aria-label="Reply"
+          placeholder="Reply…"
+          value={reply}
+          onChange={(e) => setReply(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") sendReply();
+          }}
+          className={inputCls}
+        />
+      ) : null}
+      <div className="flex gap-2">
+        {active && !thread.resolved ? (
+          <button type="button" className={buttonCls} disabled={!reply.trim()} onClick={sendReply}>
+            Reply
+          </button>
+        ) : null}
+        <button
+          type="button"
+          className={buttonCls}
+          onClick={() => editor.commands.setCommentResolved(thread.id, !thread.resolved)}
+        >
+          {thread.resolved ? "Reopen" : "Resolve"}
+        </button>
+        <button
+          type="button"
+          className={buttonCls}
+          onClick={() => {
+            if (window.confirm("Delete this comment thread?")) editor.commands.deleteCommentThread(thread.id);
+          }}
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Comment threads beside the pages, each placed level with its anchored text and
+ * pushed down just enough not to overlap the card above.
+ */
+export function CommentRail(props: CommentRailProps) {
+  const { editor, pagination, comments } = props;
+  const [showResolved, setShowResolved] = useState(false);
+  const anchors = useCommentAnchors(editor, pagination);
+  const activeThreadId = useEditorState({ editor, selector: ({ editor: e }) => getActiveCommentId(e.state) });
+  const cardsRef = useRef(new Map<string, HTMLDivElement>());
+
+  const visible = anchors.filter((a) => {
+    const thread = comments.threads[a.threadId];
+    return thread && (showResolved || !thread.resolved);
+  });
+  const resolvedCount = Object.values(comments.threads).filter((t) => t.resolved).length;
+
+  // Stack cards in anchor order; card heights are only known after render.
+  useLayoutEffect(() => {
+    let nextFree = RAIL_HEADER_PX;
+    for (const anchor of visible) {
+      const el = cardsRef.current.get(anchor.threadId);
+      if (!el) continue;
+      const top = Math.max(anchor.top, nextFree);
+      el.style.top = `${top}px`;
+      nextFree = top + el.offsetHeight + CARD_GAP_PX;
+    }
+  });
+
+  return (
+    <div className="relative h-full" style={{ width: `${COMMENT_RAIL_WIDTH_PX}px` }}>
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-600">
+        <span className="font-medium text-gray-900">Comments</span>
+        {resolvedCount > 0 ? (
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.currentTarget.checked)}
+            />
+            Show resolved ({resolvedCount})
+          </label>
+        ) : null}
+      </div>
+      {visible.map((anchor) => (
+        <CommentCard
+          key={anchor.threadId}
+          editor={editor}
+          thread={comments.threads[anchor.threadId]}
+          anchor={anchor}
+          active={anchor.threadId === activeThreadId}
+          cardRef={(el) => {
+            if (el) cardsRef.current.set(anchor.threadId, el);
+            else cardsRef.current.delete(anchor.threadId);
+          }}
+        />
+      ))}
+    </div>
+  );
+}
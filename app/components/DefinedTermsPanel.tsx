@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import { useEditorState } from "@tiptap/react";
+
+import { getDefinedTerms } from "@/app/extensions/DefinedTerms";
+import type { TermRange } from "@/app/utils/definedTerms";
+
+export type DefinedTermsPanelProps = {
+  editor: Editor;
+};
+
+const itemCls = "flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-left hover:bg-white";
+
+const badgeCls = "rounded-full px-1.5 py-0.5 text-[10px] font-medium";
+
+const countCls =
+  "shrink-0 rounded-lg px-2 py-1.5 text-xs text-gray-500 tabular-nums hover:bg-white disabled:cursor-default";
+
+/**
+ * Defined terms with their usage counts, and capitalised terms with no definition.
+ * Checking (and its highlighting in the text) is on while the panel is open.
+ */
+export function DefinedTermsPanel(props: DefinedTermsPanelProps) {
+  const { editor } = props;
+  // Which use each list entry jumped to last, so repeated clicks step through them.
+  const [useIndex, setUseIndex] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    editor.commands.setDefinedTermsEnabled(true);
+    return () => {
+      if (!editor.isDestroyed) editor.commands.setDefinedTermsEnabled(false);
+    };
+  }, [editor]);
+
+  const analysis = useEditorState({
+    editor,
+    selector: ({ editor: e }) => getDefinedTerms(e.state),
+    // The analysis is rebuilt only when the doc changes, so identity is enough.
+    equalityFn: (a, b) => a === b,
+  });
+
+  const select = (range: TermRange) => editor.chain().focus().setTextSelection(range).scrollIntoView().run();
+
+  const nextUse = (key: string, uses: TermRange[]) => {
+    if (uses.length === 0) return;
+    const index = ((useIndex[key] ?? -1) + 1) % uses.length;
+    setUseIndex((current) => ({ ...current, [key]: index }));
+    select(uses[index]);
+  };
+
+  const { terms, undefinedTerms } = analysis;
+
+  return (
+    <div className="grid gap-4 rounded-2xl border border-[var(--app-border)] bg-white/70 p-4 text-sm shadow-sm">
+      <div>
+        <div className="font-medium text-gray-900">Defined terms</div>
+        <div className="text-xs text-gray-500">F12 or Ctrl/Cmd-click on a term goes to its definition.</div>
+      </div>
+
+      <ul className="grid max-h-80 gap-1 overflow-y-auto">
+        {terms.length === 0 ? (
+          <li className="text-xs text-gray-500">
+            No definitions found. Define a term in quotes, e.g. (the &ldquo;Agreement&rdquo;).
+          </li>
+        ) : null}
+        {terms.map((term) => (
+          <li key={term.term} className="flex items-center gap-1">
+            <button type="button" title="Go to definition" className={itemCls} onClick={() => select(term.definition)}>
+              <span className="min-w-0 flex-1 truncate text-gray-900">{term.term}</span>
+              {term.redefinitions.length > 0 ? (
+                <span className={[badgeCls, "bg-amber-100 text-amber-800"].join(" ")}>
+                  defined {term.redefinitions.length + 1}×
+                </span>
+              ) : null}
+              {term.uses.length === 0 ? (
+                <span className={[badgeCls, "bg-red-100 text-red-700"].join(" ")}>unused</span>
+              ) : null}
+            </button>
+            <button
+              type="button"
+              title="Next use"
+              disabled={term.uses.length === 0}
+              onClick={() => nextUse(`defined:${term.term}`, term.uses)}
+              className={countCls}
+            >
+              {term.uses.length}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {undefinedTerms.length > 0 ? (
+        <div className="grid gap-1">
+          <div className="text-xs font-medium text-gray-600">Not defined</div>
+          <ul className="grid max-h-60 gap-1 overflow-y-auto">
+            {undefinedTerms.map((term) => (
+              <li key={term.term}>
+                <button
+                  type="button"
+                  title="Next use"
+                  className={itemCls}
+                  onClick={() => nextUse(`undefined:${term.term}`, term.uses)}
+                >
+                  <span className="min-w-0 flex-1 truncate text-red-700">{term.term}</span>
+                  <span className="text-xs text-gray-500 tabular-nums">{term.uses.length}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useMemo } from "react";
+import type { CSSProperties } from "react";
+import type { JSONContent } from "@tiptap/core";
+import { EditorContent, useEditor } from "@tiptap/react";
+
+import { PageContainer } from "@/app/components/PageContainer";
+import { useEditorPagination } from "@/app/hooks/useEditorPagination";
+import { documentExtensions } from "@/app/extensions";
+import { DiffHighlight } from "@/app/extensions/DiffHighlight";
+import { Pagination } from "@/app/extensions/Pagination";
+import { diffDocuments } from "@/app/utils/documentDiff";
+import { normalizeDocumentInfo, normalizeHeaderFooter } from "@/app/utils/headerFooter";
+import { normalizePageSetup, resolvePageMetrics } from "@/app/utils/pageSetup";
+import { PLEADING_PAGINATION, normalizePleading, pleadingLineHeightPx } from "@/app/utils/pleading";
+
+export type DiffViewerProps = {
+  before: JSONContent;
+  after: JSONContent;
+  /** Pre-formatted value for the `{date}` field. */
+  fieldDate: string;
+};
+
+/**
+ * Read-only, paginated redline of `before` -> `after`, laid out with the
+ * newer version's page setup, headers/footers and pleading paper.
+ */
+export function DiffViewer(props: DiffViewerProps) {
+  const { before, after, fieldDate } = props;
+
+  const content = useMemo(() => diffDocuments(before, after), [before, after]);
+  const editor = useEditor(
+    {
+      extensions: [...documentExtensions, Pagination, DiffHighlight],
+      content,
+      editable: false,
+      immediatelyRender: false,
+    },
+    [content],
+  );
+
+  const pageSetup = useMemo(() => normalizePageSetup(after.attrs?.pageSetup), [after]);
+  const headerFooter = useMemo(() => normalizeHeaderFooter(after.attrs?.headerFooter), [after]);
+  const documentInfo = useMemo(() => normalizeDocumentInfo(after.attrs?.documentInfo), [after]);
+  const metrics = useMemo(() => resolvePageMetrics(pageSetup), [pageSetup]);
+  const pleading = useMemo(() => normalizePleading(after.attrs?.pleading), [after]);
+
+  const { pagination } = useEditorPagination(editor, metrics, pleading.enabled ? PLEADING_PAGINATION : undefined);
+
+  return (
+    <div className="mx-auto" style={{ width: `${metrics.paperWidthPx}px` }}>
+      <PageContainer
+        pagination={pagination}
+        metrics={metrics}
+        headerFooter={headerFooter}
+        documentInfo={documentInfo}
+        fieldDate={fieldDate}
+        pleading={pleading}
+      >
+        <div
+          className={pleading.enabled ? "editor-shell is-pleading relative" : "editor-shell relative"}
+          style={
+            pleading.enabled
+              ? ({ "--pm-pleading-line": `${pleadingLineHeightPx(metrics, pleading)}px` } as CSSProperties)
+              : undefined
+          }
+        >
+          <EditorContent editor={editor} className="prose max-w-none focus:outline-none min-h-[400px]" />
+        </div>
+      </PageContainer>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import {
+  createDocumentsFromTemplate,
+  createStoredDocument,
+  deleteStoredDocument,
+  deleteStoredTemplate,
+  fetchDocuments,
+  fetchTemplates,
+  patchDocument,
+} from "@/app/utils/documentApi";
+import type { DocumentSummary, TemplateSummary } from "@/app/utils/documentStore";
+import { parseMergeData } from "@/app/utils/mergeFields";
+
+const buttonCls =
+  "px-2.5 py-1.5 text-sm rounded-lg border border-[var(--app-border)] bg-white/70 text-gray-800 transition-colors hover:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/40";
+
+const inputCls =
+  "w-full rounded-lg border border-[var(--app-border)] bg-white/70 px-2 py-1 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500/40";
+
+function formatUpdatedAt(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
+
+function DocumentRow(props: {
+  doc: DocumentSummary;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}) {
+  const { doc, onRename, onDelete } = props;
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(doc.name);
+
+  const commit = () => {
+    setEditing(false);
+    if (draft.trim() && draft.trim() !== doc.name) onRename(draft);
+    else setDraft(doc.name);
+  };
+
+  return (
+    <li className="flex items-center gap-3 px-4 py-3">
+      <div className="min-w-0 flex-1">
+        {editing ? (
+          <input
+            autoFocus
+            aria-label="Document name"
+            value={draft}
+            onChange={(e) => setDraft(e.currentTarget.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commit();
+              if (e.key === "Escape") {
+                setDraft(doc.name);
+                setEditing(false);
+              }
+            }}
+            className={inputCls}
+          />
+        ) : (
+          <Link href={`/documents/${doc.id}`} className="block truncate font-medium text-gray-900 hover:underline">
+            {doc.name}
+          </Link>
+        )}
+        <div className="mt-0.5 text-xs text-gray-500">Edited {formatUpdatedAt(doc.updatedAt)}</div>
+      </div>
+      <button type="button" className={buttonCls} onClick={() => setEditing(true)}>
+        Rename
+      </button>
+      <button type="button" className={buttonCls} onClick={onDelete}>
+        Delete
+      </button>
+    </li>
+  );
+}
+
+function TemplateRow(props: {
+  template: TemplateSummary;
+  onCreate: () => void;
+  onGenerate: () => void;
+  onDelete: () => void;
+}) {
+  const { template, onCreate, onGenerate, onDelete } = props;
+  return (
+    <li className="flex items-center gap-3 px-4 py-3">
+      <div className="min-w-0 flex-1 truncate font-medium text-gray-900">{template.name}</div>
+      <button type="button" className={buttonCls} onClick={onCreate}>
+        New document
+      </button>
+      <button type="button" className={buttonCls} onClick={onGenerate}>
+        Generate from data…
+      </button>
+      <button type="button" className={buttonCls} onClick={onDelete}>
+        Delete
+      </button>
+    </li>
+  );
+}
+
+export function DocumentList() {
+  const router = useRouter();
+  const [documents, setDocuments] = useState<DocumentSummary[] | null>(null);
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const dataInputRef = useRef<HTMLInputElement>(null);
+  // The template a picked data file fills in.
+  const generateTemplateRef = useRef<TemplateSummary | null>(null);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDocuments()
+      .then(setDocuments)
+      .catch((err: unknown) => {
+        console.error(err);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+    fetchTemplates()
+      .then(setTemplates)
+      .catch((err: unknown) => console.error(err));
+  }, []);
+
+  const createDocument = () =>
+    run(async () => {
+      const doc = await createStoredDocument();
+      router.push(`/documents/${doc.id}`);
+    });
+
+  const renameDocument = (id: string, name: string) =>
+    run(async () => {
+      const updated = await patchDocument(id, { name });
+      setDocuments((docs) => docs?.map((d) => (d.id === id ? { ...d, name: updated.name } : d)) ?? null);
+    });
+
+  const removeDocument = (doc: DocumentSummary) => {
+    if (!window.confirm(`Delete “${doc.name}”? This cannot be undone.`)) return;
+    void run(async () => {
+      await deleteStoredDocument(doc.id);
+      setDocuments((docs) => docs?.filter((d) => d.id !== doc.id) ?? null);
+    });
+  };
+
+  const createFromTemplate = (template: TemplateSummary) =>
+    run(async () => {
+      const [doc] = await createDocumentsFromTemplate(template.id, [{}]);
+      router.push(`/documents/${doc.id}`);
+    });
+
+  const generateFromData = (file: File) =>
+    run(async () => {
+      const template = generateTemplateRef.current;
+      if (!template) return;
+      const rows = parseMergeData(await file.text(), file.name);
+      if (rows.length === 0) throw new Error("The data file has no rows.");
+      const count = `${rows.length} document${rows.length === 1 ? "" : "s"}`;
+      if (!window.confirm(`Create ${count} from “${template.name}”?`)) return;
+      const created = await createDocumentsFromTemplate(template.id, rows);
+      setDocuments((docs) => [...created, ...(docs ?? [])]);
+    });
+
+  const removeTemplate = (template: TemplateSummary) => {
+    if (!window.confirm(`Delete the template “${template.name}”? Documents made from it are kept.`)) return;
+    void run(async () => {
+      await deleteStoredTemplate(template.id);
+      setTemplates((list) => list.filter((t) => t.id !== template.id));
+    });
+  };
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center gap-3">
+        <div className="flex-1 text-sm text-gray-500">
+          {documents ? `${documents.length} document${documents.length === 1 ? "" : "s"}` : "Loading…"}
+        </div>
+        <button type="button" className={buttonCls} onClick={() => void createDocument()}>
+          New document
+        </button>
+      </div>
+
+      {error ? <div className="mb-4 text-sm text-red-600">{error}</div> : null}
+
+      {documents && documents.length === 0 ? (
+        <div className="py-10 text-center text-sm text-gray-500">No documents yet. Create one to start drafting.</div>
+      ) : null}
+
+      {documents && documents.length > 0 ? (
+        <ul className="divide-y divide-[var(--app-border)] rounded-2xl border border-[var(--app-border)] bg-white/70">
+          {documents.map((doc) => (
+            <DocumentRow
+              key={doc.id}
+              doc={doc}
+              onRename={(name) => void renameDocument(doc.id, name)}
+              onDelete={() => removeDocument(doc)}
+            />
+          ))}
+        </ul>
+      ) : null}
+
+      {templates.length > 0 ? (
+        <>
+          <h2 className="mt-8 mb-3 text-sm font-medium text-gray-700">Templates</h2>
+          <ul className="divide-y divide-[var(--app-border)] rounded-2xl border border-[var(--app-border)] bg-white/70">
+            {templates.map((template) => (
+              <TemplateRow
+                key={template.id}
+                template={template}
+                onCreate={() => void createFromTemplate(template)}
+                onGenerate={() => {
+                  generateTemplateRef.current = template;
+                  dataInputRef.current?.click();
+                }}
+                onDelete={() => removeTemplate(template)}
+              />
+            ))}
+          </ul>
+          <input
+            ref={dataInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.currentTarget.files?.[0];
+              // Reset so picking the same file again still fires a change.
+              e.currentTarget.value = "";
+              if (file) void generateFromData(file);
+            }}
+          />
+        </>
+      ) : null}
+    </div>
+  );
+}
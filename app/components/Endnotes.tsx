@@ -0,0 +1,53 @@
+"use client";
+
+import type { Editor } from "@tiptap/core";
+import { useEditorState } from "@tiptap/react";
+
+import { collectNotes } from "@/app/utils/footnotes";
+import type { PageMetrics } from "@/app/utils/pageSetup";
+
+export type EndnotesProps = {
+  editor: Editor;
+  metrics: PageMetrics;
+};
+
+/**
+ * The document's notes when they are placed as endnotes: a sheet after the last
+ * page, and a new page in print. Clicking a note selects its reference.
+ */
+export function Endnotes(props: EndnotesProps) {
+  const { editor, metrics } = props;
+  const { paperWidthPx, marginTopPx, marginRightPx, marginBottomPx, marginLeftPx } = metrics;
+  const doc = useEditorState({ editor, selector: ({ editor: e }) => e.state.doc });
+  const notes = collectNotes(doc);
+
+  if (notes.length === 0) return null;
+
+  return (
+    <section
+      className={[
+        "endnotes-sheet page-paper mx-auto break-before-page rounded-2xl border border-gray-200 bg-white text-black",
+        "shadow-[0_1px_2px_rgba(0,0,0,0.05),0_18px_40px_rgba(0,0,0,0.10)]",
+      ].join(" ")}
+      style={{
+        width: `${paperWidthPx}px`,
+        padding: `${marginTopPx}px ${marginRightPx}px ${marginBottomPx}px ${marginLeftPx}px`,
+      }}
+    >
+      <h2 className="mb-3 text-lg font-semibold">Notes</h2>
+      <ol className="grid gap-2 text-sm">
+        {notes.map((note) => (
+          <li key={note.id}>
+            <button
+              type="button"
+              className="text-left hover:underline print:no-underline"
+              onClick={() => editor.chain().focus().setNodeSelection(note.pos).scrollIntoView().run()}
+            >
+              <span className="font-semibold">{note.number}.</span> {note.text}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+
+import type {
+  DocumentInfo,
+  HeaderFooterConfig,
+  HeaderFooterVariant,
+  MarginSlots,
+} from "@/app/utils/headerFooter";
+import { TEMPLATE_FIELDS } from "@/app/utils/headerFooter";
+
+export type HeaderFooterPanelProps = {
+  headerFooter: HeaderFooterConfig;
+  documentInfo: DocumentInfo;
+  onChangeHeaderFooter: (next: HeaderFooterConfig) => void;
+  onChangeDocumentInfo: (next: DocumentInfo) => void;
+};
+
+type VariantKey = "default" | "first" | "even";
+
+const inputCls =
+  "w-full rounded-lg border border-[var(--app-border)] bg-white/70 px-2 py-1 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500/40";
+
+const SLOT_KEYS: (keyof MarginSlots)[] = ["left", "center", "right"];
+
+function SlotsEditor(props: { label: string; slots: MarginSlots; onChange: (next: MarginSlots) => void }) {
+  const { label, slots, onChange } = props;
+  return (
+    <div>
+      <div className="mb-1 text-xs font-medium text-gray-600">{label}</div>
+      <div className="grid grid-cols-3 gap-2">
+        {SLOT_KEYS.map((key) => (
+          <input
+            key={key}
+            aria-label={`${label} ${key}`}
+            placeholder={key}
+            value={slots[key]}
+            onChange={(e) => onChange({ ...slots, [key]: e.currentTarget.value })}
+            className={[inputCls, key === "center" ? "text-center" : key === "right" ? "text-right" : ""].join(" ")}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function HeaderFooterPanel(props: HeaderFooterPanelProps) {
+  const { headerFooter, documentInfo, onChangeHeaderFooter, onChangeDocumentInfo } = props;
+  const [activeVariant, setActiveVariant] = useState<VariantKey>("default");
+
+  const variants: { key: VariantKey; label: string; enabled: boolean }[] = [
+    { key: "default", label: headerFooter.differentOddEven ? "Odd pages" : "All pages", enabled: true },
+    { key: "first", label: "First page", enabled: headerFooter.differentFirstPage },
+    { key: "even", label: "Even pages", enabled: headerFooter.differentOddEven },
+  ];
+  const current = variants.find((v) => v.key === activeVariant && v.enabled)?.key ?? "default";
+  const variant = headerFooter[current];
+
+  const updateVariant = (next: HeaderFooterVariant) => onChangeHeaderFooter({ ...headerFooter, [current]: next });
+
+  return (
+    <div className="mb-4 grid gap-4 rounded-2xl border border-[var(--app-border)] bg-white/70 p-4 text-sm shadow-sm">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-600">
+          Document title
+          <input
+            value={documentInfo.title}
+            onChange={(e) => onChangeDocumentInfo({ ...documentInfo, title: e.currentTarget.value })}
+            className={inputCls}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Client/matter number
+          <input
+            value={documentInfo.matterNumber}
+            onChange={(e) => onChangeDocumentInfo({ ...documentInfo, matterNumber: e.currentTarget.value })}
+            className={inputCls}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-700">
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={headerFooter.differentFirstPage}
+            onChange={(e) => onChangeHeaderFooter({ ...headerFooter, differentFirstPage: e.currentTarget.checked })}
+          />
+          Different first page
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={headerFooter.differentOddEven}
+            onChange={(e) => onChangeHeaderFooter({ ...headerFooter, differentOddEven: e.currentTarget.checked })}
+          />
+          Different odd &amp; even pages
+        </label>
+        <div className="flex-1" />
+        <div className="flex gap-1">
+          {variants
+            .filter((v) => v.enabled)
+            .map((v) => (
+              <button
+                key={v.key}
+                type="button"
+                aria-pressed={v.key === current}
+                onClick={() => setActiveVariant(v.key)}
+                className={[
+                  "rounded-lg border px-2 py-1",
+                  v.key === current
+                    ? "border-gray-900 bg-gray-900 text-white"
+                    : "border-[var(--app-border)] bg-white/70 text-gray-800 hover:bg-white",
+                ].join(" ")}
+              >
+                {v.label}
+              </button>
+            ))}
+        </div>
+      </div>
+
+      <SlotsEditor label="Header" slots={variant.header} onChange={(header) => updateVariant({ ...variant, header })} />
+      <SlotsEditor label="Footer" slots={variant.footer} onChange={(footer) => updateVariant({ ...variant, footer })} />
+
+      <div className="text-xs text-gray-500">
+        Fields: {TEMPLATE_FIELDS.map((f) => `{${f}}`).join(", ")}. For example &ldquo;Page {"{page}"} of {"{pages}"}&rdquo;.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+
+import type { MergeField, MergeFieldType, MergeFieldValues } from "@/app/utils/mergeFields";
+import { DOCUMENT_NAME_COLUMN, MERGE_FIELD_TYPES } from "@/app/utils/mergeFields";
+
+export type MergeFieldsPanelProps = {
+  /** The document's fields, once each. */
+  fields: MergeField[];
+  values: MergeFieldValues;
+  onChangeValues: (next: MergeFieldValues) => void;
+  /** Inserts a field at the cursor. */
+  onInsertField: (name: string, type: MergeFieldType) => void;
+  /** Stores the document, without its values, as a template. */
+  onSaveTemplate: () => void;
+};
+
+const inputCls =
+  "w-full rounded-lg border border-[var(--app-border)] bg-white/70 px-2 py-1 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500/40";
+
+const buttonCls =
+  "rounded-lg border border-[var(--app-border)] bg-white/70 px-2 py-1 text-gray-800 hover:bg-white disabled:cursor-not-allowed disabled:opacity-50";
+
+export function MergeFieldsPanel(props: MergeFieldsPanelProps) {
+  const { fields, values, onChangeValues, onInsertField, onSaveTemplate } = props;
+  const [name, setName] = useState("");
+  const [type, setType] = useState<MergeFieldType>("text");
+
+  const insert = () => {
+    if (!name.trim()) return;
+    onInsertField(name, type);
+    setName("");
+  };
+
+  return (
+    <div className="mb-4 grid gap-4 rounded-2xl border border-[var(--app-border)] bg-white/70 p-4 text-sm shadow-sm">
+      {fields.length > 0 ? (
+        <div className="grid grid-cols-2 gap-3">
+          {fields.map((field) => (
+            <label key={field.name} className="text-xs text-gray-600">
+              {field.name}
+              <input
+                type={field.type === "date" ? "date" : "text"}
+                inputMode={field.type === "amount" ? "decimal" : undefined}
+                value={values[field.name] ?? ""}
+                onChange={(e) => onChangeValues({ ...values, [field.name]: e.currentTarget.value })}
+                className={inputCls}
+              />
+            </label>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">No fields yet. Insert one where a value changes per document.</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+        <input
+          aria-label="Field name"
+          placeholder="Field name, e.g. Party name"
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") insert();
+          }}
+          className={[inputCls, "max-w-64"].join(" ")}
+        />
+        <select
+          aria-label="Field type"
+          value={type}
+          onChange={(e) => setType(e.currentTarget.value as MergeFieldType)}
+          className={[inputCls, "w-auto"].join(" ")}
+        >
+          {MERGE_FIELD_TYPES.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <button type="button" disabled={!name.trim()} onClick={insert} className={buttonCls}>
+          Insert field
+        </button>
+        <div className="flex-1" />
+        <button type="button" onClick={onSaveTemplate} className={buttonCls}>
+          Save as template
+        </button>
+      </div>
+
+      <div className="text-xs text-gray-500">
+        Data files for generating documents from a template use the field names as CSV headers or JSON keys; an
+        optional &ldquo;{DOCUMENT_NAME_COLUMN}&rdquo; column names each document.
+      </div>
+    </div>
+  );
+}
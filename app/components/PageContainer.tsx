@@ -1,55 +1,122 @@
 import type { ReactNode } from "react";
 
 import { PageBreakIndicator } from "@/app/components/PageBreakIndicator";
+import type { DocumentInfo, HeaderFooterConfig, MarginSlots } from "@/app/utils/headerFooter";
+import { renderTemplate, resolveVariant } from "@/app/utils/headerFooter";
 import type { PaginationResult } from "@/app/utils/pageCalculations";
+import type { PageMetrics } from "@/app/utils/pageSetup";
+import type { PleadingSetup } from "@/app/utils/pleading";
+import { PLEADING_RULE_GAP_PX, pleadingLineHeightPx } from "@/app/utils/pleading";
 
-export const PAGE_PAPER_WIDTH_PX = 816;
-export const PAGE_PAPER_HEIGHT_PX = 1056;
-export const PAGE_MARGIN_PX = 96;
 export const PAGE_GAP_PX = 24;
 
-export const PAGE_CONTENT_WIDTH_PX = 624;
-export const PAGE_CONTENT_HEIGHT_PX = 864;
-
 export type PageContainerProps = {
   children: ReactNode;
   pagination: PaginationResult | null;
+  /** Paper and margin geometry resolved from the document's page setup. */
+  metrics: PageMetrics;
+  headerFooter: HeaderFooterConfig;
+  documentInfo: DocumentInfo;
+  /** Pre-formatted value for the `{date}` field. */
+  fieldDate: string;
+  /** When enabled, each page gets numbered lines and rules in its margins. */
+  pleading?: PleadingSetup;
+  /** Content beside the pages (the comment rail), in the pages' coordinate space. */
+  rail?: ReactNode;
+  railWidthPx?: number;
 };
 
+/** Line numbers down the left margin between the page's rules, one per grid line of the content area. */
+function PleadingMargins(props: { metrics: PageMetrics; pleading: PleadingSetup }) {
+  const { metrics, pleading } = props;
+  const { paperWidthPx, paperHeightPx, marginLeftPx, marginRightPx, marginTopPx } = metrics;
+  const lineHeightPx = pleadingLineHeightPx(metrics, pleading);
+  const doubleRuleLeftPx = marginLeftPx - PLEADING_RULE_GAP_PX - 3;
+  return (
+    <>
+      <div
+        className="page-pleading-numbers absolute left-0"
+        style={{ top: `${marginTopPx}px`, width: `${doubleRuleLeftPx - PLEADING_RULE_GAP_PX}px` }}
+      >
+        {Array.from({ length: pleading.linesPerPage }).map((_, i) => (
+          <div key={i} style={{ height: `${lineHeightPx}px`, lineHeight: `${lineHeightPx}px` }}>
+            {i + 1}
+          </div>
+        ))}
+      </div>
+      <div
+        className="page-pleading-rule page-pleading-rule--double absolute top-0"
+        style={{ left: `${doubleRuleLeftPx}px`, height: `${paperHeightPx}px` }}
+      />
+      <div
+        className="page-pleading-rule absolute top-0"
+        style={{ left: `${paperWidthPx - marginRightPx + PLEADING_RULE_GAP_PX}px`, height: `${paperHeightPx}px` }}
+      />
+    </>
+  );
+}
+
+function MarginRow(props: { slots: MarginSlots; render: (template: string) => string }) {
+  const { slots, render } = props;
+  return (
+    <div className="grid grid-cols-3 gap-2 text-[10px] leading-tight text-gray-500">
+      <div className="truncate text-left">{render(slots.left)}</div>
+      <div className="truncate text-center">{render(slots.center)}</div>
+      <div className="truncate text-right">{render(slots.right)}</div>
+    </div>
+  );
+}
+
 export function PageContainer(props: PageContainerProps) {
-  const { children, pagination } = props;
+  const { children, pagination, metrics, headerFooter, documentInfo, fieldDate, pleading, rail, railWidthPx = 0 } =
+    props;
+  const { paperWidthPx, paperHeightPx, marginLeftPx, marginRightPx, marginTopPx, marginBottomPx, contentWidthPx } =
+    metrics;
 
-  const pageStridePx = pagination?.pageStridePx ?? (PAGE_PAPER_HEIGHT_PX + PAGE_GAP_PX);
+  const pageStridePx = pagination?.pageStridePx ?? (paperHeightPx + PAGE_GAP_PX);
 
   const pageCount = pagination ? Math.max(1, pagination.breaks.length + 1) : 1;
-  const overlayHeightPx = Math.max(PAGE_PAPER_HEIGHT_PX, pageCount * pageStridePx);
+  const overlayHeightPx = Math.max(paperHeightPx, pageCount * pageStridePx);
+  const shellWidthPx = rail ? paperWidthPx + PAGE_GAP_PX + railWidthPx : paperWidthPx;
 
   return (
-    <div className="page-shell mx-auto" style={{ width: `${PAGE_PAPER_WIDTH_PX}px` }}>
-      <div className="page-viewport relative" style={{ minHeight: `${PAGE_PAPER_HEIGHT_PX}px` }}>
+    <div className="page-shell mx-auto" style={{ width: `${shellWidthPx}px` }}>
+      {/* Tall enough for every page, so whatever follows (e.g. endnotes) starts below the last one. */}
+      <div className="page-viewport relative" style={{ width: `${paperWidthPx}px`, minHeight: `${overlayHeightPx}px` }}>
         <div
           className="page-overlay pointer-events-none absolute left-0 top-0"
-          style={{ width: `${PAGE_PAPER_WIDTH_PX}px`, height: `${overlayHeightPx}px` }}
+          style={{ width: `${paperWidthPx}px`, height: `${overlayHeightPx}px` }}
           aria-hidden="true"
         >
           {Array.from({ length: pageCount }).map((_, idx) => {
             const top = idx * pageStridePx;
+            const variant = resolveVariant(headerFooter, idx);
+            const render = (template: string) =>
+              renderTemplate(template, { ...documentInfo, pageNumber: idx + 1, pageCount, date: fieldDate });
             return (
               <div key={idx} className="absolute left-0" style={{ top: `${top}px` }}>
                 <div
                   className="page-paper bg-white rounded-2xl border border-gray-200 shadow-[0_1px_2px_rgba(0,0,0,0.05),0_18px_40px_rgba(0,0,0,0.10)]"
-                  style={{ width: `${PAGE_PAPER_WIDTH_PX}px`, height: `${PAGE_PAPER_HEIGHT_PX}px` }}
+                  style={{ width: `${paperWidthPx}px`, height: `${paperHeightPx}px` }}
                 />
                 <div
-                  className="page-number absolute"
+                  className="page-header absolute flex flex-col justify-center"
+                  style={{ left: `${marginLeftPx}px`, right: `${marginRightPx}px`, top: 0, height: `${marginTopPx}px` }}
+                >
+                  <MarginRow slots={variant.header} render={render} />
+                </div>
+                <div
+                  className="page-footer absolute flex flex-col justify-center"
                   style={{
-                    left: `${PAGE_MARGIN_PX}px`,
-                    right: `${PAGE_MARGIN_PX}px`,
-                    bottom: `${PAGE_MARGIN_PX / 2}px`,
+                    left: `${marginLeftPx}px`,
+                    right: `${marginRightPx}px`,
+                    top: `${paperHeightPx - marginBottomPx}px`,
+                    height: `${marginBottomPx}px`,
                   }}
                 >
-                  <div className="text-[10px] text-gray-400/90 text-right">{idx + 1}</div>
+                  <MarginRow slots={variant.footer} render={render} />
                 </div>
+                {pleading?.enabled ? <PleadingMargins metrics={metrics} pleading={pleading} /> : null}
               </div>
             );
           })}
@@ -59,15 +126,28 @@ export function PageContainer(props: PageContainerProps) {
           <PageBreakIndicator
             breaks={pagination.breaks}
             pageHeightPx={pagination.pageStridePx}
-            pageWidthPx={PAGE_PAPER_WIDTH_PX}
+            pageWidthPx={paperWidthPx}
           />
         ) : null}
 
-        <div className="page-content-padding relative z-10" style={{ paddingLeft: `${PAGE_MARGIN_PX}px`, paddingRight: `${PAGE_MARGIN_PX}px` }}>
-          <div style={{ width: `${PAGE_CONTENT_WIDTH_PX}px` }} className="page-content-column mx-auto">
+        <div className="page-content-padding relative z-10" style={{ paddingLeft: `${marginLeftPx}px`, paddingRight: `${marginRightPx}px` }}>
+          <div style={{ width: `${contentWidthPx}px` }} className="page-content-column mx-auto">
             {children}
           </div>
         </div>
+
+        {rail ? (
+          <div
+            className="comment-rail absolute top-0"
+            style={{
+              left: `${paperWidthPx + PAGE_GAP_PX}px`,
+              width: `${railWidthPx}px`,
+              height: `${overlayHeightPx}px`,
+            }}
+          >
+            {rail}
+          </div>
+        ) : null}
       </div>
     </div>
   );
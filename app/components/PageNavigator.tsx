@@ -0,0 +1,226 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import type { Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+import { getPageBreakPositions } from "@/app/extensions/Pagination";
+import type { PaginationResult } from "@/app/utils/pageCalculations";
+import type { PageMetrics } from "@/app/utils/pageSetup";
+
+export const PAGE_NAVIGATOR_WIDTH_PX = 168;
+const THUMBNAIL_WIDTH_PX = 120;
+/** Quiet time after the last layout change before thumbnails are redrawn, so typing never copies pages. */
+const REDRAW_DELAY_MS = 300;
+/** Thumbnails this far outside the list's visible area are drawn as well, ready to scroll to. */
+const OVERSCAN_PX = 240;
+
+export type PageNavigatorProps = {
+  editor: Editor;
+  pagination: PaginationResult | null;
+  metrics: PageMetrics;
+  pageCount: number;
+  /** 1-based page being read, highlighted in the list. */
+  currentPage: number;
+  onSelectPage: (page: number) => void;
+};
+
+/** What a page shows: the top-level nodes it overlaps, and where in the first and last it starts and ends. */
+type PageContent = { nodes: ProseMirrorNode[]; positions: number[]; startOffset: number; endOffset: number };
+
+function pageContent(doc: ProseMirrorNode, from: number, to: number): PageContent {
+  const nodes: ProseMirrorNode[] = [];
+  const positions: number[] = [];
+  doc.nodesBetween(from, to, (node, pos) => {
+    nodes.push(node);
+    positions.push(pos);
+    return false;
+  });
+  const last = positions.length - 1;
+  return { nodes, positions, startOffset: from - (positions[0] ?? from), endOffset: to - (positions[last] ?? to) };
+}
+
+/**
+ * Whether a page drawn from `a` looks the same drawn from `b`. Unchanged nodes keep
+ * their identity across edits, so a page is redrawn only when its own content or its
+ * breaks changed, not because an edit on an earlier page moved every position after it.
+ */
+function samePageContent(a: PageContent | undefined, b: PageContent): boolean {
+  return (
+    !!a &&
+    a.startOffset === b.startOffset &&
+    a.endOffset === b.endOffset &&
+    a.nodes.length === b.nodes.length &&
+    a.nodes.every((node, i) => node === b.nodes[i])
+  );
+}
+
+/**
+ * Fills a thumbnail with copies of the editor's top-level blocks on its page, placed as
+ * they are on screen and clipped to the paper.
+ */
+function drawThumbnail(
+  editor: Editor,
+  target: HTMLSpanElement,
+  index: number,
+  content: PageContent,
+  pageStridePx: number,
+  metrics: PageMetrics,
+) {
+  const root = editor.view.dom as HTMLElement;
+  const viewport = root.closest(".page-viewport");
+  if (!viewport) return;
+  const originTop = viewport.getBoundingClientRect().top;
+  const pageTop = index * pageStridePx;
+
+  // Same classes as the live editor, so the copies pick up its typography.
+  const paper = document.createElement("div");
+  paper.className = "editor-shell";
+  paper.style.width = `${metrics.paperWidthPx}px`;
+  paper.style.height = `${metrics.paperHeightPx}px`;
+  paper.style.transform = `scale(${THUMBNAIL_WIDTH_PX / metrics.paperWidthPx})`;
+  paper.style.transformOrigin = "top left";
+  const page = document.createElement("div");
+  page.className = root.className;
+  page.style.position = "relative";
+  page.style.marginLeft = `${metrics.marginLeftPx}px`;
+  page.style.width = `${metrics.contentWidthPx}px`;
+  paper.appendChild(page);
+
+  for (const pos of content.positions) {
+    const block = editor.view.nodeDOM(pos);
+    if (!(block instanceof HTMLElement)) continue;
+    const copy = block.cloneNode(true) as HTMLElement;
+    copy.style.position = "absolute";
+    copy.style.top = `${block.getBoundingClientRect().top - originTop - pageTop}px`;
+    copy.style.left = "0";
+    copy.style.right = "0";
+    copy.style.margin = "0";
+    page.appendChild(copy);
+  }
+  target.replaceChildren(paper);
+}
+
+/** Sidebar of live page thumbnails; clicking one scrolls to its page. */
+export function PageNavigator(props: PageNavigatorProps) {
+  const { editor, pagination, metrics, pageCount, currentPage, onSelectPage } = props;
+  const thumbnailRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const navRef = useRef<HTMLElement>(null);
+  const pageStridePx = pagination?.pageStridePx ?? 0;
+  const thumbnailHeightPx = (metrics.paperHeightPx * THUMBNAIL_WIDTH_PX) / metrics.paperWidthPx;
+  // Thumbnails near the list's visible area, by page index.
+  const visibleRef = useRef(new Set<number>());
+  // What each thumbnail was last drawn from; a new page geometry starts over.
+  const drawnRef = useRef(new WeakMap<Element, PageContent>());
+  const redrawTimeoutRef = useRef(0);
+
+  // Redraws the visible thumbnails whose page changed, once the layout has been quiet for a moment.
+  const scheduleRedraw = useCallback(() => {
+    window.clearTimeout(redrawTimeoutRef.current);
+    if (pageStridePx <= 0) return;
+    redrawTimeoutRef.current = window.setTimeout(() => {
+      if (editor.isDestroyed) return;
+      const { doc } = editor.state;
+      const breaks = getPageBreakPositions(editor.state);
+      const end = doc.content.size;
+      for (const index of visibleRef.current) {
+        const target = thumbnailRefs.current[index];
+        if (!target || index >= pageCount) continue;
+        const content = pageContent(doc, index === 0 ? 0 : (breaks[index - 1] ?? end), breaks[index] ?? end);
+        if (samePageContent(drawnRef.current.get(target), content)) continue;
+        drawThumbnail(editor, target, index, content, pageStridePx, metrics);
+        drawnRef.current.set(target, content);
+      }
+    }, REDRAW_DELAY_MS);
+  }, [editor, pageCount, pageStridePx, metrics]);
+
+  useEffect(() => {
+    drawnRef.current = new WeakMap();
+  }, [pageStridePx, metrics]);
+
+  // The editor applies new page breaks in its own effect, after this one; the delay lets
+  // those spacers settle before any page is copied.
+  useEffect(() => {
+    scheduleRedraw();
+    return () => window.clearTimeout(redrawTimeoutRef.current);
+  }, [scheduleRedraw, pagination]);
+
+  useEffect(() => {
+    const nav = navRef.current;
+    if (!nav) return;
+    const visible = visibleRef.current;
+    visible.clear();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const index = thumbnailRefs.current.indexOf(entry.target as HTMLSpanElement);
+          if (entry.isIntersecting) visible.add(index);
+          else visible.delete(index);
+        }
+        scheduleRedraw();
+      },
+      { root: nav, rootMargin: `${OVERSCAN_PX}px 0px` },
+    );
+    for (const thumbnail of thumbnailRefs.current.slice(0, pageCount)) {
+      if (thumbnail) observer.observe(thumbnail);
+    }
+    return () => observer.disconnect();
+  }, [pageCount, scheduleRedraw]);
+
+  // Keep the current page's thumbnail in view. Scrolls only the list, never the window.
+  useEffect(() => {
+    const item = itemRefs.current[currentPage - 1];
+    const nav = navRef.current;
+    if (!item || !nav) return;
+    const itemRect = item.getBoundingClientRect();
+    const navRect = nav.getBoundingClientRect();
+    if (itemRect.top < navRect.top) nav.scrollTop -= navRect.top - itemRect.top;
+    else if (itemRect.bottom > navRect.bottom) nav.scrollTop += itemRect.bottom - navRect.bottom;
+  }, [currentPage]);
+
+  return (
+    <nav
+      ref={navRef}
+      aria-label="Pages"
+      className="max-h-[calc(100vh-8rem)] overflow-y-auto rounded-2xl border border-[var(--app-border)] bg-white/70 p-3 text-sm"
+    >
+      <div className="mb-2 font-medium text-gray-900">
+        Page {currentPage} of {pageCount}
+      </div>
+      <ol className="grid justify-center gap-3">
+        {Array.from({ length: pageCount }, (_, index) => {
+          const page = index + 1;
+          const current = page === currentPage;
+          return (
+            <li key={page}>
+              <button
+                type="button"
+                ref={(el) => {
+                  itemRefs.current[index] = el;
+                }}
+                aria-current={current ? "page" : undefined}
+                aria-label={`Page ${page}`}
+                onClick={() => onSelectPage(page)}
+                className="grid justify-items-center gap-1 text-xs text-gray-600 focus:outline-none"
+              >
+                <span
+                  ref={(el) => {
+                    thumbnailRefs.current[index] = el;
+                  }}
+                  inert
+                  className={[
+                    "pointer-events-none block overflow-hidden rounded border bg-white",
+                    current ? "border-blue-500 ring-2 ring-blue-500/40" : "border-gray-200",
+                  ].join(" ")}
+                  style={{ width: `${THUMBNAIL_WIDTH_PX}px`, height: `${thumbnailHeightPx}px` }}
+                />
+                <span className={current ? "font-semibold text-gray-900" : undefined}>{page}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
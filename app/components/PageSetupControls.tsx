@@ -0,0 +1,143 @@
+"use client";
+
+import type { LengthUnit, PageMargins, PageSetup, PaperSizeId } from "@/app/utils/pageSetup";
+import { PAPER_SIZES, convertLength, roundLength } from "@/app/utils/pageSetup";
+
+export type PageSetupControlsProps = {
+  pageSetup: PageSetup;
+  disabled?: boolean;
+  onChange: (next: PageSetup) => void;
+};
+
+const fieldCls =
+  "rounded-lg border border-[var(--app-border)] bg-white/70 px-2 py-1 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500/40";
+
+const MARGIN_SIDES: { key: keyof PageMargins; label: string }[] = [
+  { key: "top", label: "T" },
+  { key: "right", label: "R" },
+  { key: "bottom", label: "B" },
+  { key: "left", label: "L" },
+];
+
+function LengthInput(props: {
+  label: string;
+  value: number;
+  unit: LengthUnit;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}) {
+  const { label, value, unit, disabled, onChange } = props;
+  return (
+    <label className="flex items-center gap-1 text-xs text-gray-500">
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={unit === "mm" ? 1 : 0.05}
+        value={roundLength(value, unit)}
+        disabled={disabled}
+        onChange={(e) => {
+          const next = e.currentTarget.valueAsNumber;
+          if (Number.isFinite(next) && next >= 0) onChange(next);
+        }}
+        className={[fieldCls, "w-16"].join(" ")}
+      />
+    </label>
+  );
+}
+
+export function PageSetupControls(props: PageSetupControlsProps) {
+  const { pageSetup, disabled = false, onChange } = props;
+  const { unit } = pageSetup;
+
+  const changeUnit = (nextUnit: LengthUnit) => {
+    const convert = (v: number) => roundLength(convertLength(v, unit, nextUnit), nextUnit);
+    onChange({
+      ...pageSetup,
+      unit: nextUnit,
+      customSize: {
+        width: convert(pageSetup.customSize.width),
+        height: convert(pageSetup.customSize.height),
+      },
+      margins: {
+        top: convert(pageSetup.margins.top),
+        right: convert(pageSetup.margins.right),
+        bottom: convert(pageSetup.margins.bottom),
+        left: convert(pageSetup.margins.left),
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        aria-label="Paper size"
+        value={pageSetup.paperSize}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...pageSetup, paperSize: e.currentTarget.value as PaperSizeId })}
+        className={fieldCls}
+      >
+        {Object.entries(PAPER_SIZES).map(([id, size]) => (
+          <option key={id} value={id}>
+            {size.label}
+          </option>
+        ))}
+        <option value="custom">Custom</option>
+      </select>
+
+      <select
+        aria-label="Orientation"
+        value={pageSetup.orientation}
+        disabled={disabled}
+        onChange={(e) =>
+          onChange({ ...pageSetup, orientation: e.currentTarget.value as PageSetup["orientation"] })
+        }
+        className={fieldCls}
+      >
+        <option value="portrait">Portrait</option>
+        <option value="landscape">Landscape</option>
+      </select>
+
+      {pageSetup.paperSize === "custom" ? (
+        <>
+          <LengthInput
+            label="W"
+            value={pageSetup.customSize.width}
+            unit={unit}
+            disabled={disabled}
+            onChange={(width) => onChange({ ...pageSetup, customSize: { ...pageSetup.customSize, width } })}
+          />
+          <LengthInput
+            label="H"
+            value={pageSetup.customSize.height}
+            unit={unit}
+            disabled={disabled}
+            onChange={(height) => onChange({ ...pageSetup, customSize: { ...pageSetup.customSize, height } })}
+          />
+        </>
+      ) : null}
+
+      {MARGIN_SIDES.map(({ key, label }) => (
+        <LengthInput
+          key={key}
+          label={label}
+          value={pageSetup.margins[key]}
+          unit={unit}
+          disabled={disabled}
+          onChange={(value) => onChange({ ...pageSetup, margins: { ...pageSetup.margins, [key]: value } })}
+        />
+      ))}
+
+      <select
+        aria-label="Units"
+        value={unit}
+        disabled={disabled}
+        onChange={(e) => changeUnit(e.currentTarget.value as LengthUnit)}
+        className={fieldCls}
+      >
+        <option value="in">in</option>
+        <option value="mm">mm</option>
+      </select>
+    </div>
+  );
+}
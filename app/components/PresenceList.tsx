@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Awareness } from "y-protocols/awareness";
+
+import type { CollaborationUser } from "@/app/utils/collaboration";
+
+export type PresenceListProps = {
+  awareness: Awareness;
+};
+
+type Participant = CollaborationUser & { clientId: number; self: boolean };
+
+function readParticipants(awareness: Awareness): Participant[] {
+  const participants: Participant[] = [];
+  awareness.getStates().forEach((state, clientId) => {
+    const user = state.user as CollaborationUser | undefined;
+    if (!user) return;
+    participants.push({ ...user, clientId, self: clientId === awareness.clientID });
+  });
+  return participants.sort((a, b) => Number(b.self) - Number(a.self) || a.name.localeCompare(b.name));
+}
+
+/** Who else has the document open, in their cursor colors. */
+export function PresenceList(props: PresenceListProps) {
+  const { awareness } = props;
+  const [participants, setParticipants] = useState<Participant[]>([]);
+
+  useEffect(() => {
+    const update = () => setParticipants(readParticipants(awareness));
+    awareness.on("change", update);
+    // The local user's state is set when the editor mounts; read whatever is there now.
+    queueMicrotask(update);
+    return () => awareness.off("change", update);
+  }, [awareness]);
+
+  return (
+    <ul className="flex flex-wrap items-center gap-2 text-xs text-gray-600" aria-label="People editing">
+      {participants.map((p) => (
+        <li
+          key={p.clientId}
+          className="flex items-center gap-1.5 rounded-full border border-[var(--app-border)] bg-white/70 px-2 py-0.5"
+        >
+          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: p.color }} aria-hidden="true" />
+          {p.self ? `${p.name} (you)` : p.name}
+        </li>
+      ))}
+    </ul>
+  );
+}
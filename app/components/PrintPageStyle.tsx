@@ -0,0 +1,34 @@
+import type { CommentPrintMode } from "@/app/utils/comments";
+import { buildPrintCommentRules } from "@/app/utils/comments";
+import type { DocumentInfo, HeaderFooterConfig } from "@/app/utils/headerFooter";
+import { buildPrintMarginBoxRules } from "@/app/utils/headerFooter";
+import type { PageMetrics, PageSetup } from "@/app/utils/pageSetup";
+import { buildPrintPageRule } from "@/app/utils/pageSetup";
+import type { PleadingSetup } from "@/app/utils/pleading";
+import { buildPrintPleadingRules } from "@/app/utils/pleading";
+
+export type PrintPageStyleProps = {
+  pageSetup: PageSetup;
+  headerFooter: HeaderFooterConfig;
+  documentInfo: DocumentInfo;
+  /** Pre-formatted value for the `{date}` field. */
+  fieldDate: string;
+  commentPrintMode: CommentPrintMode;
+  pleading: PleadingSetup;
+  metrics: PageMetrics;
+};
+
+/**
+ * Emits the print `@page` rules (size, margins, running headers/footers, pleading line
+ * numbers) for the document, plus the room margin-note comments need.
+ */
+export function PrintPageStyle(props: PrintPageStyleProps) {
+  const { pageSetup, headerFooter, documentInfo, fieldDate, commentPrintMode, pleading, metrics } = props;
+  const rules = [
+    buildPrintPageRule(pageSetup),
+    buildPrintMarginBoxRules(headerFooter, { ...documentInfo, date: fieldDate }),
+    buildPrintCommentRules(commentPrintMode),
+    buildPrintPleadingRules(pleading, metrics),
+  ].join("\n");
+  return <style>{`@media print {\n${rules}\n}`}</style>;
+}
@@ -1,86 +1,322 @@
 "use client";
 
-import { useEffect, useMemo, useRef } from "react";
-import { EditorContent, useEditor } from "@tiptap/react";
-import StarterKit from "@tiptap/starter-kit";
+import { useCallback, useMemo, useState } from "react";
+import type { CSSProperties } from "react";
+import type { JSONContent } from "@tiptap/core";
+import { EditorContent, useEditor, useEditorState } from "@tiptap/react";
 import Placeholder from "@tiptap/extension-placeholder";
 
-import { PageContainer, PAGE_CONTENT_HEIGHT_PX, PAGE_PAPER_WIDTH_PX, PAGE_GAP_PX, PAGE_MARGIN_PX } from "@/app/components/PageContainer";
+import { ClauseLibraryPanel } from "@/app/components/ClauseLibraryPanel";
+import { CommentEndnotes } from "@/app/components/CommentEndnotes";
+import { COMMENT_RAIL_WIDTH_PX, CommentRail } from "@/app/components/CommentRail";
+import { DefinedTermsPanel } from "@/app/components/DefinedTermsPanel";
+import { DiffViewer } from "@/app/components/DiffViewer";
+import { Endnotes } from "@/app/components/Endnotes";
+import { HeaderFooterPanel } from "@/app/components/HeaderFooterPanel";
+import { MergeFieldsPanel } from "@/app/components/MergeFieldsPanel";
+import { PAGE_GAP_PX, PageContainer } from "@/app/components/PageContainer";
+import { PAGE_NAVIGATOR_WIDTH_PX, PageNavigator } from "@/app/components/PageNavigator";
+import { PrintPageStyle } from "@/app/components/PrintPageStyle";
 import { Toolbar } from "@/app/components/Toolbar";
-import { usePagination } from "@/app/hooks/usePagination";
-import type { PageBreakAnchor } from "@/app/utils/pageCalculations";
+import type { VersionComparison } from "@/app/components/VersionHistoryPanel";
+import { VersionHistoryPanel } from "@/app/components/VersionHistoryPanel";
+import { useAutosave } from "@/app/hooks/useAutosave";
+import { useEditorPagination } from "@/app/hooks/useEditorPagination";
+import { usePageNavigation } from "@/app/hooks/usePageNavigation";
+import { usePageVirtualization } from "@/app/hooks/usePageVirtualization";
+import { hasAuthorName, setAuthorName } from "@/app/utils/author";
+import type { CollaborationSession } from "@/app/utils/collaboration";
+import {
+  CROSS_REFERENCE_FORMATS,
+  collectClauses,
+  normalizeClauseNumbering,
+  normalizeCrossReferenceFormat,
+} from "@/app/utils/clauses";
+import { normalizeComments } from "@/app/utils/comments";
+import { createStoredTemplate } from "@/app/utils/documentApi";
+import { DOCX_MIME_TYPE, exportDocx, importDocx } from "@/app/utils/docx";
+import { downloadBlob, fileNameFromDisposition, toFileName } from "@/app/utils/download";
+import { normalizeNotePlacement } from "@/app/utils/footnotes";
+import { formatLongDate } from "@/app/utils/formatHelpers";
+import { normalizeDocumentInfo, normalizeHeaderFooter } from "@/app/utils/headerFooter";
+import { collectMergeFields, normalizeMergeFieldValues } from "@/app/utils/mergeFields";
+import { normalizePageSetup, resolvePageMetrics } from "@/app/utils/pageSetup";
+import { PLEADING_PAGINATION, normalizePleading, pleadingLineHeightPx } from "@/app/utils/pleading";
+import type { SignatureField } from "@/app/utils/signatureBlocks";
+import {
+  EMPTY_SIGNATURE_BLOCK,
+  normalizeSignatureBlock,
+  normalizeSignatureFieldKind,
+} from "@/app/utils/signatureBlocks";
+import { NEW_DOCUMENT_CONTENT, collaborativeDocumentExtensions, documentExtensions } from "@/app/extensions";
+import { selectedCrossReference } from "@/app/extensions/Clauses";
+import { Collaboration } from "@/app/extensions/Collaboration";
+import { DefinedTerms } from "@/app/extensions/DefinedTerms";
+import { selectedFootnote } from "@/app/extensions/Footnotes";
 import { Pagination } from "@/app/extensions/Pagination";
+import { selectedSignatureBlock } from "@/app/extensions/SignatureBlocks";
+import { isSuggesting } from "@/app/extensions/TrackChanges";
 
-export function TiptapEditor() {
+export type TiptapEditorProps = {
+  /** Stored document the editor autosaves to. */
+  documentId: string;
+  /** Saved editor JSON; null for a document that has never been saved. */
+  initialContent: JSONContent | null;
+  /**
+   * Shared document to edit together with others. The content then comes from the
+   * session and `initialContent` is ignored.
+   */
+  collaboration?: CollaborationSession | null;
+};
+
+export function TiptapEditor(props: TiptapEditorProps) {
+  const { documentId, initialContent, collaboration = null } = props;
   const editor = useEditor({
     extensions: [
-      StarterKit,
+      ...(collaboration
+        ? [
+            ...collaborativeDocumentExtensions,
+            Collaboration.configure({
+              ydoc: collaboration.ydoc,
+              awareness: collaboration.provider.awareness,
+              user: collaboration.user,
+            }),
+          ]
+        : documentExtensions),
       Pagination,
+      DefinedTerms,
       Placeholder.configure({
         placeholder: "Start typing your legal document...",
       }),
     ],
-    content: `
-      <h1>Legal Document</h1>
-      <p>Start drafting here...</p>
-    `,
+    content: collaboration ? null : (initialContent ?? NEW_DOCUMENT_CONTENT),
     immediatelyRender: false,
   });
 
-  // The actual measurement root is the ProseMirror content element.
-  // TipTap exposes it as `editor.view.dom`.
-  const rootEl = editor?.view?.dom as HTMLElement | null;
+  // Document settings are stored on the doc node, so they change with edits, undo and loads.
+  const docAttrs = useEditorState({
+    editor,
+    selector: ({ editor: e }) => e?.state.doc.attrs ?? null,
+  });
+  const suggesting = useEditorState({
+    editor,
+    selector: ({ editor: e }) => (e ? isSuggesting(e.state) : false),
+  });
+  const pageSetup = useMemo(() => normalizePageSetup(docAttrs?.pageSetup), [docAttrs]);
+  const headerFooter = useMemo(() => normalizeHeaderFooter(docAttrs?.headerFooter), [docAttrs]);
+  const documentInfo = useMemo(() => normalizeDocumentInfo(docAttrs?.documentInfo), [docAttrs]);
+  const comments = useMemo(() => normalizeComments(docAttrs?.comments), [docAttrs]);
+  const notePlacement = normalizeNotePlacement(docAttrs?.notePlacement);
+  const clauseNumbering = normalizeClauseNumbering(docAttrs?.clauseNumbering);
+  const mergeFieldValues = useMemo(() => normalizeMergeFieldValues(docAttrs?.mergeFieldValues), [docAttrs]);
+  const metrics = useMemo(() => resolvePageMetrics(pageSetup), [pageSetup]);
+  const pleading = useMemo(() => normalizePleading(docAttrs?.pleading), [docAttrs]);
+  const fieldDate = useMemo(() => formatLongDate(new Date()), []);
 
-  const pagination = usePagination(rootEl, editor, {
-    pageHeightPx: PAGE_CONTENT_HEIGHT_PX,
-    topMarginPx: PAGE_MARGIN_PX,
-    bottomMarginPx: PAGE_MARGIN_PX,
-    pageGapPx: PAGE_GAP_PX,
-    debounceMs: 50,
+  const [headerFooterOpen, setHeaderFooterOpen] = useState(false);
+  const [mergeFieldsOpen, setMergeFieldsOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [clauseLibraryOpen, setClauseLibraryOpen] = useState(false);
+  const [definedTermsOpen, setDefinedTermsOpen] = useState(false);
+  const [pagesOpen, setPagesOpen] = useState(false);
+  const [lazyPages, setLazyPages] = useState(false);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const autosave = useAutosave(editor, documentId);
+  // Walks the whole doc, so only while the panel that lists them is open.
+  const mergeFields = useEditorState({
+    editor,
+    selector: ({ editor: e }) => (e && mergeFieldsOpen ? collectMergeFields(e.state.doc) : []),
   });
 
-  const lastBreakPositionsRef = useRef<string>("__init__");
+  const { pagination, appliedBreaksRef, appliedLastPageRef } = useEditorPagination(
+    editor,
+    metrics,
+    pleading.enabled ? PLEADING_PAGINATION : undefined,
+  );
+  const { pageCount, currentPage, goToPage } = usePageNavigation(editor, pagination);
+  const offscreenRules = usePageVirtualization(editor, pagination, lazyPages);
 
-  const anchorsToDocPositions = useMemo(() => {
-    return (anchors: PageBreakAnchor[]): number[] => {
-      if (!editor?.view) return [];
+  // Posts the doc, paginated as on screen, to a PDF export route.
+  const postForPdf = useCallback(
+    async (url: string) => {
+      if (!editor) throw new Error("The editor is not ready.");
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          doc: editor.getJSON(),
+          breaks: appliedBreaksRef.current.map((b) => b.pos),
+          footnoteIds: [...appliedBreaksRef.current.map((b) => b.footnoteIds), appliedLastPageRef.current.footnoteIds],
+          fieldDate,
+        }),
+      });
+      if (!res.ok) {
+        const body = (await res.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(body?.error ?? `HTTP ${res.status}`);
+      }
+      return res;
+    },
+    [editor, fieldDate, appliedBreaksRef, appliedLastPageRef],
+  );
 
-      const positions: number[] = [];
+  const exportPdf = useCallback(async () => {
+    try {
+      const res = await postForPdf("/api/export/pdf");
+      const fileName = fileNameFromDisposition(res.headers.get("Content-Disposition"), "document.pdf");
+      downloadBlob(await res.blob(), fileName);
+    } catch (err) {
+      console.error(err);
+      window.alert(`PDF export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [postForPdf]);
 
-      for (const a of anchors) {
-        try {
-          const pos =
-            a.kind === "text-offset"
-              ? editor.view.posAtDOM(a.textNode, a.offset)
-              : editor.view.posAtDOM(a.element, 0);
-          positions.push(pos);
-        } catch {
-          // Ignore anchors that cannot be mapped.
-        }
+  const exportSignatureFields = useCallback(async () => {
+    try {
+      const res = await postForPdf("/api/export/signature-fields");
+      const { fields } = (await res.json()) as { fields: SignatureField[] };
+      if (fields.length === 0) {
+        window.alert("Add a signature block to place signature fields.");
+        return;
       }
+      const json = JSON.stringify({ fields }, null, 2);
+      downloadBlob(new Blob([json], { type: "application/json" }), toFileName(documentInfo.title, "fields.json"));
+    } catch (err) {
+      console.error(err);
+      window.alert(`Signature field export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [postForPdf, documentInfo.title]);
+
+  const importDocxFile = useCallback(
+    async (file: File) => {
+      if (!editor) return;
+      try {
+        const json = await importDocx(await file.arrayBuffer());
+        editor.chain().loadDocument(json).focus("start").run();
+      } catch (err) {
+        console.error(err);
+        window.alert(`DOCX import failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    },
+    [editor],
+  );
+
+  const exportDocxFile = useCallback(async () => {
+    if (!editor) return;
+    try {
+      const bytes = await exportDocx(editor.getJSON());
+      downloadBlob(new Blob([bytes as BlobPart], { type: DOCX_MIME_TYPE }), toFileName(documentInfo.title, "docx"));
+    } catch (err) {
+      console.error(err);
+      window.alert(`DOCX export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [editor, documentInfo]);
 
-      // Sort + dedupe to keep decoration updates stable.
-      positions.sort((x, y) => x - y);
-      return positions.filter((p, i) => i === 0 || p !== positions[i - 1]);
-    };
+  const toggleSuggesting = useCallback(() => {
+    if (!editor) return;
+    // Changes are attributed to a name, so ask for one the first time suggesting is turned on.
+    if (!suggesting && !hasAuthorName()) {
+      const name = window.prompt("Your name, shown on your suggested changes:");
+      if (name?.trim()) setAuthorName(name);
+    }
+    editor.chain().focus().setSuggesting(!suggesting).run();
+  }, [editor, suggesting]);
+
+  const addComment = useCallback(() => {
+    if (!editor) return;
+    if (editor.state.selection.empty) {
+      window.alert("Select the text you want to comment on.");
+      return;
+    }
+    const text = window.prompt("Comment:");
+    if (!text?.trim()) return;
+    if (!hasAuthorName()) {
+      const name = window.prompt("Your name, shown on your comments:");
+      if (name?.trim()) setAuthorName(name);
+    }
+    editor.chain().focus().addComment(text).run();
+  }, [editor]);
+
+  const footnote = useCallback(() => {
+    if (!editor) return;
+    const selected = selectedFootnote(editor.state);
+    const text = window.prompt(selected ? "Edit note:" : "Note:", selected?.text ?? "");
+    if (!text?.trim()) return;
+    if (selected) editor.chain().focus().updateFootnote(selected.id, text).run();
+    else editor.chain().focus().insertFootnote(text).run();
   }, [editor]);
 
-  useEffect(() => {
+  const crossReference = useCallback(() => {
     if (!editor) return;
+    const selected = selectedCrossReference(editor.state.selection);
+    if (selected) {
+      // Each click moves to the next format: number, page, number and page.
+      const current = CROSS_REFERENCE_FORMATS.indexOf(normalizeCrossReferenceFormat(selected.attrs.format));
+      const next = CROSS_REFERENCE_FORMATS[(current + 1) % CROSS_REFERENCE_FORMATS.length];
+      editor.chain().focus().setCrossReferenceFormat(next).run();
+      return;
+    }
+    const clauses = collectClauses(editor.state.doc);
+    if (clauses.length === 0) {
+      window.alert("Add a clause to refer to first.");
+      return;
+    }
+    const answer = window.prompt("Refer to clause (e.g. 4.2):");
+    if (!answer?.trim()) return;
+    const wanted = answer.trim().replace(/^section\s+/i, "").replace(/\.$/, "");
+    const target = clauses.find((c) => c.reference === wanted);
+    if (!target) {
+      window.alert(`There is no clause ${wanted}.`);
+      return;
+    }
+    editor.chain().focus().insertCrossReference(target.id).run();
+  }, [editor]);
 
-    // Always keep the top spacer active so the first page has a true top margin.
-    // Between pages we need: bottom margin + gap + next page top margin.
-    const betweenSpacerPx = PAGE_MARGIN_PX + PAGE_GAP_PX + PAGE_MARGIN_PX;
+  const signatureBlock = useCallback(() => {
+    if (!editor) return;
+    const selected = selectedSignatureBlock(editor.state.selection);
+    const current = selected ? normalizeSignatureBlock(selected.attrs) : EMPTY_SIGNATURE_BLOCK;
+    const party = window.prompt("Party signing, e.g. ACME CORPORATION:", current.party);
+    if (party === null) return;
+    const name = window.prompt("Signatory's name:", current.name);
+    if (name === null) return;
+    const title = window.prompt("Signatory's title (optional):", current.title);
+    if (title === null) return;
+    const date = window.prompt("Date (leave blank to date it at signing):", current.date);
+    if (date === null) return;
+    const field = window.prompt("Line for a signature or initials?", current.field);
+    if (field === null) return;
+    const block = { party, name, title, date, field: normalizeSignatureFieldKind(field.trim().toLowerCase()) };
+    if (selected) editor.chain().focus().updateSignatureBlock(block).run();
+    else editor.chain().focus().insertSignatureBlock(block).run();
+  }, [editor]);
 
-    const anchors = pagination?.breaks ?? [];
-    const positions = anchorsToDocPositions(anchors);
-    const key = positions.join(",");
+  const promptGoToPage = useCallback(() => {
+    const answer = window.prompt(`Go to page (1–${pageCount}):`, String(currentPage));
+    if (!answer?.trim()) return;
+    const page = Number(answer.trim());
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      window.alert(`Enter a page number from 1 to ${pageCount}.`);
+      return;
+    }
+    goToPage(page);
+  }, [pageCount, currentPage, goToPage]);
 
-    if (key === lastBreakPositionsRef.current) return;
-    lastBreakPositionsRef.current = key;
+  const saveAsTemplate = useCallback(async () => {
+    if (!editor) return;
+    const name = window.prompt("Template name:", documentInfo.title);
+    if (!name?.trim()) return;
+    try {
+      const template = await createStoredTemplate({ name, content: editor.getJSON() });
+      window.alert(`Saved template “${template.name}”.`);
+    } catch (err) {
+      console.error(err);
+      window.alert(`Saving the template failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [editor, documentInfo.title]);
 
-    editor.commands.setPaginationBreaks(positions, PAGE_MARGIN_PX, betweenSpacerPx, PAGE_MARGIN_PX);
-  }, [editor, pagination, anchorsToDocPositions]);
+  // The rail stays up while any thread exists, so resolved ones can still be shown.
+  const showCommentRail = Object.keys(comments.threads).length > 0;
+  const railWidthPx = showCommentRail ? COMMENT_RAIL_WIDTH_PX : 0;
 
   const editorClassName = useMemo(() => {
     // Keep the editor's width pinned to the page content width.
@@ -96,15 +332,153 @@ export function TiptapEditor() {
   return (
     <div className="w-full">
       <div className="mx-auto w-full">
-        <Toolbar editor={editor} />
-        <div className="overflow-x-auto pb-6">
-          <div className="mx-auto" style={{ width: `${PAGE_PAPER_WIDTH_PX}px` }}>
-            <PageContainer pagination={pagination}>
-              <div className="editor-shell relative">
-                <EditorContent editor={editor} className={editorClassName} />
+        <PrintPageStyle
+          pageSetup={pageSetup}
+          headerFooter={headerFooter}
+          documentInfo={documentInfo}
+          fieldDate={fieldDate}
+          commentPrintMode={comments.printMode}
+          pleading={pleading}
+          metrics={metrics}
+        />
+        {offscreenRules ? <style>{offscreenRules}</style> : null}
+        <Toolbar
+          editor={editor}
+          pageSetup={pageSetup}
+          pleading={pleading}
+          suggesting={!!suggesting}
+          onToggleSuggesting={toggleSuggesting}
+          saveStatus={autosave.status}
+          onRetrySave={autosave.saveNow}
+          onAddComment={addComment}
+          commentPrintMode={comments.printMode}
+          onChangeCommentPrintMode={(mode) => editor?.commands.setCommentPrintMode(mode)}
+          onFootnote={footnote}
+          notePlacement={notePlacement}
+          onChangeNotePlacement={(placement) => editor?.commands.setNotePlacement(placement)}
+          onCrossReference={crossReference}
+          clauseNumbering={clauseNumbering}
+          onChangeClauseNumbering={(scheme) => editor?.commands.setClauseNumbering(scheme)}
+          clauseLibraryOpen={clauseLibraryOpen}
+          onToggleClauseLibrary={() => setClauseLibraryOpen((open) => !open)}
+          definedTermsOpen={definedTermsOpen}
+          onToggleDefinedTerms={() => setDefinedTermsOpen((open) => !open)}
+          onSignatureBlock={signatureBlock}
+          headerFooterOpen={headerFooterOpen}
+          onToggleHeaderFooter={() => setHeaderFooterOpen((open) => !open)}
+          mergeFieldsOpen={mergeFieldsOpen}
+          onToggleMergeFields={() => setMergeFieldsOpen((open) => !open)}
+          historyOpen={historyOpen}
+          onToggleHistory={() => {
+            setHistoryOpen((open) => !open);
+            setComparison(null);
+          }}
+          pagesOpen={pagesOpen}
+          onTogglePages={() => setPagesOpen((open) => !open)}
+          lazyPages={lazyPages}
+          onToggleLazyPages={() => setLazyPages((on) => !on)}
+          onGoToPage={promptGoToPage}
+          onExportPdf={exportPdf}
+          onExportSignatureFields={exportSignatureFields}
+          onImportDocx={importDocxFile}
+          onExportDocx={exportDocxFile}
+        />
+        {headerFooterOpen && editor ? (
+          <HeaderFooterPanel
+            headerFooter={headerFooter}
+            documentInfo={documentInfo}
+            onChangeHeaderFooter={(next) => editor.commands.setHeaderFooter(next)}
+            onChangeDocumentInfo={(next) => editor.commands.setDocumentInfo(next)}
+          />
+        ) : null}
+        {mergeFieldsOpen && editor ? (
+          <MergeFieldsPanel
+            fields={mergeFields ?? []}
+            values={mergeFieldValues}
+            onChangeValues={(next) => editor.commands.setMergeFieldValues(next)}
+            onInsertField={(name, type) => editor.chain().focus().insertMergeField(name, type).run()}
+            onSaveTemplate={() => void saveAsTemplate()}
+          />
+        ) : null}
+        <div className="flex items-start gap-4">
+          {pagesOpen && editor ? (
+            <aside className="page-navigator sticky top-24 shrink-0" style={{ width: `${PAGE_NAVIGATOR_WIDTH_PX}px` }}>
+              <PageNavigator
+                editor={editor}
+                pagination={pagination}
+                metrics={metrics}
+                pageCount={pageCount}
+                currentPage={currentPage}
+                onSelectPage={goToPage}
+              />
+            </aside>
+          ) : null}
+          <div className="min-w-0 flex-1 overflow-x-auto pb-6">
+            {comparison ? (
+              <div className="mb-3 text-center text-sm text-gray-600">
+                Showing changes: {comparison.label}
               </div>
-            </PageContainer>
+            ) : null}
+            {comparison ? (
+              <DiffViewer before={comparison.before} after={comparison.after} fieldDate={fieldDate} />
+            ) : null}
+            {/* Hidden rather than unmounted while comparing, so the live editor keeps its view. */}
+            <div
+              className={comparison ? "hidden" : "mx-auto"}
+              style={{ width: `${metrics.paperWidthPx + (showCommentRail ? PAGE_GAP_PX + railWidthPx : 0)}px` }}
+            >
+              <PageContainer
+                pagination={pagination}
+                metrics={metrics}
+                headerFooter={headerFooter}
+                documentInfo={documentInfo}
+                fieldDate={fieldDate}
+                pleading={pleading}
+                rail={
+                  showCommentRail && editor ? (
+                    <CommentRail editor={editor} pagination={pagination} comments={comments} />
+                  ) : null
+                }
+                railWidthPx={railWidthPx}
+              >
+                <div
+                  className={pleading.enabled ? "editor-shell is-pleading relative" : "editor-shell relative"}
+                  style={
+                    pleading.enabled
+                      ? ({ "--pm-pleading-line": `${pleadingLineHeightPx(metrics, pleading)}px` } as CSSProperties)
+                      : undefined
+                  }
+                  data-virtualized={lazyPages ? "" : undefined}
+                >
+                  <EditorContent editor={editor} className={editorClassName} />
+                </div>
+              </PageContainer>
+              {notePlacement === "endnotes" && editor ? <Endnotes editor={editor} metrics={metrics} /> : null}
+              {comments.printMode === "endnotes" && editor ? (
+                <CommentEndnotes editor={editor} comments={comments} />
+              ) : null}
+            </div>
           </div>
+          {definedTermsOpen && editor ? (
+            <aside className="sticky top-24 w-64 shrink-0">
+              <DefinedTermsPanel editor={editor} />
+            </aside>
+          ) : null}
+          {clauseLibraryOpen && editor ? (
+            <aside className="sticky top-24 w-72 shrink-0">
+              <ClauseLibraryPanel editor={editor} />
+            </aside>
+          ) : null}
+          {historyOpen && editor ? (
+            <aside className="sticky top-24 w-72 shrink-0">
+              <VersionHistoryPanel
+                documentId={documentId}
+                editor={editor}
+                comparison={comparison}
+                onCompare={setComparison}
+              />
+            </aside>
+          ) : null}
         </div>
       </div>
     </div>
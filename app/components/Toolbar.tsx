@@ -1,9 +1,71 @@
 "use client";
 
+import { useRef } from "react";
 import type { Editor } from "@tiptap/core";
 
+import { PageSetupControls } from "@/app/components/PageSetupControls";
+import type { SaveStatus } from "@/app/hooks/useAutosave";
+import type { ClauseNumberingScheme } from "@/app/utils/clauses";
+import { CLAUSE_NUMBERING_SCHEMES } from "@/app/utils/clauses";
+import type { CommentPrintMode } from "@/app/utils/comments";
+import { COMMENT_PRINT_MODES } from "@/app/utils/comments";
+import type { NotePlacement } from "@/app/utils/footnotes";
+import { NOTE_PLACEMENTS } from "@/app/utils/footnotes";
+import type { PageSetup } from "@/app/utils/pageSetup";
+import type { PleadingSetup } from "@/app/utils/pleading";
+import { PLEADING_LINE_COUNTS } from "@/app/utils/pleading";
+
 export type ToolbarProps = {
   editor: Editor | null;
+  pageSetup: PageSetup;
+  /** Pleading paper: numbered lines on a fixed grid. */
+  pleading: PleadingSetup;
+  /** Whether suggesting (track changes) mode is on. */
+  suggesting: boolean;
+  onToggleSuggesting: () => void;
+  saveStatus: SaveStatus;
+  onRetrySave: () => void;
+  /** Starts a comment thread on the selection. */
+  onAddComment: () => void;
+  /** How open comments appear in print and PDF output. */
+  commentPrintMode: CommentPrintMode;
+  onChangeCommentPrintMode: (mode: CommentPrintMode) => void;
+  /** Inserts a footnote, or edits the selected one. */
+  onFootnote: () => void;
+  notePlacement: NotePlacement;
+  onChangeNotePlacement: (placement: NotePlacement) => void;
+  /** Inserts a cross-reference to a clause, or changes the selected one's format. */
+  onCrossReference: () => void;
+  clauseNumbering: ClauseNumberingScheme;
+  onChangeClauseNumbering: (scheme: ClauseNumberingScheme) => void;
+  /** Whether the clause library sidebar is shown. */
+  clauseLibraryOpen: boolean;
+  onToggleClauseLibrary: () => void;
+  /** Whether the defined terms sidebar, and its checking, is on. */
+  definedTermsOpen: boolean;
+  onToggleDefinedTerms: () => void;
+  /** Inserts a signature block, or edits the selected one. */
+  onSignatureBlock: () => void;
+  headerFooterOpen: boolean;
+  onToggleHeaderFooter: () => void;
+  /** Whether the merge fields panel is shown. */
+  mergeFieldsOpen: boolean;
+  onToggleMergeFields: () => void;
+  historyOpen: boolean;
+  onToggleHistory: () => void;
+  /** Whether the page thumbnails sidebar is shown. */
+  pagesOpen: boolean;
+  onTogglePages: () => void;
+  /** Whether pages far from the window skip rendering. */
+  lazyPages: boolean;
+  onToggleLazyPages: () => void;
+  /** Asks for a page number and scrolls to it. */
+  onGoToPage: () => void;
+  onExportPdf: () => void;
+  /** Downloads where the exported PDF's signature fields are, for an e-signature service. */
+  onExportSignatureFields: () => void;
+  onImportDocx: (file: File) => void;
+  onExportDocx: () => void;
 };
 
 function ToolbarButton(props: {
@@ -34,6 +96,9 @@ function ToolbarButton(props: {
   );
 }
 
+const selectCls =
+  "rounded-lg border border-[var(--app-border)] bg-white/70 px-2 py-1 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500/40";
+
 function ToolbarGroup(props: { children: React.ReactNode }) {
   return (
     <div className="flex items-center gap-2 rounded-xl border border-[var(--app-border)] bg-white/60 p-1">
@@ -42,8 +107,71 @@ function ToolbarGroup(props: { children: React.ReactNode }) {
   );
 }
 
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  saved: "Saved",
+  unsaved: "Unsaved changes",
+  saving: "Saving…",
+  failed: "Save failed — retry",
+};
+
+function SaveIndicator(props: { status: SaveStatus; onRetry: () => void }) {
+  const { status, onRetry } = props;
+  const label = SAVE_STATUS_LABELS[status];
+
+  if (status === "failed") {
+    return (
+      <button type="button" onClick={onRetry} className="text-xs font-medium text-red-600 hover:underline">
+        {label}
+      </button>
+    );
+  }
+  return (
+    <span role="status" className="text-xs text-gray-500">
+      {label}
+    </span>
+  );
+}
+
 export function Toolbar(props: ToolbarProps) {
-  const { editor } = props;
+  const {
+    editor,
+    pageSetup,
+    pleading,
+    suggesting,
+    onToggleSuggesting,
+    saveStatus,
+    onRetrySave,
+    onAddComment,
+    commentPrintMode,
+    onChangeCommentPrintMode,
+    onFootnote,
+    notePlacement,
+    onChangeNotePlacement,
+    onCrossReference,
+    clauseNumbering,
+    onChangeClauseNumbering,
+    clauseLibraryOpen,
+    onToggleClauseLibrary,
+    definedTermsOpen,
+    onToggleDefinedTerms,
+    onSignatureBlock,
+    headerFooterOpen,
+    onToggleHeaderFooter,
+    mergeFieldsOpen,
+    onToggleMergeFields,
+    historyOpen,
+    onToggleHistory,
+    pagesOpen,
+    onTogglePages,
+    lazyPages,
+    onToggleLazyPages,
+    onGoToPage,
+    onExportPdf,
+    onExportSignatureFields,
+    onImportDocx,
+    onExportDocx,
+  } = props;
+  const docxInputRef = useRef<HTMLInputElement>(null);
 
   return (
     <div className="toolbar sticky top-3 z-20 mb-4 flex flex-wrap items-center gap-3 rounded-2xl border bg-white/70 p-3 shadow-sm backdrop-blur">
@@ -93,12 +221,208 @@ export function Toolbar(props: ToolbarProps) {
           active={!!editor?.isActive("bulletList")}
           onClick={() => editor?.chain().focus().toggleBulletList().run()}
         />
+        <ToolbarButton
+          label="Page Break"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().setPageBreak().run()}
+        />
+        <ToolbarButton
+          label="Contents"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().insertTableOfContents().run()}
+        />
+      </ToolbarGroup>
+
+      <ToolbarGroup>
+        <ToolbarButton
+          label="Table"
+          disabled={!editor}
+          active={!!editor?.isActive("table")}
+          onClick={() => editor?.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()}
+        />
+        <ToolbarButton
+          label="+ Row"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().addRowAfter().run()}
+        />
+        <ToolbarButton
+          label="+ Col"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().addColumnAfter().run()}
+        />
+        <ToolbarButton
+          label="− Row"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().deleteRow().run()}
+        />
+        <ToolbarButton
+          label="− Col"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().deleteColumn().run()}
+        />
+        <ToolbarButton
+          label="Header Row"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().toggleHeaderRow().run()}
+        />
+        <ToolbarButton
+          label="Delete Table"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().deleteTable().run()}
+        />
+      </ToolbarGroup>
+
+      <ToolbarGroup>
+        <ToolbarButton
+          label="Clause"
+          disabled={!editor}
+          active={!!editor?.isActive("clause")}
+          onClick={() => editor?.chain().focus().insertClause().run()}
+        />
+        <ToolbarButton label="Cross-ref" disabled={!editor} onClick={onCrossReference} />
+        <select
+          aria-label="Clause numbering"
+          value={clauseNumbering}
+          disabled={!editor}
+          onChange={(e) => onChangeClauseNumbering(e.currentTarget.value as ClauseNumberingScheme)}
+          className={selectCls}
+        >
+          {CLAUSE_NUMBERING_SCHEMES.map((scheme) => (
+            <option key={scheme.id} value={scheme.id}>
+              {scheme.label}
+            </option>
+          ))}
+        </select>
+        <ToolbarButton label="Library" disabled={!editor} active={clauseLibraryOpen} onClick={onToggleClauseLibrary} />
+        <ToolbarButton label="Terms" disabled={!editor} active={definedTermsOpen} onClick={onToggleDefinedTerms} />
+        <ToolbarButton label="Signature" disabled={!editor} onClick={onSignatureBlock} />
+      </ToolbarGroup>
+
+      <ToolbarGroup>
+        <ToolbarButton label="Suggest" disabled={!editor} active={suggesting} onClick={onToggleSuggesting} />
+        <ToolbarButton
+          label="Accept"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().acceptChange().run()}
+        />
+        <ToolbarButton
+          label="Reject"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().rejectChange().run()}
+        />
+        <ToolbarButton
+          label="Accept All"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().acceptAllChanges().run()}
+        />
+        <ToolbarButton
+          label="Reject All"
+          disabled={!editor}
+          onClick={() => editor?.chain().focus().rejectAllChanges().run()}
+        />
+      </ToolbarGroup>
+
+      <ToolbarGroup>
+        <ToolbarButton label="Comment" disabled={!editor} onClick={onAddComment} />
+        <select
+          aria-label="Comments in print and PDF"
+          value={commentPrintMode}
+          disabled={!editor}
+          onChange={(e) => onChangeCommentPrintMode(e.currentTarget.value as CommentPrintMode)}
+          className={selectCls}
+        >
+          {COMMENT_PRINT_MODES.map((mode) => (
+            <option key={mode.id} value={mode.id}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </ToolbarGroup>
+
+      <ToolbarGroup>
+        <ToolbarButton label="Footnote" disabled={!editor} onClick={onFootnote} />
+        <select
+          aria-label="Note placement"
+          value={notePlacement}
+          disabled={!editor}
+          onChange={(e) => onChangeNotePlacement(e.currentTarget.value as NotePlacement)}
+          className={selectCls}
+        >
+          {NOTE_PLACEMENTS.map((placement) => (
+            <option key={placement.id} value={placement.id}>
+              {placement.label}
+            </option>
+          ))}
+        </select>
+      </ToolbarGroup>
+
+      <ToolbarGroup>
+        <PageSetupControls
+          pageSetup={pageSetup}
+          disabled={!editor}
+          onChange={(next) => editor?.chain().setPageSetup(next).run()}
+        />
+        <ToolbarButton
+          label="Pleading"
+          disabled={!editor}
+          active={pleading.enabled}
+          onClick={() => editor?.chain().setPleading({ ...pleading, enabled: !pleading.enabled }).run()}
+        />
+        {pleading.enabled ? (
+          <select
+            aria-label="Lines per page"
+            value={pleading.linesPerPage}
+            disabled={!editor}
+            onChange={(e) =>
+              editor?.chain().setPleading({ ...pleading, linesPerPage: Number(e.currentTarget.value) }).run()
+            }
+            className={selectCls}
+          >
+            {PLEADING_LINE_COUNTS.map((count) => (
+              <option key={count} value={count}>
+                {count} lines
+              </option>
+            ))}
+          </select>
+        ) : null}
+        <ToolbarButton
+          label="Header/Footer"
+          disabled={!editor}
+          active={headerFooterOpen}
+          onClick={onToggleHeaderFooter}
+        />
+        <ToolbarButton label="Fields" disabled={!editor} active={mergeFieldsOpen} onClick={onToggleMergeFields} />
+        <ToolbarButton label="History" disabled={!editor} active={historyOpen} onClick={onToggleHistory} />
+      </ToolbarGroup>
+
+      <ToolbarGroup>
+        <ToolbarButton label="Pages" disabled={!editor} active={pagesOpen} onClick={onTogglePages} />
+        <ToolbarButton label="Go to Page" disabled={!editor} onClick={onGoToPage} />
+        <ToolbarButton label="Lazy Pages" disabled={!editor} active={lazyPages} onClick={onToggleLazyPages} />
       </ToolbarGroup>
 
       <div className="flex-1" />
 
+      <SaveIndicator status={saveStatus} onRetry={onRetrySave} />
+
       <ToolbarGroup>
         <ToolbarButton label="Print" disabled={!editor} onClick={() => window.print()} />
+        <ToolbarButton label="Export PDF" disabled={!editor} onClick={onExportPdf} />
+        <ToolbarButton label="Signing Fields" disabled={!editor} onClick={onExportSignatureFields} />
+        <ToolbarButton label="Import DOCX" disabled={!editor} onClick={() => docxInputRef.current?.click()} />
+        <ToolbarButton label="Export DOCX" disabled={!editor} onClick={onExportDocx} />
+        <input
+          ref={docxInputRef}
+          type="file"
+          accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.currentTarget.files?.[0];
+            // Reset so picking the same file again still fires a change.
+            e.currentTarget.value = "";
+            if (file) onImportDocx(file);
+          }}
+        />
       </ToolbarGroup>
     </div>
   );
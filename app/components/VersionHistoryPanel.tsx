@@ -0,0 +1,190 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Editor, JSONContent } from "@tiptap/core";
+
+import {
+  createStoredVersion,
+  fetchVersion,
+  fetchVersions,
+  restoreStoredVersion,
+} from "@/app/utils/documentApi";
+import type { VersionSummary } from "@/app/utils/documentStore";
+
+export type VersionComparison = {
+  before: JSONContent;
+  after: JSONContent;
+  label: string;
+};
+
+export type VersionHistoryPanelProps = {
+  documentId: string;
+  editor: Editor;
+  comparison: VersionComparison | null;
+  onCompare: (comparison: VersionComparison | null) => void;
+};
+
+/** Select value standing for the editor's live content. */
+const CURRENT = "current";
+
+const inputCls =
+  "w-full rounded-lg border border-[var(--app-border)] bg-white/70 px-2 py-1 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500/40";
+
+const buttonCls =
+  "px-2.5 py-1.5 text-sm rounded-lg border border-[var(--app-border)] bg-white/70 text-gray-800 transition-colors hover:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50";
+
+const KIND_LABELS: Record<VersionSummary["kind"], string> = {
+  auto: "Autosave",
+  manual: "Named version",
+  restore: "Restore",
+};
+
+function formatCreatedAt(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
+
+function versionLabel(version: VersionSummary): string {
+  return version.name ?? `${KIND_LABELS[version.kind]} · ${formatCreatedAt(version.createdAt)}`;
+}
+
+export function VersionHistoryPanel(props: VersionHistoryPanelProps) {
+  const { documentId, editor, comparison, onCompare } = props;
+  const [versions, setVersions] = useState<VersionSummary[] | null>(null);
+  const [name, setName] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState(CURRENT);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const refresh = useCallback(async () => setVersions(await fetchVersions(documentId)), [documentId]);
+
+  useEffect(() => {
+    fetchVersions(documentId)
+      .then(setVersions)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+  }, [documentId]);
+
+  // Default the comparison to "newest snapshot -> current" once the list loads.
+  const fromId = from || versions?.[0]?.id || "";
+
+  const resolveContent = async (id: string): Promise<JSONContent> =>
+    id === CURRENT ? editor.getJSON() : (await fetchVersion(documentId, id)).content;
+
+  const describe = (id: string) => {
+    const version = versions?.find((v) => v.id === id);
+    return version ? versionLabel(version) : "Current";
+  };
+
+  const saveVersion = () =>
+    run(async () => {
+      await createStoredVersion(documentId, { name: name.trim() || undefined, content: editor.getJSON() });
+      setName("");
+      await refresh();
+    });
+
+  const compare = () =>
+    run(async () => {
+      const [before, after] = await Promise.all([resolveContent(fromId), resolveContent(to)]);
+      onCompare({ before, after, label: `${describe(fromId)} → ${describe(to)}` });
+    });
+
+  const restore = (version: VersionSummary) => {
+    if (!window.confirm(`Restore “${versionLabel(version)}”? The current text is kept in the history.`)) return;
+    void run(async () => {
+      // Snapshot unsaved edits first so the restore can itself be undone from the history.
+      await createStoredVersion(documentId, { name: "Before restore", content: editor.getJSON() });
+      const { document } = await restoreStoredVersion(documentId, version.id);
+      if (document.content) editor.chain().loadDocument(document.content).focus("start").run();
+      onCompare(null);
+      await refresh();
+    });
+  };
+
+  return (
+    <div className="grid gap-4 rounded-2xl border border-[var(--app-border)] bg-white/70 p-4 text-sm shadow-sm">
+      <div className="font-medium text-gray-900">Version history</div>
+
+      <div className="flex gap-2">
+        <input
+          aria-label="Version name"
+          placeholder="Version name (optional)"
+          value={name}
+          onChange={(e) => setName(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") void saveVersion();
+          }}
+          className={inputCls}
+        />
+        <button type="button" className={buttonCls} disabled={busy} onClick={() => void saveVersion()}>
+          Save
+        </button>
+      </div>
+
+      <div className="grid gap-2">
+        <label className="text-xs text-gray-600">
+          Compare
+          <select value={fromId} onChange={(e) => setFrom(e.currentTarget.value)} className={inputCls}>
+            {versions?.map((v) => (
+              <option key={v.id} value={v.id}>
+                {versionLabel(v)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          with
+          <select value={to} onChange={(e) => setTo(e.currentTarget.value)} className={inputCls}>
+            <option value={CURRENT}>Current document</option>
+            {versions?.map((v) => (
+              <option key={v.id} value={v.id}>
+                {versionLabel(v)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-2">
+          <button type="button" className={buttonCls} disabled={busy || !fromId} onClick={() => void compare()}>
+            Show changes
+          </button>
+          {comparison ? (
+            <button type="button" className={buttonCls} onClick={() => onCompare(null)}>
+              Back to editing
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? <div className="text-xs text-red-600">{error}</div> : null}
+
+      <ul className="grid max-h-96 gap-1 overflow-y-auto">
+        {versions?.length === 0 ? (
+          <li className="text-xs text-gray-500">No versions yet. Snapshots are taken as you edit.</li>
+        ) : null}
+        {versions?.map((v) => (
+          <li key={v.id} className="flex items-center gap-2 rounded-lg px-2 py-1.5 hover:bg-white">
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-gray-900">{v.name ?? KIND_LABELS[v.kind]}</div>
+              <div className="text-xs text-gray-500">{formatCreatedAt(v.createdAt)}</div>
+            </div>
+            <button type="button" className={buttonCls} disabled={busy} onClick={() => restore(v)}>
+              Restore
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
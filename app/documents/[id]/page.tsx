@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+
+import { PresenceList } from "@/app/components/PresenceList";
+import { TiptapEditor } from "@/app/components/TiptapEditor";
+import { useCollaborationSession } from "@/app/hooks/useCollaborationSession";
+import { fetchDocument, patchDocument } from "@/app/utils/documentApi";
+import type { StoredDocument } from "@/app/utils/documentStore";
+
+export default function DocumentPage() {
+  const { id } = useParams<{ id: string }>();
+  const [loaded, setLoaded] = useState<StoredDocument | null>(null);
+  const [name, setName] = useState("");
+  const [failure, setFailure] = useState<{ id: string; message: string } | null>(null);
+
+  // Ignore state left over from a previously open document until the new one loads.
+  const doc = loaded?.id === id ? loaded : null;
+  const error = failure?.id === id ? failure.message : null;
+  const collaboration = useCollaborationSession(doc);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDocument(id)
+      .then((next) => {
+        if (cancelled) return;
+        setLoaded(next);
+        setName(next.name);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setFailure({ id, message: err instanceof Error ? err.message : String(err) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const rename = async () => {
+    if (!doc || name.trim() === doc.name) return;
+    try {
+      const updated = await patchDocument(doc.id, { name });
+      setLoaded((current) => (current ? { ...current, name: updated.name } : current));
+      setName(updated.name);
+    } catch (err) {
+      console.error(err);
+      setName(doc.name);
+      window.alert(`Rename failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-[var(--app-canvas)]">
+      <div className="mx-auto w-full max-w-6xl px-6 py-10">
+        <div className="mb-6">
+          <Link href="/" className="text-sm text-gray-500 hover:underline">
+            OpenSphere / Documents
+          </Link>
+          {doc ? (
+            <input
+              aria-label="Document name"
+              value={name}
+              onChange={(e) => setName(e.currentTarget.value)}
+              onBlur={() => void rename()}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+              className="mt-1 block w-full rounded-lg bg-transparent text-2xl font-semibold tracking-tight text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+            />
+          ) : (
+            <h1 className="mt-1 text-2xl font-semibold tracking-tight text-gray-900">
+              {error ? "Document unavailable" : "Loading…"}
+            </h1>
+          )}
+          <div className="mt-1 text-sm text-gray-500">
+            {error ?? "Letter, Legal, A4 or custom pagination with print-accurate margins."}
+          </div>
+          {collaboration.session ? (
+            <div className="mt-3">
+              <PresenceList awareness={collaboration.session.provider.awareness} />
+            </div>
+          ) : null}
+          {collaboration.status === "unavailable" ? (
+            <div className="mt-3 text-sm text-amber-700">
+              The collaboration server is unreachable. You are editing alone; changes are still saved.
+            </div>
+          ) : null}
+        </div>
+
+        {doc && collaboration.status === "connecting" ? (
+          <div className="text-sm text-gray-500">Connecting to collaborators…</div>
+        ) : null}
+        {doc && collaboration.status !== "connecting" ? (
+          <div className="rounded-3xl border border-gray-200 bg-white/60 p-6 shadow-sm backdrop-blur">
+            <TiptapEditor
+              key={doc.id}
+              documentId={doc.id}
+              initialContent={doc.content}
+              collaboration={collaboration.session}
+            />
+          </div>
+        ) : null}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,507 @@
+import { Extension, Node } from "@tiptap/core";
+import type { Node as ProseMirrorNode, ResolvedPos } from "@tiptap/pm/model";
+import type { Slice } from "@tiptap/pm/model";
+import { Fragment } from "@tiptap/pm/model";
+import type { Selection, Transaction } from "@tiptap/pm/state";
+import { NodeSelection, Plugin, PluginKey, TextSelection } from "@tiptap/pm/state";
+import { AttrStep, canSplit } from "@tiptap/pm/transform";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+
+import { getPageBreakPositions } from "@/app/extensions/Pagination";
+import { nodesChangedBy } from "@/app/utils/changedRanges";
+import type { LibraryClauseContent } from "@/app/utils/clauseLibrary";
+import { libraryClauseSlice } from "@/app/utils/clauseLibrary";
+import type { ClauseInfo, ClauseNumberingScheme, CrossReferenceFormat } from "@/app/utils/clauses";
+import {
+  CLAUSE_NODE,
+  CLAUSE_REF_NODE,
+  collectClauses,
+  crossReferenceAt,
+  normalizeClauseNumbering,
+  normalizeCrossReferenceFormat,
+} from "@/app/utils/clauses";
+import { newShortId } from "@/app/utils/ids";
+
+/**
+ * Numbered clauses and cross-references. A `clause` holds its own text (the first
+ * paragraph or heading) followed by any body blocks and sub-clauses; numbers are
+ * decorations computed from the clause's place in the tree, in the doc's
+ * `clauseNumbering` scheme, so they follow every move. A `clauseRef` names its
+ * target by id and shows the target's current number and, once the document has
+ * been paginated, its page.
+ *
+ * The numbers are mapped through edits and only worked out again when an edit adds,
+ * removes or moves a clause; cross-references are labelled from them, so typing
+ * costs the same however long the document is.
+ */
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    clauses: {
+      /**
+       * In a clause's own text, adds an empty clause after it; elsewhere, makes the
+       * selected blocks a clause.
+       */
+      insertClause: () => ReturnType;
+      /** Enter in a clause: starts the next clause, or leaves an empty one. */
+      splitClause: () => ReturnType;
+      /** Makes the clause a sub-clause of the clause before it. */
+      indentClause: () => ReturnType;
+      /** Moves the clause up a level, taking the clauses after it as its sub-clauses. */
+      outdentClause: () => ReturnType;
+      moveClauseUp: () => ReturnType;
+      moveClauseDown: () => ReturnType;
+      setClauseNumbering: (scheme: ClauseNumberingScheme) => ReturnType;
+      insertCrossReference: (targetId: string, format?: CrossReferenceFormat) => ReturnType;
+      /** Changes the format of the selected cross-reference. */
+      setCrossReferenceFormat: (format: CrossReferenceFormat) => ReturnType;
+      /** Replaces the selection with a clause saved in the clause library. */
+      insertLibraryClause: (content: LibraryClauseContent) => ReturnType;
+    };
+  }
+}
+
+type ClauseAt = { node: ProseMirrorNode; pos: number; depth: number };
+
+/** The innermost clause around `$pos`. */
+function clauseAround($pos: ResolvedPos): ClauseAt | null {
+  for (let d = $pos.depth; d > 0; d--) {
+    const node = $pos.node(d);
+    if (node.type.name === CLAUSE_NODE) return { node, pos: $pos.before(d), depth: d };
+  }
+  return null;
+}
+
+/** The clause whose own text (its first block) holds `$pos`. */
+function clauseTextAround($pos: ResolvedPos): ClauseAt | null {
+  const depth = $pos.depth - 1;
+  if (depth < 1 || $pos.node(depth).type.name !== CLAUSE_NODE || $pos.index(depth) !== 0) return null;
+  return { node: $pos.node(depth), pos: $pos.before(depth), depth };
+}
+
+/** The selected cross-reference node, if any. */
+export function selectedCrossReference(selection: Selection): ProseMirrorNode | null {
+  return selection instanceof NodeSelection && selection.node.type.name === CLAUSE_REF_NODE ? selection.node : null;
+}
+
+/**
+ * Moves the selection by `delta` after a clause was cut out and put back elsewhere,
+ * which the transaction's own mapping cannot follow.
+ */
+function shiftSelection(tr: Transaction, selection: Selection, delta: number) {
+  const $from = tr.doc.resolve(selection.from + delta);
+  const $to = tr.doc.resolve(selection.to + delta);
+  tr.setSelection(TextSelection.between($from, $to));
+}
+
+/** Replaces a top-level clause with its content, which leaves its sub-clauses top-level. */
+function unwrapClause(tr: Transaction, selection: Selection, clause: ClauseAt) {
+  tr.replaceWith(clause.pos, clause.pos + clause.node.nodeSize, clause.node.content);
+  shiftSelection(tr, selection, -1);
+}
+
+type ClauseNumber = Omit<ClauseInfo, "pos">;
+
+const isNumber = (spec: { clause?: ClauseNumber }) => spec.clause !== undefined;
+const isRef = (spec: { clauseRef?: boolean }) => spec.clauseRef === true;
+
+/** The number at the start of the clause's own text, carrying the clause for cross-references. */
+function numberWidget({ pos, ...clause }: ClauseInfo): Decoration {
+  return Decoration.widget(
+    pos + 2,
+    () => {
+      const el = document.createElement("span");
+      el.className = "pm-clause-number";
+      el.contentEditable = "false";
+      el.textContent = clause.label;
+      return el;
+    },
+    { side: -1, marks: [], ignoreSelection: true, key: `clause-number-${clause.label}`, clause },
+  );
+}
+
+/** Marks a cross-reference, so the references can be labelled without walking the doc. */
+const refMarker = (pos: number) => Decoration.node(pos, pos + 1, {}, { clauseRef: true });
+
+const sameNumber = (a: ClauseNumber, b: ClauseNumber) =>
+  a.id === b.id && a.level === b.level && a.label === b.label && a.reference === b.reference;
+
+function buildDecorations(doc: ProseMirrorNode): DecorationSet {
+  const refs: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name === CLAUSE_REF_NODE) refs.push(refMarker(pos));
+  });
+  return DecorationSet.create(doc, [...collectClauses(doc).map(numberWidget), ...refs]);
+}
+
+/** Whether a clause starts in `from`..`to`, or the range leaves the clause it starts in. */
+function crossesClause(doc: ProseMirrorNode, from: number, to: number): boolean {
+  if (clauseAround(doc.resolve(from))?.pos !== clauseAround(doc.resolve(to))?.pos) return true;
+  let found = false;
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (node.type.name === CLAUSE_NODE && pos >= from) found = true;
+    return !found;
+  });
+  return found;
+}
+
+/** Whether the transaction adds, removes, moves or changes the id of a clause. */
+function clausesChangedBy(tr: Transaction): boolean {
+  return tr.steps.some((step, index) => {
+    const before = tr.docs[index];
+    const after = tr.docs[index + 1] ?? tr.doc;
+    if (step instanceof AttrStep) return before.nodeAt(step.pos)?.type.name === CLAUSE_NODE;
+    let changed = false;
+    step.getMap().forEach((oldStart, oldEnd, newStart, newEnd) => {
+      changed ||= crossesClause(before, oldStart, oldEnd) || crossesClause(after, newStart, newEnd);
+    });
+    return changed;
+  });
+}
+
+/**
+ * Maps the decorations through the transaction. Only when it changes the clauses or
+ * the numbering scheme are they numbered again, redrawing the numbers that changed.
+ */
+function applyTransaction(tr: Transaction, prev: DecorationSet, oldDoc: ProseMirrorNode): DecorationSet {
+  const { doc } = tr;
+  let removed = 0;
+  const decorations = prev.map(tr.mapping, doc, {
+    onRemove: (spec) => {
+      if (isNumber(spec)) removed++;
+    },
+  });
+  const refs = nodesChangedBy(tr, CLAUSE_REF_NODE);
+  const renumber = removed > 0 || doc.attrs.clauseNumbering !== oldDoc.attrs.clauseNumbering || clausesChangedBy(tr);
+  if (!renumber && refs.size === 0) return decorations;
+
+  const stale = [...refs].flatMap((pos) => decorations.find(pos, pos + 1, isRef).filter((d) => d.from === pos));
+  const fresh = [...refs].map(refMarker);
+  if (renumber) {
+    const numbered = new Map(decorations.find(undefined, undefined, isNumber).map((d) => [d.from, d]));
+    for (const clause of collectClauses(doc)) {
+      const current = numbered.get(clause.pos + 2);
+      if (current && sameNumber(current.spec.clause, clause)) numbered.delete(clause.pos + 2);
+      else fresh.push(numberWidget(clause));
+    }
+    stale.push(...numbered.values());
+  }
+  return decorations.remove(stale).add(doc, fresh);
+}
+
+/** Adds each cross-reference's text, for the page breaks of the last layout. */
+function labelCrossReferences(doc: ProseMirrorNode, decorations: DecorationSet, breaks: number[]): DecorationSet {
+  const markers = decorations.find(undefined, undefined, isRef);
+  if (markers.length === 0) return decorations;
+  const clauses = new Map<string, ClauseInfo>(
+    decorations
+      .find(undefined, undefined, isNumber)
+      .map(({ from, spec }) => [spec.clause.id, { ...spec.clause, pos: from - 2 }]),
+  );
+  const labels = markers.map(({ from }) => {
+    const ref = crossReferenceAt(doc.nodeAt(from)!, from, clauses, breaks);
+    const attrs = ref.missing ? { "data-label": ref.text, class: "is-missing" } : { "data-label": ref.text };
+    return Decoration.node(from, from + 1, attrs);
+  });
+  return decorations.add(doc, labels);
+}
+
+const ClauseNode = Node.create({
+  name: CLAUSE_NODE,
+  group: "block",
+  content: "(paragraph | heading) block*",
+  defining: true,
+
+  addAttributes() {
+    return {
+      id: { default: null },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "div[data-clause-id]", getAttrs: (el) => ({ id: el.getAttribute("data-clause-id") }) }];
+  },
+
+  renderHTML({ node }) {
+    return ["div", { class: "pm-clause", "data-clause-id": node.attrs.id }, 0];
+  },
+});
+
+const ClauseRefNode = Node.create({
+  name: CLAUSE_REF_NODE,
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      targetId: { default: null },
+      format: { default: "number" },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "span[data-clause-ref]",
+        getAttrs: (el) => ({
+          targetId: el.getAttribute("data-clause-ref"),
+          format: normalizeCrossReferenceFormat(el.getAttribute("data-format")),
+        }),
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    // The text is a decoration attribute, shown with CSS, since it depends on the rest of the doc.
+    return [
+      "span",
+      { class: "pm-clause-ref", "data-clause-ref": node.attrs.targetId, "data-format": node.attrs.format },
+    ];
+  },
+});
+
+const clausesPluginKey = new PluginKey<DecorationSet>("clauses");
+
+export const Clauses = Extension.create({
+  name: "clauses",
+
+  addExtensions() {
+    return [ClauseNode, ClauseRefNode];
+  },
+
+  addCommands() {
+    return {
+      insertClause:
+        () =>
+        ({ state, tr, dispatch, commands }) => {
+          const clause = clauseTextAround(state.selection.$from);
+          if (!clause) return commands.wrapIn(CLAUSE_NODE, { id: newShortId() });
+          if (dispatch) {
+            const after = clause.pos + clause.node.nodeSize;
+            const paragraph = state.schema.nodes.paragraph.create();
+            tr.insert(after, state.schema.nodes[CLAUSE_NODE].create({ id: newShortId() }, paragraph));
+            tr.setSelection(TextSelection.create(tr.doc, after + 2)).scrollIntoView();
+          }
+          return true;
+        },
+
+      splitClause:
+        () =>
+        ({ state, tr, dispatch, commands }) => {
+          const { selection, schema } = state;
+          const { $from } = selection;
+          if (!selection.empty || !$from.parent.isTextblock) return false;
+
+          const clause = clauseTextAround($from);
+          if (clause && $from.parent.content.size === 0) return commands.outdentClause();
+          if (clause) {
+            // With body text or sub-clauses, Enter just adds a body paragraph.
+            if (clause.node.childCount > 1) return false;
+            const atEnd = $from.parentOffset === $from.parent.content.size;
+            const typesAfter = [
+              { type: schema.nodes[CLAUSE_NODE], attrs: { id: newShortId() } },
+              atEnd ? { type: schema.nodes.paragraph } : null,
+            ];
+            if (!canSplit(state.doc, $from.pos, 2, typesAfter)) return false;
+            if (dispatch) tr.split($from.pos, 2, typesAfter).scrollIntoView();
+            return true;
+          }
+
+          // An empty last body paragraph turns into the next clause.
+          const parent = clauseAround($from);
+          if (!parent || $from.parent.content.size > 0 || $from.depth !== parent.depth + 1) return false;
+          if ($from.index(parent.depth) !== parent.node.childCount - 1) return false;
+          if (dispatch) {
+            const after = parent.pos + parent.node.nodeSize;
+            const next = schema.nodes[CLAUSE_NODE].create({ id: newShortId() }, schema.nodes.paragraph.create());
+            tr.insert(after, next);
+            tr.delete($from.before(), $from.after());
+            tr.setSelection(TextSelection.create(tr.doc, tr.mapping.map(after, -1) + 2)).scrollIntoView();
+          }
+          return true;
+        },
+
+      indentClause:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const clause = clauseAround(state.selection.$from);
+          if (!clause) return false;
+          const $clause = state.doc.resolve(clause.pos);
+          const index = $clause.index();
+          const previous = index > 0 ? $clause.parent.child(index - 1) : null;
+          if (previous?.type.name !== CLAUSE_NODE) return false;
+          if (dispatch) {
+            tr.delete(clause.pos, clause.pos + clause.node.nodeSize);
+            tr.insert(clause.pos - 1, clause.node);
+            shiftSelection(tr, state.selection, -1);
+            tr.scrollIntoView();
+          }
+          return true;
+        },
+
+      outdentClause:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const { selection } = state;
+          const clause = clauseAround(selection.$from);
+          if (!clause) return false;
+          const $clause = state.doc.resolve(clause.pos);
+          const parent =
+            $clause.parent.type.name === CLAUSE_NODE
+              ? { node: $clause.parent, pos: $clause.before(), depth: $clause.depth }
+              : null;
+          if (!parent) {
+            if (dispatch) unwrapClause(tr, selection, clause);
+            return true;
+          }
+          if (dispatch) {
+            const clauseEnd = clause.pos + clause.node.nodeSize;
+            const parentContentEnd = parent.pos + parent.node.nodeSize - 1;
+            const following = state.doc.slice(clauseEnd, parentContentEnd).content;
+            const moved = clause.node.copy(clause.node.content.append(following));
+            tr.delete(clause.pos, parentContentEnd);
+            tr.insert(clause.pos + 1, moved);
+            shiftSelection(tr, selection, 1);
+            tr.scrollIntoView();
+          }
+          return true;
+        },
+
+      moveClauseUp:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const clause = clauseAround(state.selection.$from);
+          if (!clause) return false;
+          const $clause = state.doc.resolve(clause.pos);
+          // A clause's first child is its own text, which stays first.
+          const first = $clause.parent.type.name === CLAUSE_NODE ? 1 : 0;
+          const index = $clause.index();
+          if (index <= first) return false;
+          if (dispatch) {
+            const previous = $clause.parent.child(index - 1);
+            const start = clause.pos - previous.nodeSize;
+            tr.replaceWith(start, clause.pos + clause.node.nodeSize, Fragment.from([clause.node, previous]));
+            shiftSelection(tr, state.selection, -previous.nodeSize);
+            tr.scrollIntoView();
+          }
+          return true;
+        },
+
+      moveClauseDown:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const clause = clauseAround(state.selection.$from);
+          if (!clause) return false;
+          const $clause = state.doc.resolve(clause.pos);
+          const index = $clause.index();
+          if (index >= $clause.parent.childCount - 1) return false;
+          if (dispatch) {
+            const next = $clause.parent.child(index + 1);
+            const end = clause.pos + clause.node.nodeSize + next.nodeSize;
+            tr.replaceWith(clause.pos, end, Fragment.from([next, clause.node]));
+            shiftSelection(tr, state.selection, next.nodeSize);
+            tr.scrollIntoView();
+          }
+          return true;
+        },
+
+      setClauseNumbering:
+        (scheme) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setDocAttribute("clauseNumbering", normalizeClauseNumbering(scheme));
+          return true;
+        },
+
+      insertCrossReference:
+        (targetId, format = "number") =>
+        ({ commands }) =>
+          commands.insertContent({
+            type: CLAUSE_REF_NODE,
+            attrs: { targetId, format: normalizeCrossReferenceFormat(format) },
+          }),
+
+      setCrossReferenceFormat:
+        (format) =>
+        ({ state, tr, dispatch }) => {
+          if (!selectedCrossReference(state.selection)) return false;
+          if (dispatch) tr.setNodeAttribute(state.selection.from, "format", normalizeCrossReferenceFormat(format));
+          return true;
+        },
+
+      insertLibraryClause:
+        (content) =>
+        ({ state, tr, dispatch }) => {
+          let slice: Slice;
+          try {
+            slice = libraryClauseSlice(state.schema, content);
+          } catch {
+            return false;
+          }
+          // Copies of clauses already in the doc get fresh ids from the plugin below.
+          if (dispatch) tr.replaceSelection(slice).scrollIntoView();
+          return true;
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    const inClauseText = () => !!clauseTextAround(this.editor.state.selection.$from);
+    return {
+      Enter: () => this.editor.commands.splitClause(),
+      // Only in a clause's own text, so Tab keeps working in lists and tables inside clauses.
+      // The first clause cannot be indented, but Tab still should not leave the editor.
+      Tab: () => inClauseText() && (this.editor.commands.indentClause() || true),
+      "Shift-Tab": () => inClauseText() && this.editor.commands.outdentClause(),
+      "Alt-Shift-ArrowUp": () => this.editor.commands.moveClauseUp(),
+      "Alt-Shift-ArrowDown": () => this.editor.commands.moveClauseDown(),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    // Page numbers change with the layout, which is applied after this plugin's state; the
+    // labelled references are cached until either the decorations or the layout change.
+    let cache: { doc: ProseMirrorNode; breaks: number[]; value: DecorationSet; labelled: DecorationSet } | null = null;
+
+    return [
+      new Plugin<DecorationSet>({
+        key: clausesPluginKey,
+
+        state: {
+          init: (_, state) => buildDecorations(state.doc),
+          apply: (tr, value, oldState) => (tr.docChanged ? applyTransaction(tr, value, oldState.doc) : value),
+        },
+
+        // Pasting or duplicating a clause copies its id; give copies ids of their own,
+        // so cross-references keep pointing at the original.
+        appendTransaction(transactions, _oldState, newState) {
+          if (!transactions.some((tr) => clausesChangedBy(tr))) return null;
+          const seen = new Set<string>();
+          const { tr } = newState;
+          for (const clause of collectClauses(newState.doc)) {
+            if (clause.id && !seen.has(clause.id)) {
+              seen.add(clause.id);
+              continue;
+            }
+            tr.setNodeAttribute(clause.pos, "id", newShortId());
+          }
+          if (!tr.docChanged) return null;
+          return tr.setMeta("addToHistory", false);
+        },
+
+        props: {
+          decorations(state) {
+            const value = clausesPluginKey.getState(state);
+            if (!value) return null;
+            const breaks = getPageBreakPositions(state);
+            if (cache?.doc !== state.doc || cache.breaks !== breaks || cache.value !== value) {
+              cache = { doc: state.doc, breaks, value, labelled: labelCrossReferences(state.doc, value, breaks) };
+            }
+            return cache.labelled;
+          },
+        },
+      }),
+    ];
+  },
+});
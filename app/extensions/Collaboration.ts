@@ -0,0 +1,159 @@
+import { Extension } from "@tiptap/core";
+import type { EditorState } from "@tiptap/pm/state";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import type { EditorView } from "@tiptap/pm/view";
+import {
+  defaultDeleteFilter,
+  defaultProtectedNodes,
+  redo,
+  undo,
+  yCursorPlugin,
+  ySyncPlugin,
+  ySyncPluginKey,
+  yUndoPlugin,
+} from "@tiptap/y-tiptap";
+import type { Awareness } from "y-protocols/awareness";
+import * as Y from "yjs";
+
+import type { CollaborationUser } from "@/app/utils/collaboration";
+import { COLLAB_ATTRS, COLLAB_FRAGMENT } from "@/app/utils/collaboration";
+
+/**
+ * Real-time collaboration over a shared Yjs document. The content is bound with
+ * the y-sync plugin; the doc node attrs, which y-sync does not carry, are mirrored
+ * into a shared map key by key. Undo/redo come from a Yjs undo manager scoped to
+ * both, so they only undo the local user's own edits.
+ *
+ * Use with `collaborativeDocumentExtensions` (StarterKit's own history disabled).
+ */
+
+export type CollaborationOptions = {
+  ydoc: Y.Doc | null;
+  awareness: Awareness | null;
+  user: CollaborationUser;
+};
+
+export const collaborationAttrsPluginKey = new PluginKey("collaborationAttrs");
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    collaboration: {
+      /** Undoes the local user's last change. */
+      undo: () => ReturnType;
+      /** Redoes the local user's last undone change. */
+      redo: () => ReturnType;
+    };
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Copies shared attrs that differ into the editor, outside the local undo history. */
+function pullAttrs(view: EditorView, attrs: Y.Map<unknown>) {
+  const { tr } = view.state;
+  for (const [key, value] of attrs.entries()) {
+    if (key in view.state.doc.attrs && !sameValue(view.state.doc.attrs[key], value)) tr.setDocAttribute(key, value);
+  }
+  if (!tr.docChanged) return;
+  tr.setMeta(collaborationAttrsPluginKey, true);
+  tr.setMeta("addToHistory", false);
+  view.dispatch(tr);
+}
+
+/** Writes local attr changes to the shared map, as the y-sync origin so the undo manager tracks them. */
+function pushAttrs(state: EditorState, prevState: EditorState, attrs: Y.Map<unknown>) {
+  if (state.doc.attrs === prevState.doc.attrs) return;
+  const ydoc = attrs.doc;
+  if (!ydoc) return;
+  ydoc.transact(() => {
+    for (const [key, value] of Object.entries(state.doc.attrs)) {
+      if (!sameValue(attrs.get(key), value)) attrs.set(key, value);
+    }
+  }, ySyncPluginKey);
+}
+
+export const Collaboration = Extension.create<CollaborationOptions>({
+  name: "collaboration",
+
+  // Ahead of the schema extensions, so remote changes are rendered before their plugins see them.
+  priority: 1000,
+
+  addOptions() {
+    return {
+      ydoc: null,
+      awareness: null,
+      user: { name: "", color: "#2563eb" },
+    };
+  },
+
+  onCreate() {
+    this.options.awareness?.setLocalStateField("user", this.options.user);
+  },
+
+  addCommands() {
+    return {
+      undo:
+        () =>
+        ({ state, tr, dispatch }) => {
+          tr.setMeta("preventDispatch", true);
+          return dispatch ? undo(state) : true;
+        },
+      redo:
+        () =>
+        ({ state, tr, dispatch }) => {
+          tr.setMeta("preventDispatch", true);
+          return dispatch ? redo(state) : true;
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-z": () => this.editor.commands.undo(),
+      "Mod-y": () => this.editor.commands.redo(),
+      "Shift-Mod-z": () => this.editor.commands.redo(),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { ydoc, awareness } = this.options;
+    if (!ydoc) throw new Error("Collaboration requires a ydoc.");
+
+    const fragment = ydoc.getXmlFragment(COLLAB_FRAGMENT);
+    const attrs = ydoc.getMap<unknown>(COLLAB_ATTRS);
+    const undoManager = new Y.UndoManager([fragment, attrs], {
+      trackedOrigins: new Set([ySyncPluginKey]),
+      deleteFilter: (item) => defaultDeleteFilter(item, defaultProtectedNodes),
+      captureTransaction: (tr) => tr.meta.get("addToHistory") !== false,
+    });
+
+    const attrsPlugin = new Plugin({
+      key: collaborationAttrsPluginKey,
+      view(view) {
+        const observer = () => pullAttrs(view, attrs);
+        attrs.observe(observer);
+        // Defer the initial pull: views cannot dispatch while being constructed.
+        queueMicrotask(() => {
+          if (!view.isDestroyed) pullAttrs(view, attrs);
+        });
+        return {
+          update(updatedView, prevState) {
+            pushAttrs(updatedView.state, prevState, attrs);
+          },
+          destroy() {
+            attrs.unobserve(observer);
+          },
+        };
+      },
+    });
+
+    return [
+      ySyncPlugin(fragment),
+      yUndoPlugin({ undoManager }),
+      ...(awareness ? [yCursorPlugin(awareness)] : []),
+      attrsPlugin,
+    ];
+  },
+});
@@ -0,0 +1,356 @@
+import { Extension, Mark, mergeAttributes } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { EditorState, Transaction } from "@tiptap/pm/state";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+
+import { getAuthorName } from "@/app/utils/author";
+import { textblocksChangedBy } from "@/app/utils/changedRanges";
+import type { CommentPrintMode, CommentsState, CommentThread } from "@/app/utils/comments";
+import { COMMENT_MARK, formatThreadSummary, normalizeComments } from "@/app/utils/comments";
+import { newShortId } from "@/app/utils/ids";
+
+/**
+ * Margin comments. A `comment` mark ties a text range to a thread id; the threads
+ * themselves (messages, resolved state) and the print setting live in the doc's
+ * `comments` attr, so they are saved, versioned and undone with the text.
+ *
+ * The plugin highlights open threads and adds the print-only reference numbers and
+ * margin notes; the comment rail and endnotes are rendered by React. Highlights are
+ * mapped through edits and redrawn only in the textblocks an edit touches; the print
+ * numbers are then read back from them rather than from the whole doc.
+ */
+
+export type CommentsOptions = {
+  /** Name recorded on new messages. */
+  author: () => string;
+};
+
+type CommentsPluginState = {
+  /** Thread under the selection, highlighted more strongly. */
+  activeThreadId: string | null;
+  decorations: DecorationSet;
+};
+
+export const commentsPluginKey = new PluginKey<CommentsPluginState>("comments");
+
+export function getComments(state: EditorState): CommentsState {
+  return normalizeComments(state.doc.attrs.comments);
+}
+
+/** Thread ids anchored at the selection (or just after the cursor). */
+export function commentIdsAtSelection(state: EditorState): string[] {
+  const { from, to } = state.selection;
+  const ids = new Set<string>();
+  state.doc.nodesBetween(from, Math.min(Math.max(to, from + 1), state.doc.content.size), (node) => {
+    for (const mark of node.marks) if (mark.type.name === COMMENT_MARK) ids.add(mark.attrs.threadId as string);
+  });
+  return [...ids];
+}
+
+/** The thread highlighted as active, following the selection. */
+export function getActiveCommentId(state: EditorState): string | null {
+  return commentsPluginKey.getState(state)?.activeThreadId ?? null;
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    comments: {
+      /** Starts a thread on the selected text. Fails on an empty selection. */
+      addComment: (text: string) => ReturnType;
+      replyToComment: (threadId: string, text: string) => ReturnType;
+      setCommentResolved: (threadId: string, resolved: boolean) => ReturnType;
+      /** Removes the thread and its highlight; the text itself is kept. */
+      deleteCommentThread: (threadId: string) => ReturnType;
+      setCommentPrintMode: (printMode: CommentPrintMode) => ReturnType;
+    };
+  }
+}
+
+const Comment = Mark.create({
+  name: COMMENT_MARK,
+  inclusive: false,
+  // Threads may overlap, so a range can carry several comment marks.
+  excludes: "",
+
+  addAttributes() {
+    return {
+      threadId: { default: null },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "span[data-comment-id]",
+        getAttrs: (el) => ({ threadId: el.getAttribute("data-comment-id") }),
+      },
+    ];
+  },
+
+  renderHTML({ mark }) {
+    return ["span", mergeAttributes({ class: "pm-comment", "data-comment-id": mark.attrs.threadId }), 0];
+  },
+});
+
+function printWidget(tag: string, className: string, text: string): HTMLElement {
+  const el = document.createElement(tag);
+  el.className = className;
+  el.textContent = text;
+  return el;
+}
+
+const isHighlight = (spec: { commentThread?: string }) => spec.commentThread !== undefined;
+const isPrintWidget = (spec: { commentPrint?: boolean }) => spec.commentPrint === true;
+
+function highlight(from: number, to: number, threadId: string, activeThreadId: string | null): Decoration {
+  const active = threadId === activeThreadId;
+  return Decoration.inline(
+    from,
+    to,
+    { class: active ? "pm-comment-highlight pm-comment-highlight--active" : "pm-comment-highlight" },
+    { commentThread: threadId },
+  );
+}
+
+/** Highlights for the open threads on the inline nodes inside `parent`, whose content starts at `start`. */
+function highlightsIn(
+  parent: ProseMirrorNode,
+  start: number,
+  comments: CommentsState,
+  activeThreadId: string | null,
+): Decoration[] {
+  const decorations: Decoration[] = [];
+  parent.descendants((node, offset) => {
+    if (!node.isInline) return;
+    const pos = start + offset;
+    for (const mark of node.marks) {
+      if (mark.type.name !== COMMENT_MARK) continue;
+      const thread = comments.threads[mark.attrs.threadId as string];
+      if (!thread || thread.resolved) continue;
+      decorations.push(highlight(pos, pos + node.nodeSize, thread.id, activeThreadId));
+    }
+  });
+  return decorations;
+}
+
+/**
+ * Print-only (hidden on screen): reference numbers, plus the note itself in margin mode.
+ * Threads are numbered by their first highlighted run, as `numberPrintedComments` does.
+ */
+function printWidgets(comments: CommentsState, highlights: Decoration[]): Decoration[] {
+  if (comments.printMode === "none") return [];
+  const anchors = new Map<string, { from: number; to: number }>();
+  for (const { from, to, spec } of [...highlights].sort((a, b) => a.from - b.from)) {
+    const anchor = anchors.get(spec.commentThread as string);
+    if (!anchor) anchors.set(spec.commentThread as string, { from, to });
+    // Extend across adjacent nodes (e.g. a bold word inside the commented range).
+    else if (anchor.to === from) anchor.to = to;
+  }
+
+  const decorations: Decoration[] = [];
+  [...anchors].forEach(([threadId, { from, to }], index) => {
+    const number = index + 1;
+    const thread = comments.threads[threadId];
+    const summary = formatThreadSummary(thread);
+    decorations.push(
+      Decoration.widget(to, () => printWidget("sup", "pm-comment-ref", String(number)), {
+        side: 1,
+        ignoreSelection: true,
+        key: `comment-ref-${thread.id}-${number}`,
+        commentPrint: true,
+      }),
+    );
+    if (comments.printMode === "margin") {
+      decorations.push(
+        Decoration.widget(from, () => printWidget("span", "pm-comment-margin-note", `${number}. ${summary}`), {
+          side: -1,
+          ignoreSelection: true,
+          key: `comment-note-${thread.id}-${number}-${summary}`,
+          commentPrint: true,
+        }),
+      );
+    }
+  });
+  return decorations;
+}
+
+function buildDecorations(doc: ProseMirrorNode, activeThreadId: string | null): DecorationSet {
+  const comments = normalizeComments(doc.attrs.comments);
+  const highlights = highlightsIn(doc, 0, comments, activeThreadId);
+  return DecorationSet.create(doc, [...highlights, ...printWidgets(comments, highlights)]);
+}
+
+/**
+ * Maps the decorations through the transaction and redraws the highlights in the
+ * textblocks it changed, and those of the threads that became or stopped being active.
+ * The print widgets are redrawn only when a highlight was. A change to the threads
+ * themselves redraws everything.
+ */
+function applyTransaction(
+  tr: Transaction,
+  prev: CommentsPluginState,
+  activeThreadId: string | null,
+  oldDoc: ProseMirrorNode,
+): DecorationSet {
+  const { doc } = tr;
+  if (doc.attrs.comments !== oldDoc.attrs.comments) return buildDecorations(doc, activeThreadId);
+  const comments = normalizeComments(doc.attrs.comments);
+
+  let removed = 0;
+  const mapped = prev.decorations.map(tr.mapping, doc, {
+    onRemove: (spec) => {
+      if (isHighlight(spec)) removed++;
+    },
+  });
+  const stale = new Set<Decoration>();
+  const fresh: Decoration[] = [];
+  for (const [pos, block] of textblocksChangedBy(tr)) {
+    for (const d of mapped.find(pos, pos + block.nodeSize, isHighlight)) stale.add(d);
+    fresh.push(...highlightsIn(block, pos + 1, comments, activeThreadId));
+  }
+  const redrawn = removed > 0 || stale.size > 0 || fresh.length > 0;
+
+  if (activeThreadId !== prev.activeThreadId) {
+    const toggled = (spec: { commentThread?: string }) =>
+      spec.commentThread !== undefined && [activeThreadId, prev.activeThreadId].includes(spec.commentThread);
+    for (const d of mapped.find(undefined, undefined, toggled)) {
+      if (stale.has(d)) continue;
+      stale.add(d);
+      fresh.push(highlight(d.from, d.to, d.spec.commentThread as string, activeThreadId));
+    }
+  }
+
+  let decorations = mapped.remove([...stale]).add(doc, fresh);
+  if (redrawn && comments.printMode !== "none") {
+    const widgets = printWidgets(comments, decorations.find(undefined, undefined, isHighlight));
+    decorations = decorations.remove(decorations.find(undefined, undefined, isPrintWidget)).add(doc, widgets);
+  }
+  return decorations;
+}
+
+function updateThread(
+  state: EditorState,
+  threadId: string,
+  update: (thread: CommentThread) => CommentThread,
+): CommentsState | null {
+  const comments = getComments(state);
+  const thread = comments.threads[threadId];
+  if (!thread) return null;
+  return { ...comments, threads: { ...comments.threads, [threadId]: update(thread) } };
+}
+
+export const Comments = Extension.create<CommentsOptions>({
+  name: "comments",
+
+  addOptions() {
+    return {
+      author: getAuthorName,
+    };
+  },
+
+  addExtensions() {
+    return [Comment];
+  },
+
+  addCommands() {
+    return {
+      addComment:
+        (text) =>
+        ({ state, tr, dispatch }) => {
+          const { from, to, empty } = state.selection;
+          if (empty || !text.trim()) return false;
+          if (dispatch) {
+            const id = newShortId();
+            const createdAt = new Date().toISOString();
+            const comments = getComments(state);
+            const thread: CommentThread = {
+              id,
+              resolved: false,
+              createdAt,
+              messages: [{ id: newShortId(), author: this.options.author(), text: text.trim(), createdAt }],
+            };
+            tr.addMark(from, to, state.schema.marks[COMMENT_MARK].create({ threadId: id }));
+            tr.setDocAttribute("comments", { ...comments, threads: { ...comments.threads, [id]: thread } });
+          }
+          return true;
+        },
+
+      replyToComment:
+        (threadId, text) =>
+        ({ state, tr, dispatch }) => {
+          if (!text.trim()) return false;
+          const next = updateThread(state, threadId, (thread) => ({
+            ...thread,
+            messages: [
+              ...thread.messages,
+              {
+                id: newShortId(),
+                author: this.options.author(),
+                text: text.trim(),
+                createdAt: new Date().toISOString(),
+              },
+            ],
+          }));
+          if (!next) return false;
+          if (dispatch) tr.setDocAttribute("comments", next);
+          return true;
+        },
+
+      setCommentResolved:
+        (threadId, resolved) =>
+        ({ state, tr, dispatch }) => {
+          const next = updateThread(state, threadId, (thread) => ({ ...thread, resolved }));
+          if (!next) return false;
+          if (dispatch) tr.setDocAttribute("comments", next);
+          return true;
+        },
+
+      deleteCommentThread:
+        (threadId) =>
+        ({ state, tr, dispatch }) => {
+          const comments = getComments(state);
+          if (!comments.threads[threadId]) return false;
+          if (dispatch) {
+            const threads = { ...comments.threads };
+            delete threads[threadId];
+            tr.removeMark(0, tr.doc.content.size, state.schema.marks[COMMENT_MARK].create({ threadId }));
+            tr.setDocAttribute("comments", { ...comments, threads });
+          }
+          return true;
+        },
+
+      setCommentPrintMode:
+        (printMode) =>
+        ({ state, tr, dispatch }) => {
+          if (dispatch) tr.setDocAttribute("comments", { ...getComments(state), printMode });
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<CommentsPluginState>({
+        key: commentsPluginKey,
+        state: {
+          init: (_, state) => {
+            const activeThreadId = commentIdsAtSelection(state)[0] ?? null;
+            return { activeThreadId, decorations: buildDecorations(state.doc, activeThreadId) };
+          },
+          apply(tr, value, oldState, newState) {
+            if (!tr.docChanged && !tr.selectionSet) return value;
+            const activeThreadId = commentIdsAtSelection(newState)[0] ?? null;
+            if (!tr.docChanged && activeThreadId === value.activeThreadId) return value;
+            return { activeThreadId, decorations: applyTransaction(tr, value, activeThreadId, oldState.doc) };
+          },
+        },
+        props: {
+          decorations(state) {
+            return commentsPluginKey.getState(state)?.decorations ?? null;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,140 @@
+import { Extension } from "@tiptap/core";
+import type { EditorState, Transaction } from "@tiptap/pm/state";
+import { Plugin, PluginKey, TextSelection } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+
+import type { DefinedTermsAnalysis } from "@/app/utils/definedTerms";
+import { NO_DEFINED_TERMS, analyzeDefinedTerms, definedTermAt } from "@/app/utils/definedTerms";
+
+/**
+ * Defined-terms checking, a view-only extension. While enabled, the doc is analyzed
+ * on every change: definitions, uses, definitions never used and capitalised terms
+ * with no definition are highlighted, and the analysis is available to the terms
+ * panel through `getDefinedTerms`. Going to a term's definition (F12, or Ctrl/Cmd-
+ * click on a use) works whether or not highlighting is on.
+ */
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    definedTerms: {
+      setDefinedTermsEnabled: (enabled: boolean) => ReturnType;
+      /** Selects the definition of the defined term at the cursor. */
+      goToDefinition: () => ReturnType;
+    };
+  }
+}
+
+type DefinedTermsPluginState = {
+  enabled: boolean;
+  analysis: DefinedTermsAnalysis;
+  decorations: DecorationSet;
+};
+
+const definedTermsPluginKey = new PluginKey<DefinedTermsPluginState>("definedTerms");
+
+/** The last analysis; empty while checking is off. */
+export function getDefinedTerms(state: EditorState): DefinedTermsAnalysis {
+  return definedTermsPluginKey.getState(state)?.analysis ?? NO_DEFINED_TERMS;
+}
+
+function buildState(state: EditorState, enabled: boolean): DefinedTermsPluginState {
+  if (!enabled) return { enabled, analysis: NO_DEFINED_TERMS, decorations: DecorationSet.empty };
+  const analysis = analyzeDefinedTerms(state.doc);
+  const decorations: Decoration[] = [];
+  for (const term of analysis.terms) {
+    decorations.push(
+      Decoration.inline(
+        term.definition.from,
+        term.definition.to,
+        term.uses.length > 0
+          ? { class: "pm-term-definition" }
+          : { class: "pm-term-definition is-unused", title: "Defined but never used" },
+      ),
+    );
+    for (const range of term.redefinitions) {
+      decorations.push(
+        Decoration.inline(range.from, range.to, { class: "pm-term-definition is-redefined", title: "Defined again" }),
+      );
+    }
+    for (const range of term.uses) {
+      decorations.push(Decoration.inline(range.from, range.to, { class: "pm-term-use" }));
+    }
+  }
+  for (const term of analysis.undefinedTerms) {
+    for (const range of term.uses) {
+      decorations.push(
+        Decoration.inline(range.from, range.to, { class: "pm-term-undefined", title: "Not a defined term" }),
+      );
+    }
+  }
+  return { enabled, analysis, decorations: DecorationSet.create(state.doc, decorations) };
+}
+
+/** Selects the definition of the term at `pos`; false if there is none. */
+function selectDefinition(state: EditorState, tr: Transaction, pos: number): boolean {
+  const enabled = definedTermsPluginKey.getState(state)?.enabled ?? false;
+  const analysis = enabled ? getDefinedTerms(state) : analyzeDefinedTerms(state.doc);
+  const term = definedTermAt(analysis, pos);
+  if (!term) return false;
+  tr.setSelection(TextSelection.create(tr.doc, term.definition.from, term.definition.to)).scrollIntoView();
+  return true;
+}
+
+export const DefinedTerms = Extension.create({
+  name: "definedTerms",
+
+  addCommands() {
+    return {
+      setDefinedTermsEnabled:
+        (enabled) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(definedTermsPluginKey, { enabled });
+          return true;
+        },
+
+      goToDefinition:
+        () =>
+        ({ state, tr, dispatch }) => {
+          if (!dispatch) return !!definedTermAt(analyzeDefinedTerms(state.doc), state.selection.from);
+          return selectDefinition(state, tr, state.selection.from);
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      F12: () => this.editor.commands.goToDefinition(),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DefinedTermsPluginState>({
+        key: definedTermsPluginKey,
+        state: {
+          init: (_, state) => buildState(state, false),
+          apply(tr, value, _oldState, newState) {
+            const meta = tr.getMeta(definedTermsPluginKey) as { enabled: boolean } | undefined;
+            if (meta && meta.enabled !== value.enabled) return buildState(newState, meta.enabled);
+            return tr.docChanged && value.enabled ? buildState(newState, true) : value;
+          },
+        },
+
+        props: {
+          decorations(state) {
+            return definedTermsPluginKey.getState(state)?.decorations ?? null;
+          },
+
+          // Ctrl/Cmd-click on a use goes to its definition.
+          handleClick(view, pos, event) {
+            if (!(event.metaKey || event.ctrlKey)) return false;
+            const { tr } = view.state;
+            if (!selectDefinition(view.state, tr, pos)) return false;
+            view.dispatch(tr);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
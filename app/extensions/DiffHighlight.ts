@@ -0,0 +1,110 @@
+import { Extension, Mark, mergeAttributes } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+
+import { CLAUSE_NODE } from "@/app/utils/clauses";
+import { DIFF_MARKS } from "@/app/utils/documentDiff";
+import { SIGNATURE_BLOCK_NODE } from "@/app/utils/signatureBlocks";
+import { TABLE_OF_CONTENTS_NODE } from "@/app/utils/tableOfContents";
+
+const DiffInsert = Mark.create({
+  name: DIFF_MARKS.insert,
+  // Outermost, so the highlight spans bold/italic runs without splitting.
+  priority: 1000,
+
+  parseHTML() {
+    return [{ tag: "ins[data-diff]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["ins", mergeAttributes(HTMLAttributes, { "data-diff": "insert", class: "pm-diff-insert" }), 0];
+  },
+});
+
+const DiffDelete = Mark.create({
+  name: DIFF_MARKS.delete,
+  priority: 1000,
+
+  parseHTML() {
+    return [{ tag: "del[data-diff]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["del", mergeAttributes(HTMLAttributes, { "data-diff": "delete", class: "pm-diff-delete" }), 0];
+  },
+});
+
+/** Block types that can be added or removed as a whole. */
+const DIFF_BLOCK_TYPES = [
+  "paragraph",
+  "heading",
+  "blockquote",
+  "codeBlock",
+  "bulletList",
+  "orderedList",
+  "listItem",
+  "horizontalRule",
+  "pageBreak",
+  "table",
+  "tableRow",
+  "tableCell",
+  "tableHeader",
+  CLAUSE_NODE,
+  SIGNATURE_BLOCK_NODE,
+  TABLE_OF_CONTENTS_NODE,
+];
+
+function buildDecorations(doc: ProseMirrorNode): DecorationSet {
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (node.attrs.diff) decorations.push(Decoration.node(pos, pos + node.nodeSize, { "data-diff": node.attrs.diff }));
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Schema additions for rendering `diffDocuments` output: insert/delete marks on
+ * text and inline nodes, and a `data-diff` attribute on whole added or removed
+ * blocks. The attribute is drawn as a node decoration, so it also shows on blocks
+ * that render themselves (signature blocks, the table of contents).
+ * Only the read-only comparison view loads this.
+ */
+export const DiffHighlight = Extension.create({
+  name: "diffHighlight",
+
+  addExtensions() {
+    return [DiffInsert, DiffDelete];
+  },
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: DIFF_BLOCK_TYPES,
+        attributes: {
+          diff: {
+            default: null,
+            rendered: false,
+            parseHTML: (element) => element.getAttribute("data-diff"),
+          },
+        },
+      },
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    // The comparison is read-only; the doc only changes when another one is loaded.
+    let cache: { doc: ProseMirrorNode; decorations: DecorationSet } | null = null;
+
+    return [
+      new Plugin({
+        props: {
+          decorations(state) {
+            if (cache?.doc !== state.doc) cache = { doc: state.doc, decorations: buildDecorations(state.doc) };
+            return cache.decorations;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,135 @@
+import type { JSONContent } from "@tiptap/core";
+import { Node } from "@tiptap/core";
+
+import { DEFAULT_CLAUSE_NUMBERING } from "@/app/utils/clauses";
+import { DEFAULT_COMMENTS } from "@/app/utils/comments";
+import { DEFAULT_NOTE_PLACEMENT } from "@/app/utils/footnotes";
+import type { DocumentInfo, HeaderFooterConfig } from "@/app/utils/headerFooter";
+import {
+  DEFAULT_DOCUMENT_INFO,
+  DEFAULT_HEADER_FOOTER,
+  normalizeDocumentInfo,
+  normalizeHeaderFooter,
+} from "@/app/utils/headerFooter";
+import { DEFAULT_MERGE_FIELD_VALUES } from "@/app/utils/mergeFields";
+import type { PageSetup } from "@/app/utils/pageSetup";
+import { DEFAULT_PAGE_SETUP, normalizePageSetup } from "@/app/utils/pageSetup";
+import type { PleadingSetup } from "@/app/utils/pleading";
+import { DEFAULT_PLEADING, normalizePleading } from "@/app/utils/pleading";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    document: {
+      /** Replaces the document's page setup. Undoable like any other edit. */
+      setPageSetup: (pageSetup: PageSetup) => ReturnType;
+      /** Turns pleading paper (numbered lines on a fixed grid) on or off, or changes its line count. */
+      setPleading: (pleading: PleadingSetup) => ReturnType;
+      /** Replaces the running header/footer templates. */
+      setHeaderFooter: (headerFooter: HeaderFooterConfig) => ReturnType;
+      /** Replaces the document fields used by header/footer templates. */
+      setDocumentInfo: (documentInfo: DocumentInfo) => ReturnType;
+      /**
+       * Replaces the content and settings with a stored document (`editor.getJSON()`
+       * output). Not added to undo history.
+       */
+      loadDocument: (json: JSONContent) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Top-level document node. Replaces StarterKit's `doc` so document-wide settings
+ * (page setup, pleading paper, headers/footers, document fields, comment threads, note placement,
+ * clause numbering, merge field values) live in the doc attrs and travel with `editor.getJSON()`.
+ */
+export const Document = Node.create({
+  name: "doc",
+  topNode: true,
+  content: "block+",
+
+  addAttributes() {
+    return {
+      pageSetup: {
+        default: DEFAULT_PAGE_SETUP,
+        rendered: false,
+      },
+      pleading: {
+        default: DEFAULT_PLEADING,
+        rendered: false,
+      },
+      headerFooter: {
+        default: DEFAULT_HEADER_FOOTER,
+        rendered: false,
+      },
+      documentInfo: {
+        default: DEFAULT_DOCUMENT_INFO,
+        rendered: false,
+      },
+      // Comment threads and their print setting; edited through the `Comments` extension.
+      comments: {
+        default: DEFAULT_COMMENTS,
+        rendered: false,
+      },
+      // Footnotes or endnotes; set through the `Footnotes` extension.
+      notePlacement: {
+        default: DEFAULT_NOTE_PLACEMENT,
+        rendered: false,
+      },
+      // Numbering scheme for clauses; set through the `Clauses` extension.
+      clauseNumbering: {
+        default: DEFAULT_CLAUSE_NUMBERING,
+        rendered: false,
+      },
+      // Values of the template's fill-in fields; set through the `MergeFields` extension.
+      mergeFieldValues: {
+        default: DEFAULT_MERGE_FIELD_VALUES,
+        rendered: false,
+      },
+    };
+  },
+
+  addCommands() {
+    return {
+      setPageSetup:
+        (pageSetup: PageSetup) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setDocAttribute("pageSetup", normalizePageSetup(pageSetup));
+          return true;
+        },
+
+      setPleading:
+        (pleading: PleadingSetup) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setDocAttribute("pleading", normalizePleading(pleading));
+          return true;
+        },
+
+      setHeaderFooter:
+        (headerFooter: HeaderFooterConfig) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setDocAttribute("headerFooter", normalizeHeaderFooter(headerFooter));
+          return true;
+        },
+
+      setDocumentInfo:
+        (documentInfo: DocumentInfo) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setDocAttribute("documentInfo", normalizeDocumentInfo(documentInfo));
+          return true;
+        },
+
+      loadDocument:
+        (json: JSONContent) =>
+        ({ tr, dispatch, editor }) => {
+          // setContent only replaces children, so doc attrs are copied over explicitly.
+          const doc = editor.schema.nodeFromJSON(json);
+          if (dispatch) {
+            tr.replaceWith(0, tr.doc.content.size, doc.content);
+            for (const [name, value] of Object.entries(doc.attrs)) tr.setDocAttribute(name, value);
+            tr.setMeta("addToHistory", false);
+          }
+          return true;
+        },
+    };
+  },
+});
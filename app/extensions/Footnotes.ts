@@ -0,0 +1,265 @@
+import { Extension, Node } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { EditorState, Transaction } from "@tiptap/pm/state";
+import { NodeSelection, Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+
+import { nodesChangedBy } from "@/app/utils/changedRanges";
+import type { Note, NotePlacement } from "@/app/utils/footnotes";
+import { FOOTNOTE_NODE, collectNotes, normalizeNotePlacement } from "@/app/utils/footnotes";
+import { newShortId } from "@/app/utils/ids";
+
+/**
+ * Footnotes. A `footnote` node marks the reference in the text and carries the
+ * note's text; numbers follow document order. The doc's `notePlacement` attr picks
+ * footnotes or endnotes.
+ *
+ * As footnotes, every note is laid out once in a hidden measuring box so
+ * `computePageBreaks` can reserve its height on the page its reference lands on;
+ * `Pagination` then draws each page's notes in the spacer below its text. Endnotes
+ * are rendered after the document by React.
+ *
+ * The notes and their number decorations are kept up to date as the doc changes:
+ * only the ranges a transaction touches are scanned again, so typing costs the same
+ * however long the document is.
+ */
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    footnotes: {
+      /** Inserts a footnote reference with the given text at the selection. */
+      insertFootnote: (text: string) => ReturnType;
+      updateFootnote: (id: string, text: string) => ReturnType;
+      setNotePlacement: (placement: NotePlacement) => ReturnType;
+    };
+  }
+}
+
+const footnotesPluginKey = new PluginKey<DecorationSet>("footnotes");
+
+// The notes of each doc, read from the number decorations kept in step with it.
+const notesByDoc = new WeakMap<ProseMirrorNode, Note[]>();
+
+/**
+ * Every footnote in the document, numbered from 1 in document order, as `collectNotes`
+ * finds them but read from the plugin's decorations instead of the whole doc.
+ */
+export function getNotes(state: EditorState): Note[] {
+  const decorations = footnotesPluginKey.getState(state);
+  if (!decorations) return collectNotes(state.doc);
+  let notes = notesByDoc.get(state.doc);
+  if (!notes) {
+    const positions = decorations.find(undefined, undefined, isNumber).map((d) => d.from);
+    notes = notesAt(state.doc, positions.sort((a, b) => a - b));
+    notesByDoc.set(state.doc, notes);
+  }
+  return notes;
+}
+
+/** The note under a node selection, if the selection is a footnote reference. */
+export function selectedFootnote(state: EditorState): Note | null {
+  const { from, to } = state.selection;
+  return getNotes(state).find((n) => n.pos === from && n.pos + 1 === to) ?? null;
+}
+
+/** Note list shared by the measuring box and the per-page footnote areas, so heights match. */
+export function renderFootnoteList(notes: Note[], className: string): HTMLElement {
+  const list = document.createElement("div");
+  list.className = className;
+  list.contentEditable = "false";
+  for (const note of notes) {
+    const item = document.createElement("div");
+    item.className = "pm-footnote";
+    item.setAttribute("data-footnote-id", note.id);
+    const number = document.createElement("span");
+    number.className = "pm-footnote-number";
+    number.textContent = String(note.number);
+    item.append(number, note.text);
+    list.appendChild(item);
+  }
+  return list;
+}
+
+const isNumber = (spec: { footnoteNumber?: number }) => spec.footnoteNumber !== undefined;
+const isMeasure = (spec: { footnoteMeasure?: boolean }) => spec.footnoteMeasure === true;
+
+/** The notes whose references are at `positions`, in order, numbered from 1. */
+function notesAt(doc: ProseMirrorNode, positions: number[]): Note[] {
+  return positions.map((pos, index) => {
+    const { attrs } = doc.nodeAt(pos)!;
+    return { id: attrs.id as string, pos, number: index + 1, text: attrs.text as string };
+  });
+}
+
+const numberDecoration = (note: Note) =>
+  Decoration.node(note.pos, note.pos + 1, { "data-number": String(note.number) }, { footnoteNumber: note.number });
+
+function measureWidget(doc: ProseMirrorNode, notes: Note[]): Decoration[] {
+  if (notes.length === 0 || normalizeNotePlacement(doc.attrs.notePlacement) !== "footnotes") return [];
+  // At the end, where it cannot shift the first block's spacing.
+  return [
+    Decoration.widget(doc.content.size, () => renderFootnoteList(notes, "pm-footnote-measure"), {
+      side: 1,
+      ignoreSelection: true,
+      key: `footnote-measure-${JSON.stringify(notes.map((n) => [n.id, n.number, n.text]))}`,
+      footnoteMeasure: true,
+    }),
+  ];
+}
+
+function buildDecorations(doc: ProseMirrorNode): DecorationSet {
+  const notes = collectNotes(doc);
+  notesByDoc.set(doc, notes);
+  return DecorationSet.create(doc, [...notes.map(numberDecoration), ...measureWidget(doc, notes)]);
+}
+
+/**
+ * Maps the decorations through the transaction. Only when it adds, removes or changes
+ * a reference are the notes numbered again, redrawing the numbers that changed and
+ * the measuring box.
+ */
+function applyTransaction(tr: Transaction, prev: DecorationSet, oldDoc: ProseMirrorNode): DecorationSet {
+  const { doc } = tr;
+  let removed = 0;
+  const decorations = prev.map(tr.mapping, doc, {
+    onRemove: (spec) => {
+      if (isNumber(spec)) removed++;
+    },
+  });
+  const changed = nodesChangedBy(tr, FOOTNOTE_NODE);
+  if (removed === 0 && changed.size === 0 && doc.attrs.notePlacement === oldDoc.attrs.notePlacement) {
+    return decorations;
+  }
+
+  const numbered = new Map(decorations.find(undefined, undefined, isNumber).map((d) => [d.from, d]));
+  const positions = [...new Set([...numbered.keys(), ...changed])].sort((a, b) => a - b);
+  const notes = notesAt(doc, positions);
+  notesByDoc.set(doc, notes);
+  const redrawn = notes.filter(
+    (note) => changed.has(note.pos) || numbered.get(note.pos)?.spec.footnoteNumber !== note.number,
+  );
+  const stale = [
+    ...redrawn.flatMap((note) => numbered.get(note.pos) ?? []),
+    ...decorations.find(undefined, undefined, isMeasure),
+  ];
+  return decorations.remove(stale).add(doc, [...redrawn.map(numberDecoration), ...measureWidget(doc, notes)]);
+}
+
+const FootnoteNode = Node.create({
+  name: FOOTNOTE_NODE,
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      id: { default: null },
+      text: { default: "" },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "sup[data-footnote-ref]",
+        getAttrs: (el) => ({
+          id: el.getAttribute("data-footnote-ref"),
+          text: el.getAttribute("data-footnote-text") ?? "",
+        }),
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    // The number is a decoration attribute, shown with CSS, since it depends on the notes before it.
+    return [
+      "sup",
+      { class: "pm-footnote-ref", "data-footnote-ref": node.attrs.id, "data-footnote-text": node.attrs.text },
+    ];
+  },
+});
+
+export const Footnotes = Extension.create({
+  name: "footnotes",
+
+  addExtensions() {
+    return [FootnoteNode];
+  },
+
+  addCommands() {
+    return {
+      insertFootnote:
+        (text) =>
+        ({ commands }) => {
+          if (!text.trim()) return false;
+          return commands.insertContent({ type: FOOTNOTE_NODE, attrs: { id: newShortId(), text: text.trim() } });
+        },
+
+      updateFootnote:
+        (id, text) =>
+        ({ state, tr, dispatch }) => {
+          const note = getNotes(state).find((n) => n.id === id);
+          if (!note || !text.trim()) return false;
+          if (dispatch) tr.setNodeAttribute(note.pos, "text", text.trim());
+          return true;
+        },
+
+      setNotePlacement:
+        (placement) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setDocAttribute("notePlacement", normalizeNotePlacement(placement));
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: footnotesPluginKey,
+        state: {
+          init: (_, state) => buildDecorations(state.doc),
+          apply: (tr, value, oldState) => (tr.docChanged ? applyTransaction(tr, value, oldState.doc) : value),
+        },
+
+        // Pasting or duplicating a reference copies its id; give copies ids of their own,
+        // since page layout tracks notes by id.
+        appendTransaction(transactions, _oldState, newState) {
+          if (!transactions.some((tr) => nodesChangedBy(tr, FOOTNOTE_NODE).size > 0)) return null;
+          const seen = new Set<string>();
+          const { tr } = newState;
+          for (const note of getNotes(newState)) {
+            if (note.id && !seen.has(note.id)) {
+              seen.add(note.id);
+              continue;
+            }
+            tr.setNodeAttribute(note.pos, "id", newShortId());
+          }
+          if (!tr.docChanged) return null;
+          return tr.setMeta("addToHistory", false);
+        },
+
+        props: {
+          decorations(state) {
+            return footnotesPluginKey.getState(state) ?? null;
+          },
+
+          handleDOMEvents: {
+            // Clicking a note in a page's footnote area selects its reference.
+            mousedown(view, event) {
+              const item = (event.target as Element | null)?.closest?.(".pm-footnotes [data-footnote-id]");
+              if (!item) return false;
+              const note = getNotes(view.state).find((n) => n.id === item.getAttribute("data-footnote-id"));
+              if (!note) return false;
+              event.preventDefault();
+              view.dispatch(view.state.tr.setSelection(NodeSelection.create(view.state.doc, note.pos)).scrollIntoView());
+              view.focus();
+              return true;
+            },
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,148 @@
+import { Extension, Node } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { Transaction } from "@tiptap/pm/state";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+
+import { nodesChangedBy } from "@/app/utils/changedRanges";
+import type { MergeFieldOccurrence, MergeFieldType, MergeFieldValues } from "@/app/utils/mergeFields";
+import {
+  MERGE_FIELD_NODE,
+  collectMergeFieldOccurrences,
+  mergeFieldText,
+  normalizeMergeFieldName,
+  normalizeMergeFieldType,
+  normalizeMergeFieldValues,
+} from "@/app/utils/mergeFields";
+
+/**
+ * Fill-in fields for templates. A `mergeField` names a field and its type; the values
+ * live once in the doc's `mergeFieldValues`, so filling a field in fills every
+ * occurrence of it. Fields show as chips with the formatted value, or their bracketed
+ * name while empty.
+ *
+ * Labels are mapped through edits; only fields in the ranges an edit touches are
+ * labelled again, and every field only when the values change.
+ */
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    mergeFields: {
+      insertMergeField: (name: string, type?: MergeFieldType) => ReturnType;
+      /** Replaces all field values. */
+      setMergeFieldValues: (values: MergeFieldValues) => ReturnType;
+    };
+  }
+}
+
+function fieldDecoration(field: MergeFieldOccurrence, values: MergeFieldValues): Decoration {
+  const text = mergeFieldText(field, values);
+  const attrs = values[field.name] ? { "data-label": text } : { "data-label": text, class: "is-empty" };
+  return Decoration.node(field.pos, field.pos + 1, attrs);
+}
+
+function buildDecorations(doc: ProseMirrorNode): DecorationSet {
+  const values = normalizeMergeFieldValues(doc.attrs.mergeFieldValues);
+  return DecorationSet.create(
+    doc,
+    collectMergeFieldOccurrences(doc).map((field) => fieldDecoration(field, values)),
+  );
+}
+
+function applyTransaction(tr: Transaction, prev: DecorationSet, oldDoc: ProseMirrorNode): DecorationSet {
+  const { doc } = tr;
+  if (doc.attrs.mergeFieldValues !== oldDoc.attrs.mergeFieldValues) return buildDecorations(doc);
+  const decorations = prev.map(tr.mapping, doc);
+  const changed = nodesChangedBy(tr, MERGE_FIELD_NODE);
+  if (changed.size === 0) return decorations;
+
+  const values = normalizeMergeFieldValues(doc.attrs.mergeFieldValues);
+  const stale = [...changed].flatMap((pos) => decorations.find(pos, pos + 1).filter((d) => d.from === pos));
+  const fresh = [...changed].flatMap((pos) => {
+    const { attrs } = doc.nodeAt(pos)!;
+    const name = normalizeMergeFieldName(attrs.name);
+    return name ? [fieldDecoration({ name, type: normalizeMergeFieldType(attrs.type), pos }, values)] : [];
+  });
+  return decorations.remove(stale).add(doc, fresh);
+}
+
+const MergeFieldNode = Node.create({
+  name: MERGE_FIELD_NODE,
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      name: { default: "" },
+      type: { default: "text" },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "span[data-merge-field]",
+        getAttrs: (el) => ({
+          name: normalizeMergeFieldName(el.getAttribute("data-merge-field")),
+          type: normalizeMergeFieldType(el.getAttribute("data-type")),
+        }),
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    // The text is a decoration attribute, shown with CSS, since the value is kept on the doc.
+    return ["span", { class: "pm-merge-field", "data-merge-field": node.attrs.name, "data-type": node.attrs.type }];
+  },
+});
+
+const mergeFieldsPluginKey = new PluginKey<DecorationSet>("mergeFields");
+
+export const MergeFields = Extension.create({
+  name: "mergeFields",
+
+  addExtensions() {
+    return [MergeFieldNode];
+  },
+
+  addCommands() {
+    return {
+      insertMergeField:
+        (name, type = "text") =>
+        ({ commands }) => {
+          const fieldName = normalizeMergeFieldName(name);
+          if (!fieldName) return false;
+          return commands.insertContent({
+            type: MERGE_FIELD_NODE,
+            attrs: { name: fieldName, type: normalizeMergeFieldType(type) },
+          });
+        },
+
+      setMergeFieldValues:
+        (values) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setDocAttribute("mergeFieldValues", normalizeMergeFieldValues(values));
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: mergeFieldsPluginKey,
+        state: {
+          init: (_, state) => buildDecorations(state.doc),
+          apply: (tr, value, oldState) => (tr.docChanged ? applyTransaction(tr, value, oldState.doc) : value),
+        },
+        props: {
+          decorations(state) {
+            return mergeFieldsPluginKey.getState(state) ?? null;
+          },
+        },
+      }),
+    ];
+  },
+});
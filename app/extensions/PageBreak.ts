@@ -0,0 +1,77 @@
+import { canInsertNode, mergeAttributes, Node } from "@tiptap/core";
+import { TextSelection } from "@tiptap/pm/state";
+
+/** Attribute that marks a rendered hard page break; `computePageBreaks` looks for it. */
+export const PAGE_BREAK_ATTRIBUTE = "data-page-break";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    pageBreak: {
+      /** Inserts a hard page break at the selection. */
+      setPageBreak: () => ReturnType;
+    };
+  }
+}
+
+/**
+ * A hard page break. Content after it always starts on a new page, on screen
+ * (via the pagination spacer) and in print (`break-before: page`).
+ */
+export const PageBreak = Node.create({
+  name: "pageBreak",
+  group: "block",
+  atom: true,
+  selectable: true,
+  // Run before StarterKit's hard break, which also binds Mod-Enter.
+  priority: 1000,
+
+  parseHTML() {
+    return [{ tag: `div[${PAGE_BREAK_ATTRIBUTE}]` }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "div",
+      mergeAttributes(HTMLAttributes, {
+        [PAGE_BREAK_ATTRIBUTE]: "",
+        class: "pm-hard-page-break",
+        style: "break-before: page",
+      }),
+    ];
+  },
+
+  addCommands() {
+    return {
+      setPageBreak:
+        () =>
+        ({ chain, state }) => {
+          if (!canInsertNode(state, state.schema.nodes[this.name])) return false;
+
+          return chain()
+            .insertContent({ type: this.name })
+            .command(({ tr, dispatch }) => {
+              if (!dispatch) return true;
+              const { $to } = tr.selection;
+
+              // Keep a text block after the break so typing continues on the new page.
+              if ($to.nodeAfter?.isTextblock) {
+                tr.setSelection(TextSelection.create(tr.doc, $to.pos + 1));
+              } else if (!$to.nodeAfter) {
+                const paragraph = state.schema.nodes.paragraph.create();
+                tr.insert($to.pos, paragraph);
+                tr.setSelection(TextSelection.create(tr.doc, $to.pos + 1));
+              }
+              tr.scrollIntoView();
+              return true;
+            })
+            .run();
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-Enter": () => this.editor.commands.setPageBreak(),
+    };
+  },
+});
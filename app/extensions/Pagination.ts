@@ -1,28 +1,109 @@
 import { Extension } from "@tiptap/core";
-import { Plugin, PluginKey } from "@tiptap/pm/state";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { DOMSerializer } from "@tiptap/pm/model";
+import type { EditorState } from "@tiptap/pm/state";
+import { Plugin, PluginKey, Selection } from "@tiptap/pm/state";
 import { Decoration, DecorationSet } from "@tiptap/pm/view";
 
+import { getNotes, renderFootnoteList } from "@/app/extensions/Footnotes";
+import type { Note } from "@/app/utils/footnotes";
+
+export type PaginationBreak = {
+  /** Doc position where the between-page spacer is inserted. */
+  pos: number;
+  /**
+   * Extra spacer height (px) that fills out a page ended early, e.g. by a hard page
+   * break, a keep rule or the rest of a line, or whose bottom is taken by footnotes.
+   */
+  fillPx: number;
+  /** Footnotes drawn at the bottom of the page that ends here. */
+  footnoteIds: string[];
+};
+
+/** The last page's fill and footnotes, drawn in the bottom spacer. */
+export type PaginationLastPage = Omit<PaginationBreak, "pos">;
+
 type PaginationMeta = {
-  breakPositions: number[];
+  breaks: PaginationBreak[];
   topSpacerPx: number;
   betweenSpacerPx: number;
   bottomSpacerPx: number;
+  lastPage: PaginationLastPage;
+};
+
+const NO_LAST_PAGE: PaginationLastPage = { fillPx: 0, footnoteIds: [] };
+const NO_BREAKS: number[] = [];
+
+/** Class of repeated table header rows; pagination ignores them when measuring. */
+export const REPEATED_TABLE_HEADER_CLASS = "pm-repeated-table-header";
+
+/** Returns the table's first row if every cell in it is a header cell. */
+function getHeaderRow(table: ProseMirrorNode): ProseMirrorNode | null {
+  const first = table.firstChild;
+  if (!first || first.childCount === 0) return null;
+  let isHeader = true;
+  first.forEach((cell) => {
+    if (cell.type.spec.tableRole !== "header_cell") isHeader = false;
+  });
+  return isHeader ? first : null;
+}
+
+/**
+ * Adds a page's footnote area to a spacer, pinned `bottomPx` above the spacer's end
+ * so it sits at the bottom of the page's content area. In print it follows the text.
+ */
+function appendFootnotes(spacer: HTMLElement, notes: Note[], footnoteIds: string[], bottomPx: number) {
+  const shown = notes.filter((n) => footnoteIds.includes(n.id));
+  if (shown.length === 0) return;
+  const area = renderFootnoteList(shown, "pm-footnotes");
+  area.style.setProperty("--pm-footnotes-bottom", `${bottomPx}px`);
+  spacer.appendChild(area);
+}
+
+/**
+ * Widget key for a spacer, from everything it draws. Spacers that keep their key keep
+ * their DOM when breaks are reapplied, so only pages whose breaks moved are redrawn and
+ * the next pagination run only re-measures those.
+ */
+function spacerKey(kind: string, heightPx: number, notes: Note[], footnoteIds: string[]): string {
+  const shown = notes.filter((n) => footnoteIds.includes(n.id)).map((n) => [n.id, n.number, n.text]);
+  return `${kind}-${heightPx}-${JSON.stringify(shown)}`;
+}
+
+function getColumnCount(row: ProseMirrorNode): number {
+  let count = 0;
+  row.forEach((cell) => {
+    count += (cell.attrs.colspan as number | undefined) ?? 1;
+  });
+  return count;
+}
+
+type PaginationState = {
+  decorations: DecorationSet;
+  /** Doc positions where pages 2, 3, ... start, mapped through edits until the next layout. */
+  breaks: number[];
 };
 
-const paginationPluginKey = new PluginKey<{ decorations: DecorationSet }>(
-  "pagination",
-);
+const paginationPluginKey = new PluginKey<PaginationState>("pagination");
+
+/** Start positions of pages 2, 3, ... as last laid out; empty without the `Pagination` extension. */
+export function getPageBreakPositions(state: EditorState): number[] {
+  return paginationPluginKey.getState(state)?.breaks ?? NO_BREAKS;
+}
 
 declare module "@tiptap/core" {
   interface Commands<ReturnType> {
     pagination: {
       setPaginationBreaks: (
-        breakPositions: number[],
+        breaks: PaginationBreak[],
         topSpacerPx: number,
         betweenSpacerPx: number,
         bottomSpacerPx: number,
+        lastPage?: PaginationLastPage,
       ) => ReturnType;
       clearPaginationBreaks: () => ReturnType;
+      /** Puts the cursor at the start of a page (1-based) as last laid out. */
+      goToPage: (page: number) => ReturnType;
     };
   }
 }
@@ -34,17 +115,19 @@ export const Pagination = Extension.create({
     return {
       setPaginationBreaks:
         (
-          breakPositions: number[],
+          breaks: PaginationBreak[],
           topSpacerPx: number,
           betweenSpacerPx: number,
           bottomSpacerPx: number,
+          lastPage: PaginationLastPage = NO_LAST_PAGE,
         ) =>
         ({ tr, dispatch }) => {
           const meta: PaginationMeta = {
-            breakPositions,
+            breaks,
             topSpacerPx,
             betweenSpacerPx,
             bottomSpacerPx,
+            lastPage,
           };
           tr.setMeta(paginationPluginKey, meta);
           if (dispatch) dispatch(tr);
@@ -55,25 +138,36 @@ export const Pagination = Extension.create({
         () =>
         ({ tr, dispatch }) => {
           const meta: PaginationMeta = {
-            breakPositions: [],
+            breaks: [],
             topSpacerPx: 0,
             betweenSpacerPx: 0,
             bottomSpacerPx: 0,
+            lastPage: NO_LAST_PAGE,
           };
           tr.setMeta(paginationPluginKey, meta);
           if (dispatch) dispatch(tr);
           return true;
         },
+
+      goToPage:
+        (page: number) =>
+        ({ state, tr, dispatch }) => {
+          const breaks = getPageBreakPositions(state);
+          if (!Number.isInteger(page) || page < 1 || page > breaks.length + 1) return false;
+          const pos = page === 1 ? 0 : breaks[page - 2];
+          if (dispatch) tr.setSelection(Selection.near(tr.doc.resolve(pos)));
+          return true;
+        },
     };
   },
 
   addProseMirrorPlugins() {
     return [
-      new Plugin<{ decorations: DecorationSet }>({
+      new Plugin<PaginationState>({
         key: paginationPluginKey,
 
         state: {
-          init: () => ({ decorations: DecorationSet.empty }),
+          init: () => ({ decorations: DecorationSet.empty, breaks: NO_BREAKS }),
           apply(tr, prev, _oldState, newState) {
             const meta = tr.getMeta(paginationPluginKey) as PaginationMeta | undefined;
 
@@ -81,16 +175,19 @@ export const Pagination = Extension.create({
             const mapped = prev.decorations.map(tr.mapping, tr.doc);
 
             if (!meta) {
-              return { decorations: mapped };
+              // Same array while the doc is unchanged, so readers can cache on it.
+              const breaks = tr.docChanged ? prev.breaks.map((pos) => tr.mapping.map(pos)) : prev.breaks;
+              return { decorations: mapped, breaks };
             }
 
             // Rebuild decorations from the new break positions.
             // Clamp positions to the valid doc range.
-            const clamped = meta.breakPositions
-              .map((p) => Math.max(0, Math.min(p, newState.doc.content.size)))
-              .filter((p, i, arr) => i === 0 || p !== arr[i - 1]);
+            const clamped = meta.breaks
+              .map((b) => ({ ...b, pos: Math.max(0, Math.min(b.pos, newState.doc.content.size)) }))
+              .filter((b, i, arr) => i === 0 || b.pos !== arr[i - 1].pos);
 
             const decorations: Decoration[] = [];
+            const notes = getNotes(newState);
 
             if (meta.topSpacerPx > 0) {
               decorations.push(
@@ -102,43 +199,98 @@ export const Pagination = Extension.create({
                     el.style.setProperty("--pm-spacer-height", `${meta.topSpacerPx}px`);
                     return el;
                   },
-                  { side: -1 },
+                  { side: -1, key: `page-top-${meta.topSpacerPx}` },
                 ),
               );
             }
 
             if (meta.bottomSpacerPx > 0) {
+              const { fillPx, footnoteIds } = meta.lastPage;
+              const heightPx = meta.bottomSpacerPx + Math.max(0, fillPx);
               decorations.push(
                 Decoration.widget(
                   newState.doc.content.size,
                   () => {
                     const el = document.createElement("div");
                     el.className = "pm-page-bottom-spacer";
-                    el.style.setProperty("--pm-spacer-height", `${meta.bottomSpacerPx}px`);
+                    el.style.setProperty("--pm-spacer-height", `${heightPx}px`);
+                    appendFootnotes(el, notes, footnoteIds, meta.bottomSpacerPx);
                     return el;
                   },
-                  { side: 1 },
+                  { side: 1, key: spacerKey(`page-bottom-${meta.bottomSpacerPx}`, heightPx, notes, footnoteIds) },
                 ),
               );
             }
 
-            for (const pos of clamped) {
+            for (const { pos, fillPx, footnoteIds } of clamped) {
               if (meta.betweenSpacerPx <= 0) continue;
+              const heightPx = meta.betweenSpacerPx + Math.max(0, fillPx);
+              const $pos = newState.doc.resolve(pos);
+
+              // Breaks between table rows need row-shaped widgets to stay valid inside <tbody>.
+              if ($pos.parent.type.spec.tableRole === "table") {
+                const table = $pos.parent;
+                const columns = table.firstChild ? getColumnCount(table.firstChild) : 1;
+                decorations.push(
+                  Decoration.widget(
+                    pos,
+                    () => {
+                      const row = document.createElement("tr");
+                      row.className = "pm-page-break pm-page-break--table";
+                      row.style.setProperty("--pm-spacer-height", `${heightPx}px`);
+                      const cell = document.createElement("td");
+                      cell.colSpan = columns;
+                      appendFootnotes(cell, notes, footnoteIds, meta.betweenSpacerPx);
+                      row.appendChild(cell);
+                      return row;
+                    },
+                    {
+                      side: -2,
+                      key: spacerKey(`page-break-row-${columns}-${meta.betweenSpacerPx}`, heightPx, notes, footnoteIds),
+                    },
+                  ),
+                );
+
+                // Repeat the header row at the top of each continued page.
+                const headerRow = getHeaderRow(table);
+                if (headerRow && $pos.index() > 0) {
+                  decorations.push(
+                    Decoration.widget(
+                      pos,
+                      () => {
+                        const serializer = DOMSerializer.fromSchema(newState.schema);
+                        const el = serializer.serializeNode(headerRow) as HTMLElement;
+                        el.classList.add(REPEATED_TABLE_HEADER_CLASS);
+                        el.setAttribute("contenteditable", "false");
+                        el.setAttribute("aria-hidden", "true");
+                        return el;
+                      },
+                      { side: -1, key: `table-header-${JSON.stringify(headerRow.toJSON())}` },
+                    ),
+                  );
+                }
+                continue;
+              }
+
               decorations.push(
                 Decoration.widget(
                   pos,
                   () => {
                     const el = document.createElement("div");
                     el.className = "pm-page-break";
-                    el.style.setProperty("--pm-spacer-height", `${meta.betweenSpacerPx}px`);
+                    el.style.setProperty("--pm-spacer-height", `${heightPx}px`);
+                    appendFootnotes(el, notes, footnoteIds, meta.betweenSpacerPx);
                     return el;
                   },
-                  { side: -1 },
+                  { side: -1, key: spacerKey(`page-break-${meta.betweenSpacerPx}`, heightPx, notes, footnoteIds) },
                 ),
               );
             }
 
-            return { decorations: DecorationSet.create(newState.doc, decorations) };
+            return {
+              decorations: DecorationSet.create(newState.doc, decorations),
+              breaks: clamped.map((b) => b.pos),
+            };
           },
         },
 
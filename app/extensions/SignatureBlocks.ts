@@ -0,0 +1,117 @@
+import { Node } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { Selection } from "@tiptap/pm/state";
+import { NodeSelection } from "@tiptap/pm/state";
+
+import type { SignatureBlock } from "@/app/utils/signatureBlocks";
+import {
+  SIGNATURE_BLOCK_NODE,
+  normalizeSignatureBlock,
+  signatureDetailLines,
+  signatureLineLabel,
+} from "@/app/utils/signatureBlocks";
+
+/**
+ * Signature blocks. Each one is a single node, so pagination treats it as one unit: it
+ * is never split across pages and the line before it moves to the next page with it
+ * (see `computePageBreaks` and `paginateDocument`). Its signature line is where PDF
+ * export places the signatory's e-signature field.
+ */
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    signatureBlocks: {
+      insertSignatureBlock: (block: SignatureBlock) => ReturnType;
+      /** Replaces the attributes of the selected signature block. */
+      updateSignatureBlock: (block: SignatureBlock) => ReturnType;
+    };
+  }
+}
+
+/** The signature block the selection is on, if any. */
+export function selectedSignatureBlock(selection: Selection): ProseMirrorNode | null {
+  return selection instanceof NodeSelection && selection.node.type.name === SIGNATURE_BLOCK_NODE
+    ? selection.node
+    : null;
+}
+
+export const SignatureBlocks = Node.create({
+  name: SIGNATURE_BLOCK_NODE,
+  group: "block",
+  atom: true,
+  selectable: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      party: { default: "" },
+      name: { default: "" },
+      title: { default: "" },
+      date: { default: "" },
+      field: { default: "signature" },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "div[data-signature-block]",
+        getAttrs: (el) =>
+          normalizeSignatureBlock({
+            party: el.getAttribute("data-party"),
+            name: el.getAttribute("data-name"),
+            title: el.getAttribute("data-title"),
+            date: el.getAttribute("data-date"),
+            field: el.getAttribute("data-field"),
+          }),
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    const block = normalizeSignatureBlock(node.attrs);
+    const details = signatureDetailLines(block).map(({ label, value }) => [
+      "div",
+      { class: value ? "pm-signature-detail" : "pm-signature-detail is-blank" },
+      ["span", { class: "pm-signature-label" }, label],
+      ["span", { class: "pm-signature-value" }, value],
+    ]);
+    return [
+      "div",
+      {
+        class: "pm-signature-block",
+        "data-signature-block": "",
+        "data-party": block.party,
+        "data-name": block.name,
+        "data-title": block.title,
+        "data-date": block.date,
+        "data-field": block.field,
+      },
+      ...(block.party ? [["div", { class: "pm-signature-party" }, block.party]] : []),
+      [
+        "div",
+        { class: "pm-signature-line", "data-signature-field": block.field },
+        ["span", { class: "pm-signature-label" }, signatureLineLabel(block.field)],
+        ["span", { class: "pm-signature-rule" }],
+      ],
+      ...details,
+    ];
+  },
+
+  addCommands() {
+    return {
+      insertSignatureBlock:
+        (block) =>
+        ({ commands }) =>
+          commands.insertContent({ type: SIGNATURE_BLOCK_NODE, attrs: normalizeSignatureBlock(block) }),
+
+      updateSignatureBlock:
+        (block) =>
+        ({ state, tr, dispatch }) => {
+          if (!selectedSignatureBlock(state.selection)) return false;
+          if (dispatch) tr.setNodeMarkup(state.selection.from, undefined, normalizeSignatureBlock(block));
+          return true;
+        },
+    };
+  },
+});
@@ -0,0 +1,159 @@
+import { Node } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { EditorState } from "@tiptap/pm/state";
+import { Plugin, PluginKey, TextSelection } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+
+import { getPageBreakPositions } from "@/app/extensions/Pagination";
+import type { TocEntry } from "@/app/utils/tableOfContents";
+import { TABLE_OF_CONTENTS_NODE, collectTocEntries } from "@/app/utils/tableOfContents";
+
+/**
+ * Table of contents. The node stores nothing: its entries (h1–h3 headings with the
+ * pages they fall on) are handed to its node view as a decoration, rebuilt whenever
+ * the doc or the pagination breaks change, so it stays current on screen and in print.
+ * Clicking an entry moves the cursor to its heading.
+ */
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    tableOfContents: {
+      insertTableOfContents: () => ReturnType;
+    };
+  }
+}
+
+const tableOfContentsPluginKey = new PluginKey("tableOfContents");
+
+type TocSpec = { tocEntries: TocEntry[] };
+
+function buildDecorations(state: EditorState): DecorationSet {
+  const { doc } = state;
+  const decorations: Decoration[] = [];
+  let entries: TocEntry[] | null = null;
+
+  doc.descendants((node, pos) => {
+    if (node.type.name !== TABLE_OF_CONTENTS_NODE) return;
+    entries ??= collectTocEntries(doc, getPageBreakPositions(state));
+    // The attribute is what makes a changed entry list count as a new decoration.
+    const key = JSON.stringify(entries.map((e) => [e.pos, e.level, e.text, e.page]));
+    const spec: TocSpec = { tocEntries: entries };
+    decorations.push(Decoration.node(pos, pos + node.nodeSize, { "data-toc-key": key }, spec));
+    return false;
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+function renderEntries(dom: HTMLElement, decorations: readonly Decoration[]) {
+  const entries = decorations.map((d) => d.spec as Partial<TocSpec>).find((spec) => spec.tocEntries)?.tocEntries;
+
+  const title = document.createElement("div");
+  title.className = "pm-toc-title";
+  title.textContent = "Contents";
+  dom.replaceChildren(title);
+
+  if (!entries || entries.length === 0) {
+    const empty = document.createElement("div");
+    empty.className = "pm-toc-empty";
+    empty.textContent = "Headings added to the document will be listed here.";
+    dom.appendChild(empty);
+    return;
+  }
+
+  for (const entry of entries) {
+    const item = document.createElement("div");
+    item.className = `pm-toc-entry pm-toc-level-${entry.level}`;
+    item.setAttribute("data-heading-pos", String(entry.pos));
+    const text = document.createElement("span");
+    text.className = "pm-toc-text";
+    text.textContent = entry.text;
+    const leader = document.createElement("span");
+    leader.className = "pm-toc-leader";
+    const page = document.createElement("span");
+    page.className = "pm-toc-page";
+    page.textContent = entry.page === null ? "" : String(entry.page);
+    item.append(text, leader, page);
+    dom.appendChild(item);
+  }
+}
+
+export const TableOfContents = Node.create({
+  name: TABLE_OF_CONTENTS_NODE,
+  group: "block",
+  atom: true,
+  selectable: true,
+
+  parseHTML() {
+    return [{ tag: "div[data-table-of-contents]" }];
+  },
+
+  renderHTML() {
+    return ["div", { class: "pm-toc", "data-table-of-contents": "" }];
+  },
+
+  addNodeView() {
+    return ({ node, decorations }) => {
+      const dom = document.createElement("div");
+      dom.className = "pm-toc";
+      dom.setAttribute("data-table-of-contents", "");
+      dom.contentEditable = "false";
+      renderEntries(dom, decorations);
+
+      return {
+        dom,
+        update: (updated: ProseMirrorNode, updatedDecorations: readonly Decoration[]) => {
+          if (updated.type !== node.type) return false;
+          renderEntries(dom, updatedDecorations);
+          return true;
+        },
+        // The entries are ours to redraw; ProseMirror has nothing to re-read from them.
+        ignoreMutation: () => true,
+      };
+    };
+  },
+
+  addCommands() {
+    return {
+      insertTableOfContents:
+        () =>
+        ({ commands }) =>
+          commands.insertContent({ type: TABLE_OF_CONTENTS_NODE }),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    // Entries change with the doc and page numbers with the layout; cached until either does.
+    let cache: { doc: ProseMirrorNode; breaks: number[]; decorations: DecorationSet } | null = null;
+
+    return [
+      new Plugin({
+        key: tableOfContentsPluginKey,
+        props: {
+          decorations(state) {
+            const breaks = getPageBreakPositions(state);
+            if (cache?.doc !== state.doc || cache.breaks !== breaks) {
+              cache = { doc: state.doc, breaks, decorations: buildDecorations(state) };
+            }
+            return cache.decorations;
+          },
+
+          handleDOMEvents: {
+            mousedown(view, event) {
+              const item = (event.target as Element | null)?.closest?.(".pm-toc [data-heading-pos]");
+              if (!item) return false;
+              const pos = Number(item.getAttribute("data-heading-pos"));
+              const heading = view.state.doc.nodeAt(pos);
+              if (!heading || heading.type.name !== "heading") return false;
+              event.preventDefault();
+              const selection = TextSelection.create(view.state.doc, pos + 1 + heading.content.size);
+              view.dispatch(view.state.tr.setSelection(selection).scrollIntoView());
+              view.focus();
+              return true;
+            },
+          },
+        },
+      }),
+    ];
+  },
+});
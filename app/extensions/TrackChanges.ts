@@ -0,0 +1,423 @@
+import { Extension, Mark, mergeAttributes } from "@tiptap/core";
+import type { Mark as ProseMirrorMark, MarkType, Node as ProseMirrorNode, Slice } from "@tiptap/pm/model";
+import type { EditorState, Transaction } from "@tiptap/pm/state";
+import { Plugin, PluginKey, Selection, TextSelection } from "@tiptap/pm/state";
+import { Mapping, ReplaceStep } from "@tiptap/pm/transform";
+
+import { getAuthorName } from "@/app/utils/author";
+import { newShortId } from "@/app/utils/ids";
+
+/**
+ * Track changes ("suggesting mode"). While suggesting, typed text is marked as an
+ * `insertion` and removed text is kept, marked as a `deletion`, instead of being
+ * deleted. Both marks carry the change id, author and ISO timestamp, and stay
+ * in the document (and so in autosave, print, PDF and DOCX) until accepted or
+ * rejected.
+ *
+ * Deleting another author's pending insertion adds your deletion mark alongside
+ * theirs, so each change can still be accepted or rejected on its own: rejecting
+ * the deletion leaves their insertion pending, not accepted.
+ *
+ * Only inline content is tracked. Splitting or joining blocks with no text
+ * involved (Enter, Backspace at the start of a paragraph) applies directly.
+ */
+
+export const INSERTION_MARK = "insertion";
+export const DELETION_MARK = "deletion";
+
+export type TrackedChangeAttrs = {
+  id: string;
+  author: string;
+  /** ISO timestamp of when the change was made. */
+  date: string;
+};
+
+export type TrackChangesOptions = {
+  /** Name recorded on new changes. Called per change so it can follow a settings UI. */
+  author: () => string;
+};
+
+type TrackChangesState = { enabled: boolean };
+
+export const trackChangesPluginKey = new PluginKey<TrackChangesState>("trackChanges");
+
+/** Whether the editor is in suggesting mode. */
+export function isSuggesting(state: EditorState): boolean {
+  return trackChangesPluginKey.getState(state)?.enabled ?? false;
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    trackChanges: {
+      /** Turns suggesting mode on or off. */
+      setSuggesting: (enabled: boolean) => ReturnType;
+      /** Accepts the change with `id`, or every change touching the selection. */
+      acceptChange: (id?: string) => ReturnType;
+      /** Rejects the change with `id`, or every change touching the selection. */
+      rejectChange: (id?: string) => ReturnType;
+      acceptAllChanges: () => ReturnType;
+      rejectAllChanges: () => ReturnType;
+    };
+  }
+}
+
+function changeAttributes() {
+  return {
+    id: { default: null },
+    author: { default: "" },
+    date: { default: "" },
+  };
+}
+
+function changeTitle(verb: string, attrs: Record<string, unknown>): string {
+  const date = typeof attrs.date === "string" && attrs.date ? new Date(attrs.date).toLocaleString() : "";
+  return [`${verb} by ${(attrs.author as string) || "unknown"}`, date].filter(Boolean).join(" · ");
+}
+
+// Each mark excludes only its own kind: text can be both inserted by one author and deleted by another.
+const Insertion = Mark.create({
+  name: INSERTION_MARK,
+  inclusive: false,
+  excludes: INSERTION_MARK,
+  // Outermost, so a redline spans bold/italic runs without splitting.
+  priority: 1000,
+
+  addAttributes: changeAttributes,
+
+  parseHTML() {
+    return [
+      {
+        tag: "ins[data-change-id]",
+        getAttrs: (el) => ({
+          id: el.getAttribute("data-change-id"),
+          author: el.getAttribute("data-author") ?? "",
+          date: el.getAttribute("data-date") ?? "",
+        }),
+      },
+    ];
+  },
+
+  renderHTML({ mark }) {
+    return [
+      "ins",
+      mergeAttributes({
+        class: "pm-tracked-insert",
+        "data-change-id": mark.attrs.id,
+        "data-author": mark.attrs.author,
+        "data-date": mark.attrs.date,
+        title: changeTitle("Inserted", mark.attrs),
+      }),
+      0,
+    ];
+  },
+});
+
+const Deletion = Mark.create({
+  name: DELETION_MARK,
+  inclusive: false,
+  excludes: DELETION_MARK,
+  priority: 1000,
+
+  addAttributes: changeAttributes,
+
+  parseHTML() {
+    return [
+      {
+        tag: "del[data-change-id]",
+        getAttrs: (el) => ({
+          id: el.getAttribute("data-change-id"),
+          author: el.getAttribute("data-author") ?? "",
+          date: el.getAttribute("data-date") ?? "",
+        }),
+      },
+    ];
+  },
+
+  renderHTML({ mark }) {
+    return [
+      "del",
+      mergeAttributes({
+        class: "pm-tracked-delete",
+        "data-change-id": mark.attrs.id,
+        "data-author": mark.attrs.author,
+        "data-date": mark.attrs.date,
+        title: changeTitle("Deleted", mark.attrs),
+      }),
+      0,
+    ];
+  },
+});
+
+function rangeHasInline(doc: ProseMirrorNode, from: number, to: number): boolean {
+  let found = false;
+  if (to > from) {
+    doc.nodesBetween(from, to, (node) => {
+      if (node.isInline) found = true;
+      return !found;
+    });
+  }
+  return found;
+}
+
+function sliceHasInline(slice: Slice): boolean {
+  let found = false;
+  slice.content.descendants((node) => {
+    if (node.isInline) found = true;
+    return !found;
+  });
+  return found;
+}
+
+/** Whether a step edits text, as opposed to only structure, attributes or formatting. */
+function isTrackedStep(step: unknown, doc: ProseMirrorNode): step is ReplaceStep {
+  if (!(step instanceof ReplaceStep)) return false;
+  return rangeHasInline(doc, step.from, step.to) || sliceHasInline(step.slice);
+}
+
+/** A same-author change mark directly before or after `pos`, to extend rather than start a new change. */
+function adjacentChange(doc: ProseMirrorNode, pos: number, type: MarkType, author: string): ProseMirrorMark | null {
+  const $pos = doc.resolve(pos);
+  for (const node of [$pos.nodeBefore, $pos.nodeAfter]) {
+    const mark = node?.marks.find((m) => m.type === type && m.attrs.author === author);
+    if (mark) return mark;
+  }
+  return null;
+}
+
+type PositionMap = (pos: number, assoc: number) => number;
+
+/**
+ * Rewrites a user transaction so its text edits are recorded as changes:
+ * deleted text is kept with a deletion mark and inserted text gets an
+ * insertion mark. Deleting your own pending insertion removes it outright.
+ */
+function trackTransaction(tr: Transaction, state: EditorState, author: string): Transaction {
+  const { schema } = state;
+  const insertion = schema.marks[INSERTION_MARK];
+  const deletion = schema.marks[DELETION_MARK];
+  const date = new Date().toISOString();
+  const tracked = state.tr;
+
+  // Maps positions in the original transaction's current doc into `tracked.doc`.
+  let toTracked: PositionMap = (pos) => pos;
+  let collapsedCursor: number | null = null;
+
+  tr.steps.forEach((step, i) => {
+    const docBefore = tr.docs[i];
+    const prev = toTracked;
+    const startStep = tracked.steps.length;
+
+    if (!isTrackedStep(step, docBefore)) {
+      const mapped = step.map({
+        map: (pos, assoc = 1) => prev(pos, assoc),
+        mapResult: (pos, assoc = 1) => new Mapping().mapResult(prev(pos, assoc), assoc),
+      });
+      if (mapped) tracked.maybeStep(mapped);
+      const inverse = step.getMap().invert();
+      const local = new Mapping(tracked.mapping.maps.slice(startStep));
+      toTracked = (pos, assoc) => local.map(prev(inverse.map(pos, assoc), assoc), assoc);
+      return;
+    }
+
+    const { from, to, slice } = step;
+    const tFrom = prev(from, 1);
+    let tTo = Math.max(tFrom, prev(to, -1));
+
+    const deletedMark = adjacentChange(tracked.doc, tFrom, deletion, author)
+      ?? adjacentChange(tracked.doc, tTo, deletion, author);
+    const id = (deletedMark?.attrs.id as string | undefined) ?? newShortId();
+
+    // 1. Your own pending insertions are simply removed.
+    const ownInsertions: [number, number][] = [];
+    tracked.doc.nodesBetween(tFrom, tTo, (node, pos) => {
+      if (node.isInline && node.marks.some((m) => m.type === insertion && m.attrs.author === author)) {
+        ownInsertions.push([Math.max(pos, tFrom), Math.min(pos + node.nodeSize, tTo)]);
+      }
+    });
+    for (const [a, b] of ownInsertions.reverse()) tracked.delete(a, b);
+    tTo = new Mapping(tracked.mapping.maps.slice(startStep)).map(tTo, -1);
+
+    // 2. Everything else in the range is kept and marked deleted. Other authors'
+    //    insertions keep their mark, so rejecting this deletion leaves them pending.
+    const deleteMark = deletion.create(deletedMark?.attrs ?? { id, author, date });
+    tracked.doc.nodesBetween(tFrom, tTo, (node, pos) => {
+      if (node.isInline && !deletion.isInSet(node.marks)) {
+        tracked.addMark(Math.max(pos, tFrom), Math.min(pos + node.nodeSize, tTo), deleteMark);
+      }
+    });
+
+    // 3. New content goes after the deleted text, as in a printed redline.
+    let insStart = tTo;
+    let insEnd = tTo;
+    if (slice.size > 0) {
+      const beforeInsert = tracked.steps.length;
+      tracked.replace(tTo, tTo, slice);
+      const insertMap = new Mapping(tracked.mapping.maps.slice(beforeInsert));
+      insStart = insertMap.map(tTo, -1);
+      insEnd = insertMap.map(tTo, 1);
+      const insertedMark = adjacentChange(tracked.doc, insStart, insertion, author);
+      tracked.removeMark(insStart, insEnd, deletion);
+      tracked.addMark(insStart, insEnd, insertion.create(insertedMark?.attrs ?? { id, author, date }));
+    }
+
+    const local = new Mapping(tracked.mapping.maps.slice(startStep));
+    const insertedEnd = from + slice.size;
+    toTracked = (pos, assoc) => {
+      if (pos < from) return local.map(prev(pos, assoc), assoc);
+      if (pos <= insertedEnd) {
+        if (slice.size > 0) return Math.min(insStart + (pos - from), insEnd);
+        return assoc < 0 ? tFrom : tTo;
+      }
+      return local.map(prev(pos - slice.size + (to - from), assoc), assoc);
+    };
+
+    // Backspace leaves the cursor before the struck-through text so it keeps deleting leftwards.
+    const backspace = slice.size === 0 && state.selection.empty && state.selection.from === to;
+    collapsedCursor = slice.size === 0 ? (backspace ? tFrom : tTo) : null;
+  });
+
+  const size = tracked.doc.content.size;
+  const clamp = (pos: number) => Math.max(0, Math.min(size, pos));
+  const { selection } = tr;
+  if (collapsedCursor !== null && selection.empty && tr.steps.length === 1) {
+    tracked.setSelection(TextSelection.create(tracked.doc, clamp(collapsedCursor)));
+  } else if (selection instanceof TextSelection) {
+    tracked.setSelection(
+      TextSelection.between(
+        tracked.doc.resolve(clamp(toTracked(selection.anchor, -1))),
+        tracked.doc.resolve(clamp(toTracked(selection.head, 1))),
+      ),
+    );
+  } else {
+    tracked.setSelection(Selection.near(tracked.doc.resolve(clamp(toTracked(selection.from, 1)))));
+  }
+
+  if (tr.storedMarksSet) tracked.setStoredMarks(tr.storedMarks);
+  if (tr.scrolledIntoView) tracked.scrollIntoView();
+  return tracked;
+}
+
+/** Change ids at the selection: under the cursor, or anywhere in a range. */
+function changeIdsAtSelection(state: EditorState): Set<string> {
+  const ids = new Set<string>();
+  const { from, to, $from } = state.selection;
+  const collect = (marks: readonly ProseMirrorMark[]) => {
+    for (const mark of marks) {
+      if (mark.type.name === INSERTION_MARK || mark.type.name === DELETION_MARK) ids.add(mark.attrs.id as string);
+    }
+  };
+
+  if (from === to) {
+    collect($from.nodeBefore?.marks ?? []);
+    collect($from.nodeAfter?.marks ?? []);
+  } else {
+    state.doc.nodesBetween(from, to, (node) => collect(node.marks));
+  }
+  return ids;
+}
+
+/**
+ * Accepting keeps insertions and drops deleted text; rejecting does the reverse.
+ * `ids` null means every change in the document.
+ */
+function resolveChanges(tr: Transaction, ids: Set<string> | null, accept: boolean): boolean {
+  const { schema } = tr.doc.type;
+  const insertion = schema.marks[INSERTION_MARK];
+  const deletion = schema.marks[DELETION_MARK];
+  const [keepType, dropType] = accept ? [insertion, deletion] : [deletion, insertion];
+  const keep: [number, number][] = [];
+  const drop: [number, number][] = [];
+
+  tr.doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+    for (const mark of node.marks) {
+      if (ids && !ids.has(mark.attrs.id as string)) continue;
+      if (mark.type === keepType) keep.push([pos, pos + node.nodeSize]);
+      if (mark.type === dropType) drop.push([pos, pos + node.nodeSize]);
+    }
+  });
+  if (!keep.length && !drop.length) return false;
+
+  for (const [a, b] of keep) tr.removeMark(a, b, keepType);
+  for (const [a, b] of drop.reverse()) tr.delete(a, b);
+  tr.setMeta(trackChangesPluginKey, { resolved: true });
+  return true;
+}
+
+export const TrackChanges = Extension.create<TrackChangesOptions>({
+  name: "trackChanges",
+
+  addOptions() {
+    return {
+      author: getAuthorName,
+    };
+  },
+
+  addExtensions() {
+    return [Insertion, Deletion];
+  },
+
+  addCommands() {
+    return {
+      setSuggesting:
+        (enabled) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(trackChangesPluginKey, { enabled });
+          return true;
+        },
+      acceptChange:
+        (id) =>
+        ({ state, tr, dispatch }) => {
+          const ids = id ? new Set([id]) : changeIdsAtSelection(state);
+          if (!ids.size) return false;
+          return dispatch ? resolveChanges(tr, ids, true) : true;
+        },
+      rejectChange:
+        (id) =>
+        ({ state, tr, dispatch }) => {
+          const ids = id ? new Set([id]) : changeIdsAtSelection(state);
+          if (!ids.size) return false;
+          return dispatch ? resolveChanges(tr, ids, false) : true;
+        },
+      acceptAllChanges:
+        () =>
+        ({ tr, dispatch }) =>
+          dispatch ? resolveChanges(tr, null, true) : true,
+      rejectAllChanges:
+        () =>
+        ({ tr, dispatch }) =>
+          dispatch ? resolveChanges(tr, null, false) : true,
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<TrackChangesState>({
+        key: trackChangesPluginKey,
+        state: {
+          init: () => ({ enabled: false }),
+          apply(tr, value) {
+            const meta = tr.getMeta(trackChangesPluginKey) as Partial<TrackChangesState> | undefined;
+            return meta?.enabled !== undefined ? { enabled: meta.enabled } : value;
+          },
+        },
+      }),
+    ];
+  },
+
+  dispatchTransaction({ transaction, next }) {
+    const { state } = this.editor;
+    const skip =
+      !isSuggesting(state) ||
+      !transaction.docChanged ||
+      transaction.getMeta(trackChangesPluginKey) !== undefined ||
+      // Undo/redo and programmatic loads replay changes that were already tracked (or not).
+      transaction.getMeta("history$") !== undefined ||
+      // Likewise remote edits and shared undo from collaboration (y-sync), tracked by their author.
+      transaction.getMeta("y-sync$") !== undefined ||
+      transaction.getMeta("addToHistory") === false ||
+      !transaction.steps.some((step, i) => isTrackedStep(step, transaction.docs[i]));
+
+    next(skip ? transaction : trackTransaction(transaction, state, this.options.author()));
+  },
+});
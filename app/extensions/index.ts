@@ -0,0 +1,70 @@
+import type { AnyExtension } from "@tiptap/core";
+import { getSchema } from "@tiptap/core";
+import type { Schema } from "@tiptap/pm/model";
+import { TableKit } from "@tiptap/extension-table";
+import StarterKit from "@tiptap/starter-kit";
+
+import { Clauses } from "@/app/extensions/Clauses";
+import { Comments } from "@/app/extensions/Comments";
+import { Document } from "@/app/extensions/Document";
+import { Footnotes } from "@/app/extensions/Footnotes";
+import { MergeFields } from "@/app/extensions/MergeFields";
+import { PageBreak } from "@/app/extensions/PageBreak";
+import { SignatureBlocks } from "@/app/extensions/SignatureBlocks";
+import { TableOfContents } from "@/app/extensions/TableOfContents";
+import { TrackChanges } from "@/app/extensions/TrackChanges";
+
+/**
+ * Extensions that define the document schema. The editor adds its view-only
+ * extensions (pagination, placeholder) on top; server-side code uses these alone.
+ */
+export const documentExtensions: AnyExtension[] = [
+  StarterKit.configure({ document: false }),
+  Document,
+  PageBreak,
+  TableKit,
+  TrackChanges,
+  Comments,
+  Footnotes,
+  Clauses,
+  MergeFields,
+  TableOfContents,
+  SignatureBlocks,
+];
+
+/**
+ * The schema extensions for a collaborative editor. The `Collaboration` extension
+ * keeps a shared undo history, so StarterKit's local one is left out.
+ */
+export const collaborativeDocumentExtensions: AnyExtension[] = documentExtensions.map((extension) =>
+  extension.name === "starterKit" ? StarterKit.configure({ document: false, undoRedo: false }) : extension,
+);
+
+/** Content of a document that has never been saved. */
+export const NEW_DOCUMENT_CONTENT = `
+  <h1>Legal Document</h1>
+  <p>Start drafting here...</p>
+`;
+
+let cachedSchema: Schema | null = null;
+
+/** The ProseMirror schema for stored documents, usable without an editor or DOM. */
+export function getDocumentSchema(): Schema {
+  cachedSchema ??= getSchema(documentExtensions);
+  return cachedSchema;
+}
+
+/**
+ * Whether `json` is a whole document the editor can load. Routes that store content
+ * check this first, so a malformed payload is rejected instead of breaking the editor later.
+ */
+export function isValidDocumentJSON(json: unknown): boolean {
+  const schema = getDocumentSchema();
+  try {
+    const doc = schema.nodeFromJSON(json);
+    doc.check();
+    return doc.type === schema.topNodeType;
+  } catch {
+    return false;
+  }
+}
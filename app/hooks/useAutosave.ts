@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Editor } from "@tiptap/core";
+
+import { patchDocument } from "@/app/utils/documentApi";
+
+export type SaveStatus = "saved" | "unsaved" | "saving" | "failed";
+
+export type UseAutosaveOptions = {
+  /** Quiet period after the last edit before saving. */
+  debounceMs?: number;
+};
+
+/**
+ * Saves the editor JSON to `/api/documents/:id` after each pause in editing.
+ * Only one save is in flight at a time; edits made during a save are picked
+ * up by a follow-up save once it finishes.
+ */
+export function useAutosave(editor: Editor | null, documentId: string, options: UseAutosaveOptions = {}) {
+  const { debounceMs = 800 } = options;
+  const [status, setStatus] = useState<SaveStatus>("saved");
+
+  // Serialized JSON of the last successful save, so no-op updates (and the initial load) don't save.
+  const lastSavedRef = useRef<string | null>(null);
+  const inFlightRef = useRef(false);
+  const pendingRef = useRef(false);
+  const timerRef = useRef<number | null>(null);
+
+  const save = useCallback(async () => {
+    if (!editor || editor.isDestroyed) return;
+    if (inFlightRef.current) {
+      pendingRef.current = true;
+      return;
+    }
+
+    const content = editor.getJSON();
+    const serialized = JSON.stringify(content);
+    if (serialized === lastSavedRef.current) {
+      setStatus("saved");
+      return;
+    }
+
+    inFlightRef.current = true;
+    setStatus("saving");
+    try {
+      await patchDocument(documentId, { content });
+      lastSavedRef.current = serialized;
+      setStatus("saved");
+    } catch (err) {
+      console.error(err);
+      setStatus("failed");
+    } finally {
+      inFlightRef.current = false;
+    }
+
+    if (pendingRef.current) {
+      pendingRef.current = false;
+      void save();
+    }
+  }, [editor, documentId]);
+
+  useEffect(() => {
+    if (!editor) return;
+    lastSavedRef.current = JSON.stringify(editor.getJSON());
+
+    const onUpdate = () => {
+      setStatus("unsaved");
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+      timerRef.current = window.setTimeout(() => {
+        timerRef.current = null;
+        void save();
+      }, debounceMs);
+    };
+
+    // Last-chance save when the tab closes mid-debounce; keepalive lets it outlive the page.
+    const onPageHide = () => {
+      if (timerRef.current === null || editor.isDestroyed) return;
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+      void patchDocument(documentId, { content: editor.getJSON() }, { keepalive: true }).catch(() => undefined);
+    };
+
+    editor.on("update", onUpdate);
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      editor.off("update", onUpdate);
+      window.removeEventListener("pagehide", onPageHide);
+      // Flush rather than drop an edit made just before navigating away.
+      if (timerRef.current !== null) {
+        window.clearTimeout(timerRef.current);
+        timerRef.current = null;
+        void save();
+      }
+    };
+  }, [editor, documentId, debounceMs, save]);
+
+  return { status, saveNow: save };
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { generateJSON } from "@tiptap/core";
+import { WebsocketProvider } from "y-websocket";
+import * as Y from "yjs";
+
+import { NEW_DOCUMENT_CONTENT, documentExtensions } from "@/app/extensions";
+import { getAuthorName } from "@/app/utils/author";
+import type { CollaborationSession } from "@/app/utils/collaboration";
+import {
+  COLLAB_SERVER_URL,
+  isCollaborationDocEmpty,
+  seedCollaborationDoc,
+  userColor,
+} from "@/app/utils/collaboration";
+import type { StoredDocument } from "@/app/utils/documentStore";
+
+/** How long to wait for the collaboration server before editing alone. */
+const CONNECT_TIMEOUT_MS = 4000;
+
+/**
+ * - `off`: no collaboration server configured.
+ * - `connecting`: waiting for the first sync; the editor should not mount yet.
+ * - `ready`: `session` is synced and can be handed to the editor.
+ * - `unavailable`: the server did not answer in time; edit without collaboration.
+ */
+export type CollaborationStatus = "off" | "connecting" | "ready" | "unavailable";
+
+type SessionState = {
+  documentId: string;
+  status: "ready" | "unavailable";
+  session: CollaborationSession | null;
+};
+
+/**
+ * Joins the shared copy of `document` on the collaboration server. The first
+ * editor to open a document seeds the shared copy from the stored content.
+ */
+export function useCollaborationSession(document: StoredDocument | null) {
+  const [state, setState] = useState<SessionState | null>(null);
+  const documentId = document?.id ?? null;
+  const content = document?.content ?? null;
+
+  useEffect(() => {
+    if (!COLLAB_SERVER_URL || !documentId) return;
+
+    const ydoc = new Y.Doc();
+    const provider = new WebsocketProvider(COLLAB_SERVER_URL, documentId, ydoc);
+    const name = getAuthorName();
+    let settled = false;
+
+    const onSync = (synced: boolean) => {
+      if (!synced || settled) return;
+      settled = true;
+      window.clearTimeout(timer);
+      // Only an empty room is seeded: otherwise the shared copy is newer than the stored one.
+      if (isCollaborationDocEmpty(ydoc)) {
+        seedCollaborationDoc(ydoc, content ?? generateJSON(NEW_DOCUMENT_CONTENT, documentExtensions));
+      }
+      setState({ documentId, status: "ready", session: { ydoc, provider, user: { name, color: userColor(name) } } });
+    };
+
+    const timer = window.setTimeout(() => {
+      if (settled) return;
+      settled = true;
+      provider.disconnect();
+      setState({ documentId, status: "unavailable", session: null });
+    }, CONNECT_TIMEOUT_MS);
+
+    provider.on("sync", onSync);
+    return () => {
+      window.clearTimeout(timer);
+      provider.off("sync", onSync);
+      provider.destroy();
+      ydoc.destroy();
+    };
+  }, [documentId, content]);
+
+  const current = state?.documentId === documentId ? state : null;
+  const status: CollaborationStatus = !COLLAB_SERVER_URL ? "off" : (current?.status ?? "connecting");
+  return { status, session: current?.session ?? null };
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import type { Editor } from "@tiptap/core";
+
+import { collectCommentAnchors } from "@/app/utils/comments";
+import type { CommentAnchor } from "@/app/utils/comments";
+import type { PaginationResult } from "@/app/utils/pageCalculations";
+
+export type CommentAnchorPosition = CommentAnchor & {
+  /** Top of the anchored text, in page-viewport px (the coordinate space of `PaginationResult`). */
+  top: number;
+  /** Zero-based page the anchor falls on. */
+  pageIndex: number;
+};
+
+/**
+ * Measures where each comment thread's anchored text sits on the pages, so the
+ * comment rail can line threads up with their text. Re-measured after edits,
+ * repagination and window resizes.
+ */
+export function useCommentAnchors(editor: Editor | null, pagination: PaginationResult | null) {
+  const [anchors, setAnchors] = useState<CommentAnchorPosition[]>([]);
+  const pageStridePx = pagination?.pageStridePx ?? 0;
+
+  useEffect(() => {
+    if (!editor) return;
+    let frame = 0;
+
+    const measure = () => {
+      cancelAnimationFrame(frame);
+      // After layout, so spacer decorations from the latest pagination are in place.
+      frame = requestAnimationFrame(() => {
+        if (editor.isDestroyed) return;
+        const viewport = editor.view.dom.closest(".page-viewport");
+        if (!viewport) return;
+        const originTop = viewport.getBoundingClientRect().top;
+        const next: CommentAnchorPosition[] = [];
+        for (const anchor of collectCommentAnchors(editor.state.doc)) {
+          try {
+            const top = editor.view.coordsAtPos(anchor.from, 1).top - originTop;
+            next.push({ ...anchor, top, pageIndex: pageStridePx > 0 ? Math.floor(top / pageStridePx) : 0 });
+          } catch {
+            // Position not rendered (e.g. the editor is hidden); skip it.
+          }
+        }
+        setAnchors(next);
+      });
+    };
+
+    measure();
+    editor.on("update", measure);
+    window.addEventListener("resize", measure);
+    return () => {
+      cancelAnimationFrame(frame);
+      editor.off("update", measure);
+      window.removeEventListener("resize", measure);
+    };
+    // `pagination` is a dependency so anchors are re-measured once new page breaks apply.
+  }, [editor, pagination, pageStridePx]);
+
+  return anchors;
+}
@@ -0,0 +1,112 @@
+import { useEffect, useRef } from "react";
+import type { Editor } from "@tiptap/core";
+
+import { PAGE_GAP_PX } from "@/app/components/PageContainer";
+import { usePagination } from "@/app/hooks/usePagination";
+import type { UsePaginationOptions } from "@/app/hooks/usePagination";
+import { getNotes } from "@/app/extensions/Footnotes";
+import type { PaginationBreak, PaginationLastPage } from "@/app/extensions/Pagination";
+import type { PageBreakAnchor } from "@/app/utils/pageCalculations";
+import type { PageMetrics } from "@/app/utils/pageSetup";
+import { LAYOUT_UNITS_PER_PX } from "@/app/utils/pageSetup";
+
+/**
+ * Maps the anchors `computePageBreaks` found in the editor's DOM to the doc positions
+ * `setPaginationBreaks` takes, sorted and without duplicates. Anchors that no longer
+ * map (their DOM was replaced meanwhile) are left out.
+ */
+export function anchorsToDocPositions(editor: Editor, anchors: PageBreakAnchor[]): PaginationBreak[] {
+  const positions: PaginationBreak[] = [];
+
+  for (const a of anchors) {
+    try {
+      if (a.kind === "forced") {
+        // The spacer goes after the hard break node so the break marker stays on its page.
+        const before = editor.view.posAtDOM(a.element, 0);
+        const size = editor.state.doc.nodeAt(before)?.nodeSize ?? 0;
+        positions.push({ pos: before + size, fillPx: a.fillPx, footnoteIds: a.footnoteIds });
+        continue;
+      }
+      if (a.kind === "end") {
+        positions.push({ pos: editor.state.doc.content.size, fillPx: a.fillPx, footnoteIds: a.footnoteIds });
+        continue;
+      }
+      let pos =
+        a.kind === "text-offset" ? editor.view.posAtDOM(a.textNode, a.offset) : editor.view.posAtDOM(a.element, 0);
+      // Row breaks belong between rows, not inside the row ahead of its first cell.
+      if (a.kind === "before-element") {
+        const $pos = editor.state.doc.resolve(pos);
+        if ($pos.parent.type.spec.tableRole === "row") pos = $pos.before();
+      }
+      positions.push({ pos, fillPx: a.fillPx, footnoteIds: a.footnoteIds });
+    } catch {
+      // Ignore anchors that cannot be mapped.
+    }
+  }
+
+  // Sort + dedupe to keep decoration updates stable.
+  positions.sort((x, y) => x.pos - y.pos);
+  return positions.filter((p, i) => i === 0 || p.pos !== positions[i - 1].pos);
+}
+
+/**
+ * Measures the editor's content and keeps the `Pagination` extension's spacers
+ * in sync with the computed page breaks. The editor must include `Pagination`.
+ * `options` overrides widow and orphan control (e.g. off on pleading paper).
+ */
+export function useEditorPagination(
+  editor: Editor | null,
+  metrics: PageMetrics,
+  options?: Pick<UsePaginationOptions, "orphanLines" | "widowLines">,
+) {
+  // The actual measurement root is the ProseMirror content element.
+  // TipTap exposes it as `editor.view.dom`.
+  const rootEl = editor?.view?.dom as HTMLElement | null;
+
+  const pagination = usePagination(rootEl, editor, {
+    pageHeightPx: metrics.contentHeightPx,
+    topMarginPx: metrics.marginTopPx,
+    bottomMarginPx: metrics.marginBottomPx,
+    pageGapPx: PAGE_GAP_PX,
+    debounceMs: 50,
+    ...options,
+  });
+
+  const lastBreakPositionsRef = useRef<string>("__init__");
+  // The breaks currently applied on screen; exports reuse them so pages match exactly.
+  const appliedBreaksRef = useRef<PaginationBreak[]>([]);
+  const appliedLastPageRef = useRef<PaginationLastPage>({ fillPx: 0, footnoteIds: [] });
+
+  useEffect(() => {
+    if (!editor) return;
+
+    // Always keep the top spacer active so the first page has a true top margin.
+    // Between pages we need: bottom margin + gap + next page top margin.
+    const { marginTopPx, marginBottomPx } = metrics;
+    const betweenSpacerPx = marginBottomPx + PAGE_GAP_PX + marginTopPx;
+
+    const anchors = pagination?.breaks ?? [];
+    const positions = editor.view ? anchorsToDocPositions(editor, anchors) : [];
+    const lastPage = pagination?.lastPage ?? { fillPx: 0, footnoteIds: [] };
+    // Spacer heights are part of the key so a margin change re-lays out the spacers,
+    // and so are the footnotes, whose text and numbers the spacers draw. Fills count in
+    // layout units: a sub-pixel change still moves the next page onto its true top.
+    const notes = getNotes(editor.state).map((n) => `${n.id}:${n.number}:${n.text}`);
+    const fillKey = (fillPx: number) => Math.round(fillPx * LAYOUT_UNITS_PER_PX);
+    const key = [
+      ...positions.map((p) => `${p.pos}+${fillKey(p.fillPx)}[${p.footnoteIds.join(" ")}]`),
+      `last+${fillKey(lastPage.fillPx)}[${lastPage.footnoteIds.join(" ")}]`,
+      `${marginTopPx},${marginBottomPx}`,
+      JSON.stringify(notes),
+    ].join("|");
+
+    if (key === lastBreakPositionsRef.current) return;
+    lastBreakPositionsRef.current = key;
+    appliedBreaksRef.current = positions;
+    appliedLastPageRef.current = lastPage;
+
+    editor.commands.setPaginationBreaks(positions, marginTopPx, betweenSpacerPx, marginBottomPx, lastPage);
+  }, [editor, pagination, metrics]);
+
+  return { pagination, appliedBreaksRef, appliedLastPageRef };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Editor } from "@tiptap/core";
+
+import type { PaginationResult } from "@/app/utils/pageCalculations";
+
+/** Where in the window a page must reach to count as the one being read. */
+const READING_LINE_RATIO = 0.3;
+
+function pageViewport(editor: Editor): Element | null {
+  return editor.isDestroyed ? null : editor.view.dom.closest(".page-viewport");
+}
+
+/**
+ * The page being read, from the window's scroll position, and `goToPage`, which
+ * scrolls a page to the top of the window (below the sticky toolbar) and puts the
+ * cursor at its start.
+ */
+export function usePageNavigation(editor: Editor | null, pagination: PaginationResult | null) {
+  const pageCount = pagination ? pagination.breaks.length + 1 : 1;
+  const pageStridePx = pagination?.pageStridePx ?? 0;
+  const [currentPage, setCurrentPage] = useState(1);
+
+  useEffect(() => {
+    if (!editor || pageStridePx <= 0) return;
+    let frame = 0;
+
+    const measure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const viewport = pageViewport(editor);
+        if (!viewport) return;
+        const readingLine = window.innerHeight * READING_LINE_RATIO - viewport.getBoundingClientRect().top;
+        setCurrentPage(Math.min(pageCount, Math.max(1, Math.floor(readingLine / pageStridePx) + 1)));
+      });
+    };
+
+    measure();
+    window.addEventListener("scroll", measure, { passive: true });
+    window.addEventListener("resize", measure);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", measure);
+      window.removeEventListener("resize", measure);
+    };
+  }, [editor, pageCount, pageStridePx]);
+
+  const goToPage = useCallback(
+    (page: number) => {
+      if (!editor || page < 1 || page > pageCount) return;
+      const viewport = pageViewport(editor);
+      if (!viewport) return;
+      editor.chain().focus(undefined, { scrollIntoView: false }).goToPage(page).run();
+      // The toolbar is sticky, so the page top has to land below it.
+      const toolbarBottom = document.querySelector(".toolbar")?.getBoundingClientRect().bottom ?? 0;
+      const pageTop = viewport.getBoundingClientRect().top + (page - 1) * pageStridePx;
+      window.scrollTo({ top: window.scrollY + pageTop - toolbarBottom - 12, behavior: "smooth" });
+    },
+    [editor, pageCount, pageStridePx],
+  );
+
+  return { pageCount, currentPage: Math.min(currentPage, pageCount), goToPage };
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import type { Editor } from "@tiptap/core";
+import type { Transaction } from "@tiptap/pm/state";
+
+import type { PaginationResult } from "@/app/utils/pageCalculations";
+
+/** Pages kept rendered on each side of the ones in the window. */
+const OVERSCAN_PAGES = 2;
+
+/** Matches the live editor's top-level blocks; other `.editor-shell`s (thumbnails, diffs) are left alone. */
+const BLOCKS_SELECTOR = ".editor-shell[data-virtualized] .ProseMirror";
+
+/** Index of the first child `test` holds for, given that it holds for every child after it too. */
+function firstIndex(children: HTMLCollection, test: (el: Element) => boolean): number {
+  let lo = 0;
+  let hi = children.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (test(children[mid])) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+/**
+ * Index ranges `[from, to)` of the root's children that lie wholly outside the pages
+ * near the window. Blocks not on screen since their last change, and `keep`, are never
+ * included; the first have no remembered size to stand in for them yet.
+ */
+function offscreenRanges(
+  root: HTMLElement,
+  pageStridePx: number,
+  rendered: WeakSet<Element>,
+  keep: Node | null,
+): { ranges: [number, number][]; pending: boolean } {
+  const { children } = root;
+  const rootTop = root.getBoundingClientRect().top;
+  const firstPage = Math.max(0, Math.floor(-rootTop / pageStridePx) - OVERSCAN_PAGES);
+  const lastPage = Math.floor((window.innerHeight - rootTop) / pageStridePx) + OVERSCAN_PAGES;
+  const windowTop = rootTop + firstPage * pageStridePx;
+  const windowBottom = rootTop + (lastPage + 1) * pageStridePx;
+  const start = firstIndex(children, (el) => el.getBoundingClientRect().bottom > windowTop);
+  const end = Math.max(start, firstIndex(children, (el) => el.getBoundingClientRect().top >= windowBottom));
+
+  const ranges: [number, number][] = [];
+  let pending = false;
+  const collect = (from: number, to: number) => {
+    let runStart = -1;
+    for (let i = from; i <= to; i++) {
+      const el = i < to ? children[i] : null;
+      const hide = el !== null && el !== keep && rendered.has(el);
+      if (el && !hide && el !== keep && !rendered.has(el)) {
+        // Shown this frame, so it has a size to keep from the next update on.
+        rendered.add(el);
+        pending = true;
+      }
+      if (hide && runStart < 0) runStart = i;
+      if (!hide && runStart >= 0) {
+        ranges.push([runStart, i]);
+        runStart = -1;
+      }
+    }
+  };
+  collect(0, start);
+  collect(end, children.length);
+  for (let i = start; i < end; i++) rendered.add(children[i]);
+  return { ranges, pending };
+}
+
+function offscreenRules(ranges: [number, number][]): string {
+  if (ranges.length === 0) return "";
+  const selectors = ranges.map(([from, to]) => `${BLOCKS_SELECTOR} > :nth-child(n+${from + 1}):nth-child(-n+${to})`);
+  // Screen only: printing always renders the whole document.
+  return `@media screen {\n${selectors.join(",\n")} {\n  content-visibility: hidden;\n}\n}`;
+}
+
+/**
+ * Lazy page painting. Top-level blocks more than `OVERSCAN_PAGES` pages away from the
+ * window get `content-visibility: hidden`: the browser skips their style, layout and
+ * paint and keeps their last rendered size in their place (see the `[data-virtualized]`
+ * rules in globals.css), so the page layout, pagination and page count are the same as
+ * with everything painted. The blocks stay in the DOM and pagination still measures
+ * every one of them; this saves rendering work, not DOM size. Returns the style rules
+ * that skip them; the editor's `.editor-shell` needs `data-virtualized` for them to apply.
+ */
+export function usePageVirtualization(
+  editor: Editor | null,
+  pagination: PaginationResult | null,
+  enabled: boolean,
+): string {
+  const pageStridePx = pagination?.pageStridePx ?? 0;
+  // Remembered sizes are only good for the width they were laid out at.
+  const rootWidthPx = pagination?.rootWidthPx ?? 0;
+  const [rules, setRules] = useState("");
+
+  useEffect(() => {
+    // Nothing is skipped before the first layout, so every block is rendered once first.
+    if (!editor || !enabled || pageStridePx <= 0) return;
+    // Blocks rendered since they last changed; the browser remembers their size.
+    const rendered = new WeakSet<Element>();
+    let frame = 0;
+    let followUp = 0;
+
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        if (editor.isDestroyed) return;
+        const root = editor.view.dom as HTMLElement;
+        // The cursor's block stays rendered so typing never lands in skipped content.
+        const { $from } = editor.state.selection;
+        const keep = editor.view.nodeDOM($from.depth > 0 ? $from.before(1) : $from.pos);
+        const { ranges, pending } = offscreenRanges(root, pageStridePx, rendered, keep);
+        setRules(offscreenRules(ranges));
+        window.clearTimeout(followUp);
+        if (pending) followUp = window.setTimeout(update, 100);
+      });
+    };
+
+    // Changed blocks have a stale remembered size; render them again before skipping them.
+    const onTransaction = ({ transaction }: { transaction: Transaction }) => {
+      if (transaction.docChanged) {
+        const { doc, mapping } = transaction;
+        mapping.maps.forEach((map, index) => {
+          map.forEach((_oldStart, _oldEnd, newStart, newEnd) => {
+            const rest = mapping.slice(index + 1);
+            const from = rest.map(newStart, -1);
+            const to = Math.min(doc.content.size, Math.max(from, rest.map(newEnd, 1)));
+            doc.nodesBetween(from, to, (_node, pos) => {
+              const dom = editor.view.nodeDOM(pos);
+              if (dom instanceof Element) rendered.delete(dom);
+              return false;
+            });
+          });
+        });
+      }
+      update();
+    };
+
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    editor.on("transaction", onTransaction);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.clearTimeout(followUp);
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+      editor.off("transaction", onTransaction);
+      setRules("");
+    };
+  }, [editor, enabled, pageStridePx, rootWidthPx]);
+
+  return enabled ? rules : "";
+}
@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
-import type { PaginationResult } from "@/app/utils/pageCalculations";
-import { computePageBreaks } from "@/app/utils/pageCalculations";
+import type { ChangedRange, PaginateOptions, PaginationResult } from "@/app/utils/pageCalculations";
+import { computePageBreaks, widenChangedRange } from "@/app/utils/pageCalculations";
 
 type EditorEventEmitter = {
   on?: (event: unknown, callback: (...args: unknown[]) => void) => unknown;
@@ -13,6 +13,22 @@ function asEventEmitter(editor: unknown): EditorEventEmitter | null {
   return editor as EditorEventEmitter;
 }
 
+/** Widens `range` to cover the nodes a batch of DOM mutations touched in `root`. */
+function widenByMutations(root: HTMLElement, range: ChangedRange | null, records: MutationRecord[]) {
+  for (const record of records) {
+    // The root's own attributes (e.g. its focus class) do not move its content.
+    if (record.target === root && record.type === "attributes") continue;
+    // Added and removed nodes lie between their siblings.
+    const isChildList = record.type === "childList";
+    const from = (isChildList && record.previousSibling) || record.target;
+    const to = (isChildList && record.nextSibling) || record.target;
+    // Nodes removed since are covered by the record of their removal.
+    if (!from.isConnected || !to.isConnected) continue;
+    range = widenChangedRange(range, from, to);
+  }
+  return range;
+}
+
 export type UsePaginationOptions = {
   /** Content-area page height (px). US Letter with 1" margins at 96DPI is 864px. */
   pageHeightPx: number;
@@ -24,7 +40,7 @@ export type UsePaginationOptions = {
   pageGapPx?: number;
   /** Debounce delay for recomputation while typing. */
   debounceMs?: number;
-};
+} & Pick<PaginateOptions, "orphanLines" | "widowLines" | "keepWithNextSelector" | "keepTogetherSelector">;
 
 export function usePagination(
   root: HTMLElement | null,
@@ -37,6 +53,10 @@ export function usePagination(
     bottomMarginPx = 0,
     pageGapPx = 0,
     debounceMs = 50,
+    orphanLines,
+    widowLines,
+    keepWithNextSelector,
+    keepTogetherSelector,
   } = options;
 
   const [result, setResult] = useState<PaginationResult | null>(null);
@@ -45,6 +65,11 @@ export function usePagination(
   const destroyedRef = useRef(false);
   const timeoutIdRef = useRef<number | null>(null);
   const rafIdRef = useRef<number | null>(null);
+  // The last result and the DOM changed since it was measured, so the next run only
+  // re-measures from the page where the change starts.
+  const previousRef = useRef<PaginationResult | null>(null);
+  const changedRef = useRef<ChangedRange | null>(null);
+  const mutationObserverRef = useRef<MutationObserver | null>(null);
 
   const recomputeNow = useCallback(() => {
     if (!root) return;
@@ -55,16 +80,39 @@ export function usePagination(
     rafIdRef.current = requestAnimationFrame(() => {
       rafIdRef.current = null;
       if (destroyedRef.current) return;
-      setResult(
-        computePageBreaks(root, {
+      const records = mutationObserverRef.current?.takeRecords() ?? [];
+      const changed = widenByMutations(root, changedRef.current, records);
+      const previous = previousRef.current;
+      changedRef.current = null;
+      const next = computePageBreaks(
+        root,
+        {
           pageHeightPx,
           topMarginPx,
           bottomMarginPx,
           pageGapPx,
-        }),
+          orphanLines,
+          widowLines,
+          keepWithNextSelector,
+          keepTogetherSelector,
+        },
+        // A run without recorded changes (e.g. after fonts load) has nothing to go on and starts over.
+        previous && changed ? { previous, changed } : undefined,
       );
+      previousRef.current = next;
+      setResult(next);
     });
-  }, [root, pageHeightPx, topMarginPx, bottomMarginPx, pageGapPx]);
+  }, [
+    root,
+    pageHeightPx,
+    topMarginPx,
+    bottomMarginPx,
+    pageGapPx,
+    orphanLines,
+    widowLines,
+    keepWithNextSelector,
+    keepTogetherSelector,
+  ]);
 
   const scheduleRecompute = useCallback(() => {
     if (!root) return;
@@ -77,9 +125,12 @@ export function usePagination(
     }, debounceMs);
   }, [root, debounceMs, recomputeNow]);
 
-  const editorUpdateHandler = useMemo(() => {
+  const editorTransactionHandler = useMemo(() => {
     // Avoid re-subscribing with a new function on every render.
-    return () => scheduleRecompute();
+    return (...args: unknown[]) => {
+      const { transaction } = (args[0] ?? {}) as { transaction?: { docChanged?: boolean } };
+      if (transaction?.docChanged) scheduleRecompute();
+    };
   }, [scheduleRecompute]);
 
   useEffect(() => {
@@ -95,9 +146,22 @@ export function usePagination(
     const ro = new ResizeObserver(() => scheduleRecompute());
     ro.observe(root);
 
-    // Subscribe to Tiptap update events so edits trigger pagination.
+    // Track where the DOM changes, whatever changed it (edits, decorations, the page
+    // spacers themselves), so runs know which pages they can skip. Only transactions
+    // and resizes trigger a run.
+    previousRef.current = null;
+    changedRef.current = null;
+    const mo = new MutationObserver((records) => {
+      changedRef.current = widenByMutations(root, changedRef.current, records);
+    });
+    mo.observe(root, { subtree: true, childList: true, characterData: true, attributes: true });
+    mutationObserverRef.current = mo;
+
+    // Subscribe to Tiptap transactions that change the document so edits trigger pagination.
+    // Unlike `update`, this also covers remote changes from collaborators and changes
+    // dispatched with `preventUpdate`.
     // (This is usually cheaper and more reliable than a MutationObserver.)
-    if (ee?.on) ee.on("update", editorUpdateHandler);
+    if (ee?.on) ee.on("transaction", editorTransactionHandler);
 
     // Initial measurement.
     scheduleRecompute();
@@ -105,8 +169,10 @@ export function usePagination(
     return () => {
       destroyedRef.current = true;
       ro.disconnect();
+      mo.disconnect();
+      mutationObserverRef.current = null;
 
-      if (ee?.off) ee.off("update", editorUpdateHandler);
+      if (ee?.off) ee.off("transaction", editorTransactionHandler);
 
       if (timeoutIdRef.current !== null) {
         window.clearTimeout(timeoutIdRef.current);
@@ -118,7 +184,7 @@ export function usePagination(
         rafIdRef.current = null;
       }
     };
-  }, [root, editor, scheduleRecompute, editorUpdateHandler]);
+  }, [root, editor, scheduleRecompute, editorTransactionHandler]);
 
   return result;
 }
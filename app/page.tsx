@@ -1,24 +1,23 @@
 'use client'
 
-import { TiptapEditor } from "@/app/components/TiptapEditor";
+import { DocumentList } from "@/app/components/DocumentList";
 
 export default function Home() {
   return (
     <main className="min-h-screen bg-[var(--app-canvas)]">
-      <div className="mx-auto w-full max-w-6xl px-6 py-10">
+      <div className="mx-auto w-full max-w-3xl px-6 py-10">
         <div className="mb-6">
           <div className="text-sm text-gray-500">OpenSphere</div>
-          <h1 className="mt-1 text-2xl font-semibold tracking-tight text-gray-900">Document Editor</h1>
+          <h1 className="mt-1 text-2xl font-semibold tracking-tight text-gray-900">Documents</h1>
           <div className="mt-1 text-sm text-gray-500">
-            US Letter pagination with print-accurate margins.
+            Drafts are saved automatically as you type.
           </div>
         </div>
 
         <div className="rounded-3xl border border-gray-200 bg-white/60 p-6 shadow-sm backdrop-blur">
-          <TiptapEditor />
+          <DocumentList />
         </div>
       </div>
     </main>
   )
 }
-
@@ -0,0 +1,33 @@
+/**
+ * The local user's display name, recorded on tracked changes. There are no
+ * accounts yet, so it lives in localStorage.
+ */
+
+const AUTHOR_STORAGE_KEY = "opensphere.authorName";
+
+export const DEFAULT_AUTHOR_NAME = "Anonymous";
+
+function readStoredName(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage.getItem(AUTHOR_STORAGE_KEY)?.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export function hasAuthorName(): boolean {
+  return readStoredName() !== null;
+}
+
+export function getAuthorName(): string {
+  return readStoredName() ?? DEFAULT_AUTHOR_NAME;
+}
+
+export function setAuthorName(name: string): void {
+  try {
+    window.localStorage.setItem(AUTHOR_STORAGE_KEY, name.trim().slice(0, 100));
+  } catch {
+    // Storage can be unavailable (private mode); changes fall back to the default name.
+  }
+}
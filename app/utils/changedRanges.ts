@@ -0,0 +1,54 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { Transaction } from "@tiptap/pm/state";
+import { AddMarkStep, AddNodeMarkStep, AttrStep, RemoveMarkStep, RemoveNodeMarkStep } from "@tiptap/pm/transform";
+
+export type ChangedRange = { from: number; to: number };
+
+/**
+ * The ranges of `tr.doc` that the transaction's steps replaced, or set marks or node
+ * attributes in. Plugins that keep decorations in step with the doc map them through the
+ * transaction and scan only these again.
+ */
+export function changedRanges(tr: Transaction): ChangedRange[] {
+  const ranges: ChangedRange[] = [];
+  tr.steps.forEach((step, index) => {
+    const rest = tr.mapping.slice(index + 1);
+    const add = (start: number, end: number) => {
+      const from = rest.map(start, -1);
+      ranges.push({ from, to: Math.max(from, rest.map(end, 1)) });
+    };
+    if (step instanceof AttrStep || step instanceof AddNodeMarkStep || step instanceof RemoveNodeMarkStep) {
+      add(step.pos, step.pos + 1);
+    } else if (step instanceof AddMarkStep || step instanceof RemoveMarkStep) {
+      add(step.from, step.to);
+    }
+    step.getMap().forEach((_oldStart, _oldEnd, newStart, newEnd) => add(newStart, newEnd));
+  });
+  return ranges;
+}
+
+/** Positions in `tr.doc` of the `type` nodes that start in a range the transaction changed. */
+export function nodesChangedBy(tr: Transaction, type: string): Set<number> {
+  const found = new Set<number>();
+  for (const { from, to } of changedRanges(tr)) {
+    tr.doc.nodesBetween(from, to, (node, pos) => {
+      if (node.type.name === type && pos >= from && pos < to) found.add(pos);
+    });
+  }
+  return found;
+}
+
+/** The textblocks of `tr.doc`, by position, that hold or overlap a range the transaction changed. */
+export function textblocksChangedBy(tr: Transaction): Map<number, ProseMirrorNode> {
+  const found = new Map<number, ProseMirrorNode>();
+  for (const { from, to } of changedRanges(tr)) {
+    const $from = tr.doc.resolve(from);
+    if ($from.parent.isTextblock) found.set($from.before(), $from.parent);
+    tr.doc.nodesBetween(from, to, (node, pos) => {
+      if (!node.isTextblock) return true;
+      found.set(pos, node);
+      return false;
+    });
+  }
+  return found;
+}
@@ -0,0 +1,92 @@
+import type { JSONContent } from "@tiptap/core";
+import type { Node as ProseMirrorNode, Schema } from "@tiptap/pm/model";
+import { Slice } from "@tiptap/pm/model";
+import { EditorState } from "@tiptap/pm/state";
+
+/**
+ * Saved clauses are stored as ProseMirror slices, so a clause saved from the middle
+ * of a paragraph goes back in as text, and whole clauses, lists and tables go back
+ * in as blocks with their marks and attributes. Numbers are not part of the content;
+ * an inserted clause is numbered where it lands, in the document's own scheme.
+ */
+
+/** `Slice.toJSON()` output. */
+export type LibraryClauseContent = { content?: JSONContent[]; openStart?: number; openEnd?: number };
+
+/** Most tags one clause may carry. */
+const MAX_TAGS = 20;
+
+/** Tags from a list or a comma-separated string: trimmed, lower-cased, without duplicates. */
+export function normalizeTags(raw: unknown): string[] {
+  const list = typeof raw === "string" ? raw.split(",") : Array.isArray(raw) ? raw : [];
+  const tags = list
+    .filter((tag): tag is string => typeof tag === "string")
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, " ").slice(0, 40))
+    .filter(Boolean);
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
+
+/**
+ * When the selection runs from the start of a textblock to the end of one, the whole
+ * blocks it covers, widened to each parent it covers entirely, so selecting a clause's
+ * text takes the clause itself. Table cells and rows are never taken on their own.
+ */
+function wholeBlocks(state: EditorState): { from: number; to: number } | null {
+  const { $from, $to } = state.selection;
+  if (!$from.parent.isTextblock || !$to.parent.isTextblock) return null;
+  if ($from.parentOffset > 0 || $to.parentOffset < $to.parent.content.size) return null;
+  const range = $from.blockRange($to);
+  if (!range) return null;
+
+  let { start: from, end: to, depth } = range;
+  while (depth > 0) {
+    const $start = state.doc.resolve(from);
+    const parent = $start.node(depth);
+    if (parent.type.spec.tableRole || from !== $start.start(depth) || to !== $start.end(depth)) break;
+    from = $start.before(depth);
+    to = $start.after(depth);
+    depth--;
+  }
+  return { from, to };
+}
+
+/** The selection as library content, or null when nothing is selected. */
+export function selectionToLibraryContent(state: EditorState): LibraryClauseContent | null {
+  if (state.selection.empty) return null;
+  const blocks = wholeBlocks(state);
+  const slice = blocks ? state.doc.slice(blocks.from, blocks.to) : state.selection.content();
+  return slice.toJSON() as LibraryClauseContent;
+}
+
+/** Throws if the content doesn't fit `schema`. */
+export function libraryClauseSlice(schema: Schema, content: LibraryClauseContent): Slice {
+  return Slice.fromJSON(schema, content);
+}
+
+/** A document holding just the saved clause, as it reads once inserted on its own. */
+export function libraryClauseDoc(schema: Schema, content: LibraryClauseContent): ProseMirrorNode {
+  const { tr } = EditorState.create({ schema });
+  tr.replaceSelection(libraryClauseSlice(schema, content));
+  return tr.doc;
+}
+
+/** Plain text of the saved clause, for full-text search. */
+export function libraryClauseText(schema: Schema, content: LibraryClauseContent): string {
+  const doc = libraryClauseDoc(schema, content);
+  return doc.textBetween(0, doc.content.size, "\n", " ").trim();
+}
+
+/** Whether a clause matches every word of `query` (in its title, tags or text) and has `tag`. */
+export function matchesLibraryQuery(
+  clause: { title: string; tags: string[]; text: string },
+  query: string,
+  tag: string | null,
+): boolean {
+  if (tag && !clause.tags.includes(tag)) return false;
+  const haystack = `${clause.title}\n${clause.tags.join(" ")}\n${clause.text}`.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
@@ -0,0 +1,189 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+/** Block node holding a numbered clause: its text, then any sub-clauses. */
+export const CLAUSE_NODE = "clause";
+/** Inline node that refers to a clause by id and shows its current number. */
+export const CLAUSE_REF_NODE = "clauseRef";
+
+/**
+ * - `legal`: 1. / 1.1 / 1.1(a) / 1.1(a)(i)
+ * - `decimal`: 1. / 1.1 / 1.1.1 / 1.1.1.1
+ * - `outline`: 1. / (a) / (i) / (A), referred to as 1(a)(i)
+ */
+export type ClauseNumberingScheme = "legal" | "decimal" | "outline";
+
+export const CLAUSE_NUMBERING_SCHEMES: { id: ClauseNumberingScheme; label: string }[] = [
+  { id: "legal", label: "1.1(a)(i)" },
+  { id: "decimal", label: "1.1.1" },
+  { id: "outline", label: "1. (a) (i)" },
+];
+
+export const DEFAULT_CLAUSE_NUMBERING: ClauseNumberingScheme = "legal";
+
+export function normalizeClauseNumbering(raw: unknown): ClauseNumberingScheme {
+  return CLAUSE_NUMBERING_SCHEMES.some((s) => s.id === raw) ? (raw as ClauseNumberingScheme) : DEFAULT_CLAUSE_NUMBERING;
+}
+
+/** What a cross-reference shows: "Section 4.2", "page 7" or "Section 4.2 on page 7". */
+export type CrossReferenceFormat = "number" | "page" | "numberAndPage";
+
+export const CROSS_REFERENCE_FORMATS: CrossReferenceFormat[] = ["number", "page", "numberAndPage"];
+
+export function normalizeCrossReferenceFormat(raw: unknown): CrossReferenceFormat {
+  return CROSS_REFERENCE_FORMATS.includes(raw as CrossReferenceFormat) ? (raw as CrossReferenceFormat) : "number";
+}
+
+function alpha(n: number): string {
+  let out = "";
+  for (let i = n; i > 0; i = Math.floor((i - 1) / 26)) out = String.fromCharCode(97 + ((i - 1) % 26)) + out;
+  return out;
+}
+
+const ROMAN: [number, string][] = [
+  [1000, "m"],
+  [900, "cm"],
+  [500, "d"],
+  [400, "cd"],
+  [100, "c"],
+  [90, "xc"],
+  [50, "l"],
+  [40, "xl"],
+  [10, "x"],
+  [9, "ix"],
+  [5, "v"],
+  [4, "iv"],
+  [1, "i"],
+];
+
+function roman(n: number): string {
+  let out = "";
+  let rest = n;
+  for (const [value, symbol] of ROMAN) {
+    for (; rest >= value; rest -= value) out += symbol;
+  }
+  return out;
+}
+
+/** The parenthesized marker cycle below the decimal levels: (a), (i), (A), (1). */
+function subMarker(depth: number, n: number): string {
+  switch (depth % 4) {
+    case 0:
+      return `(${alpha(n)})`;
+    case 1:
+      return `(${roman(n)})`;
+    case 2:
+      return `(${alpha(n).toUpperCase()})`;
+    default:
+      return `(${n})`;
+  }
+}
+
+/**
+ * The full number of the clause at `path` (1-based counters from the top level down),
+ * as cross-references cite it, e.g. "1.1(a)".
+ */
+export function formatClauseReference(path: number[], scheme: ClauseNumberingScheme): string {
+  switch (scheme) {
+    case "decimal":
+      return path.join(".");
+    case "outline":
+      return `${path[0]}${path.slice(1).map((n, i) => subMarker(i, n)).join("")}`;
+    default:
+      return `${path.slice(0, 2).join(".")}${path.slice(2).map((n, i) => subMarker(i, n)).join("")}`;
+  }
+}
+
+/** The number printed in front of the clause. Top-level clauses get a trailing period. */
+export function formatClauseLabel(path: number[], scheme: ClauseNumberingScheme): string {
+  if (path.length === 1) return `${path[0]}.`;
+  if (scheme === "outline") return subMarker(path.length - 2, path[path.length - 1]);
+  return formatClauseReference(path, scheme);
+}
+
+export type ClauseInfo = {
+  id: string;
+  /** Doc position of the clause node. */
+  pos: number;
+  /** 0 for top-level clauses. */
+  level: number;
+  label: string;
+  reference: string;
+};
+
+/** Every clause with its current number, in document order. */
+export function collectClauses(doc: ProseMirrorNode): ClauseInfo[] {
+  const scheme = normalizeClauseNumbering(doc.attrs.clauseNumbering);
+  const clauses: ClauseInfo[] = [];
+  const counters: number[] = [];
+
+  doc.descendants((node, pos) => {
+    if (node.type.name !== CLAUSE_NODE) return;
+    const $pos = doc.resolve(pos);
+    let level = 0;
+    for (let d = $pos.depth; d > 0; d--) if ($pos.node(d).type.name === CLAUSE_NODE) level++;
+    // Counting runs on past unnumbered blocks; sub-clauses restart under each new parent.
+    counters[level] = (counters[level] ?? 0) + 1;
+    counters.length = level + 1;
+    const path = [...counters];
+    clauses.push({
+      id: node.attrs.id as string,
+      pos,
+      level,
+      label: formatClauseLabel(path, scheme),
+      reference: formatClauseReference(path, scheme),
+    });
+  });
+  return clauses;
+}
+
+/** 1-based page holding `pos`, given the doc positions where pages 2, 3, ... start. */
+export function pageNumberAt(pageBreaks: number[], pos: number): number {
+  return 1 + pageBreaks.filter((b) => b <= pos).length;
+}
+
+/** Text shown for a cross-reference; `page` is null when page numbers are unknown. */
+export function formatCrossReference(
+  target: ClauseInfo | undefined,
+  page: number | null,
+  format: CrossReferenceFormat,
+): string {
+  if (!target) return "[missing clause]";
+  const section = `Section ${target.reference}`;
+  if (page === null || format === "number") return section;
+  return format === "page" ? `page ${page}` : `${section} on page ${page}`;
+}
+
+export type CrossReference = {
+  /** Doc position of the reference node. */
+  pos: number;
+  text: string;
+  /** The target clause no longer exists. */
+  missing: boolean;
+};
+
+/**
+ * Every cross-reference with the text it shows. `pageBreaks` are the doc positions
+ * where pages 2, 3, ... start, or null where there are no pages (references then
+ * show only the clause number).
+ */
+export function collectCrossReferences(doc: ProseMirrorNode, pageBreaks: number[] | null): CrossReference[] {
+  const clauses = new Map(collectClauses(doc).map((c) => [c.id, c]));
+  const refs: CrossReference[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name === CLAUSE_REF_NODE) refs.push(crossReferenceAt(node, pos, clauses, pageBreaks));
+  });
+  return refs;
+}
+
+/** The cross-reference `node` at `pos`, given the doc's clauses by id. */
+export function crossReferenceAt(
+  node: ProseMirrorNode,
+  pos: number,
+  clauses: Map<string, ClauseInfo>,
+  pageBreaks: number[] | null,
+): CrossReference {
+  const target = clauses.get(node.attrs.targetId as string);
+  const page = target && pageBreaks ? pageNumberAt(pageBreaks, target.pos) : null;
+  const text = formatCrossReference(target, page, normalizeCrossReferenceFormat(node.attrs.format));
+  return { pos, text, missing: !target };
+}
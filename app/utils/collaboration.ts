@@ -0,0 +1,68 @@
+import type { JSONContent } from "@tiptap/core";
+import { prosemirrorJSONToYXmlFragment } from "@tiptap/y-tiptap";
+import type { WebsocketProvider } from "y-websocket";
+import * as Y from "yjs";
+
+import { getDocumentSchema } from "@/app/extensions";
+
+/**
+ * Collaboration server URL (see `npm run collab`). Collaboration is off when it
+ * is not configured, and every editor works on its own copy as before.
+ */
+export const COLLAB_SERVER_URL = process.env.NEXT_PUBLIC_COLLAB_URL ?? "";
+
+/** Shared type holding the document content, as bound by the y-sync plugin. */
+export const COLLAB_FRAGMENT = "default";
+/** Shared map holding the doc node attrs (page setup, headers/footers, comments...). */
+export const COLLAB_ATTRS = "attrs";
+
+export type CollaborationUser = {
+  name: string;
+  color: string;
+};
+
+/** A connected, synced shared document. */
+export type CollaborationSession = {
+  ydoc: Y.Doc;
+  provider: WebsocketProvider;
+  user: CollaborationUser;
+};
+
+const USER_COLORS = ["#2563eb", "#dc2626", "#16a34a", "#9333ea", "#ea580c", "#0891b2", "#db2777", "#65a30d"];
+
+/** A stable color per name, so people keep their color across sessions. */
+export function userColor(name: string): string {
+  let hash = 0;
+  for (const ch of name) hash = (hash * 31 + (ch.codePointAt(0) ?? 0)) >>> 0;
+  return USER_COLORS[hash % USER_COLORS.length];
+}
+
+export function isCollaborationDocEmpty(ydoc: Y.Doc): boolean {
+  return ydoc.getXmlFragment(COLLAB_FRAGMENT).length === 0 && ydoc.getMap(COLLAB_ATTRS).size === 0;
+}
+
+/**
+ * Client id that writes the seed for `json`: a hash of the content (FNV-1a). Editors
+ * seeding the same stored content produce identical updates, which Yjs merges into one
+ * copy; seeds of different content never share a client id and clock, which Yjs would
+ * take for the same changes and corrupt the document with.
+ */
+function seedClientId(json: JSONContent): number {
+  let hash = 0x811c9dc5;
+  for (const ch of JSON.stringify(json)) hash = Math.imul(hash ^ (ch.codePointAt(0) ?? 0), 0x01000193) >>> 0;
+  return hash;
+}
+
+/**
+ * Fills an empty shared document with the stored content, so editors that open a new
+ * room at the same moment and seed the same stored document end up with one copy.
+ */
+export function seedCollaborationDoc(ydoc: Y.Doc, json: JSONContent): void {
+  const seed = new Y.Doc();
+  seed.clientID = seedClientId(json);
+  prosemirrorJSONToYXmlFragment(getDocumentSchema(), json, seed.getXmlFragment(COLLAB_FRAGMENT));
+  const attrs = seed.getMap(COLLAB_ATTRS);
+  for (const [key, value] of Object.entries(json.attrs ?? {})) attrs.set(key, value);
+  Y.applyUpdate(ydoc, Y.encodeStateAsUpdate(seed));
+  seed.destroy();
+}
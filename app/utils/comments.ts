@@ -0,0 +1,136 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+import { newShortId } from "@/app/utils/ids";
+
+/** Name of the mark that anchors a comment thread to a text range. */
+export const COMMENT_MARK = "comment";
+
+export type CommentMessage = {
+  id: string;
+  author: string;
+  text: string;
+  /** ISO timestamp. */
+  createdAt: string;
+};
+
+export type CommentThread = {
+  id: string;
+  resolved: boolean;
+  createdAt: string;
+  /** The first message is the comment itself; the rest are replies. */
+  messages: CommentMessage[];
+};
+
+/** How open comments appear in print and PDF output. */
+export type CommentPrintMode = "none" | "margin" | "endnotes";
+
+export type CommentsState = {
+  threads: Record<string, CommentThread>;
+  printMode: CommentPrintMode;
+};
+
+export const COMMENT_PRINT_MODES: { id: CommentPrintMode; label: string }[] = [
+  { id: "none", label: "Hide comments" },
+  { id: "margin", label: "Margin notes" },
+  { id: "endnotes", label: "Endnotes" },
+];
+
+export const DEFAULT_COMMENTS: CommentsState = { threads: {}, printMode: "none" };
+
+function normalizeMessage(raw: unknown): CommentMessage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const m = raw as Partial<CommentMessage>;
+  if (typeof m.text !== "string") return null;
+  return {
+    id: typeof m.id === "string" ? m.id : newShortId(),
+    author: typeof m.author === "string" ? m.author : "",
+    text: m.text,
+    createdAt: typeof m.createdAt === "string" ? m.createdAt : "",
+  };
+}
+
+export function normalizeComments(raw: unknown): CommentsState {
+  if (!raw || typeof raw !== "object") return DEFAULT_COMMENTS;
+  const value = raw as Partial<CommentsState>;
+  const printMode = COMMENT_PRINT_MODES.some((m) => m.id === value.printMode)
+    ? (value.printMode as CommentPrintMode)
+    : DEFAULT_COMMENTS.printMode;
+
+  const threads: Record<string, CommentThread> = {};
+  for (const [id, thread] of Object.entries(value.threads ?? {})) {
+    if (!thread || typeof thread !== "object") continue;
+    const messages = (Array.isArray(thread.messages) ? thread.messages : [])
+      .map(normalizeMessage)
+      .filter((m): m is CommentMessage => m !== null);
+    if (messages.length === 0) continue;
+    threads[id] = {
+      id,
+      resolved: thread.resolved === true,
+      createdAt: typeof thread.createdAt === "string" ? thread.createdAt : messages[0].createdAt,
+      messages,
+    };
+  }
+  return { threads, printMode };
+}
+
+export type CommentAnchor = {
+  threadId: string;
+  /** Doc range of the thread's first anchored text. */
+  from: number;
+  to: number;
+  /** The anchored text, for endnotes and excerpts. */
+  text: string;
+};
+
+/** Each thread's first anchor, in document order. Threads whose text was deleted have none. */
+export function collectCommentAnchors(doc: ProseMirrorNode): CommentAnchor[] {
+  const anchors = new Map<string, CommentAnchor>();
+
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+    const ids = node.marks.filter((m) => m.type.name === COMMENT_MARK).map((m) => m.attrs.threadId as string);
+    for (const id of ids) {
+      const anchor = anchors.get(id);
+      const text = node.isText ? (node.text ?? "") : " ";
+      if (!anchor) {
+        anchors.set(id, { threadId: id, from: pos, to: pos + node.nodeSize, text });
+      } else if (anchor.to === pos) {
+        // Extend across adjacent nodes (e.g. a bold word inside the commented range).
+        anchor.to = pos + node.nodeSize;
+        anchor.text += text;
+      }
+    }
+  });
+
+  return [...anchors.values()].sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Print numbering: open threads that still have anchored text, numbered from 1
+ * in document order.
+ */
+export function numberPrintedComments(doc: ProseMirrorNode, comments: CommentsState) {
+  return collectCommentAnchors(doc)
+    .filter((a) => comments.threads[a.threadId] && !comments.threads[a.threadId].resolved)
+    .map((anchor, i) => ({ ...anchor, number: i + 1, thread: comments.threads[anchor.threadId] }));
+}
+
+export type PrintedComment = ReturnType<typeof numberPrintedComments>[number];
+
+/** One-line form of a thread for margin notes: "Ann: text — Bob: reply". */
+export function formatThreadSummary(thread: CommentThread): string {
+  return thread.messages.map((m) => `${m.author || "Anonymous"}: ${m.text}`).join(" — ");
+}
+
+/**
+ * Print rules for the comment print mode. Margin notes float into a column kept
+ * free on the right of the text (`--pm-comment-note-width` is set in globals.css).
+ */
+export function buildPrintCommentRules(printMode: CommentPrintMode): string {
+  if (printMode !== "margin") return "";
+  return [
+    ".page-content-column {",
+    "  padding-right: calc(var(--pm-comment-note-width) + var(--pm-comment-note-gap)) !important;",
+    "}",
+  ].join("\n");
+}
@@ -0,0 +1,156 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+/**
+ * Defined terms. A definition is a quoted, capitalised term in a defining sentence:
+ * in parentheses (`(the “Agreement”)`), followed by a defining verb (`“Confidential
+ * Information” means`), or introduced as one (`hereinafter “Licensee”`). Every other
+ * whole-word, case-sensitive occurrence of the term, or its plural, is a use. A
+ * capitalised phrase after "the", "this", "such", "each" or "any" that matches no
+ * definition is reported as an undefined term.
+ */
+
+/** A document range, in doc positions. */
+export type TermRange = { from: number; to: number };
+
+export type DefinedTerm = {
+  term: string;
+  /** The term inside its quotes, at the first definition. */
+  definition: TermRange;
+  /** Later definitions of the same term; usually a mistake. */
+  redefinitions: TermRange[];
+  uses: TermRange[];
+};
+
+export type UndefinedTerm = { term: string; uses: TermRange[] };
+
+export type DefinedTermsAnalysis = { terms: DefinedTerm[]; undefinedTerms: UndefinedTerm[] };
+
+export const NO_DEFINED_TERMS: DefinedTermsAnalysis = { terms: [], undefinedTerms: [] };
+
+/** Text of a textblock with the doc position of each character; inline atoms read as U+FFFC. */
+type BlockText = { text: string; positions: number[]; heading: boolean };
+
+const QUOTED_TERM = /[“"]((?:the |an? )?)([A-Z][^“”"\n]{0,80}?)[”"]/g;
+const DEFINING_VERB_AFTER =
+  /^\s*(?:means|shall mean|has the meaning|shall have the meaning|is defined|includes|shall include|refers to)\b/i;
+const DEFINING_WORDS_BEFORE = /(?:hereinafter|herein|referred to as|called|defined as|known as)[\s,]*(?:the\s+)?$/i;
+const ARTICLE_PHRASE =
+  /\b(?:[Tt]he|[Tt]his|[Ss]uch|[Ee]ach|[Aa]ny|[Ss]aid)\s+([A-Z][\w'’-]*(?:\s+[A-Z][\w'’-]*)*)/g;
+
+function blockTexts(doc: ProseMirrorNode): BlockText[] {
+  const blocks: BlockText[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+    let text = "";
+    const positions: number[] = [];
+    node.forEach((child, offset) => {
+      const start = pos + 1 + offset;
+      if (child.isText) {
+        const value = child.text ?? "";
+        for (let i = 0; i < value.length; i++) positions.push(start + i);
+        text += value;
+      } else {
+        positions.push(start);
+        text += "\uFFFC";
+      }
+    });
+    blocks.push({ text, positions, heading: node.type.name === "heading" });
+    return false;
+  });
+  return blocks;
+}
+
+function rangeOf(block: BlockText, start: number, end: number): TermRange {
+  return { from: block.positions[start], to: block.positions[end - 1] + 1 };
+}
+
+/** Whether the quote at `index` sits inside parentheses opened earlier in the block. */
+function inParentheses(text: string, index: number): boolean {
+  const before = text.slice(0, index);
+  return before.lastIndexOf("(") > before.lastIndexOf(")");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** The term, its plural (Party -> Parties, Notice -> Notices) and possessive, as whole words. */
+function termPattern(term: string): RegExp {
+  const plural = /[^aeiou]y$/.test(term)
+    ? `${escapeRegExp(term.slice(0, -1))}ies`
+    : `${escapeRegExp(term)}(?:s|es)`;
+  return new RegExp(`(?<![\\w-])(?:${escapeRegExp(term)}|${plural})(?:'s|’s)?(?![\\w-])`, "g");
+}
+
+function overlaps(a: TermRange, b: TermRange): boolean {
+  return a.from < b.to && b.from < a.to;
+}
+
+export function analyzeDefinedTerms(doc: ProseMirrorNode): DefinedTermsAnalysis {
+  const blocks = blockTexts(doc);
+  const terms = new Map<string, DefinedTerm>();
+
+  for (const block of blocks) {
+    for (const match of block.text.matchAll(QUOTED_TERM)) {
+      const term = match[2].trim();
+      const index = match.index ?? 0;
+      const after = block.text.slice(index + match[0].length);
+      const before = block.text.slice(0, index);
+      const defining =
+        inParentheses(block.text, index) || DEFINING_VERB_AFTER.test(after) || DEFINING_WORDS_BEFORE.test(before);
+      if (!defining || !term) continue;
+
+      const start = index + 1 + match[1].length;
+      const range = rangeOf(block, start, start + match[2].trimEnd().length);
+      const existing = terms.get(term);
+      if (existing) existing.redefinitions.push(range);
+      else terms.set(term, { term, definition: range, redefinitions: [], uses: [] });
+    }
+  }
+
+  const definitions = [...terms.values()].flatMap((t) => [t.definition, ...t.redefinitions]);
+  // Longest first, so "Confidential Information" is not also counted as a use of "Information".
+  const byLength = [...terms.values()].sort((a, b) => b.term.length - a.term.length);
+  const undefinedTerms = new Map<string, UndefinedTerm>();
+
+  for (const block of blocks) {
+    if (block.text.length === 0) continue;
+    const blockStart = block.positions[0];
+    const blockEnd = block.positions[block.positions.length - 1] + 1;
+    // Text already counted in this block: definitions, then uses of longer terms.
+    const claimed = definitions.filter((d) => d.from >= blockStart && d.to <= blockEnd);
+    for (const defined of byLength) {
+      for (const match of block.text.matchAll(termPattern(defined.term))) {
+        const index = match.index ?? 0;
+        const range = rangeOf(block, index, index + match[0].length);
+        if (claimed.some((c) => overlaps(c, range))) continue;
+        claimed.push(range);
+        defined.uses.push(range);
+      }
+    }
+
+    // Headings are title-cased, so capitals there say nothing about defined terms.
+    if (block.heading) continue;
+    for (const match of block.text.matchAll(ARTICLE_PHRASE)) {
+      const phrase = match[1].replace(/['’]s$/, "");
+      const start = (match.index ?? 0) + match[0].length - match[1].length;
+      const range = rangeOf(block, start, start + phrase.length);
+      if (claimed.some((c) => overlaps(c, range))) continue;
+      const entry = undefinedTerms.get(phrase) ?? { term: phrase, uses: [] };
+      entry.uses.push(range);
+      undefinedTerms.set(phrase, entry);
+    }
+  }
+
+  for (const term of terms.values()) term.uses.sort((a, b) => a.from - b.from);
+  return {
+    terms: [...terms.values()].sort((a, b) => a.term.localeCompare(b.term)),
+    undefinedTerms: [...undefinedTerms.values()].sort((a, b) => a.term.localeCompare(b.term)),
+  };
+}
+
+/** The defined term used or defined at `pos`, if any. */
+export function definedTermAt(analysis: DefinedTermsAnalysis, pos: number): DefinedTerm | null {
+  const at = (r: TermRange) => r.from <= pos && pos <= r.to;
+  return analysis.terms.find((t) => at(t.definition) || t.redefinitions.some(at) || t.uses.some(at)) ?? null;
+}
@@ -0,0 +1,123 @@
+import type { JSONContent } from "@tiptap/core";
+
+import type { LibraryClauseContent } from "@/app/utils/clauseLibrary";
+import type {
+  DocumentPatch,
+  DocumentSummary,
+  LibraryClauseSummary,
+  StoredDocument,
+  StoredLibraryClause,
+  StoredTemplate,
+  StoredVersion,
+  TemplateSummary,
+  VersionSummary,
+} from "@/app/utils/documentStore";
+import type { MergeFieldValues } from "@/app/utils/mergeFields";
+
+/** Browser-side client for the `/api/documents`, `/api/templates` and `/api/clauses` routes. */
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json", ...init.headers } : init?.headers,
+  });
+  if (!res.ok) {
+    const body = (await res.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error ?? `HTTP ${res.status}`);
+  }
+  return (res.status === 204 ? undefined : await res.json()) as T;
+}
+
+function documentUrl(id: string): string {
+  return `/api/documents/${encodeURIComponent(id)}`;
+}
+
+export async function fetchDocuments(): Promise<DocumentSummary[]> {
+  return (await request<{ documents: DocumentSummary[] }>("/api/documents")).documents;
+}
+
+export function fetchDocument(id: string): Promise<StoredDocument> {
+  return request(documentUrl(id));
+}
+
+export function createStoredDocument(input: DocumentPatch = {}): Promise<StoredDocument> {
+  return request("/api/documents", { method: "POST", body: JSON.stringify(input) });
+}
+
+export function patchDocument(id: string, patch: DocumentPatch, init?: RequestInit): Promise<StoredDocument> {
+  return request(documentUrl(id), { ...init, method: "PATCH", body: JSON.stringify(patch) });
+}
+
+export function deleteStoredDocument(id: string): Promise<void> {
+  return request(documentUrl(id), { method: "DELETE" });
+}
+
+export async function fetchVersions(id: string): Promise<VersionSummary[]> {
+  return (await request<{ versions: VersionSummary[] }>(`${documentUrl(id)}/versions`)).versions;
+}
+
+export function fetchVersion(id: string, versionId: string): Promise<StoredVersion> {
+  return request(`${documentUrl(id)}/versions/${encodeURIComponent(versionId)}`);
+}
+
+export function createStoredVersion(id: string, input: { name?: string; content: JSONContent }): Promise<StoredVersion> {
+  return request(`${documentUrl(id)}/versions`, { method: "POST", body: JSON.stringify(input) });
+}
+
+export function restoreStoredVersion(
+  id: string,
+  versionId: string,
+): Promise<{ document: StoredDocument; version: StoredVersion }> {
+  return request(`${documentUrl(id)}/versions/${encodeURIComponent(versionId)}/restore`, { method: "POST" });
+}
+
+function templateUrl(id: string): string {
+  return `/api/templates/${encodeURIComponent(id)}`;
+}
+
+export async function fetchTemplates(): Promise<TemplateSummary[]> {
+  return (await request<{ templates: TemplateSummary[] }>("/api/templates")).templates;
+}
+
+export function createStoredTemplate(input: { name?: string; content: JSONContent }): Promise<StoredTemplate> {
+  return request("/api/templates", { method: "POST", body: JSON.stringify(input) });
+}
+
+export function deleteStoredTemplate(id: string): Promise<void> {
+  return request(templateUrl(id), { method: "DELETE" });
+}
+
+/** One new document per row of field values; `[{}]` makes a single blank copy. */
+export async function createDocumentsFromTemplate(id: string, rows: MergeFieldValues[]): Promise<DocumentSummary[]> {
+  const init = { method: "POST", body: JSON.stringify({ rows }) };
+  return (await request<{ documents: DocumentSummary[] }>(`${templateUrl(id)}/documents`, init)).documents;
+}
+
+function libraryClauseUrl(id: string): string {
+  return `/api/clauses/${encodeURIComponent(id)}`;
+}
+
+/** Library clauses matching every word of `query` and carrying `tag`, and every tag in the library. */
+export function searchLibraryClauses(
+  query: string,
+  tag: string | null,
+): Promise<{ clauses: LibraryClauseSummary[]; tags: string[] }> {
+  const params = new URLSearchParams({ q: query, ...(tag ? { tag } : null) });
+  return request(`/api/clauses?${params}`);
+}
+
+export function fetchLibraryClause(id: string): Promise<StoredLibraryClause> {
+  return request(libraryClauseUrl(id));
+}
+
+export function createStoredLibraryClause(input: {
+  title: string;
+  tags: string[];
+  content: LibraryClauseContent;
+}): Promise<StoredLibraryClause> {
+  return request("/api/clauses", { method: "POST", body: JSON.stringify(input) });
+}
+
+export function deleteStoredLibraryClause(id: string): Promise<void> {
+  return request(libraryClauseUrl(id), { method: "DELETE" });
+}
@@ -0,0 +1,215 @@
+import type { JSONContent } from "@tiptap/core";
+
+import { getDocumentSchema } from "@/app/extensions";
+
+/**
+ * Builds a single "redline" document from two versions: everything from `after`,
+ * plus the content removed since `before`. Changed text carries the
+ * `diffInsert` / `diffDelete` marks; wholly added or removed blocks also get a
+ * `diff` attribute so they can be highlighted as a unit (see `DiffHighlight`).
+ */
+
+export type DiffChange = "insert" | "delete";
+
+export const DIFF_MARKS: Record<DiffChange, string> = {
+  insert: "diffInsert",
+  delete: "diffDelete",
+};
+
+type DiffOp<T> = { kind: "equal"; a: T; b: T } | { kind: "delete"; a: T } | { kind: "insert"; b: T };
+
+/** Above this many LCS cells a changed region is shown as replaced wholesale. */
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffSequences<T>(a: T[], b: T[], key: (item: T) => string): DiffOp<T>[] {
+  const ka = a.map(key);
+  const kb = b.map(key);
+
+  let start = 0;
+  while (start < a.length && start < b.length && ka[start] === kb[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && ka[endA - 1] === kb[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp<T>[] = [];
+  for (let i = 0; i < start; i++) ops.push({ kind: "equal", a: a[i], b: b[i] });
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) ops.push({ kind: "delete", a: a[i] });
+    for (let j = start; j < endB; j++) ops.push({ kind: "insert", b: b[j] });
+  } else {
+    // lengths[i][j] = LCS length of a[start+i..endA) and b[start+j..endB).
+    const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] =
+          ka[start + i] === kb[start + j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (ka[start + i] === kb[start + j]) {
+        ops.push({ kind: "equal", a: a[start + i], b: b[start + j] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        ops.push({ kind: "delete", a: a[start + i++] });
+      } else {
+        ops.push({ kind: "insert", b: b[start + j++] });
+      }
+    }
+    while (i < n) ops.push({ kind: "delete", a: a[start + i++] });
+    while (j < m) ops.push({ kind: "insert", b: b[start + j++] });
+  }
+
+  for (let i = endA, j = endB; i < a.length; i++, j++) ops.push({ kind: "equal", a: a[i], b: b[j] });
+  return ops;
+}
+
+/** Text and inline nodes (footnote references, merge fields, cross-references) take the change marks. */
+function isInline(node: JSONContent): boolean {
+  return node.type === "text" || !!(node.type && getDocumentSchema().nodes[node.type]?.isInline);
+}
+
+/** Blocks with no content to compare, such as signature blocks and a table of contents. */
+function isLeafBlock(node: JSONContent): boolean {
+  return !!(node.type && getDocumentSchema().nodes[node.type]?.isLeaf);
+}
+
+function withMark(node: JSONContent, change: DiffChange): JSONContent {
+  return { ...node, marks: [...(node.marks ?? []), { type: DIFF_MARKS[change] }] };
+}
+
+/** Marks a whole subtree as inserted or deleted. */
+function markBlock(node: JSONContent, change: DiffChange): JSONContent {
+  if (isInline(node)) return withMark(node, change);
+  return {
+    ...node,
+    attrs: { ...node.attrs, diff: change },
+    ...(node.content ? { content: node.content.map((child) => markBlock(child, change)) } : null),
+  };
+}
+
+type InlineToken = { key: string; node: JSONContent };
+
+/** Splits inline content into word and whitespace tokens that keep their marks. */
+function tokenizeInline(content: JSONContent[]): InlineToken[] {
+  const tokens: InlineToken[] = [];
+  for (const node of content) {
+    if (node.type !== "text") {
+      tokens.push({ key: JSON.stringify(node), node });
+      continue;
+    }
+    const marks = JSON.stringify(node.marks ?? []);
+    for (const text of (node.text ?? "").match(/\s+|[^\s]+/g) ?? []) {
+      tokens.push({ key: `${marks}${text}`, node: { ...node, text } });
+    }
+  }
+  return tokens;
+}
+
+/** Joins adjacent text nodes with identical marks back together. */
+function mergeText(nodes: JSONContent[]): JSONContent[] {
+  const merged: JSONContent[] = [];
+  for (const node of nodes) {
+    const last = merged[merged.length - 1];
+    if (
+      last?.type === "text" &&
+      node.type === "text" &&
+      JSON.stringify(last.marks ?? []) === JSON.stringify(node.marks ?? [])
+    ) {
+      merged[merged.length - 1] = { ...last, text: `${last.text ?? ""}${node.text ?? ""}` };
+    } else {
+      merged.push(node);
+    }
+  }
+  return merged;
+}
+
+function diffInline(before: JSONContent[], after: JSONContent[]): JSONContent[] {
+  const ops = diffSequences(tokenizeInline(before), tokenizeInline(after), (t) => t.key);
+  // Group each change run so deletions read before the insertions that replaced them.
+  const out: JSONContent[] = [];
+  let deleted: JSONContent[] = [];
+  let inserted: JSONContent[] = [];
+  const flush = () => {
+    out.push(...deleted.map((n) => withMark(n, "delete")), ...inserted.map((n) => withMark(n, "insert")));
+    deleted = [];
+    inserted = [];
+  };
+  for (const op of ops) {
+    if (op.kind === "equal") {
+      flush();
+      out.push(op.b.node);
+    } else if (op.kind === "delete") {
+      deleted.push(op.a.node);
+    } else {
+      inserted.push(op.b.node);
+    }
+  }
+  flush();
+  return mergeText(out);
+}
+
+function isInlineContent(node: JSONContent): boolean {
+  return (node.content ?? []).every(isInline);
+}
+
+/** Diffs two blocks of the same type that were matched up as "the same block, edited". */
+function diffBlock(before: JSONContent, after: JSONContent): JSONContent {
+  if (!before.content && !after.content) return after;
+  if (isInlineContent(before) && isInlineContent(after)) {
+    return { ...after, content: diffInline(before.content ?? [], after.content ?? []) };
+  }
+  return { ...after, content: diffBlocks(before.content ?? [], after.content ?? []) };
+}
+
+function diffBlocks(before: JSONContent[], after: JSONContent[]): JSONContent[] {
+  const ops = diffSequences(before, after, (node) => JSON.stringify(node));
+  const out: JSONContent[] = [];
+  let deleted: JSONContent[] = [];
+  let inserted: JSONContent[] = [];
+
+  // Removed and added blocks between two unchanged ones are paired up in order;
+  // a pair of the same type is treated as an edit of one block. A leaf block has
+  // nothing inside to compare, so an edited one shows as removed and added.
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+      const a = deleted[i];
+      const b = inserted[i];
+      if (a && b && a.type === b.type && !isLeafBlock(a)) {
+        out.push(diffBlock(a, b));
+        continue;
+      }
+      if (a) out.push(markBlock(a, "delete"));
+      if (b) out.push(markBlock(b, "insert"));
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const op of ops) {
+    if (op.kind === "equal") {
+      flush();
+      out.push(op.b);
+    } else if (op.kind === "delete") {
+      deleted.push(op.a);
+    } else {
+      inserted.push(op.b);
+    }
+  }
+  flush();
+  return out;
+}
+
+export function diffDocuments(before: JSONContent, after: JSONContent): JSONContent {
+  return { ...after, content: diffBlocks(before.content ?? [], after.content ?? []) };
+}
@@ -0,0 +1,615 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { StandardFontEmbedder, StandardFonts } from "pdf-lib";
+
+import { DELETION_MARK, INSERTION_MARK } from "@/app/extensions/TrackChanges";
+import { CLAUSE_NODE, CLAUSE_REF_NODE, collectClauses, collectCrossReferences } from "@/app/utils/clauses";
+import type { PrintedComment } from "@/app/utils/comments";
+import type { Note } from "@/app/utils/footnotes";
+import { FOOTNOTE_NODE, collectNotes } from "@/app/utils/footnotes";
+import {
+  MERGE_FIELD_NODE,
+  collectMergeFieldOccurrences,
+  mergeFieldText,
+  normalizeMergeFieldValues,
+} from "@/app/utils/mergeFields";
+import type { SignatureBlock, SignatureFieldKind } from "@/app/utils/signatureBlocks";
+import {
+  SIGNATURE_BLOCK_NODE,
+  normalizeSignatureBlock,
+  signatureDetailLines,
+  signatureLineLabel,
+} from "@/app/utils/signatureBlocks";
+import type { TocEntry } from "@/app/utils/tableOfContents";
+import { TABLE_OF_CONTENTS_NODE, collectTocEntries } from "@/app/utils/tableOfContents";
+
+/** 1 CSS px = 0.75pt. All layout is done in CSS px and converted when drawing. */
+export const PT_PER_PX = 0.75;
+
+// Mirrors the editor typography in globals.css so line counts stay close to the screen.
+const BODY_FONT_PX = 16;
+const BODY_LINE_HEIGHT = 1.6;
+export const BLOCK_GAP_PX = 11.2;
+export const LIST_INDENT_PX = 19.2;
+// `li` margins; the first item's collapses with the space above its list.
+const LIST_ITEM_GAP_PX = 3.2;
+const QUOTE_INDENT_PX = 16;
+// `.pm-clause .pm-clause` and `.pm-toc-level-*` in globals.css.
+const CLAUSE_INDENT_PX = 24;
+const TOC_LEVEL_INDENT_PX = 24;
+export const TOC_LEADER_GAP_PX = 4;
+export const CELL_PADDING_X_PX = 8;
+export const CELL_PADDING_Y_PX = 4;
+// Cell borders collapse, so each cell holds half of the 1px border on each of its sides.
+const CELL_BORDER_PX = 1;
+export const RULE_HEIGHT_PX = 16;
+// Comment and footnote reference numbers are superscript, scaled from the surrounding text.
+export const SUPERSCRIPT_SCALE = 0.65;
+// Matches `.pm-footnote` and the separator padding of `.pm-footnotes` in globals.css.
+export const FOOTNOTE_STYLE: TextStyle = { fontSizePx: 12, lineHeight: 16 / 12, bold: false, spaceBeforePx: 0 };
+export const FOOTNOTE_SEPARATOR_PX = 12;
+// `.pm-signature-*` in globals.css: the space signed in above the line, and the lines' lengths.
+export const SIGNATURE_SPACE_BEFORE_PX = 32;
+const SIGNATURE_SIGN_HEIGHT_PX = 56;
+const SIGNATURE_LABEL_GAP_PX = 8;
+const SIGNATURE_LINE_PX: Record<SignatureFieldKind | "date", number> = { signature: 288, initials: 96, date: 160 };
+
+export const HEADING_STYLES: Record<number, TextStyle> = {
+  1: { fontSizePx: 30, lineHeight: 1.2, bold: true, spaceBeforePx: 3.2 },
+  2: { fontSizePx: 22, lineHeight: 1.25, bold: true, spaceBeforePx: 19.2 },
+  3: { fontSizePx: 18, lineHeight: 1.35, bold: true, spaceBeforePx: 16 },
+};
+
+export const BODY_STYLE: TextStyle = {
+  fontSizePx: BODY_FONT_PX,
+  lineHeight: BODY_LINE_HEIGHT,
+  bold: false,
+  spaceBeforePx: BLOCK_GAP_PX,
+};
+
+const TOC_TITLE_STYLE: TextStyle = { fontSizePx: 18, lineHeight: 1.6, bold: true, spaceBeforePx: BLOCK_GAP_PX };
+const TOC_ENTRY_STYLE: TextStyle = { ...BODY_STYLE, spaceBeforePx: 0 };
+// The first entry sits below the title's bottom margin.
+const TOC_FIRST_ENTRY_STYLE: TextStyle = { ...TOC_ENTRY_STYLE, spaceBeforePx: 6.4 };
+
+export type TextStyle = {
+  fontSizePx: number;
+  lineHeight: number;
+  bold: boolean;
+  spaceBeforePx: number;
+};
+
+/*
+ * Pleading paper (`.is-pleading` in globals.css) sets every line on a grid: `gridPx`
+ * is the grid line's height, or null for the usual typography. On the grid a line
+ * takes one grid line whatever its size, blocks add no space around them, table cells
+ * have no vertical padding, and a rule takes one line, as does the space above a
+ * signature block.
+ */
+
+/** Height (px) of a line set in `style`. */
+export function lineHeightFor(style: TextStyle, gridPx: number | null): number {
+  return gridPx ?? style.fontSizePx * style.lineHeight;
+}
+
+/**
+ * Width (px) a table of contents entry keeps clear of its text: the page number, and the
+ * leader's shortest length (1em) with the gaps on either side of it.
+ */
+export function tocReservedWidth(trailingPx: number, style: TextStyle): number {
+  return trailingPx + style.fontSizePx + TOC_LEADER_GAP_PX * 2;
+}
+
+/** Space (px) a block with `spacePx` above it adds before itself. */
+export function spaceBeforeFor(spacePx: number, gridPx: number | null): number {
+  return gridPx === null ? spacePx : 0;
+}
+
+/** Height (px) of a horizontal rule, margins included. */
+export function ruleHeightFor(gridPx: number | null): number {
+  return gridPx ?? RULE_HEIGHT_PX;
+}
+
+/** Space (px) above a signature block. */
+export function signatureSpaceBeforeFor(gridPx: number | null): number {
+  return gridPx ?? SIGNATURE_SPACE_BEFORE_PX;
+}
+
+export type TextRun = {
+  text: string;
+  /** Doc position of the run's first character; null for text that is not in the document, e.g. numbers. */
+  pos: number | null;
+  bold: boolean;
+  italic: boolean;
+  code: boolean;
+  underline: boolean;
+  strike: boolean;
+  superscript: boolean;
+  /** Set on the superscript reference number printed after a commented range. */
+  commentRef: number | null;
+  /** Set on a footnote's superscript reference number. */
+  footnoteId: string | null;
+};
+
+export const PLAIN_RUN: TextRun = {
+  text: "",
+  pos: null,
+  bold: false,
+  italic: false,
+  code: false,
+  underline: false,
+  strike: false,
+  superscript: false,
+  commentRef: null,
+  footnoteId: null,
+};
+
+/**
+ * Numbers printed in the text, keyed by doc position: comment references (by the
+ * position they follow), footnotes, clause numbers (by clause position),
+ * cross-reference and merge field text; and the entries of any table of contents.
+ */
+export type InlineRefs = {
+  comments: Map<number, number[]>;
+  footnotes: Map<number, Note>;
+  clauses: Map<number, string>;
+  crossRefs: Map<number, string>;
+  mergeFields: Map<number, string>;
+  contents: TocEntry[];
+};
+
+export const NO_INLINE_REFS: InlineRefs = {
+  comments: new Map(),
+  footnotes: new Map(),
+  clauses: new Map(),
+  crossRefs: new Map(),
+  mergeFields: new Map(),
+  contents: [],
+};
+
+export type TextItem = {
+  kind: "text";
+  /** Doc position of the textblock, or of the table of contents it was printed from. */
+  pos: number;
+  runs: TextRun[];
+  style: TextStyle;
+  indentPx: number;
+  /** List marker drawn in the indent, e.g. "•" or "3.". */
+  marker: string | null;
+  quote: boolean;
+  /** False when the block continues from the previous page. */
+  startsHere: boolean;
+  /** Drawn right-aligned after a dotted leader on the last line, e.g. a contents page number. */
+  trailing: string | null;
+  /** Headings: kept on a page with the start of what follows, and never split. */
+  keepWithNext: boolean;
+  /** Position of the outermost blockquote or table of contents the block is part of, kept on one page. */
+  group: number | null;
+};
+
+export type TableRow = {
+  /** Doc position of the row. */
+  pos: number;
+  header: boolean;
+  cells: { runs: TextRun[]; colspan: number }[];
+};
+
+export type TableItem = { kind: "table"; indentPx: number; rows: TableRow[] };
+
+export type RuleItem = { kind: "rule"; indentPx: number };
+
+/** A signature block; never split, so it is always on one page. */
+export type SignatureItem = { kind: "signature"; pos: number; indentPx: number; block: SignatureBlock };
+
+/** A hard page break; the next page starts at `pos`, right after it. */
+export type BreakItem = { kind: "break"; pos: number };
+
+export type LayoutItem = TextItem | TableItem | RuleItem | SignatureItem | BreakItem;
+
+/** The numbers printed in a document paginated at `pageBreaks`, with references to `comments`. */
+export function collectInlineRefs(doc: ProseMirrorNode, pageBreaks: number[], comments: PrintedComment[]): InlineRefs {
+  const commentRefs = new Map<number, number[]>();
+  for (const { to, number } of comments) commentRefs.set(to, [...(commentRefs.get(to) ?? []), number]);
+  const fieldValues = normalizeMergeFieldValues(doc.attrs.mergeFieldValues);
+  return {
+    comments: commentRefs,
+    footnotes: new Map(collectNotes(doc).map((n) => [n.pos, n])),
+    clauses: new Map(collectClauses(doc).map((c) => [c.pos, c.label])),
+    crossRefs: new Map(collectCrossReferences(doc, pageBreaks).map((r) => [r.pos, r.text])),
+    mergeFields: new Map(collectMergeFieldOccurrences(doc).map((f) => [f.pos, mergeFieldText(f, fieldValues)])),
+    contents: collectTocEntries(doc, pageBreaks),
+  };
+}
+
+function collectRuns(
+  block: ProseMirrorNode,
+  contentStart: number,
+  from: number,
+  to: number,
+  refs: InlineRefs,
+): TextRun[] {
+  const runs: TextRun[] = [];
+  block.forEach((child, offset) => {
+    const start = contentStart + offset;
+    const end = start + child.nodeSize;
+    if (end <= from || start >= to) return;
+
+    const marks = new Set(child.marks.map((m) => m.type.name));
+    const style = {
+      ...PLAIN_RUN,
+      bold: marks.has("bold"),
+      italic: marks.has("italic"),
+      code: marks.has("code"),
+      // Tracked changes print as a redline: insertions underlined, deletions struck through.
+      underline: marks.has("underline") || marks.has("link") || marks.has(INSERTION_MARK),
+      strike: marks.has("strike") || marks.has(DELETION_MARK),
+    };
+
+    if (child.isText) {
+      const text = child.text ?? "";
+      const sliceFrom = Math.max(from, start);
+      const sliceTo = Math.min(to, end);
+      // Split the text where a commented range ends, so its reference number follows it.
+      const stops = [...refs.comments.keys()].filter((p) => p > sliceFrom && p <= sliceTo).sort((a, b) => a - b);
+      let cursor = sliceFrom;
+      for (const stop of stops) {
+        runs.push({ ...style, text: text.slice(cursor - start, stop - start), pos: cursor });
+        for (const number of refs.comments.get(stop) ?? []) {
+          runs.push({ ...PLAIN_RUN, text: String(number), superscript: true, commentRef: number });
+        }
+        cursor = stop;
+      }
+      if (cursor < sliceTo) runs.push({ ...style, text: text.slice(cursor - start, sliceTo - start), pos: cursor });
+    } else if (child.type.name === "hardBreak") {
+      runs.push({ ...style, text: "\n", pos: start });
+    } else if (child.type.name === FOOTNOTE_NODE) {
+      const note = refs.footnotes.get(start);
+      if (note) runs.push({ ...PLAIN_RUN, text: String(note.number), superscript: true, footnoteId: note.id });
+    } else if (child.type.name === CLAUSE_REF_NODE) {
+      const text = refs.crossRefs.get(start);
+      if (text !== undefined) runs.push({ ...style, text, pos: start });
+    } else if (child.type.name === MERGE_FIELD_NODE) {
+      const text = refs.mergeFields.get(start);
+      if (text !== undefined) runs.push({ ...style, text, pos: start });
+    }
+  });
+  return runs;
+}
+
+function styleForTextblock(node: ProseMirrorNode): TextStyle {
+  if (node.type.name === "heading") return HEADING_STYLES[node.attrs.level as number] ?? HEADING_STYLES[3];
+  return BODY_STYLE;
+}
+
+/** Flattens the part of the document between `from` and `to` into drawable items. */
+export function collectItems(doc: ProseMirrorNode, from: number, to: number, refs: InlineRefs): LayoutItem[] {
+  const items: LayoutItem[] = [];
+
+  /**
+   * `label` is a clause number printed at the start of the next textblock, and
+   * `spaceBeforePx` the space above a block nested in a list, in place of its style's.
+   */
+  type Context = {
+    indentPx: number;
+    quote: boolean;
+    marker: string | null;
+    group: number | null;
+    label?: string;
+    spaceBeforePx?: number;
+  };
+
+  const visit = (node: ProseMirrorNode, pos: number, ctx: Context) => {
+    const end = pos + node.nodeSize;
+    if (end <= from || pos >= to) return;
+
+    if (node.isTextblock) {
+      const startsHere = pos >= from;
+      const runs = collectRuns(node, pos + 1, from, to, refs);
+      if (runs.length === 0 && !startsHere) return;
+      if (startsHere && ctx.label) runs.unshift({ ...PLAIN_RUN, text: `${ctx.label} `, bold: true });
+      const style = styleForTextblock(node);
+      items.push({
+        kind: "text",
+        pos,
+        runs: node.type.name === "codeBlock" ? runs.map((r) => ({ ...r, code: true })) : runs,
+        style: ctx.spaceBeforePx === undefined ? style : { ...style, spaceBeforePx: ctx.spaceBeforePx },
+        indentPx: ctx.indentPx,
+        marker: startsHere ? ctx.marker : null,
+        quote: ctx.quote,
+        startsHere,
+        trailing: null,
+        keepWithNext: node.type.name === "heading",
+        group: ctx.group,
+      });
+      return;
+    }
+
+    switch (node.type.name) {
+      case "bulletList":
+      case "orderedList": {
+        const start = (node.attrs.start as number | undefined) ?? 1;
+        const listSpacePx = Math.max(ctx.spaceBeforePx ?? BLOCK_GAP_PX, LIST_ITEM_GAP_PX);
+        node.forEach((item, offset, index) => {
+          const marker = node.type.name === "orderedList" ? `${start + index}.` : "•";
+          const itemPos = pos + 1 + offset;
+          item.forEach((child, childOffset, childIndex) => {
+            // Only an item's first block has space above it: the item's margin.
+            const itemSpacePx = index === 0 ? listSpacePx : LIST_ITEM_GAP_PX;
+            visit(child, itemPos + 1 + childOffset, {
+              indentPx: ctx.indentPx + LIST_INDENT_PX,
+              quote: ctx.quote,
+              marker: childIndex === 0 ? marker : null,
+              group: ctx.group,
+              spaceBeforePx: childIndex === 0 ? itemSpacePx : 0,
+            });
+          });
+        });
+        return;
+      }
+      case "blockquote":
+        node.forEach((child, offset) => {
+          visit(child, pos + 1 + offset, {
+            indentPx: ctx.indentPx + QUOTE_INDENT_PX,
+            quote: true,
+            marker: null,
+            group: ctx.group ?? pos,
+          });
+        });
+        return;
+      case "table": {
+        const rows: TableRow[] = [];
+        node.forEach((row, offset, index) => {
+          const rowPos = pos + 1 + offset;
+          const inRange = rowPos >= from && rowPos < to;
+          let header = true;
+          row.forEach((cell) => {
+            if (cell.type.spec.tableRole !== "header_cell") header = false;
+          });
+          // Repeat the header row when the table continues from the previous page.
+          const repeatedHeader = index === 0 && header && pos < from && rows.length === 0;
+          if (!inRange && !repeatedHeader) return;
+
+          const cells: TableRow["cells"] = [];
+          row.forEach((cell, cellOffset) => {
+            const runs: TextRun[] = [];
+            const cellPos = rowPos + 1 + cellOffset;
+            cell.forEach((para, paraOffset, paraIndex) => {
+              if (paraIndex > 0) runs.push({ ...PLAIN_RUN, text: "\n" });
+              // Repeated header rows carry no reference numbers; they are printed once.
+              const paraRefs = inRange
+                ? refs
+                : { ...NO_INLINE_REFS, crossRefs: refs.crossRefs, mergeFields: refs.mergeFields };
+              runs.push(...collectRuns(para, cellPos + 1 + paraOffset + 1, 0, Infinity, paraRefs));
+            });
+            cells.push({ runs, colspan: (cell.attrs.colspan as number | undefined) ?? 1 });
+          });
+          rows.push({ pos: rowPos, header, cells });
+        });
+        if (rows.length > 0) items.push({ kind: "table", indentPx: ctx.indentPx, rows });
+        return;
+      }
+      case CLAUSE_NODE: {
+        const nested = doc.resolve(pos).parent.type.name === CLAUSE_NODE;
+        const indentPx = ctx.indentPx + (nested ? CLAUSE_INDENT_PX : 0);
+        node.forEach((child, offset, index) => {
+          const label = index === 0 ? refs.clauses.get(pos) : undefined;
+          visit(child, pos + 1 + offset, { indentPx, quote: ctx.quote, marker: null, group: ctx.group, label });
+        });
+        return;
+      }
+      case TABLE_OF_CONTENTS_NODE: {
+        if (pos < from) return;
+        const entry = (runs: TextRun[], style: TextStyle, indentPx: number, trailing: string | null): TextItem => ({
+          kind: "text",
+          pos,
+          runs,
+          style,
+          indentPx: ctx.indentPx + indentPx,
+          marker: null,
+          quote: ctx.quote,
+          startsHere: true,
+          trailing,
+          keepWithNext: false,
+          group: ctx.group ?? pos,
+        });
+        items.push(entry([{ ...PLAIN_RUN, text: "Contents" }], TOC_TITLE_STYLE, 0, null));
+        refs.contents.forEach(({ level, text, page }, index) => {
+          const style = index === 0 ? TOC_FIRST_ENTRY_STYLE : TOC_ENTRY_STYLE;
+          const indentPx = (level - 1) * TOC_LEVEL_INDENT_PX;
+          items.push(entry([{ ...PLAIN_RUN, text }], style, indentPx, page === null ? null : String(page)));
+        });
+        return;
+      }
+      case "horizontalRule":
+        items.push({ kind: "rule", indentPx: ctx.indentPx });
+        return;
+      case SIGNATURE_BLOCK_NODE:
+        if (pos >= from) {
+          items.push({ kind: "signature", pos, indentPx: ctx.indentPx, block: normalizeSignatureBlock(node.attrs) });
+        }
+        return;
+      case "pageBreak":
+        if (end <= to) items.push({ kind: "break", pos: end });
+        return;
+      default:
+        node.forEach((child, offset) => visit(child, pos + 1 + offset, ctx));
+    }
+  };
+
+  doc.forEach((child, offset) => visit(child, offset, { indentPx: 0, quote: false, marker: null, group: null }));
+  return items;
+}
+
+export type FontFace = "regular" | "bold" | "italic" | "boldItalic" | "mono";
+
+/**
+ * Text measurement backend for laying out text without a browser: the width (px)
+ * of `text` set in `face` at `fontSizePx`.
+ */
+export type TextMeasurer = (text: string, face: FontFace, fontSizePx: number) => number;
+
+type StandardFontName = Parameters<typeof StandardFontEmbedder.for>[0];
+
+/** The PDF standard fonts that print each face. */
+export const STANDARD_FONTS: Record<FontFace, StandardFonts> = {
+  regular: StandardFonts.Helvetica,
+  bold: StandardFonts.HelveticaBold,
+  italic: StandardFonts.HelveticaOblique,
+  boldItalic: StandardFonts.HelveticaBoldOblique,
+  mono: StandardFonts.Courier,
+};
+
+/**
+ * Measures with the metrics of the PDF standard fonts, the ones PDF export draws with.
+ * Characters they cannot encode are measured as "?", which is what gets printed.
+ */
+export function createStandardFontMeasurer(): TextMeasurer {
+  const embedders = new Map<FontFace, StandardFontEmbedder>();
+  return (text, face, fontSizePx) => {
+    let embedder = embedders.get(face);
+    if (!embedder) {
+      embedder = StandardFontEmbedder.for(STANDARD_FONTS[face] as string as StandardFontName);
+      embedders.set(face, embedder);
+    }
+    let encodable = "";
+    for (const ch of text) encodable += embedder.encoding.canEncodeUnicodeCodePoint(ch.codePointAt(0) ?? 0) ? ch : "?";
+    return embedder.widthOfTextAtSize(encodable, fontSizePx * PT_PER_PX) / PT_PER_PX;
+  };
+}
+
+export function faceFor(run: TextRun, forceBold: boolean): FontFace {
+  if (run.code) return "mono";
+  const bold = run.bold || forceBold;
+  if (bold && run.italic) return "boldItalic";
+  if (bold) return "bold";
+  if (run.italic) return "italic";
+  return "regular";
+}
+
+export type Token = { text: string; run: TextRun; face: FontFace; width: number; newline: boolean; space: boolean };
+/** `pos` is the doc position the line starts at, if it starts with document text. */
+export type Line = { tokens: Token[]; width: number; pos: number | null };
+
+/** Splits `word` into pieces no wider than `maxWidthPx`, of at least one character each. */
+function breakWord(word: string, width: (text: string) => number, maxWidthPx: number): string[] {
+  if (width(word) <= maxWidthPx) return [word];
+  const pieces: string[] = [];
+  let start = 0;
+  for (let end = start + 2; end <= word.length; end++) {
+    if (width(word.slice(start, end)) <= maxWidthPx) continue;
+    pieces.push(word.slice(start, end - 1));
+    start = end - 1;
+  }
+  pieces.push(word.slice(start));
+  return pieces;
+}
+
+/**
+ * Greedy line breaking on whitespace. A word wider than a line starts a line of its own
+ * and breaks wherever the line is full, as `word-wrap: break-word` does in the editor.
+ */
+export function wrapRuns(runs: TextRun[], measure: TextMeasurer, style: TextStyle, maxWidthPx: number): Line[] {
+  const tokens: (Token & { pos: number | null })[] = [];
+  for (const run of runs) {
+    const face = faceFor(run, style.bold);
+    const sizePx = run.superscript ? style.fontSizePx * SUPERSCRIPT_SCALE : style.fontSizePx;
+    const width = (text: string) => measure(text, face, sizePx);
+    let offset = 0;
+    for (const part of run.text.split(/(\n|\s+)/)) {
+      if (!part) continue;
+      const newline = part === "\n";
+      const space = !newline && /^\s+$/.test(part);
+      for (const text of newline ? [""] : space ? [part] : breakWord(part, width, maxWidthPx)) {
+        const pos = run.pos === null ? null : run.pos + offset;
+        tokens.push({ text, run, face, width: newline ? 0 : width(text), newline, space, pos });
+        offset += newline ? 1 : text.length;
+      }
+    }
+  }
+
+  const lines: Line[] = [{ tokens: [], width: 0, pos: null }];
+  for (const { pos, ...token } of tokens) {
+    let line = lines[lines.length - 1];
+    if (token.newline) {
+      lines.push({ tokens: [], width: 0, pos: null });
+      continue;
+    }
+    if (line.width + token.width > maxWidthPx && line.tokens.length > 0 && !token.space) {
+      line = { tokens: [], width: 0, pos: null };
+      lines.push(line);
+    }
+    if (token.space && line.tokens.length === 0) continue;
+    if (line.tokens.length === 0) line.pos = pos;
+    line.tokens.push(token);
+    line.width += token.width;
+  }
+  return lines;
+}
+
+/** Equal-width columns across the table's widest row. */
+export function tableColumnWidth(table: TableItem, contentWidthPx: number): number {
+  const columns = Math.max(1, ...table.rows.map((r) => r.cells.reduce((n, c) => n + c.colspan, 0)));
+  return (contentWidthPx - table.indentPx) / columns;
+}
+
+/**
+ * Wraps a row's cells to their column widths; the row is as tall as its tallest cell.
+ * `paddingYPx` is the space above a cell's first line and below its last. On the grid,
+ * cells are outlined instead of bordered and have no vertical padding.
+ */
+export function wrapTableRow(row: TableRow, measure: TextMeasurer, colWidthPx: number, gridPx: number | null = null) {
+  const style = { ...BODY_STYLE, bold: row.header };
+  const borderPx = gridPx === null ? CELL_BORDER_PX : 0;
+  const cells = row.cells.map((cell) =>
+    wrapRuns(cell.runs, measure, style, cell.colspan * colWidthPx - CELL_PADDING_X_PX * 2 - borderPx),
+  );
+  const lineHeightPx = lineHeightFor(style, gridPx);
+  const paddingYPx = gridPx === null ? CELL_PADDING_Y_PX + borderPx / 2 : 0;
+  const heightPx = Math.max(...cells.map((lines) => lines.length)) * lineHeightPx;
+  return { style, cells, lineHeightPx, paddingYPx, heightPx: heightPx + paddingYPx * 2 };
+}
+
+/**
+ * One row of a signature block: a text line or, with `field`, a label followed by a
+ * line to sign or date on, starting `field.xPx` from the block's left edge.
+ */
+export type SignatureRow = {
+  lines: Line[];
+  heightPx: number;
+  field: { kind: SignatureFieldKind | "date"; xPx: number; widthPx: number } | null;
+};
+
+/**
+ * Lays out a signature block `maxWidthPx` wide: party, signature line, name, title and
+ * date. On the grid the space signed in is two lines.
+ */
+export function layoutSignatureBlock(
+  block: SignatureBlock,
+  measure: TextMeasurer,
+  maxWidthPx: number,
+  gridPx: number | null = null,
+): SignatureRow[] {
+  const lineHeightPx = lineHeightFor(BODY_STYLE, gridPx);
+  const text = (runs: TextRun[]) => wrapRuns(runs, measure, BODY_STYLE, maxWidthPx);
+  const fieldRow = (label: string, kind: SignatureFieldKind | "date", heightPx: number): SignatureRow => {
+    const lines = text([{ ...PLAIN_RUN, text: label }]);
+    const xPx = Math.min(lines[0].width + SIGNATURE_LABEL_GAP_PX, maxWidthPx);
+    return { lines, heightPx, field: { kind, xPx, widthPx: Math.min(SIGNATURE_LINE_PX[kind], maxWidthPx - xPx) } };
+  };
+
+  const rows: SignatureRow[] = [];
+  if (block.party) {
+    const lines = text([{ ...PLAIN_RUN, text: block.party, bold: true }]);
+    rows.push({ lines, heightPx: lines.length * lineHeightPx, field: null });
+  }
+  const signHeightPx = gridPx === null ? SIGNATURE_SIGN_HEIGHT_PX : 2 * gridPx;
+  rows.push(fieldRow(signatureLineLabel(block.field), block.field, signHeightPx));
+  for (const { label, value } of signatureDetailLines(block)) {
+    if (!value) {
+      rows.push(fieldRow(label, "date", lineHeightPx));
+      continue;
+    }
+    const lines = text([{ ...PLAIN_RUN, text: `${label} ` }, { ...PLAIN_RUN, text: value }]);
+    rows.push({ lines, heightPx: lines.length * lineHeightPx, field: null });
+  }
+  return rows;
+}
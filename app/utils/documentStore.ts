@@ -0,0 +1,540 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { JSONContent } from "@tiptap/core";
+
+import type { LibraryClauseContent } from "@/app/utils/clauseLibrary";
+import { matchesLibraryQuery } from "@/app/utils/clauseLibrary";
+import type { MergeFieldValues } from "@/app/utils/mergeFields";
+import { DOCUMENT_NAME_COLUMN, fillTemplateContent } from "@/app/utils/mergeFields";
+
+/**
+ * Server-side document storage: one JSON file per document under
+ * `DOCUMENT_STORE_DIR` (default `.data/documents` in the project root).
+ * Version snapshots live next to it in `<id>.versions/<versionId>.json`.
+ * Templates and the clause library are stored the same way under
+ * `TEMPLATE_STORE_DIR` and `CLAUSE_LIBRARY_DIR` (default `.data/templates` and
+ * `.data/clauses`).
+ */
+
+export type StoredDocument = {
+  id: string;
+  name: string;
+  /** Editor JSON including doc attrs; null until the first save. */
+  content: JSONContent | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DocumentSummary = Omit<StoredDocument, "content">;
+
+export type DocumentPatch = Partial<Pick<StoredDocument, "name" | "content">>;
+
+export type VersionKind = "auto" | "manual" | "restore";
+
+export type StoredVersion = {
+  id: string;
+  documentId: string;
+  kind: VersionKind;
+  /** User-given name; auto snapshots have none. */
+  name: string | null;
+  content: JSONContent;
+  createdAt: string;
+};
+
+export type VersionSummary = Omit<StoredVersion, "content">;
+
+export type StoredTemplate = {
+  id: string;
+  name: string;
+  /** Editor JSON with merge fields and no field values. */
+  content: JSONContent;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TemplateSummary = Omit<StoredTemplate, "content">;
+
+export type StoredLibraryClause = {
+  id: string;
+  title: string;
+  tags: string[];
+  content: LibraryClauseContent;
+  /** Plain text of `content`, searched by `listLibraryClauses`. */
+  text: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type LibraryClauseSummary = Omit<StoredLibraryClause, "content" | "text"> & {
+  /** Start of the text, for the search results. */
+  excerpt: string;
+};
+
+export const DEFAULT_DOCUMENT_NAME = "Untitled document";
+
+export const DEFAULT_TEMPLATE_NAME = "Untitled template";
+
+/** Most documents one merge may generate. */
+export const MAX_MERGE_ROWS = 500;
+
+/** Minimum time between automatic snapshots of one document. */
+export const AUTO_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+
+const ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+function storeDir(): string {
+  return process.env.DOCUMENT_STORE_DIR ?? path.join(process.cwd(), ".data", "documents");
+}
+
+function filePath(id: string): string {
+  return path.join(storeDir(), `${id}.json`);
+}
+
+function templateStoreDir(): string {
+  return process.env.TEMPLATE_STORE_DIR ?? path.join(process.cwd(), ".data", "templates");
+}
+
+function templatePath(id: string): string {
+  return path.join(templateStoreDir(), `${id}.json`);
+}
+
+function clauseLibraryDir(): string {
+  return process.env.CLAUSE_LIBRARY_DIR ?? path.join(process.cwd(), ".data", "clauses");
+}
+
+function libraryClausePath(id: string): string {
+  return path.join(clauseLibraryDir(), `${id}.json`);
+}
+
+function versionsDir(id: string): string {
+  return path.join(storeDir(), `${id}.versions`);
+}
+
+function versionPath(id: string, versionId: string): string {
+  return path.join(versionsDir(id), `${versionId}.json`);
+}
+
+export function isDocumentId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+export function normalizeDocumentName(name: unknown): string {
+  const trimmed = typeof name === "string" ? name.trim().slice(0, 200) : "";
+  return trimmed || DEFAULT_DOCUMENT_NAME;
+}
+
+function isStoredDocument(value: unknown): value is StoredDocument {
+  if (!value || typeof value !== "object") return false;
+  const { id, name, createdAt, updatedAt } = value as Record<string, unknown>;
+  return [id, name, createdAt, updatedAt].every((field) => typeof field === "string");
+}
+
+function toSummary(doc: StoredDocument): DocumentSummary {
+  const { id, name, createdAt, updatedAt } = doc;
+  return { id, name, createdAt, updatedAt };
+}
+
+// Writes to one document are serialized so a rename can't race an autosave.
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+  locks.set(id, next);
+  void next.finally(() => {
+    if (locks.get(id) === next) locks.delete(id);
+  });
+  return next;
+}
+
+async function readDocument(id: string): Promise<StoredDocument | null> {
+  if (!isDocumentId(id)) return null;
+  try {
+    return JSON.parse(await readFile(filePath(id), "utf8")) as StoredDocument;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so a crash mid-write never leaves a truncated file.
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  await writeFile(tmp, JSON.stringify(value), "utf8");
+  await rename(tmp, file);
+}
+
+function writeDocument(doc: StoredDocument): Promise<void> {
+  return writeJson(filePath(doc.id), doc);
+}
+
+/** All documents, most recently updated first. */
+export async function listDocuments(): Promise<DocumentSummary[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(storeDir());
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+
+  const docs = await Promise.all(
+    entries
+      .filter((f) => f.endsWith(".json"))
+      .map(async (f) => {
+        const id = f.slice(0, -".json".length);
+        try {
+          const doc = await readDocument(id);
+          if (doc && !isStoredDocument(doc)) throw new Error("Not a stored document.");
+          return doc;
+        } catch (err) {
+          // One corrupt file must not take the whole list down with it.
+          console.error(`Skipping unreadable document ${id}:`, err);
+          return null;
+        }
+      }),
+  );
+  return docs
+    .filter((d): d is StoredDocument => d !== null)
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getDocument(id: string): Promise<StoredDocument | null> {
+  return readDocument(id);
+}
+
+export async function createDocument(input: DocumentPatch = {}): Promise<StoredDocument> {
+  const now = new Date().toISOString();
+  const doc: StoredDocument = {
+    id: randomUUID(),
+    name: normalizeDocumentName(input.name),
+    content: input.content ?? null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await withLock(doc.id, () => writeDocument(doc));
+  return doc;
+}
+
+/** Applies `patch` and returns the updated document, or null if it doesn't exist. */
+export function updateDocument(id: string, patch: DocumentPatch): Promise<StoredDocument | null> {
+  return withLock(id, async () => {
+    const current = await readDocument(id);
+    if (!current) return null;
+
+    const next: StoredDocument = {
+      ...current,
+      ...(patch.name !== undefined ? { name: normalizeDocumentName(patch.name) } : null),
+      ...(patch.content !== undefined ? { content: patch.content } : null),
+      updatedAt: new Date().toISOString(),
+    };
+    await writeDocument(next);
+    return next;
+  });
+}
+
+/** Returns false if the document didn't exist. */
+export function deleteDocument(id: string): Promise<boolean> {
+  return withLock(id, async () => {
+    if (!isDocumentId(id)) return false;
+    try {
+      await unlink(filePath(id));
+      await rm(versionsDir(id), { recursive: true, force: true });
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw err;
+    }
+  });
+}
+
+function toVersionSummary(version: StoredVersion): VersionSummary {
+  const { id, documentId, kind, name, createdAt } = version;
+  return { id, documentId, kind, name, createdAt };
+}
+
+// Version ids sort by creation time, so the newest snapshot is found without reading every file.
+function newVersionId(): string {
+  return `${Date.now().toString(36).padStart(10, "0")}-${randomUUID().slice(0, 8)}`;
+}
+
+async function readVersion(id: string, versionId: string): Promise<StoredVersion | null> {
+  if (!isDocumentId(id) || !isDocumentId(versionId)) return null;
+  try {
+    return JSON.parse(await readFile(versionPath(id, versionId), "utf8")) as StoredVersion;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+async function versionIds(id: string): Promise<string[]> {
+  try {
+    const entries = await readdir(versionsDir(id));
+    return entries
+      .filter((f) => f.endsWith(".json"))
+      .map((f) => f.slice(0, -".json".length))
+      .sort()
+      .reverse();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+}
+
+async function writeVersion(
+  id: string,
+  input: { kind: VersionKind; name?: string | null; content: JSONContent },
+): Promise<StoredVersion> {
+  const version: StoredVersion = {
+    id: newVersionId(),
+    documentId: id,
+    kind: input.kind,
+    name: input.name?.trim().slice(0, 200) || null,
+    content: input.content,
+    createdAt: new Date().toISOString(),
+  };
+  await writeJson(versionPath(id, version.id), version);
+  return version;
+}
+
+/** Snapshots of a document, newest first; null if the document doesn't exist. */
+export async function listVersions(id: string): Promise<VersionSummary[] | null> {
+  if (!(await readDocument(id))) return null;
+  const versions = await Promise.all((await versionIds(id)).map((v) => readVersion(id, v)));
+  return versions.filter((v): v is StoredVersion => v !== null).map(toVersionSummary);
+}
+
+export function getVersion(id: string, versionId: string): Promise<StoredVersion | null> {
+  return readVersion(id, versionId);
+}
+
+/**
+ * Records a snapshot. Without `content` the document's stored content is used.
+ * Returns null if the document doesn't exist or has nothing to snapshot.
+ */
+export function createVersion(
+  id: string,
+  input: { kind: VersionKind; name?: string | null; content?: JSONContent },
+): Promise<StoredVersion | null> {
+  return withLock(id, async () => {
+    const doc = await readDocument(id);
+    const content = input.content ?? doc?.content;
+    if (!doc || !content) return null;
+    return writeVersion(id, { ...input, content });
+  });
+}
+
+/** Takes an automatic snapshot if the newest one is older than `AUTO_VERSION_INTERVAL_MS`. */
+export function createAutoVersionIfDue(id: string): Promise<StoredVersion | null> {
+  return withLock(id, async () => {
+    const doc = await readDocument(id);
+    if (!doc?.content) return null;
+
+    const [latestId] = await versionIds(id);
+    const latest = latestId ? await readVersion(id, latestId) : null;
+    if (latest && Date.now() - Date.parse(latest.createdAt) < AUTO_VERSION_INTERVAL_MS) return null;
+    return writeVersion(id, { kind: "auto", content: doc.content });
+  });
+}
+
+/**
+ * Makes a snapshot the document's current content. The restore is itself
+ * recorded as a new version, so nothing in the history is lost.
+ */
+export function restoreVersion(
+  id: string,
+  versionId: string,
+): Promise<{ document: StoredDocument; version: StoredVersion } | null> {
+  return withLock(id, async () => {
+    const [current, source] = await Promise.all([readDocument(id), readVersion(id, versionId)]);
+    if (!current || !source) return null;
+
+    const document: StoredDocument = { ...current, content: source.content, updatedAt: new Date().toISOString() };
+    await writeDocument(document);
+    const label = source.name ?? new Date(source.createdAt).toISOString().slice(0, 16).replace("T", " ");
+    const version = await writeVersion(id, { kind: "restore", name: `Restored “${label}”`, content: source.content });
+    return { document, version };
+  });
+}
+
+async function readTemplate(id: string): Promise<StoredTemplate | null> {
+  if (!isDocumentId(id)) return null;
+  try {
+    return JSON.parse(await readFile(templatePath(id), "utf8")) as StoredTemplate;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+function toTemplateSummary(template: StoredTemplate): TemplateSummary {
+  const { id, name, createdAt, updatedAt } = template;
+  return { id, name, createdAt, updatedAt };
+}
+
+/** All templates, by name. */
+export async function listTemplates(): Promise<TemplateSummary[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(templateStoreDir());
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+
+  const templates = await Promise.all(
+    entries.filter((f) => f.endsWith(".json")).map((f) => readTemplate(f.slice(0, -".json".length))),
+  );
+  return templates
+    .filter((t): t is StoredTemplate => t !== null)
+    .map(toTemplateSummary)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getTemplate(id: string): Promise<StoredTemplate | null> {
+  return readTemplate(id);
+}
+
+export async function createTemplate(input: { name?: string; content: JSONContent }): Promise<StoredTemplate> {
+  const now = new Date().toISOString();
+  const template: StoredTemplate = {
+    id: randomUUID(),
+    name: input.name?.trim().slice(0, 200) || DEFAULT_TEMPLATE_NAME,
+    // Values belong to the documents made from it, never to the template.
+    content: fillTemplateContent(input.content, {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await withLock(template.id, () => writeJson(templatePath(template.id), template));
+  return template;
+}
+
+/** Returns false if the template didn't exist. Documents made from it are kept. */
+export function deleteTemplate(id: string): Promise<boolean> {
+  return withLock(id, async () => {
+    if (!isDocumentId(id)) return false;
+    try {
+      await unlink(templatePath(id));
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw err;
+    }
+  });
+}
+
+/**
+ * Creates one document per row of field values, filled in from the template. Each is
+ * named by the row's `DOCUMENT_NAME_COLUMN`, or after the template. Returns null if
+ * the template doesn't exist.
+ */
+export async function createDocumentsFromTemplate(
+  id: string,
+  rows: MergeFieldValues[],
+): Promise<DocumentSummary[] | null> {
+  const template = await readTemplate(id);
+  if (!template) return null;
+
+  const created: DocumentSummary[] = [];
+  for (const [index, row] of rows.entries()) {
+    const fallbackName = rows.length > 1 ? `${template.name} ${index + 1}` : template.name;
+    const doc = await createDocument({
+      name: row[DOCUMENT_NAME_COLUMN]?.trim() || fallbackName,
+      content: fillTemplateContent(template.content, row),
+    });
+    created.push(toSummary(doc));
+  }
+  return created;
+}
+
+/** Characters of text shown in search results. */
+const EXCERPT_LENGTH = 160;
+
+async function readLibraryClause(id: string): Promise<StoredLibraryClause | null> {
+  if (!isDocumentId(id)) return null;
+  try {
+    return JSON.parse(await readFile(libraryClausePath(id), "utf8")) as StoredLibraryClause;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+function toLibraryClauseSummary(clause: StoredLibraryClause): LibraryClauseSummary {
+  const { id, title, tags, text, createdAt, updatedAt } = clause;
+  const excerpt = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : text;
+  return { id, title, tags, excerpt, createdAt, updatedAt };
+}
+
+/**
+ * Library clauses matching every word of `query` and carrying `tag`, by title, with
+ * every tag in the library for filtering.
+ */
+export async function listLibraryClauses(
+  query = "",
+  tag: string | null = null,
+): Promise<{ clauses: LibraryClauseSummary[]; tags: string[] }> {
+  let entries: string[];
+  try {
+    entries = await readdir(clauseLibraryDir());
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { clauses: [], tags: [] };
+    throw err;
+  }
+
+  const all = (
+    await Promise.all(
+      entries.filter((f) => f.endsWith(".json")).map((f) => readLibraryClause(f.slice(0, -".json".length))),
+    )
+  ).filter((c): c is StoredLibraryClause => c !== null);
+  return {
+    clauses: all
+      .filter((c) => matchesLibraryQuery(c, query, tag))
+      .map(toLibraryClauseSummary)
+      .sort((a, b) => a.title.localeCompare(b.title)),
+    tags: [...new Set(all.flatMap((c) => c.tags))].sort(),
+  };
+}
+
+export function getLibraryClause(id: string): Promise<StoredLibraryClause | null> {
+  return readLibraryClause(id);
+}
+
+/** `text` is the plain text of `content`, which the caller has checked against the schema. */
+export async function createLibraryClause(input: {
+  title: string;
+  tags: string[];
+  content: LibraryClauseContent;
+  text: string;
+}): Promise<StoredLibraryClause> {
+  const now = new Date().toISOString();
+  const clause: StoredLibraryClause = {
+    id: randomUUID(),
+    title: input.title.trim().slice(0, 200) || input.text.slice(0, 60) || "Untitled clause",
+    tags: input.tags,
+    content: input.content,
+    text: input.text,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await withLock(clause.id, () => writeJson(libraryClausePath(clause.id), clause));
+  return clause;
+}
+
+/** Returns false if the clause didn't exist. */
+export function deleteLibraryClause(id: string): Promise<boolean> {
+  return withLock(id, async () => {
+    if (!isDocumentId(id)) return false;
+    try {
+      await unlink(libraryClausePath(id));
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw err;
+    }
+  });
+}
@@ -0,0 +1,846 @@
+import type { JSONContent } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import JSZip from "jszip";
+
+import { getDocumentSchema } from "@/app/extensions";
+import { DELETION_MARK, INSERTION_MARK } from "@/app/extensions/TrackChanges";
+import type { ClauseInfo } from "@/app/utils/clauses";
+import {
+  CLAUSE_NODE,
+  CLAUSE_REF_NODE,
+  collectClauses,
+  formatCrossReference,
+  normalizeCrossReferenceFormat,
+} from "@/app/utils/clauses";
+import { FOOTNOTE_NODE, normalizeNotePlacement } from "@/app/utils/footnotes";
+import { normalizeDocumentInfo } from "@/app/utils/headerFooter";
+import { newShortId } from "@/app/utils/ids";
+import type { MergeFieldValues } from "@/app/utils/mergeFields";
+import {
+  MERGE_FIELD_NODE,
+  mergeFieldText,
+  normalizeMergeFieldName,
+  normalizeMergeFieldType,
+  normalizeMergeFieldValues,
+} from "@/app/utils/mergeFields";
+import {
+  SIGNATURE_BLOCK_NODE,
+  normalizeSignatureBlock,
+  signatureDetailLines,
+  signatureLineLabel,
+} from "@/app/utils/signatureBlocks";
+import type { TocEntry } from "@/app/utils/tableOfContents";
+import { TABLE_OF_CONTENTS_NODE, TOC_MAX_LEVEL, collectTocEntries } from "@/app/utils/tableOfContents";
+import type { LengthUnit, PageSetup, PaperSizeId } from "@/app/utils/pageSetup";
+import {
+  DEFAULT_PAGE_SETUP,
+  PAPER_SIZES,
+  convertLength,
+  getPaperSizeInches,
+  normalizePageSetup,
+  roundLength,
+  toInches,
+} from "@/app/utils/pageSetup";
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const TWIPS_PER_INCH = 1440;
+
+/* -------------------------------------------------------------------------- */
+/* Export                                                                     */
+/* -------------------------------------------------------------------------- */
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const twips = (inches: number) => Math.round(inches * TWIPS_PER_INCH);
+
+type NotePart = "footnotes" | "endnotes";
+
+/** Style id of a note's text paragraph or reference mark, e.g. "FootnoteText". */
+const noteStyle = (kind: "footnote" | "endnote", role: "Text" | "Reference") =>
+  `${kind[0].toUpperCase()}${kind.slice(1)}${role}`;
+
+type ExportContext = {
+  /** pStyle for paragraphs in this context (e.g. "Quote" inside a blockquote). */
+  paragraphStyle: string | null;
+  /** Zero-based list nesting level, or -1 outside lists. */
+  listLevel: number;
+  /** Numbering instance of the innermost list. */
+  numId: number;
+  /** Left indent (twips) of nested clauses. */
+  clauseIndent: number;
+  /** Clause number written at the start of the next paragraph. */
+  clauseLabel: string | null;
+};
+
+const ROOT_CONTEXT: ExportContext = {
+  paragraphStyle: null,
+  listLevel: -1,
+  numId: 0,
+  clauseIndent: 0,
+  clauseLabel: null,
+};
+
+class DocxWriter {
+  /** Ordered-list numbering instances (numId = index + 2); bullets share numId 1. */
+  private orderedStarts: { start: number; ilvl: number }[] = [];
+  /** Next `w:id` for tracked-change (w:ins / w:del) wrappers. */
+  private revisionId = 1;
+  /** Clauses by id, for their numbers and cross-reference text. */
+  private clauses = new Map<string, ClauseInfo>();
+  /** Headings listed by a table of contents. */
+  private contents: TocEntry[] = [];
+  /** Values printed in place of merge fields. */
+  private mergeFieldValues: MergeFieldValues = {};
+  /** Note texts in reference order; note `w:id`s start at 1 (-1 and 0 are Word's separators). */
+  private notes: string[] = [];
+  /** Notes go to endnotes.xml instead of footnotes.xml. */
+  private endnotes = false;
+
+  writeBody(doc: ProseMirrorNode): string {
+    this.clauses = new Map(collectClauses(doc).map((c) => [c.id, c]));
+    this.endnotes = normalizeNotePlacement(doc.attrs.notePlacement) === "endnotes";
+    this.mergeFieldValues = normalizeMergeFieldValues(doc.attrs.mergeFieldValues);
+    this.contents = collectTocEntries(doc, null);
+    const parts: string[] = [];
+    doc.forEach((child, _offset, index) => {
+      // A paragraph leading into a signature block stays on its page, as it does on screen.
+      if (child.type.name === "paragraph" && doc.maybeChild(index + 1)?.type.name === SIGNATURE_BLOCK_NODE) {
+        parts.push(this.paragraph(child, "<w:keepNext/>", ROOT_CONTEXT));
+      } else {
+        parts.push(this.block(child, ROOT_CONTEXT));
+      }
+    });
+    return parts.join("");
+  }
+
+  writeNumbering(): string {
+    const levels = (format: "bullet" | "decimal") =>
+      Array.from({ length: 9 }, (_, ilvl) => {
+        const text = format === "bullet" ? "•" : `%${ilvl + 1}.`;
+        return (
+          `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/>` +
+          `<w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+          `<w:pPr><w:ind w:left="${720 * (ilvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+        );
+      }).join("");
+
+    const ordered = this.orderedStarts
+      .map(
+        ({ start, ilvl }, i) =>
+          `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="1"/>` +
+          `<w:lvlOverride w:ilvl="${ilvl}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`,
+      )
+      .join("");
+
+    return (
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<w:numbering xmlns:w="${W_NS}">` +
+      `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels("bullet")}</w:abstractNum>` +
+      `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels("decimal")}</w:abstractNum>` +
+      `<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>${ordered}` +
+      `</w:numbering>`
+    );
+  }
+
+  /** footnotes.xml or endnotes.xml, or null when the document has no notes. */
+  writeNotes(): { part: NotePart; xml: string } | null {
+    if (this.notes.length === 0) return null;
+    const kind = this.endnotes ? "endnote" : "footnote";
+    const separators =
+      `<w:${kind} w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:${kind}>` +
+      `<w:${kind} w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:${kind}>`;
+    const notes = this.notes
+      .map(
+        (text, i) =>
+          `<w:${kind} w:id="${i + 1}"><w:p><w:pPr><w:pStyle w:val="${noteStyle(kind, "Text")}"/></w:pPr>` +
+          `<w:r><w:rPr><w:rStyle w:val="${noteStyle(kind, "Reference")}"/></w:rPr><w:${kind}Ref/></w:r>` +
+          `<w:r><w:t xml:space="preserve"> ${escapeXml(text)}</w:t></w:r></w:p></w:${kind}>`,
+      )
+      .join("");
+    return {
+      part: `${kind}s`,
+      xml:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<w:${kind}s xmlns:w="${W_NS}">${separators}${notes}</w:${kind}s>`,
+    };
+  }
+
+  private runs(block: ProseMirrorNode): string {
+    const out: string[] = [];
+    block.forEach((child) => {
+      // Tracked changes become Word revisions, so they can be accepted or rejected there too.
+      // Text inserted by one author and deleted by another is a deletion inside an insertion.
+      const inserted = child.marks.find((m) => m.type.name === INSERTION_MARK);
+      const deletedBy = child.marks.find((m) => m.type.name === DELETION_MARK);
+      const deleted = !!deletedBy;
+
+      let run: string;
+      if (child.type.name === "hardBreak") {
+        run = "<w:r><w:br/></w:r>";
+      } else if (child.type.name === CLAUSE_REF_NODE) {
+        // Plain text: Word has no page numbers to give until it lays the document out itself.
+        const target = this.clauses.get(child.attrs.targetId as string);
+        const text = formatCrossReference(target, null, normalizeCrossReferenceFormat(child.attrs.format));
+        run = `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+      } else if (child.type.name === MERGE_FIELD_NODE) {
+        const field = {
+          name: normalizeMergeFieldName(child.attrs.name),
+          type: normalizeMergeFieldType(child.attrs.type),
+        };
+        const text = mergeFieldText(field, this.mergeFieldValues);
+        run = `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+      } else if (child.type.name === FOOTNOTE_NODE) {
+        const id = this.notes.push(String(child.attrs.text ?? ""));
+        const kind = this.endnotes ? "endnote" : "footnote";
+        const rPr = `<w:rPr><w:rStyle w:val="${noteStyle(kind, "Reference")}"/></w:rPr>`;
+        run = `<w:r>${rPr}<w:${kind}Reference w:id="${id}"/></w:r>`;
+      } else if (child.isText) {
+        const marks = new Set(child.marks.map((m) => m.type.name));
+        const rPr = [
+          marks.has("bold") ? "<w:b/>" : "",
+          marks.has("italic") ? "<w:i/>" : "",
+          marks.has("strike") ? "<w:strike/>" : "",
+          marks.has("underline") ? '<w:u w:val="single"/>' : "",
+          marks.has("code") ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>' : "",
+        ].join("");
+
+        const textTag = deleted ? "w:delText" : "w:t";
+        const content = (child.text ?? "")
+          .split("\t")
+          .map((segment) => `<${textTag} xml:space="preserve">${escapeXml(segment)}</${textTag}>`)
+          .join("<w:tab/>");
+        run = `<w:r>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ""}${content}</w:r>`;
+      } else {
+        return;
+      }
+
+      for (const [tag, change] of [["w:del", deletedBy], ["w:ins", inserted]] as const) {
+        if (!change) continue;
+        const date = change.attrs.date ? ` w:date="${escapeXml(String(change.attrs.date))}"` : "";
+        run = `<${tag} w:id="${this.revisionId++}" w:author="${escapeXml(String(change.attrs.author ?? ""))}"${date}>${run}</${tag}>`;
+      }
+      out.push(run);
+    });
+    return out.join("");
+  }
+
+  private paragraph(block: ProseMirrorNode, pPr: string, ctx: ExportContext): string {
+    const props = ctx.clauseIndent > 0 && ctx.listLevel < 0 ? `${pPr}<w:ind w:left="${ctx.clauseIndent}"/>` : pPr;
+    const label = ctx.clauseLabel
+      ? `<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">${escapeXml(ctx.clauseLabel)} </w:t></w:r>`
+      : "";
+    return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${label}${this.runs(block)}</w:p>`;
+  }
+
+  private block(node: ProseMirrorNode, ctx: ExportContext, firstInItem = false): string {
+    switch (node.type.name) {
+      case "heading":
+        return this.paragraph(node, `<w:pStyle w:val="Heading${node.attrs.level as number}"/>`, ctx);
+      case "paragraph":
+      case "codeBlock": {
+        let style = node.type.name === "codeBlock" ? "Code" : ctx.paragraphStyle;
+        // Later paragraphs of a list item are unnumbered "ListParagraph"s, as Word does it.
+        if (ctx.listLevel >= 0 && !firstInItem) style = "ListParagraph";
+        let pPr = style ? `<w:pStyle w:val="${style}"/>` : "";
+        if (ctx.listLevel >= 0) {
+          pPr += firstInItem
+            ? `<w:numPr><w:ilvl w:val="${ctx.listLevel}"/><w:numId w:val="${ctx.numId}"/></w:numPr>`
+            : `<w:ind w:left="${720 * (ctx.listLevel + 1)}"/>`;
+        }
+        return this.paragraph(node, pPr, ctx);
+      }
+      case "bulletList":
+      case "orderedList": {
+        const listLevel = Math.min(8, ctx.listLevel + 1);
+        let numId = 1;
+        if (node.type.name === "orderedList") {
+          this.orderedStarts.push({ start: (node.attrs.start as number | undefined) ?? 1, ilvl: listLevel });
+          numId = this.orderedStarts.length + 1;
+        }
+        const listCtx: ExportContext = { ...ctx, listLevel, numId, clauseLabel: null };
+        const parts: string[] = [];
+        node.forEach((item) => {
+          item.forEach((child, _offset, index) => parts.push(this.block(child, listCtx, index === 0)));
+        });
+        return parts.join("");
+      }
+      case "blockquote": {
+        const parts: string[] = [];
+        const quoteCtx: ExportContext = { ...ctx, paragraphStyle: "Quote", clauseLabel: null };
+        node.forEach((child) => parts.push(this.block(child, quoteCtx)));
+        return parts.join("");
+      }
+      case CLAUSE_NODE: {
+        const clause = this.clauses.get(node.attrs.id as string);
+        const clauseIndent = clause && clause.level > 0 ? 360 * clause.level : 0;
+        const parts: string[] = [];
+        node.forEach((child, _offset, index) => {
+          const clauseLabel = index === 0 ? (clause?.label ?? null) : null;
+          parts.push(this.block(child, { ...ctx, clauseIndent, clauseLabel }));
+        });
+        return parts.join("");
+      }
+      case "pageBreak":
+        return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+      case "horizontalRule":
+        return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+      case "table":
+        return this.table(node);
+      case TABLE_OF_CONTENTS_NODE:
+        return this.tableOfContents();
+      case SIGNATURE_BLOCK_NODE:
+        return this.signatureBlock(node);
+      default: {
+        const parts: string[] = [];
+        node.forEach((child) => parts.push(this.block(child, ctx)));
+        return parts.join("");
+      }
+    }
+  }
+
+  /**
+   * A Word TOC field. The entries are its cached result, without page numbers; the field
+   * is marked dirty so Word offers to update it, page numbers included, on opening.
+   */
+  private tableOfContents(): string {
+    const text = (value: string) => `<w:r><w:t xml:space="preserve">${escapeXml(value)}</w:t></w:r>`;
+    const begin =
+      '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r>' +
+      `<w:r><w:instrText xml:space="preserve"> TOC \\o "1-${TOC_MAX_LEVEL}" \\h \\z </w:instrText></w:r>` +
+      '<w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+    const end = '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+
+    const title = `<w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Contents</w:t></w:r></w:p>`;
+    const entries = this.contents.length > 0 ? this.contents : [{ level: 1, text: "" }];
+    const paragraphs = entries.map(({ level, text: entryText }, i) => {
+      const pPr = level > 1 ? `<w:pPr><w:ind w:left="${360 * (level - 1)}"/></w:pPr>` : "";
+      const first = i === 0 ? begin : "";
+      const last = i === entries.length - 1 ? end : "";
+      return `<w:p>${pPr}${first}${entryText ? text(entryText) : ""}${last}</w:p>`;
+    });
+    return title + paragraphs.join("");
+  }
+
+  /** Paragraphs kept on one page, with underscores for the lines to sign and date on. */
+  private signatureBlock(node: ProseMirrorNode): string {
+    const block = normalizeSignatureBlock(node.attrs);
+    const text = (value: string, bold = false) =>
+      `<w:r>${bold ? "<w:rPr><w:b/></w:rPr>" : ""}<w:t xml:space="preserve">${escapeXml(value)}</w:t></w:r>`;
+    const blank = (length: number) => "_".repeat(length);
+    const party = block.party ? [text(block.party, true)] : [];
+    const lines = [
+      ...party,
+      text(`${signatureLineLabel(block.field)} ${blank(block.field === "initials" ? 10 : 32)}`),
+      ...signatureDetailLines(block).map(({ label, value }) => text(`${label} ${value || blank(20)}`)),
+    ];
+    return lines
+      .map((runs, i) => {
+        const keepNext = i < lines.length - 1 ? "<w:keepNext/>" : "";
+        // Room to sign above the signature line.
+        const spacing = i === party.length ? '<w:spacing w:before="720"/>' : "";
+        const pPr = keepNext + spacing;
+        return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ""}${runs}</w:p>`;
+      })
+      .join("");
+  }
+
+  private table(table: ProseMirrorNode): string {
+    let columns = 0;
+    table.firstChild?.forEach((cell) => {
+      columns += (cell.attrs.colspan as number | undefined) ?? 1;
+    });
+
+    const rows: string[] = [];
+    table.forEach((row) => {
+      let header = row.childCount > 0;
+      const cells: string[] = [];
+      row.forEach((cell) => {
+        if (cell.type.spec.tableRole !== "header_cell") header = false;
+        const colspan = (cell.attrs.colspan as number | undefined) ?? 1;
+        const paragraphs: string[] = [];
+        cell.forEach((child) => paragraphs.push(this.block(child, ROOT_CONTEXT)));
+        cells.push(
+          `<w:tc><w:tcPr>${colspan > 1 ? `<w:gridSpan w:val="${colspan}"/>` : ""}</w:tcPr>` +
+            `${paragraphs.join("") || "<w:p/>"}</w:tc>`,
+        );
+      });
+      rows.push(`<w:tr>${header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${cells.join("")}</w:tr>`);
+    });
+
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BFC3C8"/>`;
+    const borders = ["top", "left", "bottom", "right", "insideH", "insideV"].map(border).join("");
+    const grid = Array.from({ length: Math.max(1, columns) }, () => "<w:gridCol/>").join("");
+
+    return (
+      `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${borders}</w:tblBorders></w:tblPr>` +
+      `<w:tblGrid>${grid}</w:tblGrid>${rows.join("")}</w:tbl>`
+    );
+  }
+}
+
+function sectionPropertiesXml(setup: PageSetup): string {
+  const paper = getPaperSizeInches(setup);
+  const m = setup.margins;
+  const margin = (value: number) => twips(toInches(value, setup.unit));
+  return (
+    `<w:sectPr><w:pgSz w:w="${twips(paper.width)}" w:h="${twips(paper.height)}"` +
+    `${setup.orientation === "landscape" ? ' w:orient="landscape"' : ""}/>` +
+    `<w:pgMar w:top="${margin(m.top)}" w:right="${margin(m.right)}" w:bottom="${margin(m.bottom)}"` +
+    ` w:left="${margin(m.left)}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`
+  );
+}
+
+const STYLES_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+  `<w:styles xmlns:w="${W_NS}">` +
+  `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/>` +
+  `<w:sz w:val="24"/></w:rPr></w:rPrDefault>` +
+  `<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="384" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>` +
+  `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>` +
+  [1, 2, 3]
+    .map(
+      (level) =>
+        `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/>` +
+        `<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+        `<w:rPr><w:b/><w:sz w:val="${[45, 33, 27][level - 1]}"/></w:rPr></w:style>`,
+    )
+    .join("") +
+  `<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/>` +
+  `<w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/></w:pPr></w:style>` +
+  `<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/>` +
+  `<w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>` +
+  `<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>` +
+  `<w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/></w:rPr></w:style>` +
+  (["footnote", "endnote"] as const)
+    .map(
+      (kind) =>
+        `<w:style w:type="paragraph" w:styleId="${noteStyle(kind, "Text")}"><w:name w:val="${kind} text"/>` +
+        `<w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>` +
+        `<w:rPr><w:sz w:val="20"/></w:rPr></w:style>` +
+        `<w:style w:type="character" w:styleId="${noteStyle(kind, "Reference")}"><w:name w:val="${kind} reference"/>` +
+        `<w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>`,
+    )
+    .join("") +
+  `</w:styles>`;
+
+function contentTypesXml(notePart: NotePart | null): string {
+  const notes = notePart
+    ? `<Override PartName="/word/${notePart}.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.${notePart}+xml"/>`
+    : "";
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+    `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+    `<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>` +
+    `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+    `${notes}</Types>`
+  );
+}
+
+const ROOT_RELS_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>` +
+  `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>` +
+  `</Relationships>`;
+
+function documentRelsXml(notePart: NotePart | null): string {
+  const notes = notePart
+    ? `<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${notePart}" Target="${notePart}.xml"/>`
+    : "";
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>` +
+    `${notes}</Relationships>`
+  );
+}
+
+function corePropertiesXml(title: string): string {
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"` +
+    ` xmlns:dc="http://purl.org/dc/elements/1.1/">` +
+    `<dc:title>${escapeXml(title)}</dc:title></cp:coreProperties>`
+  );
+}
+
+/** Converts editor JSON (`editor.getJSON()`) to a .docx file. Works in the browser and Node. */
+export async function exportDocx(json: JSONContent): Promise<Uint8Array> {
+  const doc = getDocumentSchema().nodeFromJSON(json);
+  const pageSetup = normalizePageSetup(doc.attrs.pageSetup);
+  const info = normalizeDocumentInfo(doc.attrs.documentInfo);
+
+  const writer = new DocxWriter();
+  const body = writer.writeBody(doc);
+  const documentXml =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<w:document xmlns:w="${W_NS}"><w:body>${body}${sectionPropertiesXml(pageSetup)}</w:body></w:document>`;
+  const notes = writer.writeNotes();
+
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", contentTypesXml(notes?.part ?? null));
+  zip.file("_rels/.rels", ROOT_RELS_XML);
+  zip.file("docProps/core.xml", corePropertiesXml(info.title));
+  zip.file("word/document.xml", documentXml);
+  zip.file("word/styles.xml", STYLES_XML);
+  zip.file("word/numbering.xml", writer.writeNumbering());
+  zip.file("word/_rels/document.xml.rels", documentRelsXml(notes?.part ?? null));
+  if (notes) zip.file(`word/${notes.part}.xml`, notes.xml);
+  return zip.generateAsync({ type: "uint8array", mimeType: DOCX_MIME_TYPE });
+}
+
+/* -------------------------------------------------------------------------- */
+/* Import                                                                     */
+/* -------------------------------------------------------------------------- */
+
+function wChildren(el: Element, localName?: string): Element[] {
+  return Array.from(el.children).filter(
+    (c) => c.namespaceURI === W_NS && (localName === undefined || c.localName === localName),
+  );
+}
+
+function wChild(el: Element | null | undefined, localName: string): Element | null {
+  return el ? (wChildren(el, localName)[0] ?? null) : null;
+}
+
+function wAttr(el: Element | null | undefined, name: string): string | null {
+  return el?.getAttributeNS(W_NS, name) ?? null;
+}
+
+/** `<w:b/>` and `<w:b w:val="true"/>` are on; `w:val="0"`/`"false"` is off. */
+function isOn(el: Element | null): boolean {
+  if (!el) return false;
+  const val = wAttr(el, "val");
+  return val === null || !["0", "false", "none"].includes(val);
+}
+
+type NumberingInfo = Map<string, { formats: Map<number, string>; starts: Map<number, number> }>;
+
+function parseNumbering(xml: Document | null): NumberingInfo {
+  const result: NumberingInfo = new Map();
+  if (!xml) return result;
+
+  const abstracts = new Map<string, { formats: Map<number, string>; starts: Map<number, number> }>();
+  for (const abs of wChildren(xml.documentElement, "abstractNum")) {
+    const formats = new Map<number, string>();
+    const starts = new Map<number, number>();
+    for (const lvl of wChildren(abs, "lvl")) {
+      const ilvl = Number(wAttr(lvl, "ilvl") ?? 0);
+      formats.set(ilvl, wAttr(wChild(lvl, "numFmt"), "val") ?? "decimal");
+      starts.set(ilvl, Number(wAttr(wChild(lvl, "start"), "val") ?? 1));
+    }
+    abstracts.set(wAttr(abs, "abstractNumId") ?? "", { formats, starts });
+  }
+
+  for (const num of wChildren(xml.documentElement, "num")) {
+    const abs = abstracts.get(wAttr(wChild(num, "abstractNumId"), "val") ?? "");
+    if (!abs) continue;
+    const starts = new Map(abs.starts);
+    for (const override of wChildren(num, "lvlOverride")) {
+      const start = wAttr(wChild(override, "startOverride"), "val");
+      if (start !== null) starts.set(Number(wAttr(override, "ilvl") ?? 0), Number(start));
+    }
+    result.set(wAttr(num, "numId") ?? "", { formats: abs.formats, starts });
+  }
+  return result;
+}
+
+/** Note texts by `w:id`, from footnotes.xml and endnotes.xml. */
+type NoteTexts = { footnotes: Map<string, string>; endnotes: Map<string, string> };
+
+function parseNotes(xml: Document | null, kind: "footnote" | "endnote"): Map<string, string> {
+  const result = new Map<string, string>();
+  if (!xml) return result;
+  for (const note of wChildren(xml.documentElement, kind)) {
+    // Separator notes hold Word's rule above the notes, not text.
+    if (wAttr(note, "type") && wAttr(note, "type") !== "normal") continue;
+    const text = Array.from(note.getElementsByTagNameNS(W_NS, "p"))
+      .map((p) => Array.from(p.getElementsByTagNameNS(W_NS, "t"), (t) => t.textContent ?? "").join(""))
+      .join(" ")
+      .trim();
+    result.set(wAttr(note, "id") ?? "", text);
+  }
+  return result;
+}
+
+/** Inline content of a paragraph, split wherever a page break occurs. */
+function parseParagraphInline(p: Element, notes: NoteTexts): { segments: JSONContent[][]; breakBefore: boolean } {
+  const segments: JSONContent[][] = [[]];
+  const pPr = wChild(p, "pPr");
+
+  const visitRun = (r: Element, changes: Element[] = []) => {
+    const rPr = wChild(r, "rPr");
+    const marks: JSONContent["marks"] = [];
+    for (const change of changes) {
+      marks.push({
+        type: change.localName === "del" ? DELETION_MARK : INSERTION_MARK,
+        attrs: {
+          id: `w${wAttr(change, "id") ?? ""}`,
+          author: wAttr(change, "author") ?? "",
+          date: wAttr(change, "date") ?? "",
+        },
+      });
+    }
+    if (isOn(wChild(rPr, "b"))) marks.push({ type: "bold" });
+    if (isOn(wChild(rPr, "i"))) marks.push({ type: "italic" });
+    if (isOn(wChild(rPr, "strike"))) marks.push({ type: "strike" });
+    if (isOn(wChild(rPr, "u"))) marks.push({ type: "underline" });
+
+    for (const child of wChildren(r)) {
+      const current = segments[segments.length - 1];
+      if (child.localName === "t" || child.localName === "delText") {
+        const text = child.textContent ?? "";
+        if (text) current.push({ type: "text", text, ...(marks.length ? { marks } : {}) });
+      } else if (child.localName === "tab") {
+        current.push({ type: "text", text: "\t", ...(marks.length ? { marks } : {}) });
+      } else if (child.localName === "br") {
+        if (wAttr(child, "type") === "page") segments.push([]);
+        else current.push({ type: "hardBreak" });
+      } else if (child.localName === "footnoteReference" || child.localName === "endnoteReference") {
+        const texts = child.localName === "footnoteReference" ? notes.footnotes : notes.endnotes;
+        const text = texts.get(wAttr(child, "id") ?? "");
+        if (text !== undefined) {
+          current.push({ type: FOOTNOTE_NODE, attrs: { id: newShortId(), text }, ...(marks.length ? { marks } : {}) });
+        }
+      }
+    }
+  };
+
+  // Tracked insertions and deletions come back as suggestions; a deletion can sit inside an insertion.
+  const visitChange = (change: Element, outer: Element[]) => {
+    const changes = [...outer, change];
+    for (const child of wChildren(change)) {
+      if (child.localName === "r") visitRun(child, changes);
+      else if (child.localName === "ins" || child.localName === "del") visitChange(child, changes);
+    }
+  };
+
+  for (const child of wChildren(p)) {
+    if (child.localName === "r") visitRun(child);
+    else if (child.localName === "ins" || child.localName === "del") visitChange(child, []);
+    // Hyperlinks and smart tags wrap ordinary runs.
+    else if (["hyperlink", "smartTag", "fldSimple"].includes(child.localName)) {
+      wChildren(child, "r").forEach((r) => visitRun(r));
+    }
+  }
+
+  return { segments, breakBefore: isOn(wChild(pPr, "pageBreakBefore")) };
+}
+
+function headingLevel(styleId: string | null): number | null {
+  if (!styleId) return null;
+  if (/^title$/i.test(styleId)) return 1;
+  const match = styleId.match(/^heading\s*([1-9])$/i);
+  return match ? Math.min(3, Number(match[1])) : null;
+}
+
+function detectPaperSize(widthIn: number, heightIn: number): PaperSizeId {
+  const [short, long] = widthIn < heightIn ? [widthIn, heightIn] : [heightIn, widthIn];
+  for (const [id, size] of Object.entries(PAPER_SIZES)) {
+    if (Math.abs(size.width - short) < 0.03 && Math.abs(size.height - long) < 0.03) return id as PaperSizeId;
+  }
+  return "custom";
+}
+
+function parseSectionProperties(sectPr: Element | null): PageSetup {
+  if (!sectPr) return DEFAULT_PAGE_SETUP;
+  const pgSz = wChild(sectPr, "pgSz");
+  const pgMar = wChild(sectPr, "pgMar");
+  const inches = (el: Element | null, name: string, fallback: number) => {
+    const v = Number(wAttr(el, name));
+    return Number.isFinite(v) && v > 0 ? v / TWIPS_PER_INCH : fallback;
+  };
+
+  const width = inches(pgSz, "w", 8.5);
+  const height = inches(pgSz, "h", 11);
+  const orientation = wAttr(pgSz, "orient") === "landscape" || width > height ? "landscape" : "portrait";
+  const paperSize = detectPaperSize(width, height);
+  const unit: LengthUnit = paperSize === "a4" ? "mm" : "in";
+  const fromInches = (v: number) => roundLength(convertLength(v, "in", unit), unit);
+
+  return normalizePageSetup({
+    paperSize,
+    orientation,
+    unit,
+    customSize: {
+      width: fromInches(Math.min(width, height)),
+      height: fromInches(Math.max(width, height)),
+    },
+    margins: {
+      top: fromInches(inches(pgMar, "top", 1)),
+      right: fromInches(inches(pgMar, "right", 1)),
+      bottom: fromInches(inches(pgMar, "bottom", 1)),
+      left: fromInches(inches(pgMar, "left", 1)),
+    },
+  });
+}
+
+function parseTable(tbl: Element, notes: NoteTexts): JSONContent | null {
+  const rows: JSONContent[] = [];
+  for (const tr of wChildren(tbl, "tr")) {
+    const header = isOn(wChild(wChild(tr, "trPr"), "tblHeader"));
+    const cells: JSONContent[] = [];
+    for (const tc of wChildren(tr, "tc")) {
+      const colspan = Number(wAttr(wChild(wChild(tc, "tcPr"), "gridSpan"), "val") ?? 1) || 1;
+      const paragraphs = wChildren(tc, "p").flatMap((p) =>
+        parseParagraphInline(p, notes).segments.map((content) => ({ type: "paragraph", content })),
+      );
+      cells.push({
+        type: header ? "tableHeader" : "tableCell",
+        attrs: { colspan, rowspan: 1 },
+        content: paragraphs.length > 0 ? paragraphs : [{ type: "paragraph" }],
+      });
+    }
+    if (cells.length > 0) rows.push({ type: "tableRow", content: cells });
+  }
+  return rows.length > 0 ? { type: "table", content: rows } : null;
+}
+
+/**
+ * Converts a .docx file to editor JSON, including page setup and title. Uses the
+ * browser's DOMParser, so it runs client-side only.
+ */
+export async function importDocx(data: ArrayBuffer | Uint8Array): Promise<JSONContent> {
+  const zip = await JSZip.loadAsync(data);
+  const parser = new DOMParser();
+  const readXml = async (path: string) => {
+    const text = await zip.file(path)?.async("string");
+    return text ? parser.parseFromString(text, "application/xml") : null;
+  };
+
+  const documentXml = await readXml("word/document.xml");
+  const body = documentXml ? wChild(documentXml.documentElement, "body") : null;
+  if (!body) throw new Error("Not a Word document: word/document.xml is missing.");
+
+  const numbering = parseNumbering(await readXml("word/numbering.xml"));
+  const notes: NoteTexts = {
+    footnotes: parseNotes(await readXml("word/footnotes.xml"), "footnote"),
+    endnotes: parseNotes(await readXml("word/endnotes.xml"), "endnote"),
+  };
+  const core = await readXml("docProps/core.xml");
+  const title = core?.getElementsByTagNameNS("http://purl.org/dc/elements/1.1/", "title")[0]?.textContent ?? "";
+
+  const content: JSONContent[] = [];
+  // Open lists, innermost last. Word stores lists as flat paragraphs with a level.
+  let listStack: { level: number; list: JSONContent }[] = [];
+  let quote: JSONContent | null = null;
+
+  const pushBlock = (block: JSONContent, inQuote: boolean) => {
+    if (!inQuote) quote = null;
+    if (inQuote) {
+      if (!quote) {
+        quote = { type: "blockquote", content: [] };
+        content.push(quote);
+      }
+      quote.content!.push(block);
+      return;
+    }
+    content.push(block);
+  };
+
+  const pushListItem = (paragraph: JSONContent, level: number, ordered: boolean, start: number) => {
+    const type = ordered ? "orderedList" : "bulletList";
+    listStack = listStack.filter((f) => f.level <= level);
+    let top = listStack[listStack.length - 1];
+
+    if (top && top.level === level && top.list.type !== type) {
+      listStack.pop();
+      top = listStack[listStack.length - 1];
+    }
+
+    if (!top || top.level < level) {
+      const list: JSONContent = { type, content: [], ...(ordered ? { attrs: { start } } : {}) };
+      const parentItem = top?.list.content?.[top.list.content.length - 1];
+      if (parentItem) parentItem.content!.push(list);
+      else pushBlock(list, false);
+      listStack.push({ level, list });
+      top = listStack[listStack.length - 1];
+    }
+
+    top.list.content!.push({ type: "listItem", content: [paragraph] });
+  };
+
+  for (const el of wChildren(body)) {
+    if (el.localName === "tbl") {
+      listStack = [];
+      const table = parseTable(el, notes);
+      if (table) pushBlock(table, false);
+      continue;
+    }
+    if (el.localName !== "p") continue;
+
+    const pPr = wChild(el, "pPr");
+    const styleId = wAttr(wChild(pPr, "pStyle"), "val");
+    const level = headingLevel(styleId);
+    const numPr = wChild(pPr, "numPr");
+    const numId = wAttr(wChild(numPr, "numId"), "val");
+    const ilvl = Number(wAttr(wChild(numPr, "ilvl"), "val") ?? 0);
+    const num = numId && numId !== "0" ? numbering.get(numId) : undefined;
+    const inQuote = !!styleId && /quote/i.test(styleId);
+
+    const { segments, breakBefore } = parseParagraphInline(el, notes);
+    if (breakBefore) {
+      listStack = [];
+      pushBlock({ type: "pageBreak" }, false);
+    }
+
+    segments.forEach((inline, i) => {
+      if (i > 0) {
+        listStack = [];
+        pushBlock({ type: "pageBreak" }, false);
+      }
+      // A paragraph holding only a page break yields no empty paragraphs around it.
+      if (inline.length === 0 && segments.length > 1) return;
+
+      const block: JSONContent =
+        level !== null
+          ? { type: "heading", attrs: { level }, content: inline }
+          : { type: "paragraph", content: inline };
+
+      if (num && level === null && i === 0) {
+        const format = num.formats.get(ilvl) ?? "decimal";
+        pushListItem(block, ilvl, format !== "bullet", num.starts.get(ilvl) ?? 1);
+        return;
+      }
+      // An unnumbered list paragraph continues the open list item.
+      const openList = listStack[listStack.length - 1]?.list;
+      const openItem = openList?.content?.[openList.content.length - 1];
+      if (!num && styleId === "ListParagraph" && level === null && openItem) {
+        openItem.content!.push(block);
+        return;
+      }
+      listStack = [];
+      pushBlock(block, inQuote && level === null);
+    });
+  }
+
+  if (content.length === 0) content.push({ type: "paragraph" });
+
+  const json: JSONContent = {
+    type: "doc",
+    attrs: {
+      pageSetup: parseSectionProperties(wChild(body, "sectPr")),
+      documentInfo: normalizeDocumentInfo({ title }),
+      // The editor puts all notes in one place; a document using only endnotes keeps them at the end.
+      notePlacement: notes.endnotes.size > 0 && notes.footnotes.size === 0 ? "endnotes" : "footnotes",
+    },
+    content,
+  };
+
+  // Throws if the converted structure doesn't fit the editor schema.
+  getDocumentSchema().nodeFromJSON(json).check();
+  return json;
+}
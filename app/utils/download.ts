@@ -0,0 +1,24 @@
+/** Saves a blob through a temporary object URL and link click. Browser only. */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a tick to start the download before revoking.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Reads the file name from a `Content-Disposition` header, if present. */
+export function fileNameFromDisposition(header: string | null, fallback: string): string {
+  const match = header?.match(/filename="([^"]+)"/);
+  return match?.[1] ?? fallback;
+}
+
+/** Builds a download file name from a document title, e.g. ("Lease / 2026", "pdf") -> "Lease-2026.pdf". */
+export function toFileName(title: unknown, extension: string): string {
+  const base = typeof title === "string" ? title.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") : "";
+  return `${base || "document"}.${extension}`;
+}
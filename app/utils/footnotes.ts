@@ -0,0 +1,37 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+/** Name of the inline node that marks a footnote reference and holds its text. */
+export const FOOTNOTE_NODE = "footnote";
+
+/** Where note text is printed: at the bottom of the referencing page, or after the document. */
+export type NotePlacement = "footnotes" | "endnotes";
+
+export const NOTE_PLACEMENTS: { id: NotePlacement; label: string }[] = [
+  { id: "footnotes", label: "Footnotes" },
+  { id: "endnotes", label: "Endnotes" },
+];
+
+export const DEFAULT_NOTE_PLACEMENT: NotePlacement = "footnotes";
+
+export function normalizeNotePlacement(raw: unknown): NotePlacement {
+  return NOTE_PLACEMENTS.some((p) => p.id === raw) ? (raw as NotePlacement) : DEFAULT_NOTE_PLACEMENT;
+}
+
+export type Note = {
+  id: string;
+  /** Doc position of the reference node. */
+  pos: number;
+  /** 1-based, in document order. */
+  number: number;
+  text: string;
+};
+
+/** Every footnote in the document, numbered from 1 in document order. */
+export function collectNotes(doc: ProseMirrorNode): Note[] {
+  const notes: Note[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== FOOTNOTE_NODE) return;
+    notes.push({ id: node.attrs.id as string, pos, number: notes.length + 1, text: node.attrs.text as string });
+  });
+  return notes;
+}
@@ -0,0 +1,9 @@
+/** Long-form date used in headers, footers and exports, e.g. "March 4, 2026". */
+export function formatLongDate(date: Date, locale = "en-US"): string {
+  return new Intl.DateTimeFormat(locale, { year: "numeric", month: "long", day: "numeric" }).format(date);
+}
+
+/** Escapes a value for use inside a double-quoted CSS string. */
+export function escapeCssString(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\A ");
+}
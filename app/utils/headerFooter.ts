@@ -0,0 +1,177 @@
+import { escapeCssString } from "@/app/utils/formatHelpers";
+
+/** Left/center/right slots of a header or footer. Each slot is a field template. */
+export type MarginSlots = {
+  left: string;
+  center: string;
+  right: string;
+};
+
+export type HeaderFooterVariant = {
+  header: MarginSlots;
+  footer: MarginSlots;
+};
+
+export type HeaderFooterConfig = {
+  /** Used for every page unless a more specific variant applies. Odd pages when `differentOddEven`. */
+  default: HeaderFooterVariant;
+  differentFirstPage: boolean;
+  first: HeaderFooterVariant;
+  differentOddEven: boolean;
+  even: HeaderFooterVariant;
+};
+
+export type DocumentInfo = {
+  title: string;
+  matterNumber: string;
+};
+
+/** Values substituted into templates for one page. */
+export type FieldContext = DocumentInfo & {
+  pageNumber: number;
+  pageCount: number;
+  date: string;
+};
+
+/**
+ * Supported template fields. Page fields are resolved per page on screen and via
+ * CSS counters in print.
+ */
+export const TEMPLATE_FIELDS = ["title", "matter", "page", "pages", "date"] as const;
+
+export type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+
+const EMPTY_SLOTS: MarginSlots = { left: "", center: "", right: "" };
+
+const EMPTY_VARIANT: HeaderFooterVariant = { header: EMPTY_SLOTS, footer: EMPTY_SLOTS };
+
+export const DEFAULT_HEADER_FOOTER: HeaderFooterConfig = {
+  default: { header: EMPTY_SLOTS, footer: { left: "", center: "", right: "{page}" } },
+  differentFirstPage: false,
+  first: EMPTY_VARIANT,
+  differentOddEven: false,
+  even: EMPTY_VARIANT,
+};
+
+export const DEFAULT_DOCUMENT_INFO: DocumentInfo = { title: "", matterNumber: "" };
+
+const FIELD_PATTERN = /\{(title|matter|page|pages|date)\}/g;
+
+type TemplatePart = { kind: "text"; value: string } | { kind: "field"; field: TemplateField };
+
+function parseTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let last = 0;
+  for (const match of template.matchAll(FIELD_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ kind: "text", value: template.slice(last, index) });
+    parts.push({ kind: "field", field: match[1] as TemplateField });
+    last = index + match[0].length;
+  }
+  if (last < template.length) parts.push({ kind: "text", value: template.slice(last) });
+  return parts;
+}
+
+function fieldValue(field: TemplateField, ctx: FieldContext): string {
+  switch (field) {
+    case "title":
+      return ctx.title;
+    case "matter":
+      return ctx.matterNumber;
+    case "page":
+      return String(ctx.pageNumber);
+    case "pages":
+      return String(ctx.pageCount);
+    case "date":
+      return ctx.date;
+  }
+}
+
+export function renderTemplate(template: string, ctx: FieldContext): string {
+  return parseTemplate(template)
+    .map((p) => (p.kind === "text" ? p.value : fieldValue(p.field, ctx)))
+    .join("");
+}
+
+/** Picks the variant for a zero-based page index. */
+export function resolveVariant(config: HeaderFooterConfig, pageIndex: number): HeaderFooterVariant {
+  if (config.differentFirstPage && pageIndex === 0) return config.first;
+  if (config.differentOddEven && (pageIndex + 1) % 2 === 0) return config.even;
+  return config.default;
+}
+
+function normalizeSlots(input: Partial<MarginSlots> | null | undefined): MarginSlots {
+  const str = (v: unknown) => (typeof v === "string" ? v : "");
+  return { left: str(input?.left), center: str(input?.center), right: str(input?.right) };
+}
+
+function normalizeVariant(
+  input: Partial<HeaderFooterVariant> | null | undefined,
+  fallback: HeaderFooterVariant,
+): HeaderFooterVariant {
+  if (!input) return fallback;
+  return { header: normalizeSlots(input.header), footer: normalizeSlots(input.footer) };
+}
+
+export function normalizeHeaderFooter(input: Partial<HeaderFooterConfig> | null | undefined): HeaderFooterConfig {
+  const base = DEFAULT_HEADER_FOOTER;
+  return {
+    default: normalizeVariant(input?.default, base.default),
+    differentFirstPage: input?.differentFirstPage === true,
+    first: normalizeVariant(input?.first, base.first),
+    differentOddEven: input?.differentOddEven === true,
+    even: normalizeVariant(input?.even, base.even),
+  };
+}
+
+export function normalizeDocumentInfo(input: Partial<DocumentInfo> | null | undefined): DocumentInfo {
+  return {
+    title: typeof input?.title === "string" ? input.title : "",
+    matterNumber: typeof input?.matterNumber === "string" ? input.matterNumber : "",
+  };
+}
+
+/**
+ * Converts a template into a CSS `content` value. Static fields are inlined; page
+ * fields become `counter(page)` / `counter(pages)` so the print engine fills them.
+ */
+function templateToCssContent(template: string, ctx: Omit<FieldContext, "pageNumber" | "pageCount">): string {
+  const parts = parseTemplate(template).map((p) => {
+    if (p.kind === "text") return `"${escapeCssString(p.value)}"`;
+    if (p.field === "page") return "counter(page)";
+    if (p.field === "pages") return "counter(pages)";
+    const value = fieldValue(p.field, { ...ctx, pageNumber: 0, pageCount: 0 });
+    return `"${escapeCssString(value)}"`;
+  });
+  return parts.length > 0 ? parts.join(" ") : "none";
+}
+
+const MARGIN_BOXES: { region: keyof HeaderFooterVariant; slot: keyof MarginSlots; box: string }[] = [
+  { region: "header", slot: "left", box: "@top-left" },
+  { region: "header", slot: "center", box: "@top-center" },
+  { region: "header", slot: "right", box: "@top-right" },
+  { region: "footer", slot: "left", box: "@bottom-left" },
+  { region: "footer", slot: "center", box: "@bottom-center" },
+  { region: "footer", slot: "right", box: "@bottom-right" },
+];
+
+function buildMarginBoxes(variant: HeaderFooterVariant, ctx: Omit<FieldContext, "pageNumber" | "pageCount">) {
+  return MARGIN_BOXES.map(({ region, slot, box }) => {
+    const content = templateToCssContent(variant[region][slot], ctx);
+    return `  ${box} { content: ${content}; font-size: 10px; color: #4b5563; }`;
+  }).join("\n");
+}
+
+/**
+ * Builds `@page` margin-box rules for print. Later rules win, so the order is
+ * default, even (`:left`), first (`:first`).
+ */
+export function buildPrintMarginBoxRules(
+  config: HeaderFooterConfig,
+  ctx: Omit<FieldContext, "pageNumber" | "pageCount">,
+): string {
+  const rules = [`@page {\n${buildMarginBoxes(config.default, ctx)}\n}`];
+  if (config.differentOddEven) rules.push(`@page :left {\n${buildMarginBoxes(config.even, ctx)}\n}`);
+  if (config.differentFirstPage) rules.push(`@page :first {\n${buildMarginBoxes(config.first, ctx)}\n}`);
+  return rules.join("\n");
+}
@@ -0,0 +1,413 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+import type { LayoutItem, TextMeasurer } from "@/app/utils/documentLayout";
+import {
+  BLOCK_GAP_PX,
+  FOOTNOTE_SEPARATOR_PX,
+  FOOTNOTE_STYLE,
+  PLAIN_RUN,
+  collectInlineRefs,
+  collectItems,
+  createStandardFontMeasurer,
+  layoutSignatureBlock,
+  lineHeightFor,
+  ruleHeightFor,
+  signatureSpaceBeforeFor,
+  spaceBeforeFor,
+  tableColumnWidth,
+  tocReservedWidth,
+  wrapRuns,
+  wrapTableRow,
+} from "@/app/utils/documentLayout";
+import { collectNotes, normalizeNotePlacement } from "@/app/utils/footnotes";
+import type { PageMetrics } from "@/app/utils/pageSetup";
+import { normalizePageSetup, resolvePageMetrics } from "@/app/utils/pageSetup";
+import { PLEADING_PAGINATION, normalizePleading, pleadingLineHeightPx } from "@/app/utils/pleading";
+
+export type HeadlessPaginationOptions = {
+  /** Page geometry. Default: resolved from the document's page setup. */
+  metrics?: PageMetrics;
+  /** Text measurement backend. Default: the standard PDF font metrics that PDF export draws with. */
+  measureText?: TextMeasurer;
+  /** Minimum lines of a split block left at the bottom of a page. Default: 2, or 1 on pleading paper. */
+  orphanLines?: number;
+  /** Minimum lines of a split block carried to the top of the next page. Default: 2, or 1 on pleading paper. */
+  widowLines?: number;
+};
+
+export type HeadlessPaginationResult = {
+  /** Doc positions where pages 2, 3, ... start, as `setPaginationBreaks` takes them. */
+  breaks: number[];
+  pageCount: number;
+  /** Footnotes at the bottom of each page, in order, including notes carried from the page before. */
+  footnoteIds: string[][];
+};
+
+type UnitLine = {
+  heightPx: number;
+  /** Where a break before the line goes; null where the page cannot break. */
+  pos: number | null;
+  /** Footnotes referenced on the line that take up space on its page. */
+  footnoteIds: string[];
+};
+
+/** A block the page breaks around, like the elements `computePageBreaks` walks on screen. */
+type Unit =
+  | {
+      kind: "block";
+      /** Where a break before the block goes; null where the page cannot break. */
+      pos: number | null;
+      spaceBeforePx: number;
+      lines: UnitLine[];
+      keepWithNext: boolean;
+      keepTogether: boolean;
+      group: number | null;
+      /** Height of the table header row repeated above the block when a page starts with it. */
+      repeatedHeaderPx: number;
+    }
+  | { kind: "break"; pos: number };
+
+type BlockUnit = Extract<Unit, { kind: "block" }>;
+
+type PageState = {
+  /** Bottom of the content placed so far, from the top of the content area (px). */
+  y: number;
+  /** Footnotes placed at the bottom of the page and the height they take up. */
+  notesPx: number;
+  noteCount: number;
+  noteIds: string[];
+  /** Footnotes that did not fit under their reference; they open the next page's notes. */
+  carried: string[];
+};
+
+const groupOf = (unit: Unit | undefined) => (unit?.kind === "block" ? unit.group : null);
+
+const EMPTY_PAGE: PageState = { y: 0, notesPx: 0, noteCount: 0, noteIds: [], carried: [] };
+
+// Blocks whose first line opens these start a page where they do on screen: before the
+// list item or quote, not inside it.
+const BREAK_WRAPPERS = new Set(["listItem", "blockquote"]);
+
+/** Where a page that starts with the block at `pos` breaks, matching the on-screen breaks. */
+function breakPositionBefore(doc: ProseMirrorNode, pos: number): number {
+  if (!doc.nodeAt(pos)?.isTextblock) return pos;
+  const $pos = doc.resolve(pos);
+  let breakPos = pos + 1;
+  for (let depth = $pos.depth; depth > 0 && $pos.index(depth) === 0; depth--) {
+    if (BREAK_WRAPPERS.has($pos.node(depth).type.name)) breakPos = $pos.start(depth);
+  }
+  return breakPos;
+}
+
+function buildUnits(
+  doc: ProseMirrorNode,
+  items: LayoutItem[],
+  measure: TextMeasurer,
+  contentWidthPx: number,
+  noteHeights: Map<string, number>,
+  gridPx: number | null,
+): Unit[] {
+  const units: Unit[] = [];
+  let lastTextPos = -1;
+
+  for (const item of items) {
+    if (item.kind === "break") {
+      units.push(item);
+      continue;
+    }
+
+    if (item.kind === "rule") {
+      const lines = [{ heightPx: ruleHeightFor(gridPx), pos: null, footnoteIds: [] }];
+      units.push({
+        kind: "block",
+        pos: null,
+        spaceBeforePx: spaceBeforeFor(BLOCK_GAP_PX, gridPx),
+        lines,
+        keepWithNext: false,
+        keepTogether: false,
+        group: null,
+        repeatedHeaderPx: 0,
+      });
+      continue;
+    }
+
+    if (item.kind === "signature") {
+      // Kept together, and the block before it is kept on its page.
+      const previous = units[units.length - 1];
+      if (previous?.kind === "block") previous.keepWithNext = true;
+      const rows = layoutSignatureBlock(item.block, measure, contentWidthPx - item.indentPx, gridPx);
+      units.push({
+        kind: "block",
+        pos: item.pos,
+        spaceBeforePx: signatureSpaceBeforeFor(gridPx),
+        lines: rows.map((row) => ({ heightPx: row.heightPx, pos: null, footnoteIds: [] })),
+        keepWithNext: false,
+        keepTogether: true,
+        group: null,
+        repeatedHeaderPx: 0,
+      });
+      continue;
+    }
+
+    if (item.kind === "table") {
+      const colWidthPx = tableColumnWidth(item, contentWidthPx);
+      const rows = item.rows.map((row) => wrapTableRow(row, measure, colWidthPx, gridPx));
+      const headerPx = item.rows[0]?.header ? rows[0].heightPx : 0;
+      item.rows.forEach((row, index) => {
+        const footnoteIds = row.cells.flatMap((cell) =>
+          cell.runs.flatMap((r) => (r.footnoteId !== null && noteHeights.has(r.footnoteId) ? [r.footnoteId] : [])),
+        );
+        units.push({
+          kind: "block",
+          pos: row.pos,
+          spaceBeforePx: index === 0 ? spaceBeforeFor(BLOCK_GAP_PX, gridPx) : 0,
+          lines: [{ heightPx: rows[index].heightPx, pos: null, footnoteIds }],
+          keepWithNext: row.header,
+          keepTogether: true,
+          group: null,
+          repeatedHeaderPx: index > 0 ? headerPx : 0,
+        });
+      });
+      continue;
+    }
+
+    const { style } = item;
+    const trailingPx = item.trailing === null ? 0 : measure(item.trailing, "regular", style.fontSizePx);
+    const reservedPx = item.trailing === null ? 0 : tocReservedWidth(trailingPx, style);
+    const lines = wrapRuns(item.runs, measure, style, contentWidthPx - item.indentPx - reservedPx).map((line) => ({
+      heightPx: lineHeightFor(style, gridPx),
+      pos: line.pos,
+      footnoteIds: line.tokens.flatMap((t) =>
+        t.run.footnoteId !== null && noteHeights.has(t.run.footnoteId) ? [t.run.footnoteId] : [],
+      ),
+    }));
+    // The entries of a table of contents all come from one node; only its title can start a page.
+    const pos = item.pos === lastTextPos ? null : breakPositionBefore(doc, item.pos);
+    lastTextPos = item.pos;
+    units.push({
+      kind: "block",
+      pos,
+      spaceBeforePx: spaceBeforeFor(style.spaceBeforePx, gridPx),
+      lines,
+      keepWithNext: item.keepWithNext,
+      keepTogether: item.keepWithNext,
+      group: item.group,
+      repeatedHeaderPx: 0,
+    });
+  }
+  // The first block starts at the first page's top, with no space above it.
+  if (units[0]?.kind === "block") units[0].spaceBeforePx = 0;
+  return units;
+}
+
+/**
+ * Paginates a document without a browser: lays it out with `measureText` and places
+ * page breaks by the same rules as `computePageBreaks` (keep with next and previous,
+ * keep together, widows and orphans, hard breaks and footnote space), on pleading
+ * paper's line grid when the document uses it. Lines are measured rather than
+ * rendered, so breaks can differ from the screen where the metrics differ.
+ */
+export function paginateDocument(
+  doc: ProseMirrorNode,
+  options: HeadlessPaginationOptions = {},
+): HeadlessPaginationResult {
+  const metrics = options.metrics ?? resolvePageMetrics(normalizePageSetup(doc.attrs.pageSetup));
+  const measure = options.measureText ?? createStandardFontMeasurer();
+  const pleading = normalizePleading(doc.attrs.pleading);
+  const gridPx = pleading.enabled ? pleadingLineHeightPx(metrics, pleading) : null;
+  const lineRules = pleading.enabled ? PLEADING_PAGINATION : { orphanLines: 2, widowLines: 2 };
+  const orphanLines = Math.max(1, options.orphanLines ?? lineRules.orphanLines);
+  const widowLines = Math.max(1, options.widowLines ?? lineRules.widowLines);
+  const pageHeightPx = metrics.contentHeightPx;
+  const { contentWidthPx } = metrics;
+
+  const noteHeights = new Map<string, number>();
+  if (normalizeNotePlacement(doc.attrs.notePlacement) === "footnotes") {
+    for (const { id, number, text } of collectNotes(doc)) {
+      const runs = [
+        { ...PLAIN_RUN, text: String(number), superscript: true },
+        { ...PLAIN_RUN, text: ` ${text}` },
+      ];
+      const lines = wrapRuns(runs, measure, FOOTNOTE_STYLE, contentWidthPx).length;
+      noteHeights.set(id, lines * FOOTNOTE_STYLE.fontSizePx * FOOTNOTE_STYLE.lineHeight);
+    }
+  }
+  // Comment reference numbers are only printed, so like the screen they take no space here.
+  const refs = collectInlineRefs(doc, [], []);
+  const items = collectItems(doc, 0, doc.content.size, refs);
+  const units = buildUnits(doc, items, measure, contentWidthPx, noteHeights, gridPx);
+
+  const addNote = (state: PageState, id: string): PageState => ({
+    ...state,
+    notesPx: state.notesPx + (noteHeights.get(id) ?? 0) + (state.noteCount === 0 ? FOOTNOTE_SEPARATOR_PX : 0),
+    noteCount: state.noteCount + 1,
+    noteIds: [...state.noteIds, id],
+  });
+
+  // Places a line and its footnotes, or returns null if the line does not fit. Notes
+  // that do not fit under it carry over, and once one does, every later note follows.
+  const fitLine = (state: PageState, line: UnitLine, force = false): PageState | null => {
+    const y = state.y + line.heightPx;
+    if (!force && y > pageHeightPx - state.notesPx) return null;
+    let next: PageState = { ...state, y };
+    for (const id of line.footnoteIds) {
+      const withNote = addNote(next, id);
+      if (next.carried.length === 0 && y + withNote.notesPx <= pageHeightPx) next = withNote;
+      else next = { ...next, carried: [...next.carried, id] };
+    }
+    return next;
+  };
+
+  const fitLines = (state: PageState | null, lines: UnitLine[]): PageState | null =>
+    lines.reduce<PageState | null>((s, line) => s && fitLine(s, line), state);
+
+  // A block keeps the space above it at the top of a page too: on screen it sits below
+  // the spacer that ends at the page's top, not against it.
+  const withGap = (state: PageState, unit: BlockUnit): PageState => ({ ...state, y: state.y + unit.spaceBeforePx });
+
+  // Places units `[from, to)`, or returns null if they do not all fit.
+  const fitUnits = (state: PageState, from: number, to: number): PageState | null => {
+    let s: PageState | null = state;
+    for (let j = from; j < to && s; j++) {
+      const unit = units[j];
+      if (unit.kind === "block") s = fitLines(withGap(s, unit), unit.lines);
+    }
+    return s;
+  };
+
+  // Whether what follows a keep-with-next block starts on the page with it: its first
+  // `orphanLines` lines, or all of it when it cannot be split.
+  const fitsWithNext = (state: PageState, index: number): boolean => {
+    let s: PageState | null = state;
+    let j = index + 1;
+    for (; j < units.length && s; j++) {
+      const unit = units[j];
+      if (unit.kind !== "block" || !unit.keepWithNext) break;
+      s = fitLines(withGap(s, unit), unit.lines);
+    }
+    const next = units[j];
+    if (!s || !next || next.kind !== "block") return s !== null;
+    return fitLines(withGap(s, next), next.keepTogether ? next.lines : next.lines.slice(0, orphanLines)) !== null;
+  };
+
+  // The line to start the next page at when lines `[from, fitted)` fit: as late as the
+  // widow and orphan minimums allow, and otherwise wherever the page is full.
+  const splitLine = (lines: UnitLine[], from: number, fitted: number, strict: boolean): number | null => {
+    for (let at = Math.min(fitted, lines.length - widowLines); at - from >= orphanLines; at--) {
+      if (lines[at].pos !== null) return at;
+    }
+    if (strict) return null;
+    for (let at = fitted; at > from; at--) {
+      if (lines[at].pos !== null) return at;
+    }
+    return null;
+  };
+
+  const breaks: number[] = [];
+  const footnoteIds: string[][] = [];
+  let page = EMPTY_PAGE;
+  // The unit that opens the current page. Keep rules never push it forward again, since
+  // doing so would only leave a blank page behind.
+  let pageStart = 0;
+
+  const startNextPage = (pos: number, repeatedHeaderPx = 0) => {
+    breaks.push(pos);
+    footnoteIds.push(page.noteIds);
+    page = page.carried.reduce(addNote, { ...EMPTY_PAGE, y: repeatedHeaderPx });
+  };
+
+  for (let i = 0; i < units.length; i++) {
+    const unit = units[i];
+    if (unit.kind === "break") {
+      startNextPage(unit.pos);
+      pageStart = i + 1;
+      continue;
+    }
+
+    const movable = i !== pageStart && unit.pos !== null;
+    const breakBefore = () => {
+      startNextPage(unit.pos ?? 0, unit.repeatedHeaderPx);
+      pageStart = i;
+    };
+    const start = withGap(page, unit);
+    const whole = fitLines(start, unit.lines);
+
+    // A blockquote or table of contents that fits on a page moves to the next one whole.
+    if (movable && unit.group !== null) {
+      let end = i;
+      while (end < units.length && groupOf(units[end]) === unit.group) end++;
+      const opens = groupOf(units[i - 1]) !== unit.group;
+      if (opens && !fitUnits(page, i, end) && fitUnits(EMPTY_PAGE, i, end)) {
+        breakBefore();
+        i--;
+        continue;
+      }
+    }
+
+    // Keep with next: a heading that fits, but whose following content would start on
+    // the next page, moves to the next page with it.
+    if (whole && movable && unit.keepWithNext && !fitsWithNext(whole, i)) {
+      breakBefore();
+      i--;
+      continue;
+    }
+
+    if (whole) {
+      page = whole;
+      continue;
+    }
+
+    // Keep lines together: move the whole block if it fits on a page of its own.
+    if (movable && unit.keepTogether && fitLines(EMPTY_PAGE, unit.lines)) {
+      breakBefore();
+      i--;
+      continue;
+    }
+
+    let state = start;
+    let from = 0;
+    let moved = false;
+    while (from < unit.lines.length) {
+      const attemptStart = state;
+      let fitted = from;
+      let next = fitLine(state, unit.lines[fitted]);
+      while (next) {
+        state = next;
+        fitted++;
+        next = fitted < unit.lines.length ? fitLine(state, unit.lines[fitted]) : null;
+      }
+      if (fitted === unit.lines.length) break;
+
+      // Widow/orphan control; a block that cannot meet it moves to the next page whole.
+      const at = splitLine(unit.lines, from, fitted, from === 0 && movable);
+      if (at === null && from === 0 && movable) {
+        moved = true;
+        break;
+      }
+      if (at === null) {
+        // Nowhere to break: the line overflows the page, as an unbreakable one does on screen.
+        state = fitLine(state, unit.lines[fitted], true) ?? state;
+        from = fitted + 1;
+        continue;
+      }
+      page = fitLines(attemptStart, unit.lines.slice(from, at)) ?? state;
+      startNextPage(unit.lines[at].pos ?? 0);
+      pageStart = i;
+      state = page;
+      from = at;
+    }
+
+    if (moved) {
+      breakBefore();
+      i--;
+      continue;
+    }
+    page = state;
+  }
+
+  // Notes carried past the last block get a page of their own.
+  if (page.carried.length > 0) startNextPage(doc.content.size);
+  footnoteIds.push(page.noteIds);
+
+  return { breaks, pageCount: breaks.length + 1, footnoteIds };
+}
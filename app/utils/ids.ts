@@ -0,0 +1,7 @@
+/**
+ * Short random id for marks and nodes stored in the doc. Only needs to be unique
+ * within one document, so eight base-36 characters do.
+ */
+export function newShortId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
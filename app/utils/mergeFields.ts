@@ -0,0 +1,192 @@
+import type { JSONContent } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+import { formatLongDate } from "@/app/utils/formatHelpers";
+
+/** Inline node standing in for a value filled in per document, e.g. a party name. */
+export const MERGE_FIELD_NODE = "mergeField";
+
+/** How a field's value is typed in and printed: as is, as a long date, or as an amount. */
+export type MergeFieldType = "text" | "date" | "amount";
+
+export const MERGE_FIELD_TYPES: { id: MergeFieldType; label: string }[] = [
+  { id: "text", label: "Text" },
+  { id: "date", label: "Date" },
+  { id: "amount", label: "Amount" },
+];
+
+export function normalizeMergeFieldType(raw: unknown): MergeFieldType {
+  return MERGE_FIELD_TYPES.some((t) => t.id === raw) ? (raw as MergeFieldType) : "text";
+}
+
+/** Field values by field name, as typed in; every occurrence of a field shows the same value. */
+export type MergeFieldValues = Record<string, string>;
+
+export const DEFAULT_MERGE_FIELD_VALUES: MergeFieldValues = {};
+
+export function normalizeMergeFieldValues(raw: unknown): MergeFieldValues {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return DEFAULT_MERGE_FIELD_VALUES;
+  const values: MergeFieldValues = {};
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value === "string" && value !== "") values[name] = value;
+  }
+  return values;
+}
+
+export function normalizeMergeFieldName(raw: unknown): string {
+  return typeof raw === "string" ? raw.trim().replace(/\s+/g, " ").slice(0, 100) : "";
+}
+
+/** Column of a merge data file that names each generated document rather than filling a field. */
+export const DOCUMENT_NAME_COLUMN = "Document name";
+
+export type MergeField = { name: string; type: MergeFieldType };
+
+export type MergeFieldOccurrence = MergeField & { pos: number };
+
+/** Every merge field node in the doc, in document order. */
+export function collectMergeFieldOccurrences(doc: ProseMirrorNode): MergeFieldOccurrence[] {
+  const occurrences: MergeFieldOccurrence[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== MERGE_FIELD_NODE) return;
+    const name = normalizeMergeFieldName(node.attrs.name);
+    if (name) occurrences.push({ name, type: normalizeMergeFieldType(node.attrs.type), pos });
+  });
+  return occurrences;
+}
+
+/** The doc's fields, once each in order of first use; the first occurrence sets the type. */
+export function collectMergeFields(doc: ProseMirrorNode): MergeField[] {
+  const fields = new Map<string, MergeField>();
+  for (const { name, type } of collectMergeFieldOccurrences(doc)) {
+    if (!fields.has(name)) fields.set(name, { name, type });
+  }
+  return [...fields.values()];
+}
+
+/** Names of the fields used in stored editor JSON, for filling documents without a schema. */
+export function mergeFieldNamesInJson(content: JSONContent): Set<string> {
+  const names = new Set<string>();
+  const visit = (node: JSONContent) => {
+    if (node.type === MERGE_FIELD_NODE) {
+      const name = normalizeMergeFieldName(node.attrs?.name);
+      if (name) names.add(name);
+    }
+    node.content?.forEach(visit);
+  };
+  visit(content);
+  return names;
+}
+
+const amountFormat = new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * A value as printed. Dates given as YYYY-MM-DD print long ("March 4, 2025") and
+ * amounts with grouping and two decimals; anything else prints as typed.
+ */
+export function formatMergeFieldValue(type: MergeFieldType, value: string): string {
+  const trimmed = value.trim();
+  if (type === "date") {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+    if (match) return formatLongDate(new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  }
+  if (type === "amount") {
+    const amount = Number(trimmed.replace(/,/g, ""));
+    if (trimmed && Number.isFinite(amount)) return amountFormat.format(amount);
+  }
+  return value;
+}
+
+/** What a field shows: its formatted value, or its bracketed name while it has none. */
+export function mergeFieldText(field: MergeField, values: MergeFieldValues): string {
+  const value = values[field.name];
+  return value ? formatMergeFieldValue(field.type, value) : `[${field.name}]`;
+}
+
+/** Template content with the fields of `row` filled in; other columns are left out. */
+export function fillTemplateContent(content: JSONContent, row: MergeFieldValues): JSONContent {
+  const names = mergeFieldNamesInJson(content);
+  const values = normalizeMergeFieldValues(Object.fromEntries(Object.entries(row).filter(([name]) => names.has(name))));
+  return { ...content, attrs: { ...content.attrs, mergeFieldValues: values } };
+}
+
+/** RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function rowFromObject(raw: unknown, index: number): MergeFieldValues {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Entry ${index + 1} is not an object of field values.`);
+  }
+  const row: MergeFieldValues = {};
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      row[normalizeMergeFieldName(name)] = String(value);
+    }
+  }
+  return row;
+}
+
+/**
+ * Rows of field values from a merge data file: a JSON array of objects, or a CSV
+ * file whose header row names the fields. Throws with a readable message otherwise.
+ */
+export function parseMergeData(text: string, fileName: string): MergeFieldValues[] {
+  const json = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  if (json) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("The data file is not valid JSON.");
+    }
+    if (!Array.isArray(data)) throw new Error("A JSON data file must hold an array of objects.");
+    return data.map(rowFromObject);
+  }
+
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header || records.length === 0) throw new Error("A CSV data file needs a header row and at least one row.");
+  const names = header.map(normalizeMergeFieldName);
+  return records.map((record) => {
+    const row: MergeFieldValues = {};
+    names.forEach((name, i) => {
+      if (name) row[name] = record[i] ?? "";
+    });
+    return row;
+  });
+}
@@ -5,6 +5,10 @@ export type PageBreakAnchor =
       element: Element;
       /** Root-local Y coordinate (px) at which the new page starts. */
       pageStartY: number;
+      /** Space (px) between the end of the content kept on the page and the end of the page. */
+      fillPx: number;
+      /** Footnotes shown at the bottom of the page that ends here, in order. */
+      footnoteIds: string[];
     }
   | {
       /** Break starts at the next page; split happens inside a text node. */
@@ -14,8 +18,64 @@ export type PageBreakAnchor =
       offset: number;
       /** Root-local Y coordinate (px) at which the new page starts. */
       pageStartY: number;
+      /** Space (px) between the end of the content kept on the page and the end of the page. */
+      fillPx: number;
+      /** Footnotes shown at the bottom of the page that ends here, in order. */
+      footnoteIds: string[];
+    }
+  | {
+      /** Hard page break; the new page starts right after this element. */
+      kind: "forced";
+      element: Element;
+      /** Unused space (px) between the element's bottom and the end of its page. */
+      fillPx: number;
+      /** Root-local Y coordinate (px) at which the new page starts. */
+      pageStartY: number;
+      /** Footnotes shown at the bottom of the page that ends here, in order. */
+      footnoteIds: string[];
+    }
+  | {
+      /** After all content: notes carried past the last block get a page of their own. */
+      kind: "end";
+      /** Unused space (px) between the content's end and the end of its page. */
+      fillPx: number;
+      /** Root-local Y coordinate (px) at which the new page starts. */
+      pageStartY: number;
+      /** Footnotes shown at the bottom of the page that ends here, in order. */
+      footnoteIds: string[];
     };
 
+/** The page after the last break, which has no anchor of its own. */
+export type LastPageLayout = {
+  /** Space (px) between the content's end and the end of the page; 0 unless the page has footnotes. */
+  fillPx: number;
+  footnoteIds: string[];
+};
+
+/**
+ * Layout state where a page's first block is reached. A later run resumes from the last
+ * checkpoint ahead of an edit instead of starting over, and stops at the first one that
+ * matches the previous run again.
+ */
+export type PageCheckpoint = {
+  /** Breaks placed before the page. */
+  breakCount: number;
+  /** The block laid out next. */
+  block: Element;
+  /** Root-local top of `block` (px) when measured. */
+  blockTop: number;
+  /** Last block the layout so far was measured from; changes after it leave this state valid. */
+  settledThrough: Element;
+  /** The block that opened the page (a split block carried over), which keep rules never move. */
+  pageStartBlock: Element | null;
+  /** Where `block`'s lines on this page start, when it was split at the page before. */
+  continuedFromY: number | null;
+  pageEnd: number;
+  contentBottom: number;
+  pageFootnoteIds: string[];
+  carriedFootnoteIds: string[];
+};
+
 export type PaginationResult = {
   /** The content-area height for a page (px). For US Letter with 1" margins at 96DPI, this is 864. */
   pageHeightPx: number;
@@ -29,8 +89,25 @@ export type PaginationResult = {
   pageStridePx: number;
   /** Page breakpoints (start of page 2, page 3, ...) in document order. */
   breaks: PageBreakAnchor[];
+  lastPage: LastPageLayout;
   /** Measured rendered height of the root content (px). */
   contentHeightPx: number;
+  /** Where each page's layout can be resumed from, in document order. */
+  checkpoints: PageCheckpoint[];
+  /** Rendered width of the root (px); a new width rewraps every line. */
+  rootWidthPx: number;
+  /** Measured footnote heights (px) by id. */
+  footnoteHeights: Map<string, number>;
+};
+
+/** First and last nodes, in document order, changed in the root since a run. */
+export type ChangedRange = { from: Node; to: Node };
+
+/** A previous run to build on, and what has changed in the DOM since it was measured. */
+export type PaginationUpdate = {
+  previous: PaginationResult;
+  /** Everything outside this range is assumed to lay out exactly as `previous` measured it. */
+  changed: ChangedRange;
 };
 
 export type PaginateOptions = {
@@ -46,6 +123,45 @@ export type PaginateOptions = {
    * Keep this narrow for performance.
    */
   blockSelector?: string;
+  /** Selector for hard page break elements. Content after one always starts a new page. */
+  forcedBreakSelector?: string;
+  /** Elements (and their descendants) that are never pagination units, e.g. pagination widgets. */
+  ignoreSelector?: string;
+  /**
+   * The spacers an earlier run put between pages. They are measured out of the layout,
+   * so where they are does not move this run's breaks. Default: `Pagination`'s spacers.
+   */
+  spacerSelector?: string;
+  /** Minimum lines of a split block left at the bottom of a page. Default: 2. */
+  orphanLines?: number;
+  /** Minimum lines of a split block carried to the top of the next page. Default: 2. */
+  widowLines?: number;
+  /**
+   * Blocks kept on the same page as the first lines of the block that follows them.
+   * Default: headings and table header rows. Pass "" to disable.
+   */
+  keepWithNextSelector?: string;
+  /**
+   * Blocks that the block before them is kept on a page with, as if that block matched
+   * `keepWithNextSelector`. Default: signature blocks. Pass "" to disable.
+   */
+  keepWithPreviousSelector?: string;
+  /**
+   * Blocks that are never split unless taller than a page; they move to the next page
+   * whole instead. Default: headings, blockquotes, table rows, tables of contents and
+   * signature blocks. Pass "" to disable.
+   */
+  keepTogetherSelector?: string;
+  /** Footnote reference marks; `data-footnote-ref` holds the footnote id. */
+  footnoteRefSelector?: string;
+  /**
+   * Hidden container with one `[data-footnote-id]` element per footnote, laid out like
+   * the footnote area. A reference reserves its footnote's measured height at the
+   * bottom of the page it lands on; references without a measured footnote reserve nothing.
+   */
+  footnoteMeasureSelector?: string;
+  /** Height (px) of the rule above a page's footnotes, reserved once per page that has any. */
+  footnoteSeparatorPx?: number;
   /**
    * Safety valve for binary search splitting inside a text node.
    * 18 steps covers up to ~260k chars (2^18) which is plenty per block.
@@ -53,7 +169,19 @@ export type PaginateOptions = {
   maxBinarySearchSteps?: number;
 };
 
-const DEFAULT_BLOCK_SELECTOR = "p,h1,h2,h3,li,blockquote,pre";
+const DEFAULT_BLOCK_SELECTOR = "p,h1,h2,h3,li,blockquote,pre,tr,.pm-toc,.pm-signature-block";
+// Pagination's own widgets (spacers, repeated table headers) and the footnote measuring
+// box are never pagination units.
+const DEFAULT_IGNORE_SELECTOR = ".pm-page-break,.pm-repeated-table-header,.pm-footnote-measure";
+const DEFAULT_SPACER_SELECTOR = ".pm-page-top-spacer,.pm-page-break,.pm-page-bottom-spacer";
+const DEFAULT_FORCED_BREAK_SELECTOR = "[data-page-break]";
+const DEFAULT_KEEP_WITH_NEXT_SELECTOR = "h1,h2,h3,tr:has(> th)";
+const DEFAULT_KEEP_WITH_PREVIOUS_SELECTOR = ".pm-signature-block";
+const DEFAULT_KEEP_TOGETHER_SELECTOR = "h1,h2,h3,blockquote,tr,.pm-toc,.pm-signature-block";
+const DEFAULT_FOOTNOTE_REF_SELECTOR = "[data-footnote-ref]";
+const DEFAULT_FOOTNOTE_MEASURE_SELECTOR = ".pm-footnote-measure";
+// Matches the top padding of `.pm-footnotes` in globals.css.
+const DEFAULT_FOOTNOTE_SEPARATOR_PX = 12;
 
 function getRootLocalY(root: HTMLElement, viewportY: number): number {
   // `getBoundingClientRect()` returns viewport coordinates.
@@ -73,12 +201,33 @@ function isVisibleElement(el: Element): boolean {
   return rect.width > 0 && rect.height > 0;
 }
 
-function* walkTextNodes(root: Node): Generator<Text> {
+/** Whether `b` comes after `a` in the document, or inside it; false across documents. */
+function startsBefore(a: Node, b: Node): boolean {
+  const position = a.compareDocumentPosition(b);
+  return (position & Node.DOCUMENT_POSITION_DISCONNECTED) === 0 && (position & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+}
+
+/** Whether `a` ends before `b` starts: `b` comes after `a` and is not inside it. */
+function endsBefore(a: Node, b: Node): boolean {
+  return startsBefore(a, b) && (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_CONTAINED_BY) === 0;
+}
+
+/** Widens `range` to cover `from`–`to`. Endpoints since removed from the document are dropped. */
+export function widenChangedRange(range: ChangedRange | null, from: Node, to: Node): ChangedRange {
+  if (!range) return { from, to };
+  const keepFrom = range.from.isConnected && !startsBefore(from, range.from);
+  const keepTo = range.to.isConnected && (range.to.contains(to) || endsBefore(to, range.to));
+  return { from: keepFrom ? range.from : from, to: keepTo ? range.to : to };
+}
+
+/** The text nodes under `root`, leaving out those inside elements matching `skipSelector`. */
+function* walkTextNodes(root: Node, skipSelector = ""): Generator<Text> {
   const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
     acceptNode(node) {
       if (!(node instanceof Text)) return NodeFilter.FILTER_REJECT;
       // Whitespace-only nodes can create unstable rect measurements.
       if (!node.data || node.data.trim().length === 0) return NodeFilter.FILTER_REJECT;
+      if (skipSelector && node.parentElement?.closest(skipSelector)) return NodeFilter.FILTER_REJECT;
       return NodeFilter.FILTER_ACCEPT;
     },
   });
@@ -165,11 +314,55 @@ function normalizeCaretToTextPosition(block: Element, caret: { node: Node; offse
   return null;
 }
 
+/**
+ * Maps root-local Y between the layout as measured and the layout this run produces.
+ * The spacers the last run left are taken out, and the spacers this run has placed so
+ * far (`shiftPx`, which grows with each break) are put in, so where the last run broke
+ * the pages does not move this run's breaks.
+ */
+type LayoutFrame = {
+  shiftPx: number;
+  toLayout: (measuredY: number) => number;
+  toMeasured: (layoutY: number) => number;
+};
+
+function createLayoutFrame(spacers: LineBox[], shiftPx: number): LayoutFrame {
+  const sorted = [...spacers].sort((a, b) => a.top - b.top);
+  // Height of the spacers up to and including each one.
+  const heightsThrough: number[] = [];
+  let total = 0;
+  for (const s of sorted) heightsThrough.push((total += s.bottom - s.top));
+  const heightAbove = (y: number) => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid].bottom <= y) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo === 0 ? 0 : heightsThrough[lo - 1];
+  };
+  const frame: LayoutFrame = {
+    shiftPx,
+    toLayout: (y) => y - heightAbove(y) + frame.shiftPx,
+    toMeasured: (y) => {
+      let measured = y - frame.shiftPx;
+      for (const s of sorted) {
+        if (s.top > measured) break;
+        measured += s.bottom - s.top;
+      }
+      return measured;
+    },
+  };
+  return frame;
+}
+
 function measureBlockToTextOffsetBottomY(
   root: HTMLElement,
   block: Element,
   textNode: Text,
   offset: number,
+  frame: LayoutFrame,
 ): number {
   // Measure the rendered bottom Y of the block content from the *start of the block*
   // up to (textNode, offset). This correctly accounts for multiple text nodes,
@@ -181,7 +374,7 @@ function measureBlockToTextOffsetBottomY(
   const rects = r.getClientRects();
   if (rects.length === 0) return Number.NEGATIVE_INFINITY;
   const last = rects[rects.length - 1];
-  return getRootLocalY(root, last.bottom);
+  return frame.toLayout(getRootLocalY(root, last.bottom));
 }
 
 function binarySearchSplitOffset(opts: {
@@ -190,11 +383,12 @@ function binarySearchSplitOffset(opts: {
   textNode: Text;
   boundaryY: number;
   maxSteps: number;
+  frame: LayoutFrame;
 }): number {
-  const { root, block, textNode, boundaryY, maxSteps } = opts;
+  const { root, block, textNode, boundaryY, maxSteps, frame } = opts;
 
   // If even the first character overflows, return 0 (caller should break before block).
-  const firstCharBottom = measureBlockToTextOffsetBottomY(root, block, textNode, 1);
+  const firstCharBottom = measureBlockToTextOffsetBottomY(root, block, textNode, 1, frame);
   if (firstCharBottom > boundaryY) return 0;
 
   let lo = 0;
@@ -205,7 +399,7 @@ function binarySearchSplitOffset(opts: {
   while (lo <= hi && steps < maxSteps) {
     steps++;
     const mid = (lo + hi) >> 1;
-    const bottom = measureBlockToTextOffsetBottomY(root, block, textNode, mid);
+    const bottom = measureBlockToTextOffsetBottomY(root, block, textNode, mid, frame);
 
     if (bottom <= boundaryY) {
       best = mid;
@@ -225,7 +419,8 @@ function binarySearchSplitOffset(opts: {
     refined--;
     back++;
   }
-  if (refined <= 0) refined = best;
+  // A word longer than the backtrack window splits where the line ends.
+  if (refined <= 0 || !/\s/.test(data.charAt(refined - 1))) refined = best;
 
   return refined;
 }
@@ -235,21 +430,25 @@ function findSplitPointWithinBlock(opts: {
   block: Element;
   boundaryY: number;
   maxBinarySearchSteps: number;
+  /** `boundaryY` and the measurements it is compared with are in this frame's layout. */
+  frame: LayoutFrame;
+  /** Widgets inside the block, like a spacer's footnotes, whose text is not the block's. */
+  ignoreSelector: string;
 }): { textNode: Text; offset: number } | null {
-  const { root, block, boundaryY, maxBinarySearchSteps } = opts;
+  const { root, block, boundaryY, maxBinarySearchSteps, frame, ignoreSelector } = opts;
 
   // Fast path: use caret APIs to get a DOM position at the boundary without scanning.
   // This tends to be much faster for complex blocks (multiple inline nodes).
   const rootRect = root.getBoundingClientRect();
   const blockRect = block.getBoundingClientRect();
-  const viewportY = rootRect.top - root.scrollTop + boundaryY - 1;
+  const viewportY = rootRect.top - root.scrollTop + frame.toMeasured(boundaryY) - 1;
   const viewportX = Math.max(blockRect.left + 2, Math.min(blockRect.right - 2, rootRect.right - 2));
 
   const caret = caretPositionFromPoint(viewportX, viewportY);
   if (caret) {
     const normalized = normalizeCaretToTextPosition(block, caret);
     if (normalized) {
-      const bottom = measureBlockToTextOffsetBottomY(root, block, normalized.textNode, normalized.offset);
+      const bottom = measureBlockToTextOffsetBottomY(root, block, normalized.textNode, normalized.offset, frame);
       // Make sure the proposed split actually fits above the boundary.
       if (bottom <= boundaryY && normalized.offset > 0) {
         return normalized;
@@ -261,8 +460,8 @@ function findSplitPointWithinBlock(opts: {
   // This is more expensive but only runs when a block crosses a boundary.
   let previousTextNode: Text | null = null;
 
-  for (const textNode of walkTextNodes(block)) {
-    const endBottom = measureBlockToTextOffsetBottomY(root, block, textNode, textNode.data.length);
+  for (const textNode of walkTextNodes(block, ignoreSelector)) {
+    const endBottom = measureBlockToTextOffsetBottomY(root, block, textNode, textNode.data.length, frame);
     if (endBottom <= boundaryY) {
       previousTextNode = textNode;
       continue;
@@ -275,6 +474,7 @@ function findSplitPointWithinBlock(opts: {
       textNode,
       boundaryY,
       maxSteps: maxBinarySearchSteps,
+      frame,
     });
 
     if (offset <= 0) {
@@ -291,7 +491,132 @@ function findSplitPointWithinBlock(opts: {
   return null;
 }
 
-export function computePageBreaks(root: HTMLElement, options: PaginateOptions): PaginationResult {
+type LineBox = { top: number; bottom: number };
+
+function getLineBoxes(root: HTMLElement, block: Element, frame: LayoutFrame, ignoreSelector: string): LineBox[] {
+  // Collect per-line fragments from text nodes only; element rects of nested blocks
+  // would span several lines and merge them. A spacer's footnotes are not lines of the block.
+  const rects: LineBox[] = [];
+  const r = document.createRange();
+  for (const textNode of walkTextNodes(block, ignoreSelector)) {
+    r.selectNodeContents(textNode);
+    for (const rect of Array.from(r.getClientRects())) {
+      if (rect.height <= 0) continue;
+      rects.push({
+        top: frame.toLayout(getRootLocalY(root, rect.top)),
+        bottom: frame.toLayout(getRootLocalY(root, rect.bottom)),
+      });
+    }
+  }
+  rects.sort((a, b) => a.top - b.top);
+
+  // Rects that overlap vertically belong to the same line box.
+  const lines: LineBox[] = [];
+  for (const rect of rects) {
+    const last = lines[lines.length - 1];
+    if (last && rect.top < last.bottom - 1) {
+      last.bottom = Math.max(last.bottom, rect.bottom);
+      continue;
+    }
+    lines.push({ ...rect });
+  }
+  return lines;
+}
+
+/**
+ * Returns the Y boundary to split a block at so that the widow/orphan minimums hold,
+ * or null if no split satisfies them (the block should move to the next page whole).
+ */
+function resolveLineSplitBoundary(
+  lines: LineBox[],
+  boundaryY: number,
+  orphanLines: number,
+  widowLines: number,
+): number | null {
+  const fitting = lines.filter((l) => l.bottom <= boundaryY).length;
+  const keep = Math.min(fitting, lines.length - widowLines);
+  if (keep < orphanLines) return null;
+  // Nudge past the line bottom so sub-pixel rounding doesn't drop the last kept line.
+  return Math.min(boundaryY, lines[keep - 1].bottom + 1);
+}
+
+type FootnoteRef = { id: string; top: number; bottom: number; heightPx: number };
+
+function measureFootnotes(root: HTMLElement, measureSelector: string): Map<string, number> {
+  const heights = new Map<string, number>();
+  if (!measureSelector) return heights;
+  for (const el of Array.from(root.querySelectorAll(`${measureSelector} [data-footnote-id]`))) {
+    const id = el.getAttribute("data-footnote-id");
+    if (id && !heights.has(id)) heights.set(id, el.getBoundingClientRect().height);
+  }
+  return heights;
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+type LayoutInputs = Pick<
+  PaginationResult,
+  "pageHeightPx" | "topMarginPx" | "bottomMarginPx" | "pageGapPx" | "rootWidthPx" | "footnoteHeights"
+>;
+
+/** Whether a previous run laid out the same pages, at the same width, with the same footnotes. */
+function canBuildOn(previous: PaginationResult, inputs: LayoutInputs): boolean {
+  if (
+    previous.pageHeightPx !== inputs.pageHeightPx ||
+    previous.topMarginPx !== inputs.topMarginPx ||
+    previous.bottomMarginPx !== inputs.bottomMarginPx ||
+    previous.pageGapPx !== inputs.pageGapPx ||
+    previous.rootWidthPx !== inputs.rootWidthPx ||
+    previous.footnoteHeights.size !== inputs.footnoteHeights.size
+  ) {
+    return false;
+  }
+  for (const [id, heightPx] of inputs.footnoteHeights) {
+    if (previous.footnoteHeights.get(id) !== heightPx) return false;
+  }
+  return true;
+}
+
+/** The last checkpoint measured entirely from content ahead of the changed range. */
+function findResumeCheckpoint({ previous, changed }: PaginationUpdate): PageCheckpoint | null {
+  for (let k = previous.checkpoints.length - 1; k >= 0; k--) {
+    const checkpoint = previous.checkpoints[k];
+    const { block, settledThrough, pageStartBlock } = checkpoint;
+    if (!block.isConnected || !settledThrough.isConnected || (pageStartBlock && !pageStartBlock.isConnected)) continue;
+    const startsAhead = block === changed.from || startsBefore(block, changed.from);
+    if (startsAhead && endsBefore(settledThrough, changed.from)) return checkpoint;
+  }
+  return null;
+}
+
+function sameCheckpoint(a: PageCheckpoint, b: PageCheckpoint): boolean {
+  return (
+    a.breakCount === b.breakCount &&
+    a.block === b.block &&
+    Math.abs(a.blockTop - b.blockTop) < 0.5 &&
+    a.pageStartBlock === b.pageStartBlock &&
+    (a.continuedFromY === null) === (b.continuedFromY === null) &&
+    Math.abs((a.continuedFromY ?? 0) - (b.continuedFromY ?? 0)) < 0.5 &&
+    a.pageEnd === b.pageEnd &&
+    Math.abs(a.contentBottom - b.contentBottom) < 0.5 &&
+    sameIds(a.pageFootnoteIds, b.pageFootnoteIds) &&
+    sameIds(a.carriedFootnoteIds, b.carriedFootnoteIds)
+  );
+}
+
+/**
+ * Finds where pages 2, 3, ... start. With `update`, the run resumes at the last page
+ * ahead of the changed range and, once a page past it starts exactly as it did in the
+ * previous run, reuses the previous run's breaks from there on, so an edit costs about
+ * the pages it actually moves rather than the whole document.
+ */
+export function computePageBreaks(
+  root: HTMLElement,
+  options: PaginateOptions,
+  update?: PaginationUpdate,
+): PaginationResult {
   const pageHeightPx = options.pageHeightPx;
   const topMarginPx = options.topMarginPx ?? 0;
   const bottomMarginPx = options.bottomMarginPx ?? 0;
@@ -299,63 +624,423 @@ export function computePageBreaks(root: HTMLElement, options: PaginateOptions):
   const pageStridePx = pageHeightPx + topMarginPx + bottomMarginPx + pageGapPx;
 
   const blockSelector = options.blockSelector ?? DEFAULT_BLOCK_SELECTOR;
+  const forcedBreakSelector = options.forcedBreakSelector ?? DEFAULT_FORCED_BREAK_SELECTOR;
+  const ignoreSelector = options.ignoreSelector ?? DEFAULT_IGNORE_SELECTOR;
   const maxBinarySearchSteps = options.maxBinarySearchSteps ?? 18;
+  const orphanLines = Math.max(1, options.orphanLines ?? 2);
+  const widowLines = Math.max(1, options.widowLines ?? 2);
+  const keepWithNextSelector = options.keepWithNextSelector ?? DEFAULT_KEEP_WITH_NEXT_SELECTOR;
+  const keepWithPreviousSelector = options.keepWithPreviousSelector ?? DEFAULT_KEEP_WITH_PREVIOUS_SELECTOR;
+  const keepTogetherSelector = options.keepTogetherSelector ?? DEFAULT_KEEP_TOGETHER_SELECTOR;
+  const footnoteRefSelector = options.footnoteRefSelector ?? DEFAULT_FOOTNOTE_REF_SELECTOR;
+  const footnoteSeparatorPx = options.footnoteSeparatorPx ?? DEFAULT_FOOTNOTE_SEPARATOR_PX;
+  const footnoteHeights = measureFootnotes(root, options.footnoteMeasureSelector ?? DEFAULT_FOOTNOTE_MEASURE_SELECTOR);
 
   // The total rendered content height; used to derive the number of pages.
   // Note: scrollHeight includes overflow content even if root itself doesn't scroll.
   const contentHeightPx = root.scrollHeight;
+  const rootWidthPx = root.clientWidth;
+  const inputs: LayoutInputs = { pageHeightPx, topMarginPx, bottomMarginPx, pageGapPx, rootWidthPx, footnoteHeights };
+  const previous = update && canBuildOn(update.previous, inputs) ? update.previous : null;
 
-  const blocks = Array.from(root.querySelectorAll(blockSelector)).filter(isVisibleElement);
+  const blocks = Array.from(root.querySelectorAll(`${blockSelector},${forcedBreakSelector}`));
+  // Checking visibility takes a layout read, so it only happens for blocks the run reaches.
+  const units: (boolean | undefined)[] = [];
+  const isUnit = (index: number) =>
+    (units[index] ??= isVisibleElement(blocks[index]) && !(ignoreSelector && blocks[index].closest(ignoreSelector)));
+  const nextUnit = (index: number) => {
+    while (index < blocks.length && !isUnit(index)) index++;
+    return index;
+  };
 
   const breaks: PageBreakAnchor[] = [];
   // Content starts after the top margin spacer.
   // We paginate within the content-area height; the visible margins and inter-page
   // gap are added via decoration widgets.
-  let currentPageBottom = topMarginPx + pageHeightPx;
+  let pageEnd = topMarginPx + pageHeightPx;
+  // Each break's spacer spans the margins and gap between pages, plus its fill.
+  const betweenPagesPx = pageStridePx - pageHeightPx;
+  const spacerSelector = options.spacerSelector ?? DEFAULT_SPACER_SELECTOR;
+  const spacers = spacerSelector ? Array.from(root.querySelectorAll(spacerSelector)) : [];
+  const frame = createLayoutFrame(
+    spacers.map((el) => getElementTopBottomY(root, el)).filter((box) => box.bottom > box.top),
+    topMarginPx,
+  );
+  const boxOf = (el: Element) => {
+    const { top, bottom } = getElementTopBottomY(root, el);
+    return { top: frame.toLayout(top), bottom: frame.toLayout(bottom) };
+  };
+  // Where content must end on the current page: the page end, less its footnotes.
+  let currentPageBottom = pageEnd;
+  // Footnotes referenced on the current page and the height they take up.
+  let pageFootnoteIds: string[] = [];
+  let pageFootnotesPx = 0;
+  // Footnotes that did not fit under their reference; they open the next page's area.
+  let carriedFootnotes: FootnoteRef[] = [];
+  const placedFootnotes = new Set<string>();
+  // Bottom of the last block placed, for the last page's fill.
+  let contentBottom = topMarginPx;
+  // Index of the block that opens the current page. Keep rules never push that block
+  // forward again, since doing so would only leave a blank page behind.
+  let pageStartIndex = 0;
+  // A block moved whole to the next page; its nested blocks need no further handling.
+  let movedBlock: Element | null = null;
+  // A block split at a page end, and where its lines on the next page start.
+  let continued: { block: Element; fromY: number } | null = null;
+  const checkpoints: PageCheckpoint[] = [];
+  let checkpointedBreaks = 0;
+  // Highest block index measured so far, including look-ahead past the current block.
+  let lastReadIndex = -1;
+  // The previous run, once this one has caught up with it.
+  let caughtUp: PaginationResult | null = null;
+
+  const footnoteRefsIn = (block: Element): FootnoteRef[] => {
+    if (footnoteHeights.size === 0 || !footnoteRefSelector) return [];
+    const refs: FootnoteRef[] = [];
+    for (const el of Array.from(block.querySelectorAll(footnoteRefSelector))) {
+      const id = el.getAttribute("data-footnote-ref") ?? "";
+      const heightPx = footnoteHeights.get(id) ?? 0;
+      if (heightPx <= 0 || placedFootnotes.has(id)) continue;
+      refs.push({ id, ...boxOf(el), heightPx });
+    }
+    return refs;
+  };
 
-  for (let i = 0; i < blocks.length; i++) {
+  const footnoteAreaPx = (ref: FootnoteRef, placedCount: number) =>
+    ref.heightPx + (placedCount === 0 ? footnoteSeparatorPx : 0);
+
+  // The leading refs above `endY` whose notes fit on this page along with their
+  // reference, and the area height they add. Once one note is carried over, every
+  // later note follows it so the numbering stays in order.
+  const fittingFootnotes = (refs: FootnoteRef[], endY: number) => {
+    const fitting: FootnoteRef[] = [];
+    let extraPx = 0;
+    if (carriedFootnotes.length > 0) return { fitting, extraPx };
+    for (const ref of refs) {
+      if (ref.top >= endY) break;
+      const areaPx = footnoteAreaPx(ref, pageFootnoteIds.length + fitting.length);
+      if (pageEnd - pageFootnotesPx - extraPx - areaPx < ref.bottom) break;
+      extraPx += areaPx;
+      fitting.push(ref);
+    }
+    return { fitting, extraPx };
+  };
+
+  const addPageFootnote = (ref: FootnoteRef) => {
+    pageFootnotesPx += footnoteAreaPx(ref, pageFootnoteIds.length);
+    pageFootnoteIds.push(ref.id);
+    placedFootnotes.add(ref.id);
+    currentPageBottom = pageEnd - pageFootnotesPx;
+  };
+
+  // Places the notes of refs that stay on this page; notes that do not fit carry over.
+  const placeFootnotes = (refs: FootnoteRef[]) => {
+    const pending = refs.filter((r) => !placedFootnotes.has(r.id));
+    const { fitting } = fittingFootnotes(pending, Number.POSITIVE_INFINITY);
+    fitting.forEach(addPageFootnote);
+    for (const ref of pending.slice(fitting.length)) {
+      carriedFootnotes.push(ref);
+      placedFootnotes.add(ref.id);
+    }
+  };
+
+  // A break's spacer also spans what the page leaves unused (the rest of its last line,
+  // a block moved on by a keep rule, the footnote area), so the next page starts at its
+  // true top.
+  const fillBelow = (endY: number) => Math.max(0, pageEnd - endY);
+
+  // Where the content above the block at `index` ends on this page: the lowest bottom of
+  // the earlier blocks on the page, leaving out the blocks that contain it. Measured from
+  // the blocks rather than the block's own top, so a spacer already in place before it
+  // does not change the result.
+  const contentEndAbove = (index: number): number => {
+    let endY = pageEnd - pageHeightPx;
+    for (let j = index - 1; j >= pageStartIndex; j--) {
+      if (!isUnit(j) || blocks[j].contains(blocks[index])) continue;
+      endY = Math.max(endY, boxOf(blocks[j]).bottom);
+    }
+    return endY;
+  };
+
+  // Called once a break is placed: its spacer moves everything after it down.
+  const startNextPage = () => {
+    frame.shiftPx += betweenPagesPx + breaks[breaks.length - 1].fillPx;
+    pageEnd += pageStridePx;
+    currentPageBottom = pageEnd;
+    pageFootnoteIds = [];
+    pageFootnotesPx = 0;
+    const carried = carriedFootnotes;
+    carriedFootnotes = [];
+    carried.forEach(addPageFootnote);
+  };
+
+  const breakBefore = (index: number) => {
+    breaks.push({
+      kind: "before-element",
+      element: blocks[index],
+      pageStartY: pageEnd,
+      fillPx: fillBelow(contentEndAbove(index)),
+      footnoteIds: pageFootnoteIds,
+    });
+    startNextPage();
+    pageStartIndex = index;
+  };
+
+  const matches = (el: Element, selector: string) => selector.length > 0 && el.matches(selector);
+
+  // Whether the block at `index` holds more than one block, one below the other.
+  const holdsSeveralBlocks = (index: number): boolean => {
+    const first = nextUnit(index + 1);
+    if (first >= blocks.length || !blocks[index].contains(blocks[first])) return false;
+    let j = first + 1;
+    while (j < blocks.length && (!isUnit(j) || blocks[first].contains(blocks[j]))) j++;
+    lastReadIndex = Math.max(lastReadIndex, Math.min(j, blocks.length - 1));
+    return j < blocks.length && blocks[index].contains(blocks[j]);
+  };
+
+  // Whether the block at `index` stays with what follows it: it is a keep-with-next block,
+  // or the next block outside it is kept with the one before it.
+  const keepsWithNext = (index: number): boolean => {
+    if (matches(blocks[index], keepWithNextSelector)) return true;
+    if (!keepWithPreviousSelector) return false;
+    let j = index + 1;
+    while (j < blocks.length && (!isUnit(j) || blocks[index].contains(blocks[j]))) j++;
+    lastReadIndex = Math.max(lastReadIndex, Math.min(j, blocks.length - 1));
+    return j < blocks.length && matches(blocks[j], keepWithPreviousSelector);
+  };
+
+  // Bottom Y that the content following a keep-with-next block must reach on this page:
+  // its first `orphanLines` lines, or all of it when it cannot be split.
+  const keepWithNextTargetBottom = (index: number): number | null => {
+    let j = index + 1;
+    while (
+      j < blocks.length &&
+      (!isUnit(j) || blocks[index].contains(blocks[j]) || matches(blocks[j], keepWithNextSelector))
+    ) {
+      j++;
+    }
+    lastReadIndex = Math.max(lastReadIndex, Math.min(j, blocks.length - 1));
+    const next = blocks[j];
+    if (!next || next.matches(forcedBreakSelector)) return null;
+
+    const lines = getLineBoxes(root, next, frame, ignoreSelector);
+    if (lines.length === 0 || matches(next, keepTogetherSelector)) return boxOf(next).bottom;
+    return lines[Math.min(orphanLines, lines.length) - 1].bottom;
+  };
+
+  const noteRef = (id: string): FootnoteRef => ({ id, top: 0, bottom: 0, heightPx: footnoteHeights.get(id) ?? 0 });
+
+  let startIndex = 0;
+  const resume = previous && update ? findResumeCheckpoint(update) : null;
+  if (previous && resume) {
+    const resumeIndex = blocks.indexOf(resume.block);
+    const settledIndex = blocks.indexOf(resume.settledThrough);
+    const pageStart = resume.pageStartBlock ? blocks.indexOf(resume.pageStartBlock) : blocks.length;
+    if (resumeIndex >= 0 && pageStart >= 0) {
+      breaks.push(...previous.breaks.slice(0, resume.breakCount));
+      checkpoints.push(...previous.checkpoints.filter((c) => c.breakCount <= resume.breakCount));
+      checkpointedBreaks = resume.breakCount;
+      for (const anchor of breaks) anchor.footnoteIds.forEach((id) => placedFootnotes.add(id));
+      pageEnd = resume.pageEnd;
+      frame.shiftPx = breaks.reduce((shiftPx, anchor) => shiftPx + betweenPagesPx + anchor.fillPx, topMarginPx);
+      currentPageBottom = pageEnd;
+      resume.pageFootnoteIds.map(noteRef).forEach(addPageFootnote);
+      carriedFootnotes = resume.carriedFootnoteIds.map(noteRef);
+      carriedFootnotes.forEach((ref) => placedFootnotes.add(ref.id));
+      contentBottom = resume.contentBottom;
+      if (resume.continuedFromY !== null) continued = { block: resume.block, fromY: resume.continuedFromY };
+      pageStartIndex = pageStart;
+      lastReadIndex = Math.max(settledIndex, resumeIndex - 1);
+      startIndex = resumeIndex;
+    }
+  }
+
+  for (let i = startIndex; i < blocks.length; i++) {
+    if (!isUnit(i)) continue;
     const block = blocks[i];
-    const { top, bottom } = getElementTopBottomY(root, block);
+    if (movedBlock?.contains(block)) continue;
+    const { top, bottom } = boxOf(block);
+    const linesFromY = continued?.block === block ? continued.fromY : Number.NEGATIVE_INFINITY;
 
-    // Fits completely on this page.
-    if (bottom <= currentPageBottom) continue;
+    // First block of a new page: record where the layout stands.
+    if (breaks.length > checkpointedBreaks) {
+      const checkpoint: PageCheckpoint = {
+        breakCount: breaks.length,
+        block,
+        blockTop: top,
+        settledThrough: blocks[Math.max(lastReadIndex, i - 1, 0)],
+        pageStartBlock: blocks[pageStartIndex] ?? null,
+        continuedFromY: Number.isFinite(linesFromY) ? linesFromY : null,
+        pageEnd,
+        contentBottom,
+        pageFootnoteIds: [...pageFootnoteIds],
+        carriedFootnoteIds: carriedFootnotes.map((ref) => ref.id),
+      };
+      checkpoints.push(checkpoint);
+      checkpointedBreaks = breaks.length;
+
+      // Past the change, a page that starts as it did last time lays out as it did last
+      // time, and so does everything after it.
+      const match = previous?.checkpoints.find((c) => c.breakCount === checkpoint.breakCount);
+      if (update && match && sameCheckpoint(match, checkpoint) && endsBefore(update.changed.to, block)) {
+        caughtUp = previous;
+        break;
+      }
+    }
+    lastReadIndex = Math.max(lastReadIndex, i);
 
-    // If the block starts after the boundary, we can break before it and advance pages.
-    while (top >= currentPageBottom) {
+    if (block.matches(forcedBreakSelector)) {
+      // A hard break that itself spills over still belongs to the next page.
+      if (top >= currentPageBottom && i !== pageStartIndex) {
+        breakBefore(i);
+        i--;
+        continue;
+      }
       breaks.push({
-        kind: "before-element",
+        kind: "forced",
         element: block,
-        pageStartY: currentPageBottom,
+        fillPx: Math.max(0, pageEnd - bottom),
+        pageStartY: pageEnd,
+        footnoteIds: pageFootnoteIds,
       });
-      currentPageBottom += pageStridePx;
+      startNextPage();
+      pageStartIndex = nextUnit(i + 1);
+      continue;
+    }
+
+    contentBottom = bottom;
+    const refs = footnoteRefsIn(block);
+    // The page's content limit once the notes of the block's references above it are
+    // placed too. Notes whose reference ends up below a split go to the next page.
+    const limit = () => currentPageBottom - fittingFootnotes(refs, currentPageBottom).extraPx;
+
+    // Keep with next: a heading that fits, but whose following content would start on
+    // the next page, moves to the next page with it.
+    if (bottom <= limit() && i !== pageStartIndex && keepsWithNext(i)) {
+      const targetBottom = keepWithNextTargetBottom(i);
+      if (targetBottom !== null && targetBottom > limit()) {
+        breakBefore(i);
+        placeFootnotes(refs);
+        movedBlock = block;
+        continue;
+      }
+    }
+
+    // Fits completely on this page.
+    if (bottom <= limit()) {
+      placeFootnotes(refs);
+      continue;
+    }
+
+    // If the block starts after the boundary, break before it and place it again on the
+    // next page, where the break's spacer has moved it.
+    if (top >= limit() && i !== pageStartIndex) {
+      breakBefore(i);
+      i--;
+      continue;
     }
 
-    // Now: top < currentPageBottom < bottom => block crosses boundary.
+    // A list item holding a nested list breaks between its blocks, each placed on its own,
+    // rather than at the end of the text above them.
+    if (holdsSeveralBlocks(i) && !matches(block, keepTogetherSelector)) continue;
+
+    // Now: top < limit < bottom => block crosses boundary.
+    const canMoveWhole = i !== pageStartIndex;
+    const boundary = limit();
+
+    // Keep lines together: move the whole block if it fits on a page of its own.
+    if (canMoveWhole && bottom - top <= pageHeightPx && matches(block, keepTogetherSelector)) {
+      breakBefore(i);
+      placeFootnotes(refs);
+      movedBlock = block;
+      continue;
+    }
+
+    // Widow/orphan control: pull the split up so at least `orphanLines` stay on this
+    // page and at least `widowLines` carry over; otherwise move the block whole. A split
+    // block's lines left on the page before sit above this page's top.
+    const lines = getLineBoxes(root, block, frame, ignoreSelector).filter((line) => (line.top + line.bottom) / 2 >= linesFromY);
+    const boundaryY = resolveLineSplitBoundary(lines, boundary, orphanLines, widowLines);
+    if (boundaryY === null && canMoveWhole) {
+      breakBefore(i);
+      placeFootnotes(refs);
+      movedBlock = block;
+      continue;
+    }
+
+    const splitY = boundaryY ?? boundary;
     const split = findSplitPointWithinBlock({
       root,
       block,
-      boundaryY: currentPageBottom,
+      boundaryY: splitY,
       maxBinarySearchSteps,
+      frame,
+      ignoreSelector,
     });
+    const previousBreak = breaks[breaks.length - 1];
+    const repeatsSplit =
+      !!split &&
+      previousBreak?.kind === "text-offset" &&
+      previousBreak.textNode === split.textNode &&
+      previousBreak.offset === split.offset;
 
-    if (split) {
+    if (split && !repeatsSplit) {
+      placeFootnotes(refs.filter((r) => r.top < splitY));
+      const keptBottom = measureBlockToTextOffsetBottomY(root, block, split.textNode, split.offset, frame);
+      const endY = Number.isFinite(keptBottom) ? Math.min(keptBottom, splitY) : splitY;
       breaks.push({
         kind: "text-offset",
         textNode: split.textNode,
         offset: split.offset,
-        pageStartY: currentPageBottom,
+        pageStartY: pageEnd,
+        fillPx: fillBelow(endY),
+        footnoteIds: pageFootnoteIds,
       });
-      currentPageBottom += pageStridePx;
+      startNextPage();
+      placeFootnotes(refs);
+      pageStartIndex = i;
+      // The rest of the block may run past the next page too.
+      continued = { block, fromY: pageEnd - pageHeightPx };
+      i--;
+      continue;
+    }
+    if (repeatsSplit) {
+      // Nothing more fits on this page: the line overflows it, as an unbreakable one does.
+      placeFootnotes(refs);
       continue;
     }
 
     // If we cannot split this block (e.g., no text nodes), move it to the next page.
+    breakBefore(i);
+    placeFootnotes(refs);
+  }
+
+  if (caughtUp) {
+    const breakCount = breaks.length;
+    return {
+      pageHeightPx,
+      topMarginPx,
+      bottomMarginPx,
+      pageGapPx,
+      pageStridePx,
+      breaks: breaks.concat(caughtUp.breaks.slice(breakCount)),
+      lastPage: caughtUp.lastPage,
+      contentHeightPx,
+      checkpoints: checkpoints.concat(caughtUp.checkpoints.filter((c) => c.breakCount > breakCount)),
+      rootWidthPx,
+      footnoteHeights,
+    };
+  }
+
+  if (carriedFootnotes.length > 0) {
     breaks.push({
-      kind: "before-element",
-      element: block,
-      pageStartY: currentPageBottom,
+      kind: "end",
+      fillPx: Math.max(0, pageEnd - contentBottom),
+      pageStartY: pageEnd,
+      footnoteIds: pageFootnoteIds,
     });
-    currentPageBottom += pageStridePx;
+    startNextPage();
+    contentBottom = pageEnd - pageHeightPx;
   }
 
   return {
@@ -365,7 +1050,11 @@ export function computePageBreaks(root: HTMLElement, options: PaginateOptions):
     pageGapPx,
     pageStridePx,
     breaks,
+    // The last page only needs filling to pin its footnotes to the bottom.
+    lastPage: { fillPx: pageFootnoteIds.length > 0 ? fillBelow(contentBottom) : 0, footnoteIds: pageFootnoteIds },
     contentHeightPx,
+    checkpoints,
+    rootWidthPx,
+    footnoteHeights,
   };
 }
-
@@ -0,0 +1,180 @@
+export type PaperSizeId = "letter" | "legal" | "a4" | "custom";
+
+export type PageOrientation = "portrait" | "landscape";
+
+export type LengthUnit = "in" | "mm";
+
+export type PageMargins = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+export type PageSetup = {
+  paperSize: PaperSizeId;
+  orientation: PageOrientation;
+  /** Unit used for `customSize` and `margins`. */
+  unit: LengthUnit;
+  /** Portrait paper size in `unit`. Only used when `paperSize` is "custom". */
+  customSize: { width: number; height: number };
+  /** Per-side margins in `unit`. */
+  margins: PageMargins;
+};
+
+/** Resolved on-screen geometry for a page setup, in CSS px at 96DPI. */
+export type PageMetrics = {
+  paperWidthPx: number;
+  paperHeightPx: number;
+  marginTopPx: number;
+  marginRightPx: number;
+  marginBottomPx: number;
+  marginLeftPx: number;
+  contentWidthPx: number;
+  contentHeightPx: number;
+};
+
+export const CSS_PX_PER_INCH = 96;
+/** Browsers lay out in 1/64 px units; positions and heights snap to them. */
+export const LAYOUT_UNITS_PER_PX = 64;
+const MM_PER_INCH = 25.4;
+
+/** Portrait paper dimensions in inches. */
+export const PAPER_SIZES: Record<Exclude<PaperSizeId, "custom">, { label: string; width: number; height: number }> = {
+  letter: { label: "US Letter", width: 8.5, height: 11 },
+  legal: { label: "US Legal", width: 8.5, height: 14 },
+  a4: { label: "A4", width: 210 / MM_PER_INCH, height: 297 / MM_PER_INCH },
+};
+
+export const DEFAULT_PAGE_SETUP: PageSetup = {
+  paperSize: "letter",
+  orientation: "portrait",
+  unit: "in",
+  customSize: { width: 8.5, height: 11 },
+  margins: { top: 1, right: 1, bottom: 1, left: 1 },
+};
+
+/** Pages narrower or shorter than this (in inches) after margins are rejected. */
+const MIN_CONTENT_INCHES = 1;
+
+/** Smallest custom paper side (in inches); anything smaller is raised to it. */
+const MIN_PAPER_INCHES = 2;
+
+export function toInches(value: number, unit: LengthUnit): number {
+  return unit === "mm" ? value / MM_PER_INCH : value;
+}
+
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+  if (from === to) return value;
+  const inches = toInches(value, from);
+  return to === "mm" ? inches * MM_PER_INCH : inches;
+}
+
+/** Rounds to a precision that is comfortable to edit in the given unit. */
+export function roundLength(value: number, unit: LengthUnit): number {
+  const factor = unit === "mm" ? 10 : 100;
+  return Math.round(value * factor) / factor;
+}
+
+/** Paper size in inches, with orientation applied. */
+export function getPaperSizeInches(setup: PageSetup): { width: number; height: number } {
+  const portrait =
+    setup.paperSize === "custom"
+      ? {
+          width: toInches(setup.customSize.width, setup.unit),
+          height: toInches(setup.customSize.height, setup.unit),
+        }
+      : PAPER_SIZES[setup.paperSize];
+
+  return setup.orientation === "landscape"
+    ? { width: portrait.height, height: portrait.width }
+    : { width: portrait.width, height: portrait.height };
+}
+
+/**
+ * Fills in missing fields and clamps margins so that at least one inch of content
+ * remains in each direction. Accepts untrusted input (e.g. stored document attrs).
+ */
+export function normalizePageSetup(input: Partial<PageSetup> | null | undefined): PageSetup {
+  const base = DEFAULT_PAGE_SETUP;
+  const unit: LengthUnit = input?.unit === "mm" ? "mm" : "in";
+  const paperSize: PaperSizeId =
+    input?.paperSize && (input.paperSize === "custom" || input.paperSize in PAPER_SIZES)
+      ? input.paperSize
+      : base.paperSize;
+  const orientation: PageOrientation = input?.orientation === "landscape" ? "landscape" : "portrait";
+
+  const nonNegative = (v: unknown, fallback: number) =>
+    typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : fallback;
+  // A zero or tiny paper side would give a page stride of zero (or close) and an unprintable PDF page.
+  const paperSide = (v: unknown, fallback: number) =>
+    typeof v === "number" && Number.isFinite(v) && v > 0
+      ? Math.max(v, convertLength(MIN_PAPER_INCHES, "in", unit))
+      : fallback;
+
+  const customSize = {
+    width: paperSide(input?.customSize?.width, convertLength(base.customSize.width, base.unit, unit)),
+    height: paperSide(input?.customSize?.height, convertLength(base.customSize.height, base.unit, unit)),
+  };
+  const fallbackMargin = convertLength(1, "in", unit);
+  const margins: PageMargins = {
+    top: nonNegative(input?.margins?.top, fallbackMargin),
+    right: nonNegative(input?.margins?.right, fallbackMargin),
+    bottom: nonNegative(input?.margins?.bottom, fallbackMargin),
+    left: nonNegative(input?.margins?.left, fallbackMargin),
+  };
+
+  const setup: PageSetup = { paperSize, orientation, unit, customSize, margins };
+  const paper = getPaperSizeInches(setup);
+
+  // Scale margins down proportionally if they would squeeze the content area too far.
+  const clampPair = (a: number, b: number, total: number): [number, number] => {
+    const available = Math.max(0, total - MIN_CONTENT_INCHES);
+    const sum = toInches(a, unit) + toInches(b, unit);
+    if (sum <= available || sum === 0) return [a, b];
+    const scale = available / sum;
+    return [a * scale, b * scale];
+  };
+
+  [margins.left, margins.right] = clampPair(margins.left, margins.right, paper.width);
+  [margins.top, margins.bottom] = clampPair(margins.top, margins.bottom, paper.height);
+
+  return setup;
+}
+
+export function resolvePageMetrics(setup: PageSetup): PageMetrics {
+  const paper = getPaperSizeInches(setup);
+  const px = (inches: number) => Math.round(inches * CSS_PX_PER_INCH);
+
+  const paperWidthPx = px(paper.width);
+  const paperHeightPx = px(paper.height);
+  const marginTopPx = px(toInches(setup.margins.top, setup.unit));
+  const marginRightPx = px(toInches(setup.margins.right, setup.unit));
+  const marginBottomPx = px(toInches(setup.margins.bottom, setup.unit));
+  const marginLeftPx = px(toInches(setup.margins.left, setup.unit));
+
+  return {
+    paperWidthPx,
+    paperHeightPx,
+    marginTopPx,
+    marginRightPx,
+    marginBottomPx,
+    marginLeftPx,
+    contentWidthPx: paperWidthPx - marginLeftPx - marginRightPx,
+    contentHeightPx: paperHeightPx - marginTopPx - marginBottomPx,
+  };
+}
+
+/**
+ * Builds the print `@page` rule for a setup. Sizes are emitted in CSS px so that
+ * print uses exactly the same rounded geometry as the on-screen pagination.
+ */
+export function buildPrintPageRule(setup: PageSetup): string {
+  const m = resolvePageMetrics(setup);
+  return [
+    "@page {",
+    `  size: ${m.paperWidthPx}px ${m.paperHeightPx}px;`,
+    `  margin: ${m.marginTopPx}px ${m.marginRightPx}px ${m.marginBottomPx}px ${m.marginLeftPx}px;`,
+    "}",
+  ].join("\n");
+}
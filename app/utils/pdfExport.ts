@@ -0,0 +1,631 @@
+import type { JSONContent } from "@tiptap/core";
+import type { PDFFont, PDFPage } from "pdf-lib";
+import { PDFDocument, rgb } from "pdf-lib";
+
+import { getDocumentSchema } from "@/app/extensions";
+import type { PrintedComment } from "@/app/utils/comments";
+import { formatThreadSummary, normalizeComments, numberPrintedComments } from "@/app/utils/comments";
+import type { FontFace, LayoutItem, Line, TextMeasurer, TextRun, TextStyle } from "@/app/utils/documentLayout";
+import {
+  BLOCK_GAP_PX,
+  BODY_STYLE,
+  CELL_PADDING_X_PX,
+  FOOTNOTE_SEPARATOR_PX,
+  FOOTNOTE_STYLE,
+  HEADING_STYLES,
+  LIST_INDENT_PX,
+  PLAIN_RUN,
+  PT_PER_PX,
+  STANDARD_FONTS,
+  SUPERSCRIPT_SCALE,
+  TOC_LEADER_GAP_PX,
+  collectInlineRefs,
+  collectItems,
+  createStandardFontMeasurer,
+  layoutSignatureBlock,
+  lineHeightFor,
+  ruleHeightFor,
+  signatureSpaceBeforeFor,
+  spaceBeforeFor,
+  tableColumnWidth,
+  tocReservedWidth,
+  wrapRuns,
+  wrapTableRow,
+} from "@/app/utils/documentLayout";
+import type { Note } from "@/app/utils/footnotes";
+import { collectNotes, normalizeNotePlacement } from "@/app/utils/footnotes";
+import { formatLongDate } from "@/app/utils/formatHelpers";
+import { paginateDocument } from "@/app/utils/headlessPagination";
+import type { MarginSlots } from "@/app/utils/headerFooter";
+import { normalizeDocumentInfo, normalizeHeaderFooter, renderTemplate, resolveVariant } from "@/app/utils/headerFooter";
+import type { PageMetrics, PageSetup } from "@/app/utils/pageSetup";
+import { normalizePageSetup, resolvePageMetrics } from "@/app/utils/pageSetup";
+import type { PleadingSetup } from "@/app/utils/pleading";
+import {
+  PLEADING_NUMBER_FONT_PX,
+  PLEADING_RULE_GAP_PX,
+  normalizePleading,
+  pleadingLineHeightPx,
+} from "@/app/utils/pleading";
+import type { SignatureField } from "@/app/utils/signatureBlocks";
+import { collectSignatureBlocks } from "@/app/utils/signatureBlocks";
+
+export type PdfExportRequest = {
+  /** Editor JSON (`editor.getJSON()`), including the doc attrs. */
+  doc: JSONContent;
+  /**
+   * Doc positions where each page after the first starts, exactly as passed to
+   * `setPaginationBreaks`. Page boundaries in the PDF follow these. Default: the
+   * breaks `paginateDocument` finds, for exports made without an open editor.
+   */
+  breaks?: number[];
+  /**
+   * Footnote ids at the bottom of each page, one list per page, as the screen placed
+   * them (notes carried over from the page before included). Default: the notes
+   * `paginateDocument` places, or without it, the notes referenced on each page.
+   */
+  footnoteIds?: string[][];
+  /** Overrides the page setup stored in `doc.attrs`. */
+  pageSetup?: PageSetup;
+  /** Value for the `{date}` field. Default: today's date on the server. */
+  fieldDate?: string;
+};
+
+/** Whether a request body is a `PdfExportRequest`, as far as the routes can tell without parsing the doc. */
+export function isPdfExportRequest(body: unknown): body is PdfExportRequest {
+  if (!body || typeof body !== "object") return false;
+  const { doc, breaks, footnoteIds } = body as Partial<PdfExportRequest>;
+  return (
+    !!doc &&
+    typeof doc === "object" &&
+    (breaks === undefined ||
+      (Array.isArray(breaks) && breaks.every((b) => typeof b === "number" && Number.isFinite(b)))) &&
+    (footnoteIds === undefined ||
+      (Array.isArray(footnoteIds) &&
+        footnoteIds.every((ids) => Array.isArray(ids) && ids.every((id) => typeof id === "string"))))
+  );
+}
+
+export type RenderedPdf = {
+  pdf: Uint8Array;
+  /** Signature, initials and date fields of the document's signature blocks, as placed in `pdf`. */
+  signatureFields: SignatureField[];
+};
+
+const MARGIN_TEXT_PX = 10;
+const COMMENT_NOTE_STYLE: TextStyle = { fontSizePx: 8, lineHeight: 1.3, bold: false, spaceBeforePx: 0 };
+const COMMENT_NOTE_PADDING_PX = 8;
+const COMMENT_ENDNOTE_STYLE: TextStyle = { fontSizePx: 11, lineHeight: 1.4, bold: false, spaceBeforePx: 8 };
+const FOOTNOTE_RULE_WIDTH_PX = 192;
+
+/** Where a comment reference landed on a page, for lining up its margin note. */
+type CommentRefPosition = { number: number; topPx: number };
+
+/** What `layoutPage` placed that is drawn or reported after the page's content. */
+type PageLayout = {
+  commentRefs: CommentRefPosition[];
+  /** Fields by the doc position of their signature block. */
+  signatureFields: (Omit<SignatureField, "page" | "block"> & { pos: number })[];
+};
+
+type FontSet = Record<FontFace, PDFFont> & {
+  /** Code points the standard fonts can encode (WinAnsi). */
+  charset: Set<number>;
+  /** Measures with the same metrics as the fonts. */
+  measure: TextMeasurer;
+};
+
+function sanitize(text: string, charset: Set<number>): string {
+  let out = "";
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 0;
+    out += charset.has(code) ? ch : "?";
+  }
+  return out;
+}
+
+function drawLine(
+  page: PDFPage,
+  line: Line,
+  fonts: FontSet,
+  xPx: number,
+  baselinePx: number,
+  style: TextStyle,
+  pageHeightPx: number,
+) {
+  const sizePt = style.fontSizePx * PT_PER_PX;
+  const y = (pageHeightPx - baselinePx) * PT_PER_PX;
+  let x = xPx;
+  for (const token of line.tokens) {
+    if (token.run.superscript) {
+      const raisePt = style.fontSizePx * 0.35 * PT_PER_PX;
+      page.drawText(sanitize(token.text, fonts.charset), {
+        x: x * PT_PER_PX,
+        y: y + raisePt,
+        size: sizePt * SUPERSCRIPT_SCALE,
+        font: fonts[token.face],
+        color: rgb(0.07, 0.09, 0.15),
+      });
+      x += token.width;
+      continue;
+    }
+    if (!token.space) {
+      const text = sanitize(token.text, fonts.charset);
+      page.drawText(text, { x: x * PT_PER_PX, y, size: sizePt, font: fonts[token.face], color: rgb(0.07, 0.09, 0.15) });
+    }
+    const decorate = (offsetPx: number) =>
+      page.drawLine({
+        start: { x: x * PT_PER_PX, y: y + offsetPx * PT_PER_PX },
+        end: { x: (x + token.width) * PT_PER_PX, y: y + offsetPx * PT_PER_PX },
+        thickness: 0.6,
+        color: rgb(0.07, 0.09, 0.15),
+      });
+    if (token.run.underline) decorate(-2);
+    if (token.run.strike) decorate(style.fontSizePx * 0.3);
+    x += token.width;
+  }
+}
+
+function drawMarginRow(
+  page: PDFPage,
+  fonts: FontSet,
+  slots: MarginSlots,
+  render: (template: string) => string,
+  metrics: PageMetrics,
+  centerYPx: number,
+) {
+  const sizePt = MARGIN_TEXT_PX * PT_PER_PX;
+  const y = (metrics.paperHeightPx - centerYPx - MARGIN_TEXT_PX / 3) * PT_PER_PX;
+  const left = metrics.marginLeftPx;
+  const right = metrics.paperWidthPx - metrics.marginRightPx;
+  const color = rgb(0.29, 0.33, 0.39);
+
+  (["left", "center", "right"] as const).forEach((slot) => {
+    const text = sanitize(render(slots[slot]), fonts.charset);
+    if (!text) return;
+    const width = fonts.regular.widthOfTextAtSize(text, sizePt) / PT_PER_PX;
+    const x = slot === "left" ? left : slot === "center" ? (left + right - width) / 2 : right - width;
+    page.drawText(text, { x: x * PT_PER_PX, y, size: sizePt, font: fonts.regular, color });
+  });
+}
+
+function noteCommentRefs(line: Line, topPx: number, out: CommentRefPosition[]) {
+  for (const token of line.tokens) {
+    if (token.run.commentRef !== null) out.push({ number: token.run.commentRef, topPx });
+  }
+}
+
+/**
+ * Lays out and draws one page's items, on pleading paper's line grid when `gridPx` is
+ * set. Returns where comment references and signature fields landed.
+ */
+function layoutPage(
+  page: PDFPage,
+  items: LayoutItem[],
+  fonts: FontSet,
+  metrics: PageMetrics,
+  gridPx: number | null,
+): PageLayout {
+  const { paperHeightPx, marginLeftPx, marginTopPx, contentWidthPx } = metrics;
+  const commentRefs: CommentRefPosition[] = [];
+  const signatureFields: PageLayout["signatureFields"] = [];
+  let y = marginTopPx;
+  let first = true;
+
+  for (const item of items) {
+    if (item.kind === "rule") {
+      y += first ? 0 : spaceBeforeFor(BLOCK_GAP_PX, gridPx);
+      const heightPx = ruleHeightFor(gridPx);
+      const yPt = (paperHeightPx - y - heightPx / 2) * PT_PER_PX;
+      page.drawLine({
+        start: { x: (marginLeftPx + item.indentPx) * PT_PER_PX, y: yPt },
+        end: { x: (marginLeftPx + contentWidthPx) * PT_PER_PX, y: yPt },
+        thickness: 0.75,
+        color: rgb(0.8, 0.8, 0.8),
+      });
+      y += heightPx;
+      first = false;
+      continue;
+    }
+
+    if (item.kind === "break") continue;
+
+    if (item.kind === "signature") {
+      y += first ? 0 : signatureSpaceBeforeFor(gridPx);
+      const x = marginLeftPx + item.indentPx;
+      const style = BODY_STYLE;
+      const lineHeightPx = lineHeightFor(style, gridPx);
+      for (const row of layoutSignatureBlock(item.block, fonts.measure, contentWidthPx - item.indentPx, gridPx)) {
+        // Text sits on the last line of its row, so a label lines up with the line drawn after it.
+        let lineTop = y + row.heightPx - row.lines.length * lineHeightPx;
+        for (const line of row.lines) {
+          drawLine(page, line, fonts, x, lineTop + (lineHeightPx + style.fontSizePx * 0.7) / 2, style, paperHeightPx);
+          lineTop += lineHeightPx;
+        }
+        if (row.field) {
+          const lineY = y + row.heightPx - (lineHeightPx - style.fontSizePx * 0.7) / 2 + 2;
+          page.drawLine({
+            start: { x: (x + row.field.xPx) * PT_PER_PX, y: (paperHeightPx - lineY) * PT_PER_PX },
+            end: { x: (x + row.field.xPx + row.field.widthPx) * PT_PER_PX, y: (paperHeightPx - lineY) * PT_PER_PX },
+            thickness: 0.75,
+            color: rgb(0.07, 0.09, 0.15),
+          });
+          signatureFields.push({
+            kind: row.field.kind,
+            pos: item.pos,
+            party: item.block.party,
+            name: item.block.name,
+            x: (x + row.field.xPx) * PT_PER_PX,
+            y: y * PT_PER_PX,
+            width: row.field.widthPx * PT_PER_PX,
+            height: (lineY - y) * PT_PER_PX,
+          });
+        }
+        y += row.heightPx;
+      }
+      first = false;
+      continue;
+    }
+
+    if (item.kind === "table") {
+      y += first ? 0 : spaceBeforeFor(BLOCK_GAP_PX, gridPx);
+      const x0 = marginLeftPx + item.indentPx;
+      const colWidth = tableColumnWidth(item, contentWidthPx);
+
+      for (const row of item.rows) {
+        const { style, cells, lineHeightPx, paddingYPx, heightPx: rowHeight } = wrapTableRow(
+          row,
+          fonts.measure,
+          colWidth,
+          gridPx,
+        );
+        let col = 0;
+        const laidOut = row.cells.map((cell, index) => {
+          const x = x0 + col * colWidth;
+          col += cell.colspan;
+          return { x, width: cell.colspan * colWidth, lines: cells[index] };
+        });
+
+        for (const cell of laidOut) {
+          page.drawRectangle({
+            x: cell.x * PT_PER_PX,
+            y: (paperHeightPx - y - rowHeight) * PT_PER_PX,
+            width: cell.width * PT_PER_PX,
+            height: rowHeight * PT_PER_PX,
+            borderColor: rgb(0.75, 0.76, 0.78),
+            borderWidth: 0.75,
+            color: row.header ? rgb(0.95, 0.96, 0.96) : undefined,
+          });
+          cell.lines.forEach((line, i) => {
+            const lineTop = y + paddingYPx + i * lineHeightPx;
+            const baseline = lineTop + (lineHeightPx + style.fontSizePx * 0.7) / 2;
+            drawLine(page, line, fonts, cell.x + CELL_PADDING_X_PX, baseline, style, paperHeightPx);
+            noteCommentRefs(line, lineTop, commentRefs);
+          });
+        }
+        y += rowHeight;
+      }
+      first = false;
+      continue;
+    }
+
+    const { style } = item;
+    if (!first && item.startsHere) y += spaceBeforeFor(style.spaceBeforePx, gridPx);
+    const lineHeightPx = lineHeightFor(style, gridPx);
+    const x = marginLeftPx + item.indentPx;
+    const trailing = item.trailing === null ? "" : sanitize(item.trailing, fonts.charset);
+    const trailingWidth = fonts.regular.widthOfTextAtSize(trailing, style.fontSizePx * PT_PER_PX) / PT_PER_PX;
+    const reservedPx = trailing ? tocReservedWidth(trailingWidth, style) : 0;
+    const lines = wrapRuns(item.runs, fonts.measure, style, contentWidthPx - item.indentPx - reservedPx);
+    const blockTop = y;
+
+    if (item.marker) {
+      const markerText = sanitize(item.marker, fonts.charset);
+      const sizePt = style.fontSizePx * PT_PER_PX;
+      const markerWidth = fonts.regular.widthOfTextAtSize(markerText, sizePt) / PT_PER_PX;
+      const baseline = y + (lineHeightPx + style.fontSizePx * 0.7) / 2;
+      page.drawText(markerText, {
+        x: (x - markerWidth - 6) * PT_PER_PX,
+        y: (paperHeightPx - baseline) * PT_PER_PX,
+        size: sizePt,
+        font: fonts.regular,
+        color: rgb(0.07, 0.09, 0.15),
+      });
+    }
+
+    for (const [index, line] of lines.entries()) {
+      const baseline = y + (lineHeightPx + style.fontSizePx * 0.7) / 2;
+      drawLine(page, line, fonts, x, baseline, style, paperHeightPx);
+      noteCommentRefs(line, y, commentRefs);
+      if (trailing && index === lines.length - 1) {
+        const right = marginLeftPx + contentWidthPx;
+        const yPt = (paperHeightPx - baseline) * PT_PER_PX;
+        page.drawLine({
+          start: { x: (x + line.width + TOC_LEADER_GAP_PX) * PT_PER_PX, y: yPt },
+          end: { x: (right - trailingWidth - TOC_LEADER_GAP_PX) * PT_PER_PX, y: yPt },
+          thickness: 0.75,
+          dashArray: [1, 2],
+          color: rgb(0.45, 0.47, 0.5),
+        });
+        page.drawText(trailing, {
+          x: (right - trailingWidth) * PT_PER_PX,
+          y: yPt,
+          size: style.fontSizePx * PT_PER_PX,
+          font: fonts.regular,
+          color: rgb(0.07, 0.09, 0.15),
+        });
+      }
+      y += lineHeightPx;
+    }
+
+    if (item.quote) {
+      page.drawLine({
+        start: { x: (x - 10) * PT_PER_PX, y: (paperHeightPx - blockTop) * PT_PER_PX },
+        end: { x: (x - 10) * PT_PER_PX, y: (paperHeightPx - y) * PT_PER_PX },
+        thickness: 2,
+        color: rgb(0.82, 0.84, 0.86),
+      });
+    }
+    first = false;
+  }
+  return { commentRefs, signatureFields };
+}
+
+/**
+ * Draws pleading paper's margins as print does: each grid line of the content area
+ * numbered beside a double rule, and a single rule on the right.
+ */
+function drawPleadingMargins(page: PDFPage, pleading: PleadingSetup, fonts: FontSet, metrics: PageMetrics) {
+  const { paperWidthPx, paperHeightPx, marginLeftPx, marginRightPx, marginTopPx } = metrics;
+  const lineHeightPx = pleadingLineHeightPx(metrics, pleading);
+  const doubleRuleLeftPx = marginLeftPx - PLEADING_RULE_GAP_PX - 3;
+  const numbersRightPx = doubleRuleLeftPx - PLEADING_RULE_GAP_PX;
+  const sizePt = PLEADING_NUMBER_FONT_PX * PT_PER_PX;
+  const color = rgb(0, 0, 0);
+
+  for (let i = 0; i < pleading.linesPerPage; i++) {
+    const text = String(i + 1);
+    const width = fonts.regular.widthOfTextAtSize(text, sizePt) / PT_PER_PX;
+    const baseline = marginTopPx + i * lineHeightPx + (lineHeightPx + PLEADING_NUMBER_FONT_PX * 0.7) / 2;
+    page.drawText(text, {
+      x: (numbersRightPx - width) * PT_PER_PX,
+      y: (paperHeightPx - baseline) * PT_PER_PX,
+      size: sizePt,
+      font: fonts.regular,
+      color,
+    });
+  }
+
+  const rule = (xPx: number) =>
+    page.drawLine({
+      start: { x: xPx * PT_PER_PX, y: 0 },
+      end: { x: xPx * PT_PER_PX, y: paperHeightPx * PT_PER_PX },
+      thickness: PT_PER_PX,
+      color,
+    });
+  // A 3px double border: two 1px lines with a 1px gap.
+  rule(doubleRuleLeftPx + 0.5);
+  rule(doubleRuleLeftPx + 2.5);
+  rule(paperWidthPx - marginRightPx + PLEADING_RULE_GAP_PX);
+}
+
+/**
+ * Draws comment threads in the page's right margin, each level with its reference
+ * and pushed down below the note above.
+ */
+function drawCommentMarginNotes(
+  page: PDFPage,
+  positions: CommentRefPosition[],
+  printed: PrintedComment[],
+  fonts: FontSet,
+  metrics: PageMetrics,
+) {
+  const x = metrics.paperWidthPx - metrics.marginRightPx + COMMENT_NOTE_PADDING_PX;
+  const width = metrics.marginRightPx - COMMENT_NOTE_PADDING_PX * 2;
+  const lineHeightPx = COMMENT_NOTE_STYLE.fontSizePx * COMMENT_NOTE_STYLE.lineHeight;
+  let nextFree = 0;
+
+  for (const { number, topPx } of positions) {
+    const comment = printed[number - 1];
+    if (!comment) continue;
+    const runs = [
+      { ...PLAIN_RUN, text: `${number}. `, bold: true },
+      { ...PLAIN_RUN, text: formatThreadSummary(comment.thread) },
+    ];
+    let y = Math.max(topPx, nextFree);
+    for (const line of wrapRuns(runs, fonts.measure, COMMENT_NOTE_STYLE, width)) {
+      if (y + lineHeightPx > metrics.paperHeightPx) break;
+      drawLine(page, line, fonts, x, y + lineHeightPx * 0.75, COMMENT_NOTE_STYLE, metrics.paperHeightPx);
+      y += lineHeightPx;
+    }
+    nextFree = y + 4;
+  }
+}
+
+type EndnoteBlock = { runs: TextRun[]; indentPx: number; spaceBeforePx: number };
+
+/** Appends pages headed `title` with the given blocks, flowing onto more pages as needed. */
+function drawEndnotePages(
+  pdf: PDFDocument,
+  title: string,
+  blocks: EndnoteBlock[],
+  fonts: FontSet,
+  metrics: PageMetrics,
+) {
+  const { paperWidthPx, paperHeightPx, marginLeftPx, marginTopPx, marginBottomPx, contentWidthPx } = metrics;
+  const style = COMMENT_ENDNOTE_STYLE;
+  const lineHeightPx = style.fontSizePx * style.lineHeight;
+  let page = pdf.addPage([paperWidthPx * PT_PER_PX, paperHeightPx * PT_PER_PX]);
+  let y = marginTopPx;
+
+  const heading = HEADING_STYLES[2];
+  for (const line of wrapRuns([{ ...PLAIN_RUN, text: title }], fonts.measure, heading, contentWidthPx)) {
+    drawLine(page, line, fonts, marginLeftPx, y + heading.fontSizePx, heading, paperHeightPx);
+    y += heading.fontSizePx * heading.lineHeight;
+  }
+
+  for (const { runs, indentPx, spaceBeforePx } of blocks) {
+    y += spaceBeforePx;
+    for (const line of wrapRuns(runs, fonts.measure, style, contentWidthPx - indentPx)) {
+      if (y + lineHeightPx > paperHeightPx - marginBottomPx) {
+        page = pdf.addPage([paperWidthPx * PT_PER_PX, paperHeightPx * PT_PER_PX]);
+        y = marginTopPx;
+      }
+      const baseline = y + (lineHeightPx + style.fontSizePx * 0.7) / 2;
+      drawLine(page, line, fonts, marginLeftPx + indentPx, baseline, style, paperHeightPx);
+      y += lineHeightPx;
+    }
+  }
+}
+
+/** Appends "Comments" pages listing the printed threads, numbered as in the text. */
+function drawCommentEndnotes(pdf: PDFDocument, printed: PrintedComment[], fonts: FontSet, metrics: PageMetrics) {
+  const blocks = printed.flatMap(({ number, text, thread }): EndnoteBlock[] => [
+    {
+      runs: [
+        { ...PLAIN_RUN, text: `${number}. `, bold: true },
+        { ...PLAIN_RUN, text: `“${text}”`, italic: true },
+      ],
+      indentPx: 0,
+      spaceBeforePx: COMMENT_ENDNOTE_STYLE.spaceBeforePx,
+    },
+    ...thread.messages.map((message) => ({
+      runs: [
+        { ...PLAIN_RUN, text: `${message.author || "Anonymous"}: `, bold: true },
+        { ...PLAIN_RUN, text: message.text },
+      ],
+      indentPx: LIST_INDENT_PX,
+      spaceBeforePx: 0,
+    })),
+  ]);
+  drawEndnotePages(pdf, "Comments", blocks, fonts, metrics);
+}
+
+/** Appends "Notes" pages with every footnote, when notes are placed as endnotes. */
+function drawNoteEndnotes(pdf: PDFDocument, notes: Note[], fonts: FontSet, metrics: PageMetrics) {
+  const blocks = notes.map(({ number, text }) => ({
+    runs: [{ ...PLAIN_RUN, text: `${number}. `, bold: true }, { ...PLAIN_RUN, text }],
+    indentPx: 0,
+    spaceBeforePx: COMMENT_ENDNOTE_STYLE.spaceBeforePx,
+  }));
+  drawEndnotePages(pdf, "Notes", blocks, fonts, metrics);
+}
+
+/**
+ * Draws a page's footnotes at the bottom of its content area, under a short rule.
+ * The on-screen layout reserved that space when it placed the page breaks.
+ */
+function drawPageFootnotes(page: PDFPage, notes: Note[], fonts: FontSet, metrics: PageMetrics) {
+  if (notes.length === 0) return;
+  const { paperHeightPx, marginLeftPx, marginBottomPx, contentWidthPx } = metrics;
+  const style = FOOTNOTE_STYLE;
+  const lineHeightPx = style.fontSizePx * style.lineHeight;
+  const lines = notes.flatMap(({ number, text }) =>
+    wrapRuns(
+      [{ ...PLAIN_RUN, text: String(number), superscript: true }, { ...PLAIN_RUN, text: ` ${text}` }],
+      fonts.measure,
+      style,
+      contentWidthPx,
+    ),
+  );
+
+  let y = paperHeightPx - marginBottomPx - lines.length * lineHeightPx;
+  const rulePt = (paperHeightPx - y + FOOTNOTE_SEPARATOR_PX - 5) * PT_PER_PX;
+  page.drawLine({
+    start: { x: marginLeftPx * PT_PER_PX, y: rulePt },
+    end: { x: (marginLeftPx + FOOTNOTE_RULE_WIDTH_PX) * PT_PER_PX, y: rulePt },
+    thickness: 0.75,
+    color: rgb(0.45, 0.47, 0.5),
+  });
+  for (const line of lines) {
+    drawLine(page, line, fonts, marginLeftPx, y + (lineHeightPx + style.fontSizePx * 0.7) / 2, style, paperHeightPx);
+    y += lineHeightPx;
+  }
+}
+
+/**
+ * Renders the document to PDF with one PDF page per on-screen page. Text is laid out
+ * with the standard Helvetica metrics, but page boundaries come from `breaks` when
+ * given; without them the document is paginated here with the same metrics. Pleading
+ * paper prints its numbered line grid, with every line of text on it.
+ */
+export async function renderPdf(request: PdfExportRequest): Promise<Uint8Array> {
+  return (await renderPdfWithFields(request)).pdf;
+}
+
+/** `renderPdf`, along with where each signature block's fields landed in the PDF. */
+export async function renderPdfWithFields(request: PdfExportRequest): Promise<RenderedPdf> {
+  const doc = getDocumentSchema().nodeFromJSON(request.doc);
+  const pageSetup = normalizePageSetup(request.pageSetup ?? doc.attrs.pageSetup);
+  const headerFooter = normalizeHeaderFooter(doc.attrs.headerFooter);
+  const documentInfo = normalizeDocumentInfo(doc.attrs.documentInfo);
+  const metrics = resolvePageMetrics(pageSetup);
+  const date = request.fieldDate ?? formatLongDate(new Date());
+  const comments = normalizeComments(doc.attrs.comments);
+  const printedComments = comments.printMode === "none" ? [] : numberPrintedComments(doc, comments);
+  const notes = collectNotes(doc);
+  const notePlacement = normalizeNotePlacement(doc.attrs.notePlacement);
+  const pleading = normalizePleading(doc.attrs.pleading);
+  const gridPx = pleading.enabled ? pleadingLineHeightPx(metrics, pleading) : null;
+
+  const size = doc.content.size;
+  const headless = request.breaks ? null : paginateDocument(doc, { metrics });
+  const breaks = headless?.breaks ?? request.breaks ?? [];
+  const boundaries = [0, ...breaks.filter((p) => p > 0 && p < size).sort((a, b) => a - b), size].filter(
+    (p, i, arr) => i === 0 || p !== arr[i - 1],
+  );
+  const pageNotes = request.footnoteIds ?? headless?.footnoteIds ?? null;
+  // Notes carried past the last block fill pages of their own, as on screen.
+  const pageCount = Math.max(1, boundaries.length - 1, pageNotes?.length ?? 0);
+  const notesById = new Map(notes.map((n) => [n.id, n]));
+  const refs = collectInlineRefs(doc, boundaries.slice(1, -1), printedComments);
+  const signatureBlockIndex = new Map(collectSignatureBlocks(doc).map((b) => [b.pos, b.index]));
+  const signatureFields: SignatureField[] = [];
+
+  const pdf = await PDFDocument.create();
+  if (documentInfo.title) pdf.setTitle(documentInfo.title);
+  const regular = await pdf.embedFont(STANDARD_FONTS.regular);
+  const fonts: FontSet = {
+    regular,
+    bold: await pdf.embedFont(STANDARD_FONTS.bold),
+    italic: await pdf.embedFont(STANDARD_FONTS.italic),
+    boldItalic: await pdf.embedFont(STANDARD_FONTS.boldItalic),
+    mono: await pdf.embedFont(STANDARD_FONTS.mono),
+    charset: new Set(regular.getCharacterSet()),
+    measure: createStandardFontMeasurer(),
+  };
+
+  for (let i = 0; i < pageCount; i++) {
+    const page = pdf.addPage([metrics.paperWidthPx * PT_PER_PX, metrics.paperHeightPx * PT_PER_PX]);
+    const from = boundaries[i] ?? size;
+    const to = boundaries[i + 1] ?? size;
+    const items = collectItems(doc, from, to, refs);
+    const layout = layoutPage(page, items, fonts, metrics, gridPx);
+    for (const { pos, ...field } of layout.signatureFields) {
+      signatureFields.push({ ...field, block: signatureBlockIndex.get(pos) ?? 0, page: i + 1 });
+    }
+    if (comments.printMode === "margin") {
+      drawCommentMarginNotes(page, layout.commentRefs, printedComments, fonts, metrics);
+    }
+    if (notePlacement === "footnotes") {
+      const shown = pageNotes
+        ? (pageNotes[i] ?? []).flatMap((id) => notesById.get(id) ?? [])
+        : notes.filter((n) => n.pos >= from && n.pos < to);
+      drawPageFootnotes(page, shown, fonts, metrics);
+    }
+
+    const variant = resolveVariant(headerFooter, i);
+    const render = (template: string) =>
+      renderTemplate(template, { ...documentInfo, pageNumber: i + 1, pageCount, date });
+    drawMarginRow(page, fonts, variant.header, render, metrics, metrics.marginTopPx / 2);
+    drawMarginRow(page, fonts, variant.footer, render, metrics, metrics.paperHeightPx - metrics.marginBottomPx / 2);
+    if (pleading.enabled) drawPleadingMargins(page, pleading, fonts, metrics);
+  }
+
+  if (notePlacement === "endnotes" && notes.length > 0) drawNoteEndnotes(pdf, notes, fonts, metrics);
+  if (comments.printMode === "endnotes" && printedComments.length > 0) {
+    drawCommentEndnotes(pdf, printedComments, fonts, metrics);
+  }
+
+  return { pdf: await pdf.save(), signatureFields };
+}
@@ -0,0 +1,79 @@
+import type { PageMetrics } from "@/app/utils/pageSetup";
+import { LAYOUT_UNITS_PER_PX } from "@/app/utils/pageSetup";
+
+/**
+ * Pleading paper: a fixed number of lines per page, numbered in the left margin
+ * between vertical rules, as court filings in several jurisdictions require. Every
+ * line of text sits on the page's line grid, so each page holds exactly that many.
+ */
+export type PleadingSetup = {
+  enabled: boolean;
+  linesPerPage: number;
+};
+
+export const PLEADING_LINE_COUNTS = [24, 25, 26, 28, 30, 32];
+
+export const DEFAULT_PLEADING: PleadingSetup = { enabled: false, linesPerPage: 28 };
+
+export function normalizePleading(raw: unknown): PleadingSetup {
+  if (!raw || typeof raw !== "object") return DEFAULT_PLEADING;
+  const { enabled, linesPerPage } = raw as Partial<PleadingSetup>;
+  return {
+    enabled: enabled === true,
+    linesPerPage: PLEADING_LINE_COUNTS.includes(linesPerPage as number)
+      ? (linesPerPage as number)
+      : DEFAULT_PLEADING.linesPerPage,
+  };
+}
+
+/**
+ * Height (px) of one grid line, so that `linesPerPage` lines fill the content area.
+ * Rounded down to whole layout units so the lines add up exactly; what that leaves
+ * below the last line (under 1px) belongs to the page break spacer, so each page
+ * still starts on its grid.
+ */
+export function pleadingLineHeightPx(metrics: PageMetrics, pleading: PleadingSetup): number {
+  const exact = metrics.contentHeightPx / pleading.linesPerPage;
+  return Math.floor(exact * LAYOUT_UNITS_PER_PX) / LAYOUT_UNITS_PER_PX;
+}
+
+/** Gap (px) between the line numbers and the double rule, and the rule and the text. */
+export const PLEADING_RULE_GAP_PX = 12;
+
+/** Font size (px) of the line numbers. */
+export const PLEADING_NUMBER_FONT_PX = 12;
+
+/** Pleading pages use every line, so widow and orphan control is off. */
+export const PLEADING_PAGINATION = { orphanLines: 1, widowLines: 1 };
+
+/**
+ * Builds the print `@page` rules that number each page's lines in its left margin box,
+ * with the double rule beside them and a single rule in the right margin.
+ */
+export function buildPrintPleadingRules(pleading: PleadingSetup, metrics: PageMetrics): string {
+  if (!pleading.enabled) return "";
+  const numbers = Array.from({ length: pleading.linesPerPage }, (_, i) => i + 1).join("\\A ");
+  return [
+    "@page {",
+    "  @left-top {",
+    `    content: "${numbers}";`,
+    "    white-space: pre;",
+    "    text-align: right;",
+    "    vertical-align: top;",
+    `    height: ${metrics.contentHeightPx}px;`,
+    `    line-height: ${pleadingLineHeightPx(metrics, pleading)}px;`,
+    `    font-size: ${PLEADING_NUMBER_FONT_PX}px;`,
+    "    color: #000000;",
+    `    margin-right: ${PLEADING_RULE_GAP_PX}px;`,
+    `    padding-right: ${PLEADING_RULE_GAP_PX}px;`,
+    "    border-right: 3px double #000000;",
+    "  }",
+    "  @right-top {",
+    '    content: "";',
+    `    height: ${metrics.contentHeightPx}px;`,
+    `    margin-left: ${PLEADING_RULE_GAP_PX}px;`,
+    "    border-left: 1px solid #000000;",
+    "  }",
+    "}",
+  ].join("\n");
+}
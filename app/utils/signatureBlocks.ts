@@ -0,0 +1,96 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+/** Block node for one signatory: party, signature line, name, title and date. */
+export const SIGNATURE_BLOCK_NODE = "signatureBlock";
+
+/** What the signatory puts on the line: a full signature, or initials (e.g. on each page). */
+export type SignatureFieldKind = "signature" | "initials";
+
+export const SIGNATURE_FIELD_KINDS: { id: SignatureFieldKind; label: string }[] = [
+  { id: "signature", label: "Signature" },
+  { id: "initials", label: "Initials" },
+];
+
+export function normalizeSignatureFieldKind(raw: unknown): SignatureFieldKind {
+  return SIGNATURE_FIELD_KINDS.some((k) => k.id === raw) ? (raw as SignatureFieldKind) : "signature";
+}
+
+export type SignatureBlock = {
+  /** Who signs, e.g. "ACME CORPORATION"; printed above the line. */
+  party: string;
+  /** The signatory's printed name. */
+  name: string;
+  title: string;
+  /** Printed as is; left blank to be dated at signing. */
+  date: string;
+  field: SignatureFieldKind;
+};
+
+export const EMPTY_SIGNATURE_BLOCK: SignatureBlock = { party: "", name: "", title: "", date: "", field: "signature" };
+
+function normalizeLine(raw: unknown): string {
+  return typeof raw === "string" ? raw.trim().replace(/\s+/g, " ").slice(0, 200) : "";
+}
+
+/** Signature block attrs from node attrs or user input. */
+export function normalizeSignatureBlock(raw: unknown): SignatureBlock {
+  if (!raw || typeof raw !== "object") return EMPTY_SIGNATURE_BLOCK;
+  const attrs = raw as Record<string, unknown>;
+  return {
+    party: normalizeLine(attrs.party),
+    name: normalizeLine(attrs.name),
+    title: normalizeLine(attrs.title),
+    date: normalizeLine(attrs.date),
+    field: normalizeSignatureFieldKind(attrs.field),
+  };
+}
+
+/** Label printed before the signature line. */
+export function signatureLineLabel(field: SignatureFieldKind): string {
+  return field === "initials" ? "Initials:" : "By:";
+}
+
+/** The block's printed lines under the signature line; a blank date gets a line of its own to fill in. */
+export function signatureDetailLines(block: SignatureBlock): { label: string; value: string }[] {
+  const lines = [
+    { label: "Name:", value: block.name },
+    { label: "Title:", value: block.title },
+  ].filter((line) => line.value);
+  return [...lines, { label: "Date:", value: block.date }];
+}
+
+export type SignatureBlockOccurrence = SignatureBlock & {
+  pos: number;
+  /** 1-based, in document order. */
+  index: number;
+};
+
+/** Every signature block in the doc, in document order. */
+export function collectSignatureBlocks(doc: ProseMirrorNode): SignatureBlockOccurrence[] {
+  const blocks: SignatureBlockOccurrence[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== SIGNATURE_BLOCK_NODE) return;
+    blocks.push({ ...normalizeSignatureBlock(node.attrs), pos, index: blocks.length + 1 });
+    return false;
+  });
+  return blocks;
+}
+
+/**
+ * Where a signatory signs, initials or dates the exported PDF, for placing fields in
+ * an e-signature service. Coordinates are PDF points (1/72 in) from the top-left
+ * corner of the page; `y` is the top of the field.
+ */
+export type SignatureField = {
+  kind: SignatureFieldKind | "date";
+  /** The signature block the field belongs to, 1-based in document order. */
+  block: number;
+  party: string;
+  name: string;
+  /** 1-based page of the PDF. */
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
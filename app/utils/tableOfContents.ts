@@ -0,0 +1,45 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+import { collectClauses, pageNumberAt } from "@/app/utils/clauses";
+
+/** Block node that lists the document's headings with their page numbers. */
+export const TABLE_OF_CONTENTS_NODE = "tableOfContents";
+
+/** Deepest heading level listed (h1–h3). */
+export const TOC_MAX_LEVEL = 3;
+
+export type TocEntry = {
+  /** Doc position of the heading node. */
+  pos: number;
+  level: number;
+  /** The heading's text, after its clause number when it opens a clause. */
+  text: string;
+  /** 1-based page, or null where there are no pages. */
+  page: number | null;
+};
+
+/**
+ * The h1–h3 headings in document order. `pageBreaks` are the doc positions where
+ * pages 2, 3, ... start, or null where there are no pages (e.g. Word export).
+ */
+export function collectTocEntries(doc: ProseMirrorNode, pageBreaks: number[] | null): TocEntry[] {
+  // A heading that opens a clause sits right inside it.
+  const clauseLabels = new Map(collectClauses(doc).map((c) => [c.pos + 1, c.label]));
+  const entries: TocEntry[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== "heading") return;
+    const level = node.attrs.level as number;
+    if (level > TOC_MAX_LEVEL) return false;
+    const text = node.textContent.trim();
+    if (!text) return false;
+    const label = clauseLabels.get(pos);
+    entries.push({
+      pos,
+      level,
+      text: label ? `${label} ${text}` : text,
+      page: pageBreaks ? pageNumberAt(pageBreaks, pos) : null,
+    });
+    return false;
+  });
+  return entries;
+}
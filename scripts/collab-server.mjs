@@ -0,0 +1,231 @@
+// Local collaboration server: relays Yjs document updates and presence (awareness)
+// between editors of the same document, speaking the y-websocket protocol.
+//
+//   npm run collab            # ws://localhost:1234
+//   COLLAB_PORT=4000 npm run collab
+//
+// Rooms live in memory and are dropped when their last editor leaves; the
+// document itself is persisted by each editor's autosave. While a room has
+// editors, its state is also written to COLLAB_STORE_DIR (default .data/collab),
+// so a restarted server picks up where it left off and reconnecting editors
+// sync with the same shared history instead of a freshly seeded one.
+
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import http from "node:http";
+import path from "node:path";
+
+import * as decoding from "lib0/decoding";
+import * as encoding from "lib0/encoding";
+import { WebSocketServer } from "ws";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as syncProtocol from "y-protocols/sync";
+import * as Y from "yjs";
+
+const PORT = Number(process.env.COLLAB_PORT ?? 1234);
+const HOST = process.env.COLLAB_HOST ?? "localhost";
+const PING_INTERVAL_MS = 30_000;
+const STORE_DIR = process.env.COLLAB_STORE_DIR ?? path.join(process.cwd(), ".data", "collab");
+const SAVE_DELAY_MS = 1000;
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+/** Same shape as the document store's ids. */
+const ROOM_PATTERN = /^\/([A-Za-z0-9_-]{1,64})$/;
+
+/**
+ * @typedef {{
+ *   doc: Y.Doc,
+ *   awareness: awarenessProtocol.Awareness,
+ *   conns: Map<import("ws").WebSocket, Set<number>>,
+ *   saveTimer: ReturnType<typeof setTimeout> | null,
+ * }} Room
+ */
+
+/** @type {Map<string, Room>} */
+const rooms = new Map();
+
+function roomFile(name) {
+  return path.join(STORE_DIR, `${name}.ydoc`);
+}
+
+function loadRoomState(name) {
+  try {
+    return readFileSync(roomFile(name));
+  } catch (err) {
+    if (err.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+function saveRoom(name, room) {
+  if (room.saveTimer) clearTimeout(room.saveTimer);
+  room.saveTimer = null;
+  mkdirSync(STORE_DIR, { recursive: true });
+  // Write then rename so a crash mid-write never leaves a truncated file.
+  const file = roomFile(name);
+  const tmp = `${file}.${process.pid}.tmp`;
+  writeFileSync(tmp, Y.encodeStateAsUpdate(room.doc));
+  renameSync(tmp, file);
+}
+
+function scheduleSave(name, room) {
+  room.saveTimer ??= setTimeout(() => {
+    try {
+      saveRoom(name, room);
+    } catch (err) {
+      console.error("collab: could not save room", name, err);
+    }
+  }, SAVE_DELAY_MS);
+}
+
+function send(conn, message) {
+  if (conn.readyState !== conn.OPEN) return;
+  conn.send(message, (err) => {
+    if (err) conn.close();
+  });
+}
+
+function getRoom(name) {
+  const existing = rooms.get(name);
+  if (existing) return existing;
+
+  const doc = new Y.Doc();
+  const saved = loadRoomState(name);
+  if (saved) Y.applyUpdate(doc, saved);
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null);
+  /** @type {Room} */
+  const room = { doc, awareness, conns: new Map(), saveTimer: null };
+
+  doc.on("update", (update) => {
+    scheduleSave(name, room);
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    const message = encoding.toUint8Array(encoder);
+    for (const conn of room.conns.keys()) send(conn, message);
+  });
+
+  awareness.on("update", ({ added, updated, removed }, origin) => {
+    const changed = [...added, ...updated, ...removed];
+    // Remember which awareness clients each connection controls, to clean up on close.
+    const controlled = room.conns.get(origin);
+    if (controlled) {
+      for (const id of added) controlled.add(id);
+      for (const id of removed) controlled.delete(id);
+    }
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+    const message = encoding.toUint8Array(encoder);
+    for (const conn of room.conns.keys()) send(conn, message);
+  });
+
+  rooms.set(name, room);
+  return room;
+}
+
+function closeConnection(name, room, conn) {
+  const controlled = room.conns.get(conn);
+  if (!controlled) return;
+  room.conns.delete(conn);
+  awarenessProtocol.removeAwarenessStates(room.awareness, [...controlled], null);
+  if (room.conns.size === 0) {
+    // The editors' autosave has the content now; the next editor seeds a new room from it.
+    if (room.saveTimer) clearTimeout(room.saveTimer);
+    rmSync(roomFile(name), { force: true });
+    room.awareness.destroy();
+    room.doc.destroy();
+    rooms.delete(name);
+  }
+  conn.close();
+}
+
+function handleMessage(room, conn, data) {
+  try {
+    const decoder = decoding.createDecoder(new Uint8Array(data));
+    const encoder = encoding.createEncoder();
+    switch (decoding.readVarUint(decoder)) {
+      case MESSAGE_SYNC:
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn);
+        // Only a sync step 1 needs an answer (the step 2 written into `encoder`).
+        if (encoding.length(encoder) > 1) send(conn, encoding.toUint8Array(encoder));
+        break;
+      case MESSAGE_AWARENESS:
+        awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), conn);
+        break;
+    }
+  } catch (err) {
+    console.error("collab: bad message", err);
+  }
+}
+
+const server = http.createServer((_req, res) => {
+  res.writeHead(200, { "Content-Type": "text/plain" });
+  res.end("collaboration server\n");
+});
+
+const wss = new WebSocketServer({ noServer: true });
+
+server.on("upgrade", (req, socket, head) => {
+  const match = ROOM_PATTERN.exec(new URL(req.url ?? "/", "http://localhost").pathname);
+  if (!match) {
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, (conn) => {
+    const name = match[1];
+    const room = getRoom(name);
+    conn.binaryType = "arraybuffer";
+    room.conns.set(conn, new Set());
+
+    conn.on("message", (data) => handleMessage(room, conn, data));
+    conn.on("close", () => closeConnection(name, room, conn));
+
+    let alive = true;
+    conn.on("pong", () => {
+      alive = true;
+    });
+    const ping = setInterval(() => {
+      if (!alive) {
+        clearInterval(ping);
+        closeConnection(name, room, conn);
+        return;
+      }
+      alive = false;
+      conn.ping();
+    }, PING_INTERVAL_MS);
+    conn.on("close", () => clearInterval(ping));
+
+    // Start the sync handshake and send who is already here.
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, room.doc);
+    send(conn, encoding.toUint8Array(encoder));
+
+    const states = room.awareness.getStates();
+    if (states.size > 0) {
+      const awarenessEncoder = encoding.createEncoder();
+      encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(
+        awarenessEncoder,
+        awarenessProtocol.encodeAwarenessUpdate(room.awareness, [...states.keys()]),
+      );
+      send(conn, encoding.toUint8Array(awarenessEncoder));
+    }
+  });
+});
+
+// Rooms still open are saved on shutdown, so editors that reconnect find them as they left them.
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.on(signal, () => {
+    for (const [name, room] of rooms) saveRoom(name, room);
+    process.exit(0);
+  });
+}
+
+server.listen(PORT, HOST, () => {
+  console.log(`collab: listening on ws://${HOST}:${PORT}`);
+});
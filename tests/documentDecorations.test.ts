@@ -0,0 +1,187 @@
+import { Editor } from "@tiptap/core";
+import type { JSONContent } from "@tiptap/core";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { documentExtensions } from "@/app/extensions";
+import { Pagination, getPageBreakPositions } from "@/app/extensions/Pagination";
+
+import { paragraph, words } from "./fixtures/documents";
+
+const extensions = [...documentExtensions, Pagination];
+
+const editors: Editor[] = [];
+
+afterEach(() => {
+  for (const e of editors.splice(0)) e.destroy();
+});
+
+function mount(content: JSONContent): Editor {
+  const editor = new Editor({ element: document.createElement("div"), extensions, content });
+  editors.push(editor);
+  return editor;
+}
+
+/** What the decorations drew: field and reference labels, highlights, clause numbers and print notes. */
+function drawn(e: Editor) {
+  const all = <T>(selector: string, read: (el: Element) => T) =>
+    Array.from(e.view.dom.querySelectorAll(selector)).map(read);
+  return {
+    fields: all(".pm-merge-field", (el) => [el.getAttribute("data-label"), el.className] as const),
+    highlights: all(".pm-comment-highlight", (el) => [el.textContent, el.className] as const),
+    printed: all(".pm-comment-ref, .pm-comment-margin-note", (el) => el.textContent),
+    numbers: all(".pm-clause-number", (el) => el.textContent),
+    refs: all(".pm-clause-ref", (el) => [el.getAttribute("data-label"), el.className] as const),
+  };
+}
+
+/** The decorations kept as the doc changed match those of an editor opened on the same doc, selection and pages. */
+function expectInSync(e: Editor) {
+  const fresh = mount(e.getJSON());
+  fresh.commands.setTextSelection({ from: e.state.selection.from, to: e.state.selection.to });
+  const breaks = getPageBreakPositions(e.state).map((pos) => ({ pos, fillPx: 0, footnoteIds: [] }));
+  fresh.commands.setPaginationBreaks(breaks, 0, 0, 0);
+  expect(drawn(e)).toEqual(drawn(fresh));
+}
+
+const mergeField = (name: string): JSONContent => ({ type: "mergeField", attrs: { name, type: "text" } });
+
+const commented = (text: string, threadId: string): JSONContent => ({
+  type: "text",
+  text,
+  marks: [{ type: "comment", attrs: { threadId } }],
+});
+
+const thread = (id: string, text: string) => ({
+  id,
+  resolved: false,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  messages: [{ id: `${id}-1`, author: "Ann", text, createdAt: "2026-01-01T00:00:00.000Z" }],
+});
+
+const clause = (id: string, ...content: JSONContent[]): JSONContent => ({ type: "clause", attrs: { id }, content });
+
+const clauseRef = (targetId: string, format = "number"): JSONContent => ({
+  type: "clauseRef",
+  attrs: { targetId, format },
+});
+
+describe("merge field labels", () => {
+  const content: JSONContent = {
+    type: "doc",
+    attrs: { mergeFieldValues: { client: "Acme" } },
+    content: [
+      { type: "paragraph", content: [{ type: "text", text: "Dear " }, mergeField("client")] },
+      paragraph(words(9)),
+      { type: "paragraph", content: [mergeField("date"), { type: "text", text: " and " }, mergeField("client")] },
+    ],
+  };
+
+  it("follow edits, new fields and new values", () => {
+    const e = mount(content);
+    e.chain().insertContentAt(1, "My ").run();
+    expectInSync(e);
+    e.chain().setTextSelection(20).insertMergeField("fee").run();
+    expectInSync(e);
+    e.chain().setTextSelection(e.state.doc.content.size - 1).deleteRange({ from: 2, to: 12 }).run();
+    expectInSync(e);
+    e.commands.setMergeFieldValues({ client: "Beta", date: "1 May" });
+    expectInSync(e);
+    expect(drawn(e).fields.map(([label]) => label)).toContain("1 May");
+    e.commands.undo();
+    expectInSync(e);
+  });
+});
+
+describe("comment highlights and print notes", () => {
+  const content: JSONContent = {
+    type: "doc",
+    attrs: { comments: { threads: { t1: thread("t1", "Check"), t2: thread("t2", "Why?") }, printMode: "margin" } },
+    content: [
+      paragraph(words(9)),
+      { type: "paragraph", content: [{ type: "text", text: "Fees " }, commented("apply monthly", "t1")] },
+      { type: "paragraph", content: [commented("Term", "t2"), { type: "text", text: " of one year" }] },
+    ],
+  };
+
+  it("follow typing in and around the commented text", () => {
+    const e = mount(content);
+    const start = 53;
+    e.chain().insertContentAt(start + 5, "fee ").run();
+    expectInSync(e);
+    e.chain().insertContentAt(start + 9, "X").run();
+    expectInSync(e);
+    e.chain().deleteRange({ from: start + 10, to: start + 16 }).run();
+    expectInSync(e);
+    e.chain().deleteRange({ from: 1, to: 12 }).run();
+    expectInSync(e);
+    const endOfSecond = () => e.state.doc.child(0).nodeSize + e.state.doc.child(1).nodeSize - 1;
+    e.chain().insertContentAt(endOfSecond(), " later").run();
+    expectInSync(e);
+    e.chain().insertContentAt(1, commented("Copied ", "t2")).run();
+    expectInSync(e);
+    e.chain()
+      .setTextSelection({ from: e.state.doc.child(0).nodeSize + 1, to: endOfSecond() })
+      .unsetAllMarks()
+      .run();
+    expectInSync(e);
+    expect(drawn(e).highlights.map(([text]) => text)).toEqual(["Copied ", "Term"]);
+  });
+
+  it("renumber after a thread added before the others, and follow the active thread", () => {
+    const e = mount(content);
+    e.chain().setTextSelection({ from: 1, to: 5 }).addComment("First").run();
+    expectInSync(e);
+    expect(drawn(e).printed).toHaveLength(6);
+    e.commands.setTextSelection(60);
+    expectInSync(e);
+    expect(drawn(e).highlights.some(([, className]) => className.includes("--active"))).toBe(true);
+    e.commands.setTextSelection(2);
+    expectInSync(e);
+    e.commands.setCommentResolved("t1", true);
+    expectInSync(e);
+    e.commands.undo();
+    expectInSync(e);
+  });
+});
+
+describe("clause numbers and cross-references", () => {
+  const content: JSONContent = {
+    type: "doc",
+    content: [
+      clause("c1", paragraph("Term"), clause("c2", paragraph("Renewal"))),
+      clause("c3", paragraph("Fees")),
+      { type: "paragraph", content: [{ type: "text", text: "See " }, clauseRef("c3", "numberAndPage")] },
+      { type: "paragraph", content: [{ type: "text", text: "And " }, clauseRef("c2")] },
+    ],
+  };
+
+  it("follow typing, new and removed clauses and the numbering scheme", () => {
+    const e = mount(content);
+    e.chain().insertContentAt(3, "Initial ").run();
+    expectInSync(e);
+    e.chain().setTextSelection(3).insertClause().run();
+    expectInSync(e);
+    expect(drawn(e).numbers).toHaveLength(4);
+    e.commands.indentClause();
+    expectInSync(e);
+    const c1 = e.state.doc.firstChild!;
+    e.chain().deleteRange({ from: 0, to: c1.nodeSize }).run();
+    expectInSync(e);
+    expect(drawn(e).refs.map(([, className]) => className)).toContain("pm-clause-ref is-missing");
+    e.commands.setClauseNumbering("decimal");
+    expectInSync(e);
+    e.commands.undo();
+    e.commands.undo();
+    expectInSync(e);
+  });
+
+  it("show the target's page once the layout breaks before it", () => {
+    const e = mount(content);
+    const fees = e.state.doc.child(0).nodeSize;
+    e.commands.setPaginationBreaks([{ pos: fees, fillPx: 0, footnoteIds: [] }], 0, 0, 0);
+    expectInSync(e);
+    expect(drawn(e).refs[0][0]).toBe("Section 2 on page 2");
+    e.chain().insertContentAt(3, "Initial ").run();
+    expectInSync(e);
+  });
+});
@@ -0,0 +1,100 @@
+import { Editor, getSchema } from "@tiptap/core";
+import type { JSONContent } from "@tiptap/core";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { documentExtensions } from "@/app/extensions";
+import { DiffHighlight } from "@/app/extensions/DiffHighlight";
+import { diffDocuments } from "@/app/utils/documentDiff";
+
+import { doc, footnote, paragraph } from "./fixtures/documents";
+
+const clause = (id: string, ...content: JSONContent[]): JSONContent => ({ type: "clause", attrs: { id }, content });
+
+const signatureBlock = (party: string, name: string): JSONContent => ({
+  type: "signatureBlock",
+  attrs: { party, name },
+});
+
+const tableOfContents: JSONContent = { type: "tableOfContents" };
+
+const mergeField = (name: string): JSONContent => ({ type: "mergeField", attrs: { name, type: "text" } });
+
+const withInline = (...content: JSONContent[]): JSONContent => ({ type: "paragraph", content });
+
+let editor: Editor | null = null;
+
+afterEach(() => {
+  editor?.destroy();
+  editor = null;
+});
+
+/** The redline of `before` -> `after` as the comparison view renders it. */
+function renderDiff(before: JSONContent, after: JSONContent): HTMLElement {
+  const content = diffDocuments(before, after);
+  const extensions = [...documentExtensions, DiffHighlight];
+  // Content the schema rejects would be dropped by the editor rather than shown.
+  expect(() => getSchema(extensions).nodeFromJSON(content).check()).not.toThrow();
+  editor = new Editor({ element: document.createElement("div"), extensions, content, editable: false });
+  return editor.view.dom as HTMLElement;
+}
+
+const diffOf = (root: HTMLElement, selector: string) =>
+  Array.from(root.querySelectorAll(selector)).map((el) => el.getAttribute("data-diff"));
+
+describe("diffDocuments", () => {
+  it("marks an added or removed clause as a whole", () => {
+    const kept = clause("c1", paragraph("Kept"));
+    const other = clause("c2", paragraph("Other"));
+    expect(diffOf(renderDiff(doc(kept), doc(kept, other)), ".pm-clause")).toEqual([null, "insert"]);
+    expect(diffOf(renderDiff(doc(kept, other), doc(kept)), ".pm-clause")).toEqual([null, "delete"]);
+  });
+
+  it("shows text edited inside a clause", () => {
+    const root = renderDiff(
+      doc(clause("c1", paragraph("Term of one year"))),
+      doc(clause("c1", paragraph("Term of two year"))),
+    );
+    expect(root.querySelector(".pm-clause del")?.textContent).toBe("one");
+    expect(root.querySelector(".pm-clause ins")?.textContent).toBe("two");
+  });
+
+  it("shows an edited signature block as removed and added", () => {
+    const root = renderDiff(doc(signatureBlock("Acme", "J. Smith")), doc(signatureBlock("Acme", "A. Jones")));
+    expect(diffOf(root, ".pm-signature-block")).toEqual(["delete", "insert"]);
+    expect(root.querySelector('[data-diff="delete"] .pm-signature-value')?.textContent).toBe("J. Smith");
+  });
+
+  it("marks an added or removed table of contents", () => {
+    expect(diffOf(renderDiff(doc(paragraph("Body")), doc(tableOfContents, paragraph("Body"))), ".pm-toc")).toEqual([
+      "insert",
+    ]);
+    expect(diffOf(renderDiff(doc(tableOfContents, paragraph("Body")), doc(paragraph("Body"))), ".pm-toc")).toEqual([
+      "delete",
+    ]);
+  });
+
+  it("shows a footnote whose text changed", () => {
+    const root = renderDiff(
+      doc(withInline({ type: "text", text: "Fees apply." }, footnote("n1", "Net 30"))),
+      doc(withInline({ type: "text", text: "Fees apply." }, footnote("n1", "Net 45"))),
+    );
+    expect(root.querySelector("del .pm-footnote-ref")?.getAttribute("data-footnote-text")).toBe("Net 30");
+    expect(root.querySelector("ins .pm-footnote-ref")?.getAttribute("data-footnote-text")).toBe("Net 45");
+  });
+
+  it("shows an added merge field", () => {
+    const root = renderDiff(
+      doc(withInline({ type: "text", text: "Dear " })),
+      doc(withInline({ type: "text", text: "Dear " }, mergeField("client"))),
+    );
+    expect(root.querySelector("ins .pm-merge-field")?.getAttribute("data-merge-field")).toBe("client");
+  });
+
+  it("marks the footnotes and fields inside a removed paragraph", () => {
+    const removed = withInline({ type: "text", text: "Old " }, mergeField("party"), footnote("n2", "Gone"));
+    const root = renderDiff(doc(paragraph("Kept"), removed), doc(paragraph("Kept")));
+    expect(diffOf(root, "p")).toEqual([null, "delete"]);
+    expect(root.querySelector("del .pm-merge-field")).not.toBeNull();
+    expect(root.querySelector("del .pm-footnote-ref")).not.toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+// @vitest-environment node
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { POST } from "@/app/api/documents/route";
+import { createDocument, listDocuments } from "@/app/utils/documentStore";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "documents-"));
+  vi.stubEnv("DOCUMENT_STORE_DIR", dir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+const post = (body: unknown) =>
+  POST(new Request("http://localhost/api/documents", { method: "POST", body: JSON.stringify(body) }));
+
+describe("POST /api/documents", () => {
+  it("rejects a name that is not a string", async () => {
+    expect((await post({ name: 42 })).status).toBe(400);
+    expect((await post({ name: { first: "NDA" } })).status).toBe(400);
+    expect(await listDocuments()).toEqual([]);
+  });
+
+  it("creates a document with or without a name", async () => {
+    expect((await post({ name: "NDA" })).status).toBe(201);
+    expect((await post({})).status).toBe(201);
+    expect((await listDocuments()).map((d) => d.name).sort()).toEqual(["NDA", "Untitled document"]);
+  });
+});
+
+describe("listDocuments", () => {
+  it("skips files it cannot read and lists the rest", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const doc = await createDocument({ name: "Engagement letter" });
+    await writeFile(path.join(dir, "truncated.json"), '{"id": "truncated", "na', "utf8");
+    await writeFile(path.join(dir, "numbered.json"), JSON.stringify({ id: "numbered", name: 7 }), "utf8");
+
+    expect((await listDocuments()).map((d) => d.id)).toEqual([doc.id]);
+    expect(error).toHaveBeenCalledTimes(2);
+  });
+});
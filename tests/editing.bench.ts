@@ -0,0 +1,71 @@
+import type { JSONContent } from "@tiptap/core";
+import { afterAll, bench, describe } from "vitest";
+
+import { collectNotes } from "@/app/utils/footnotes";
+
+import { annotated, doc, paragraph, words } from "./fixtures/documents";
+import { mountEditor } from "./support/editorPagination";
+
+const thread = (id: string) => ({
+  id,
+  resolved: false,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  messages: [{ id: `${id}-1`, author: "Ann", text: "Check", createdAt: "2026-01-01T00:00:00.000Z" }],
+});
+
+/**
+ * About `pages` pages of text with a footnote in every other paragraph, and on each page
+ * a clause, a cross-reference to it, a merge field and a comment.
+ */
+function longDocument(pages: number): JSONContent {
+  const content = Array.from({ length: pages }, (_, page) => [
+    { type: "clause", attrs: { id: `c${page}` }, content: [paragraph(words(20, "c", page * 20 + 1))] },
+    {
+      type: "paragraph",
+      content: [
+        { type: "text", text: "See ", marks: [{ type: "comment", attrs: { threadId: `t${page}` } }] },
+        { type: "clauseRef", attrs: { targetId: `c${page}`, format: "numberAndPage" } },
+        { type: "text", text: " for " },
+        { type: "mergeField", attrs: { name: "client", type: "text" } },
+      ],
+    },
+    ...Array.from({ length: 8 }, (_, i) =>
+      annotated(words(40, "a", (page * 8 + i) * 40 + 1), ...(i % 2 === 0 ? [`n${page}-${i}`] : [])),
+    ),
+  ]).flat();
+  const threads = Object.fromEntries(Array.from({ length: pages }, (_, page) => [`t${page}`, thread(`t${page}`)]));
+  return {
+    ...doc(...content),
+    attrs: { mergeFieldValues: { client: "Acme" }, comments: { threads, printMode: "margin" } },
+  };
+}
+
+// What the document's extensions and pagination add to a keystroke's transaction should
+// not grow with the document (the edit itself still copies the doc's top-level nodes);
+// reading every note again, as each keystroke used to, does. Drawing the keystroke also
+// runs the view's update, which steps through the top-level nodes and their decorations.
+// A pagination pass lays out and measures every block, so it grows with the document
+// however the plugins behave.
+describe.each([10, 100])("%i pages", (pages) => {
+  const paginated = mountEditor(longDocument(pages));
+  paginated.run();
+  const { editor } = paginated;
+  const pos = Math.floor(editor.state.doc.content.size / 2);
+  afterAll(() => paginated.destroy());
+
+  bench("apply a keystroke", () => {
+    editor.state.apply(editor.state.tr.insertText("x", pos));
+  });
+
+  bench("type a character", () => {
+    editor.view.dispatch(editor.state.tr.insertText("x", pos));
+  });
+
+  bench("read every note", () => {
+    collectNotes(editor.state.doc);
+  });
+
+  bench("paginate", () => {
+    paginated.run();
+  });
+});
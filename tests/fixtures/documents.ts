@@ -0,0 +1,186 @@
+import type { JSONContent } from "@tiptap/core";
+
+/** `count` distinct four-letter words ("a001 a002 ..."), so every split point is recognisable. */
+export function words(count: number, prefix = "a", first = 1): string {
+  return Array.from({ length: count }, (_, i) => `${prefix}${String(first + i).padStart(3, "0")}`).join(" ");
+}
+
+export const paragraph = (text = ""): JSONContent =>
+  text ? { type: "paragraph", content: [{ type: "text", text }] } : { type: "paragraph" };
+
+export const heading = (level: 1 | 2 | 3, text: string): JSONContent => ({
+  type: "heading",
+  attrs: { level },
+  content: [{ type: "text", text }],
+});
+
+const listItem = (text: string): JSONContent => ({ type: "listItem", content: [paragraph(text)] });
+
+export const footnote = (id: string, text: string): JSONContent => ({ type: "footnote", attrs: { id, text } });
+
+/** A paragraph of `text` with the reference of footnote `noteIds[i]`, if any, after its i-th word. */
+export const annotated = (text: string, ...noteIds: string[]): JSONContent => ({
+  type: "paragraph",
+  content: text.split(" ").flatMap((word, i) => [
+    { type: "text", text: i === 0 ? word : ` ${word}` },
+    ...(noteIds[i] ? [footnote(noteIds[i], `Note ${noteIds[i]}`)] : []),
+  ]),
+});
+
+export const doc = (...content: JSONContent[]): JSONContent => ({ type: "doc", content });
+
+/**
+ * Fixture documents. The page is `TEST_PAGE_SETUP` (48 characters a line at the fake
+ * layout's metrics): nine four-letter words fill a line.
+ */
+export const FIXTURES: Record<string, JSONContent> = {
+  /** One paragraph of 24 lines, split across three pages. */
+  longParagraph: doc(paragraph(words(216))),
+
+  /** Headings between paragraphs; the second heading would be left at the foot of page 1. */
+  mixedHeadings: doc(
+    paragraph(words(81)),
+    heading(2, "Second heading"),
+    paragraph(words(45, "b")),
+    heading(1, "Part two"),
+    heading(3, "Subsection"),
+    paragraph(words(90, "c")),
+    heading(2, "Closing"),
+    paragraph(words(27, "d")),
+  ),
+
+  /** Bullet and ordered lists whose items wrap over several lines, one nested. */
+  lists: doc(
+    paragraph(words(18)),
+    {
+      type: "bulletList",
+      content: Array.from({ length: 6 }, (_, i) => listItem(words(20, "b", i * 20 + 1))),
+    },
+    {
+      type: "orderedList",
+      attrs: { start: 1 },
+      content: [
+        listItem(words(30, "c")),
+        {
+          type: "listItem",
+          content: [
+            paragraph(words(12, "d")),
+            { type: "bulletList", content: [listItem(words(40, "e")), listItem(words(40, "f"))] },
+          ],
+        },
+        listItem(words(30, "g")),
+      ],
+    },
+  ),
+
+  /** Empty paragraphs, which still take a line each, around short text. */
+  emptyBlocks: doc(
+    ...Array.from({ length: 12 }, () => paragraph()),
+    paragraph(words(9)),
+    ...Array.from({ length: 10 }, () => paragraph()),
+  ),
+
+  /** Words longer than a line, which can only wrap mid-word, one of them crossing a page. */
+  unbreakableWords: doc(
+    paragraph(words(81)),
+    paragraph("x".repeat(200)),
+    paragraph(`${words(4)} ${"y".repeat(150)} ${words(4, "b")}`),
+    paragraph("z".repeat(700)),
+  ),
+
+  /** A hard page break part way down the first page. */
+  hardBreak: doc(paragraph(words(27)), { type: "pageBreak" }, paragraph(words(27, "b"))),
+};
+
+/**
+ * Pleading paper with 26 lines a page, whose grid line (288 / 26 px rounded down to
+ * layout units) leaves part of a pixel below each page's last line. Sections of
+ * different lengths split mid-paragraph, and move their heading on where it would end
+ * a page.
+ */
+export const PLEADING_DOCUMENT: JSONContent = {
+  type: "doc",
+  attrs: { pleading: { enabled: true, linesPerPage: 26 } },
+  content: Array.from({ length: 6 }, (_, i) => [
+    heading(2, `Section ${i + 1}`),
+    paragraph(words(60 + 9 * i, "a", i * 200 + 1)),
+    paragraph(),
+    {
+      type: "bulletList",
+      content: [listItem(words(20, "b", i * 40 + 1)), listItem(words(20, "b", i * 40 + 21))],
+    },
+    paragraph(words(45, "c", i * 50 + 1)),
+  ]).flat(),
+};
+
+const cell = (text: string, header = false): JSONContent => ({
+  type: header ? "tableHeader" : "tableCell",
+  content: [paragraph(text)],
+});
+
+const row = (...cells: JSONContent[]): JSONContent => ({ type: "tableRow", content: cells });
+
+const signatureBlock = (party: string, name: string, title: string): JSONContent => ({
+  type: "signatureBlock",
+  attrs: { party, name, title },
+});
+
+/** A paragraph of `count` words with a footnote of `noteWords` words after each word in `after`. */
+const noted = (count: number, prefix: string, after: number[], noteWords: number): JSONContent => ({
+  type: "paragraph",
+  content: words(count, prefix)
+    .split(" ")
+    .flatMap((word, i) => [
+      { type: "text", text: i === 0 ? word : ` ${word}` },
+      ...(after.includes(i) ? [footnote(`${prefix}${i}`, words(noteWords, "n", i + 1))] : []),
+    ]),
+});
+
+/**
+ * Documents with the editor's other block nodes, for comparing the screen with headless
+ * pagination: their breaks depend on how each engine sizes tables, footnotes, signature
+ * blocks and tables of contents.
+ */
+export const STRUCTURED_FIXTURES: Record<string, JSONContent> = {
+  /** A table whose rows wrap, split across pages below its header row. */
+  table: doc(
+    paragraph(words(50)),
+    {
+      type: "table",
+      content: [
+        row(cell("Item", true), cell("Terms", true)),
+        ...Array.from({ length: 8 }, (_, i) => row(cell(words(3, "r", i * 3 + 1)), cell(words(5 + i, "t", i * 20)))),
+      ],
+    },
+    paragraph(words(30, "b")),
+  ),
+
+  /** Footnotes of one and two lines whose references fall near the foot of a page. */
+  footnotes: doc(
+    paragraph(words(60)),
+    noted(40, "b", [12, 35], 20),
+    noted(50, "c", [3, 20, 45], 8),
+    paragraph(words(70, "d")),
+    noted(30, "e", [25], 30),
+  ),
+
+  /** Signature blocks after text, the first kept on a page with the paragraph before it. */
+  signatureBlocks: doc(
+    paragraph(words(80)),
+    paragraph(words(20, "b")),
+    signatureBlock("Acme Ltd", "J. Smith", "Director"),
+    paragraph(words(40, "c")),
+    signatureBlock("Beta LLC", "A. Jones", ""),
+  ),
+
+  /** A table of contents listing headings of several lengths, on the pages that follow it. */
+  tableOfContents: doc(
+    { type: "tableOfContents" },
+    heading(1, "Agreement"),
+    paragraph(words(60)),
+    heading(2, "Definitions and interpretation of this agreement"),
+    paragraph(words(90, "b")),
+    heading(3, "Schedule"),
+    paragraph(words(40, "c")),
+  ),
+};
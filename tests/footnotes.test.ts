@@ -0,0 +1,96 @@
+import { Editor } from "@tiptap/core";
+import type { JSONContent } from "@tiptap/core";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { documentExtensions } from "@/app/extensions";
+import { getNotes } from "@/app/extensions/Footnotes";
+import { collectNotes } from "@/app/utils/footnotes";
+
+import { annotated, doc, footnote, paragraph, words } from "./fixtures/documents";
+
+let editor: Editor | null = null;
+
+afterEach(() => {
+  editor?.destroy();
+  editor = null;
+});
+
+function mount(content: JSONContent): Editor {
+  const element = document.createElement("div");
+  editor = new Editor({ element, extensions: documentExtensions, content });
+  return editor;
+}
+
+/** The notes kept as the doc changed match a fresh read, and so do the numbers and measuring box drawn. */
+function expectNotesInSync(e: Editor) {
+  const notes = getNotes(e.state);
+  expect(notes).toEqual(collectNotes(e.state.doc));
+  const root = e.view.dom;
+  const numbers = Array.from(root.querySelectorAll("sup[data-footnote-ref]")).map((el) =>
+    el.getAttribute("data-number"),
+  );
+  expect(numbers).toEqual(notes.map((n) => String(n.number)));
+  const measured = Array.from(root.querySelectorAll(".pm-footnote-measure [data-footnote-id]")).map((el) => [
+    el.getAttribute("data-footnote-id"),
+    el.textContent,
+  ]);
+  const footnotes = e.state.doc.attrs.notePlacement !== "endnotes";
+  expect(measured).toEqual(footnotes ? notes.map((n) => [n.id, `${n.number}${n.text}`]) : []);
+}
+
+describe("footnote state", () => {
+  it("renumbers the notes after one inserted before them", () => {
+    const e = mount(doc(annotated(words(4), "a", "b"), annotated(words(4, "b"), "", "c")));
+    e.chain().setTextSelection(1).insertFootnote("First").run();
+    expectNotesInSync(e);
+    expect(getNotes(e.state).map((n) => n.text)).toEqual(["First", "Note a", "Note b", "Note c"]);
+  });
+
+  it("keeps the notes outside an edit and drops deleted ones", () => {
+    const e = mount(doc(annotated(words(4), "a", "b"), paragraph(words(9)), annotated(words(4, "c"), "c")));
+    const [, b] = getNotes(e.state);
+    e.chain()
+      .insertContentAt(e.state.doc.content.size - 1, " more")
+      .run();
+    expectNotesInSync(e);
+    e.chain()
+      .deleteRange({ from: b.pos - 2, to: b.pos + 1 })
+      .run();
+    expectNotesInSync(e);
+    expect(getNotes(e.state).map((n) => n.id)).toEqual(["a", "c"]);
+  });
+
+  it("follows note text changes and the note placement", () => {
+    const e = mount(doc(annotated(words(3), "a", "b", "c")));
+    e.commands.updateFootnote("b", "Changed");
+    expectNotesInSync(e);
+    expect(getNotes(e.state)[1].text).toBe("Changed");
+    e.commands.setNotePlacement("endnotes");
+    expectNotesInSync(e);
+    e.commands.setNotePlacement("footnotes");
+    expectNotesInSync(e);
+  });
+
+  it("gives a pasted copy of a reference an id of its own", () => {
+    const e = mount(doc(annotated(words(3), "a"), paragraph(words(3, "b"))));
+    e.chain()
+      .insertContentAt(e.state.doc.content.size - 1, footnote("a", "Note a"))
+      .run();
+    expectNotesInSync(e);
+    const [first, copy] = getNotes(e.state);
+    expect(first.id).toBe("a");
+    expect(copy.id).not.toBe("a");
+  });
+
+  it("stays in sync through undo", () => {
+    const e = mount(doc(annotated(words(4), "a", "b"), annotated(words(4, "c"), "c")));
+    e.chain().setTextSelection(3).insertFootnote("New").run();
+    e.chain().deleteRange({ from: 1, to: 12 }).run();
+    expectNotesInSync(e);
+    e.commands.undo();
+    expectNotesInSync(e);
+    e.commands.undo();
+    expectNotesInSync(e);
+    expect(getNotes(e.state).map((n) => n.id)).toEqual(["a", "b", "c"]);
+  });
+});
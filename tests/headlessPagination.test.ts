@@ -0,0 +1,52 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+
+import { paginateDocument } from "@/app/utils/headlessPagination";
+
+import { FIXTURES, PLEADING_DOCUMENT, STRUCTURED_FIXTURES } from "./fixtures/documents";
+import { measureText } from "./support/cssLayout";
+import type { PaginatedEditor } from "./support/editorPagination";
+import { mountEditor, settle } from "./support/editorPagination";
+import { EditorStylesheet } from "./support/editorStylesheet";
+import { installFakeLayout } from "./support/fakeLayout";
+
+const SAMPLES = { ...FIXTURES, ...STRUCTURED_FIXTURES, pleading: PLEADING_DOCUMENT };
+
+const stylesheet = new EditorStylesheet();
+
+let restoreLayout: () => void;
+let mounted: PaginatedEditor | null = null;
+
+beforeAll(() => {
+  restoreLayout = installFakeLayout();
+});
+
+afterAll(() => restoreLayout());
+
+afterEach(() => {
+  mounted?.destroy();
+  mounted = null;
+});
+
+/**
+ * The screen is set by the app's stylesheet, and both engines measure text in the same
+ * font: headless pagination must size every block as the CSS does to break the pages
+ * alike.
+ */
+describe.each(Object.keys(SAMPLES))("%s", (name) => {
+  it.each([{}, { orphanLines: 1, widowLines: 1 }, { orphanLines: 3, widowLines: 3 }])(
+    "breaks where the screen does with %o",
+    (lineRules) => {
+      mounted = mountEditor(SAMPLES[name as keyof typeof SAMPLES], { styles: stylesheet, ...lineRules });
+      const runs = settle(mounted);
+      const screen = runs[runs.length - 1].positions.map((p) => p.pos);
+
+      const headless = paginateDocument(mounted.editor.state.doc, {
+        metrics: mounted.metrics,
+        measureText,
+        ...lineRules,
+      });
+      expect(headless.breaks).toEqual(screen);
+      expect(headless.pageCount).toBe(screen.length + 1);
+    },
+  );
+});
@@ -0,0 +1,176 @@
+import { PDFDocument } from "pdf-lib";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+
+import { anchorsToDocPositions } from "@/app/hooks/useEditorPagination";
+import { renderPdf } from "@/app/utils/pdfExport";
+
+import { FIXTURES, PLEADING_DOCUMENT, STRUCTURED_FIXTURES } from "./fixtures/documents";
+import type { PaginatedEditor } from "./support/editorPagination";
+import { breaksKey, mountEditor, pageContentBox, printedPages, screenLines, settle } from "./support/editorPagination";
+import { EditorStylesheet } from "./support/editorStylesheet";
+import { installFakeLayout } from "./support/fakeLayout";
+
+/**
+ * Where each fixture's pages after the first start, as doc positions, once pagination
+ * has settled. Worked out by hand from the fake layout's metrics (see the fixtures).
+ */
+const EXPECTED_BREAKS: Record<keyof typeof FIXTURES, number[]> = {
+  // 11 lines on page 1; page 2 keeps 11 so the last page has the two widow lines.
+  longParagraph: [496, 991],
+  // "Second heading" moves with its paragraph; "Part two" and "Subsection" go together.
+  mixedHeadings: [407, 649, 1031],
+  // The nested list's first item and the last item move whole rather than leave one line behind.
+  lists: [299, 608, 929, 1337],
+  // Nine empty paragraphs fill a page exactly.
+  emptyBlocks: [19, 81],
+  // The 200-character word splits mid-word; the 700-character one keeps three lines on page 2.
+  unbreakableWords: [503, 945],
+  hardBreak: [137],
+};
+
+const strip = (text: string) => text.replace(/\s+/g, "");
+
+let restoreLayout: () => void;
+let mounted: PaginatedEditor | null = null;
+
+beforeAll(() => {
+  restoreLayout = installFakeLayout();
+});
+
+afterAll(() => restoreLayout());
+
+afterEach(() => {
+  mounted?.destroy();
+  mounted = null;
+});
+
+function paginate(name: string) {
+  mounted = mountEditor(FIXTURES[name]);
+  const runs = settle(mounted);
+  return { paginated: mounted, runs, last: runs[runs.length - 1] };
+}
+
+// Layout in fractional pixels can leave a line's top a hair above its page's.
+const ROUNDING_PX = 0.01;
+
+/** Text of each page on screen: the lines that start in its content area. */
+function screenPages(paginated: PaginatedEditor, last: ReturnType<typeof settle>[number]): string[] {
+  const lines = screenLines(paginated.root);
+  return Array.from({ length: last.positions.length + 1 }, (_, i) => {
+    const box = pageContentBox(last.pagination, i);
+    return strip(
+      lines
+        .filter((l) => l.top + ROUNDING_PX >= box.top && l.top + ROUNDING_PX < box.bottom)
+        .map((l) => l.text)
+        .join(""),
+    );
+  });
+}
+
+describe.each(Object.keys(FIXTURES))("%s", (name) => {
+  it("breaks at the expected positions", () => {
+    const { last } = paginate(name);
+    expect(last.positions.map((p) => p.pos)).toEqual(EXPECTED_BREAKS[name]);
+  });
+
+  it("keeps every line inside a page", () => {
+    const { paginated, last } = paginate(name);
+    const pageCount = last.positions.length + 1;
+    const boxes = Array.from({ length: pageCount }, (_, i) => pageContentBox(last.pagination, i));
+    for (const line of screenLines(paginated.root)) {
+      const box = boxes.find((b) => line.top >= b.top && line.top < b.bottom);
+      expect(box, `line "${line.text}" at ${line.top} starts outside every page`).toBeDefined();
+      expect(line.bottom, `line "${line.text}" runs past its page`).toBeLessThanOrEqual(box!.bottom);
+    }
+  });
+
+  it("settles, and gives the same breaks on every later run", () => {
+    const { paginated, runs, last } = paginate(name);
+    // The spacers the first run adds are measured out, so the second run finds its breaks.
+    expect(runs).toHaveLength(2);
+    for (let i = 0; i < 3; i++) {
+      expect(breaksKey(paginated.run().positions)).toBe(breaksKey(last.positions));
+    }
+  });
+
+  it("maps the same anchors to the same positions every time", () => {
+    const { paginated, last } = paginate(name);
+    const anchors = last.pagination.breaks;
+    const first = anchorsToDocPositions(paginated.editor, anchors);
+    expect(anchorsToDocPositions(paginated.editor, anchors)).toEqual(first);
+    expect(first).toEqual(last.positions);
+  });
+
+  it("exports the pages shown on screen", async () => {
+    const { paginated, last } = paginate(name);
+    const { editor } = paginated;
+    const breaks = last.positions.map((p) => p.pos);
+    const boundaries = [0, ...breaks, editor.state.doc.content.size];
+    const screen = screenPages(paginated, last);
+    const exported = boundaries.slice(1).map((to, i) => strip(editor.state.doc.textBetween(boundaries[i], to, "")));
+    expect(exported).toEqual(screen);
+
+    const pdf = await PDFDocument.load(await renderPdf({ doc: editor.getJSON(), breaks }));
+    expect(pdf.getPageCount()).toBe(screen.length);
+  });
+});
+
+describe("pleading paper", () => {
+  const LINES_PER_PAGE = 26;
+
+  function paginatePleading() {
+    mounted = mountEditor(PLEADING_DOCUMENT);
+    const runs = settle(mounted);
+    return { paginated: mounted, runs, last: runs[runs.length - 1], gridPx: mounted.gridPx! };
+  }
+
+  it("puts every line on a numbered grid line of its page", () => {
+    const { paginated, last, gridPx } = paginatePleading();
+    const pageCount = last.positions.length + 1;
+    expect(pageCount).toBeGreaterThan(3);
+    const firstLines = new Set<number>();
+    for (const line of screenLines(paginated.root)) {
+      const page = Math.floor((line.top - last.pagination.topMarginPx) / last.pagination.pageStridePx);
+      const gridLine = (line.top - pageContentBox(last.pagination, page).top) / gridPx;
+      expect(gridLine, `line "${line.text}" is off the grid`).toBeCloseTo(Math.round(gridLine), 6);
+      expect(Math.round(gridLine), `line "${line.text}" is below the last grid line`).toBeLessThan(LINES_PER_PAGE);
+      if (Math.round(gridLine) === 0) firstLines.add(page);
+    }
+    // Every page starts on its first line; the next page is not shifted by the last one's remainder.
+    expect(firstLines.size).toBe(pageCount);
+  });
+
+  it("settles, and gives the same breaks on every later run", () => {
+    const { paginated, runs, last } = paginatePleading();
+    expect(runs).toHaveLength(2);
+    expect(breaksKey(paginated.run().positions)).toBe(breaksKey(last.positions));
+  });
+
+  it("exports the pages shown on screen", async () => {
+    const { paginated, last } = paginatePleading();
+    const breaks = last.positions.map((p) => p.pos);
+    const pdf = await PDFDocument.load(await renderPdf({ doc: paginated.editor.getJSON(), breaks }));
+    expect(pdf.getPageCount()).toBe(breaks.length + 1);
+  });
+});
+
+// Print is laid out by the stylesheet's print rules, so the screen is set in the same CSS.
+describe("print", () => {
+  const samples = { ...FIXTURES, ...STRUCTURED_FIXTURES, pleading: PLEADING_DOCUMENT };
+  const stylesheet = new EditorStylesheet();
+
+  it.each(Object.keys(samples))("breaks %s at every spacer into pages no taller than a page", (name) => {
+    mounted = mountEditor(samples[name as keyof typeof samples], { styles: stylesheet });
+    const runs = settle(mounted);
+    const last = runs[runs.length - 1];
+    const screen = screenPages(mounted, last);
+
+    const printed = printedPages(mounted);
+    expect(printed.map((page) => strip(page.text))).toEqual(screen);
+    for (const [i, page] of printed.entries()) {
+      expect(page.heightPx, `page ${i + 1} prints taller than its content area`).toBeLessThanOrEqual(
+        mounted.metrics.contentHeightPx,
+      );
+    }
+  });
+});
@@ -0,0 +1,418 @@
+import type { FontFace, TextMeasurer } from "@/app/utils/documentLayout";
+
+import type { ComputedStyle, EditorStylesheet } from "./editorStylesheet";
+import type { Box, Fragment, LaidOut } from "./fakeLayout";
+
+/**
+ * Layout by the editor's stylesheet, for `layOut` with an `EditorStylesheet`: blocks
+ * take the margins, padding, borders and heights the CSS gives them, with margins
+ * collapsing between siblings and through parents as in a browser; text is set at each
+ * element's font size and weight in a made-up proportional font (`measureText`), one
+ * line height per line. Tables lay out with fixed, equal columns and collapsed borders,
+ * flex rows side by side, and absolutely positioned boxes (footnote areas, the notes'
+ * measuring box) against their parent without taking space in the flow.
+ *
+ * Not modelled: vertical alignment (inline content never makes a line taller than its
+ * block's line height), floats, and the text of `::before` and `::after` on blocks.
+ */
+
+type Face = "regular" | "bold" | "mono";
+
+// Advances of the layout's font, in em. Spaces are narrower than other characters.
+const ADVANCE_EM: Record<Face, number> = { regular: 0.5, bold: 0.55, mono: 0.6 };
+const SPACE_ADVANCE_EM = 0.25;
+
+const EPSILON_PX = 1e-6;
+
+function advancePx(ch: string, face: Face, fontSizePx: number): number {
+  return fontSizePx * (face !== "mono" && /\s/.test(ch) ? SPACE_ADVANCE_EM : ADVANCE_EM[face]);
+}
+
+const faceOf = (style: ComputedStyle): Face => (style.mono ? "mono" : style.bold ? "bold" : "regular");
+
+const widthOf = (text: string, face: Face, fontSizePx: number) =>
+  Array.from(text).reduce((sum, ch) => sum + advancePx(ch, face, fontSizePx), 0);
+
+const FACES: Record<FontFace, Face> = {
+  regular: "regular",
+  italic: "regular",
+  bold: "bold",
+  boldItalic: "bold",
+  mono: "mono",
+};
+
+/** Measures text in the layout's font, for `paginateDocument`. */
+export const measureText: TextMeasurer = (text, face, fontSizePx) => widthOf(text, FACES[face], fontSizePx);
+
+/**
+ * One item of a line: a character; a box, which is an inline-block (`atomic`, with a
+ * break opportunity on each side) or the padding, margins or generated text of an
+ * inline element; or a line break.
+ */
+type InlineItem =
+  | { kind: "char"; node: Text; offset: number; space: boolean; widthPx: number; owners: Element[] }
+  | { kind: "box"; element: Element | null; atomic: boolean; widthPx: number; owners: Element[] }
+  | { kind: "br" };
+
+/** Whether a word ends before the item: at a space, a line break or an inline-block. */
+const endsWord = (item: InlineItem) =>
+  item.kind === "br" || (item.kind === "char" && item.space) || (item.kind === "box" && item.atomic);
+
+const BLOCK_DISPLAYS = new Set(["block", "flex", "table", "list-item"]);
+
+/** What `contents` laid out: the bottom of its last line or block and the margin left below it. */
+type Placed = { bottom: number; marginPx: number };
+
+class CssFlow {
+  boxes = new Map<Element, Box>();
+  text = new Map<Text, Fragment[]>();
+
+  constructor(readonly styleOf: (el: Element) => ComputedStyle) {}
+
+  private inFlow(node: Node): boolean {
+    if (!(node instanceof Element)) return node instanceof Text;
+    const style = this.styleOf(node);
+    return style.display !== "none" && style.position !== "absolute";
+  }
+
+  private isBlock(node: Node): node is Element {
+    return node instanceof Element && BLOCK_DISPLAYS.has(this.styleOf(node).display);
+  }
+
+  private extend(el: Element, box: Box) {
+    const prev = this.boxes.get(el);
+    this.boxes.set(
+      el,
+      prev
+        ? {
+            top: Math.min(prev.top, box.top),
+            bottom: Math.max(prev.bottom, box.bottom),
+            left: Math.min(prev.left, box.left),
+            right: Math.max(prev.right, box.right),
+          }
+        : box,
+    );
+  }
+
+  /** Whether a block's top margin collapses with its first child's: nothing separates them. */
+  private collapsesTop(style: ComputedStyle): boolean {
+    return style.display === "block" && style.padding.top === 0 && style.border.top === 0;
+  }
+
+  /** The top margin of `el` collapsed with those of the first blocks inside it. */
+  private leadingMargin(el: Element): number {
+    const style = this.styleOf(el);
+    if (!this.collapsesTop(style)) return style.margin.top;
+    const first = Array.from(el.childNodes).find((child) => this.inFlow(child));
+    return first && this.isBlock(first) ? Math.max(style.margin.top, this.leadingMargin(first)) : style.margin.top;
+  }
+
+  private collect(nodes: Node[], owners: Element[], out: InlineItem[]) {
+    const gap = (widthPx: number, element: Element) => {
+      if (widthPx > 0) out.push({ kind: "box", element: null, atomic: false, widthPx, owners: [...owners, element] });
+    };
+    for (const node of nodes) {
+      if (node instanceof Text) {
+        const face = faceOf(this.styleOf(node.parentElement!));
+        const { fontSizePx } = this.styleOf(node.parentElement!);
+        for (let offset = 0; offset < node.data.length; offset++) {
+          const ch = node.data[offset];
+          const widthPx = advancePx(ch, face, fontSizePx);
+          out.push({ kind: "char", node, offset, space: /\s/.test(ch), widthPx, owners });
+        }
+        continue;
+      }
+      if (!(node instanceof Element) || !this.inFlow(node) || node.tagName === "IMG") continue;
+      if (node.tagName === "BR") {
+        out.push({ kind: "br" });
+        continue;
+      }
+      const style = this.styleOf(node);
+      const face = faceOf(style);
+      if (style.display === "inline-block" || style.display === "inline-flex") {
+        out.push({ kind: "box", element: node, atomic: true, widthPx: this.atomWidth(node, style), owners });
+        continue;
+      }
+      gap(style.margin.left + style.border.left + style.padding.left, node);
+      gap(widthOf(style.before, face, style.fontSizePx), node);
+      this.collect(Array.from(node.childNodes), [...owners, node], out);
+      gap(widthOf(style.after, face, style.fontSizePx), node);
+      gap(style.padding.right + style.border.right + style.margin.right, node);
+    }
+  }
+
+  /** Width of an inline-block, margins included: as set, or its content's. */
+  private atomWidth(el: Element, style: ComputedStyle): number {
+    const inner = style.padding.left + style.padding.right + style.border.left + style.border.right;
+    const widthPx = style.widthPx ?? Math.max(style.minWidthPx, this.maxContent(el) + inner);
+    return widthPx + style.margin.left + style.margin.right;
+  }
+
+  /** Width of the content of `el` set on one line. */
+  private maxContent(el: Element): number {
+    const items: InlineItem[] = [];
+    this.collect(Array.from(el.childNodes), [], items);
+    const style = this.styleOf(el);
+    const generated = widthOf(style.before + style.after, faceOf(style), style.fontSizePx);
+    return items.reduce((sum, item) => sum + (item.kind === "br" ? 0 : item.widthPx), generated);
+  }
+
+  /** Lays out inline items as lines starting at `y`; returns the bottom of the last line. */
+  private lines(items: InlineItem[], y: number, left: number, right: number, lineHeightPx: number): number {
+    if (items.length === 0) return y;
+    const maxPx = right - left;
+    let top = y;
+    let x = 0;
+    let lineCount = 0;
+    let lineUsed = false;
+
+    const newLine = () => {
+      top += lineHeightPx;
+      x = 0;
+      lineUsed = false;
+    };
+    const fits = (widthPx: number) => x + widthPx <= maxPx + EPSILON_PX;
+    const place = (item: InlineItem, widthPx: number) => {
+      const box = { top, bottom: top + lineHeightPx, left: left + x, right: left + x + widthPx };
+      if (item.kind === "char") {
+        const fragments = this.text.get(item.node) ?? [];
+        const last = fragments[fragments.length - 1];
+        if (last && last.top === top && last.end === item.offset) last.end++;
+        else {
+          fragments.push({
+            start: item.offset,
+            end: item.offset + 1,
+            top,
+            bottom: box.bottom,
+            left: box.left,
+            charWidthPx: item.widthPx,
+          });
+        }
+        this.text.set(item.node, fragments);
+      } else if (item.kind === "box" && item.element) {
+        this.extend(item.element, box);
+      }
+      if (item.kind !== "br") item.owners.forEach((owner) => this.extend(owner, box));
+      x += widthPx;
+      if (!lineUsed) lineCount++;
+      lineUsed = true;
+    };
+
+    let i = 0;
+    while (i < items.length) {
+      const item = items[i];
+      if (item.kind === "br") {
+        // A break ends its line; an empty line still takes its height.
+        if (!lineUsed) lineCount++;
+        newLine();
+        i++;
+        continue;
+      }
+      if (item.kind === "char" && item.space) {
+        // Spaces hang at the end of a full line instead of wrapping.
+        place(item, fits(item.widthPx) ? item.widthPx : 0);
+        i++;
+        continue;
+      }
+      let end = i + 1;
+      if (!endsWord(item)) while (end < items.length && !endsWord(items[end])) end++;
+      const word = items.slice(i, end) as Exclude<InlineItem, { kind: "br" }>[];
+      if (x > 0 && !fits(word.reduce((sum, w) => sum + w.widthPx, 0))) newLine();
+      for (const piece of word) {
+        if (x > 0 && !fits(piece.widthPx)) newLine();
+        place(piece, piece.widthPx);
+      }
+      i = end;
+    }
+    // A trailing line break opens no line of its own.
+    return y + lineCount * lineHeightPx;
+  }
+
+  /**
+   * Lays out the in-flow children of `el` from `top`: blocks stacked, inline runs as
+   * lines. With `absorbed`, the first block's top margin was already placed above `el`.
+   */
+  private contents(el: Element, top: number, left: number, right: number, absorbed: boolean): Placed {
+    const style = this.styleOf(el);
+    let y = top;
+    let marginPx = 0;
+    let first = true;
+    let run: Node[] = [];
+    const flush = () => {
+      const items: InlineItem[] = [];
+      this.collect(run, [], items);
+      run = [];
+      if (items.length === 0) return;
+      y = this.lines(items, y + marginPx, left, right, style.lineHeightPx);
+      marginPx = 0;
+      first = false;
+    };
+    for (const child of Array.from(el.childNodes)) {
+      if (!this.inFlow(child)) continue;
+      if (!this.isBlock(child)) {
+        run.push(child);
+        continue;
+      }
+      flush();
+      ({ bottom: y, marginPx } = this.block(child, y, marginPx, left, right, first && absorbed));
+      first = false;
+    }
+    flush();
+    return { bottom: y, marginPx };
+  }
+
+  /** Lays out the absolutely positioned children of `el` against its `box`. */
+  private absolutes(el: Element, box: Box) {
+    for (const child of Array.from(el.children)) {
+      const style = this.styleOf(child);
+      if (style.display === "none" || style.position !== "absolute") continue;
+      let top = box.top + (style.insetTopPx ?? 0);
+      if (style.insetTopPx === null && style.insetBottomPx !== null) {
+        const probe = new CssFlow(this.styleOf);
+        const heightPx = probe.block(child, 0, 0, box.left, box.right, true).bottom;
+        top = box.bottom - style.insetBottomPx - heightPx;
+      }
+      this.block(child, top, 0, box.left, box.right, true);
+    }
+  }
+
+  /**
+   * Lays out block `el` below `y`, after a margin of `marginPx` left by what came before
+   * (already placed if `absorbed`). Returns its bottom and the margin it leaves below.
+   */
+  block(el: Element, y: number, marginPx: number, left: number, right: number, absorbed = false): Placed {
+    const style = this.styleOf(el);
+    const top = absorbed ? y : y + Math.max(marginPx, this.leadingMargin(el));
+    const box = { top, bottom: top, left: left + style.margin.left, right: right - style.margin.right };
+    const innerLeft = box.left + style.border.left + style.padding.left;
+    const innerRight = box.right - style.border.right - style.padding.right;
+    const innerTop = top + style.border.top + style.padding.top;
+
+    let inner: Placed;
+    if (style.display === "table") inner = { bottom: this.table(el, top, box.left, box.right), marginPx: 0 };
+    else if (style.display === "flex") inner = { bottom: this.flex(el, innerTop, innerLeft, innerRight), marginPx: 0 };
+    else inner = this.contents(el, innerTop, innerLeft, innerRight, this.collapsesTop(style));
+
+    let leftBelow = style.margin.bottom;
+    if (style.heightPx !== null) {
+      box.bottom = top + style.heightPx;
+    } else if (style.display === "block" && style.padding.bottom === 0 && style.border.bottom === 0) {
+      // The last child's bottom margin collapses through.
+      box.bottom = inner.bottom;
+      leftBelow = Math.max(leftBelow, inner.marginPx);
+    } else {
+      box.bottom = inner.bottom + inner.marginPx + style.padding.bottom + style.border.bottom;
+    }
+    this.boxes.set(el, box);
+    this.absolutes(el, box);
+    return { bottom: box.bottom, marginPx: leftBelow };
+  }
+
+  /** Lays out a table's rows in fixed, equal columns from `top`; returns the table's bottom. */
+  private table(el: Element, top: number, left: number, right: number): number {
+    const rows = Array.from(el.querySelectorAll("tr")).filter(
+      (row) => row.closest("table") === el && this.styleOf(row).display !== "none",
+    );
+    const cellsOf = (row: Element) =>
+      Array.from(row.children).filter((cell) => this.styleOf(cell).display === "table-cell") as HTMLTableCellElement[];
+    const columns = Math.max(1, ...rows.map((row) => cellsOf(row).reduce((n, cell) => n + cell.colSpan, 0)));
+    const columnPx = (right - left) / columns;
+
+    let y = top;
+    for (const row of rows) {
+      // Collapsed borders: each cell's box holds half of the borders around it.
+      let x = left;
+      let heightPx = 0;
+      const laidOut: [HTMLTableCellElement, Box][] = [];
+      for (const cell of cellsOf(row)) {
+        const style = this.styleOf(cell);
+        const box = { top: y, bottom: y, left: x, right: x + cell.colSpan * columnPx };
+        x = box.right;
+        const inner = this.contents(
+          cell,
+          y + style.border.top / 2 + style.padding.top,
+          box.left + style.border.left / 2 + style.padding.left,
+          box.right - style.border.right / 2 - style.padding.right,
+          false,
+        );
+        const contentPx = inner.bottom + inner.marginPx - y + style.padding.bottom + style.border.bottom / 2;
+        heightPx = Math.max(heightPx, contentPx, style.heightPx ?? 0);
+        laidOut.push([cell, box]);
+      }
+      for (const [cell, box] of laidOut) {
+        box.bottom = y + heightPx;
+        this.boxes.set(cell, box);
+        this.absolutes(cell, box);
+      }
+      this.boxes.set(row, { top: y, bottom: y + heightPx, left, right });
+      y += heightPx;
+    }
+    return y;
+  }
+
+  /** Lays out a flex row's items side by side from `top`; returns the bottom of the tallest. */
+  private flex(el: Element, top: number, left: number, right: number): number {
+    const items = Array.from(el.children).filter((child) => this.inFlow(child));
+    const styles = items.map((item) => this.styleOf(item));
+    const widths = items.map((item, i) => {
+      const style = styles[i];
+      const inner = style.padding.left + style.padding.right + style.border.left + style.border.right;
+      if (style.flexGrow > 0) return style.minWidthPx;
+      return style.widthPx ?? Math.max(style.minWidthPx, this.maxContent(item) + inner);
+    });
+    const margins = styles.map((style) => style.margin.left + style.margin.right);
+    const freePx = right - left - [...widths, ...margins].reduce((sum, w) => sum + w, 0);
+    if (freePx < 0) {
+      // The first item sized by its text shrinks to fit, wrapping its text.
+      const shrinking = styles.findIndex((style) => style.flexGrow === 0 && style.widthPx === null);
+      if (shrinking !== -1) widths[shrinking] = Math.max(0, widths[shrinking] + freePx);
+    } else {
+      const grow = styles.reduce((sum, style) => sum + style.flexGrow, 0);
+      styles.forEach((style, i) => {
+        if (style.flexGrow > 0) widths[i] += (freePx * style.flexGrow) / grow;
+      });
+    }
+
+    let x = left;
+    let bottom = top;
+    items.forEach((item, i) => {
+      const style = styles[i];
+      const box = { top, bottom: top, left: x + style.margin.left, right: x + style.margin.left + widths[i] };
+      x = box.right + style.margin.right;
+      const inner = this.contents(
+        item,
+        top + style.border.top + style.padding.top,
+        box.left + style.border.left + style.padding.left,
+        box.right - style.border.right - style.padding.right,
+        false,
+      );
+      box.bottom = Math.max(
+        inner.bottom + inner.marginPx + style.padding.bottom + style.border.bottom,
+        top + (style.heightPx ?? 0),
+      );
+      this.boxes.set(item, box);
+      bottom = Math.max(bottom, box.bottom);
+    });
+    return bottom;
+  }
+
+  /** Lays out the editor root's content `widthPx` wide; returns its height. */
+  root(root: HTMLElement, widthPx: number): number {
+    const { bottom, marginPx } = this.contents(root, 0, 0, widthPx, false);
+    const heightPx = bottom + marginPx;
+    this.absolutes(root, { top: 0, bottom: heightPx, left: 0, right: widthPx });
+    return heightPx;
+  }
+}
+
+/** Lays out `root` by `stylesheet` at `widthPx`, on pleading paper's grid with `gridPx`. */
+export function layOutWithStylesheet(
+  root: HTMLElement,
+  widthPx: number,
+  gridPx: number | null,
+  stylesheet: EditorStylesheet,
+): LaidOut {
+  const flow = new CssFlow(stylesheet.resolver(gridPx));
+  const heightPx = flow.root(root, widthPx);
+  return { heightPx, boxes: flow.boxes, text: flow.text };
+}
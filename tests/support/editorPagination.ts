@@ -0,0 +1,181 @@
+import { Editor } from "@tiptap/core";
+import type { JSONContent } from "@tiptap/core";
+
+import { PAGE_GAP_PX } from "@/app/components/PageContainer";
+import { documentExtensions } from "@/app/extensions";
+import type { PaginationBreak } from "@/app/extensions/Pagination";
+import { Pagination } from "@/app/extensions/Pagination";
+import { anchorsToDocPositions } from "@/app/hooks/useEditorPagination";
+import type { PaginateOptions, PaginationResult } from "@/app/utils/pageCalculations";
+import { computePageBreaks } from "@/app/utils/pageCalculations";
+import type { PageMetrics, PageSetup } from "@/app/utils/pageSetup";
+import { LAYOUT_UNITS_PER_PX, normalizePageSetup, resolvePageMetrics } from "@/app/utils/pageSetup";
+import { PLEADING_PAGINATION, normalizePleading, pleadingLineHeightPx } from "@/app/utils/pleading";
+
+import { EditorStylesheet } from "./editorStylesheet";
+import type { BlockStyles } from "./fakeLayout";
+import { BLOCK_STYLES, layOut, textFragments } from "./fakeLayout";
+
+/**
+ * A small page, so fixtures span several pages: 5in x 4in with half-inch margins, a
+ * 384 x 288px content area. At the fake layout's metrics that is 48 characters a line
+ * and, for body text, 12 lines a page less the paragraph's top margin.
+ */
+export const TEST_PAGE_SETUP: PageSetup = normalizePageSetup({
+  paperSize: "custom",
+  orientation: "portrait",
+  unit: "in",
+  customSize: { width: 5, height: 4 },
+  margins: { top: 0.5, right: 0.5, bottom: 0.5, left: 0.5 },
+});
+
+export type PaginatedEditor = {
+  editor: Editor;
+  root: HTMLElement;
+  metrics: PageMetrics;
+  /** Pleading paper's grid line height (px), when the document uses it. */
+  gridPx: number | null;
+  /** Lays out, measures and applies the breaks once, as one pass of `useEditorPagination` does. */
+  run: () => { pagination: PaginationResult; positions: PaginationBreak[] };
+  destroy: () => void;
+};
+
+export type MountOptions = Pick<PaginateOptions, "orphanLines" | "widowLines"> & {
+  /** Block styles, or the stylesheet, the fake layout sets the document in. Default: `BLOCK_STYLES`. */
+  styles?: BlockStyles | EditorStylesheet;
+};
+
+/**
+ * An editor with the app's extensions and pagination, mounted in the jsdom document.
+ * Pleading paper in the doc attrs lays out on its grid, paginated as the editor does.
+ */
+export function mountEditor(
+  content: JSONContent,
+  { styles = BLOCK_STYLES, ...options }: MountOptions = {},
+  setup: PageSetup = TEST_PAGE_SETUP,
+): PaginatedEditor {
+  const metrics = resolvePageMetrics(setup);
+  const element = document.createElement("div");
+  document.body.appendChild(element);
+  const editor = new Editor({ element, extensions: [...documentExtensions, Pagination], content });
+  const root = editor.view.dom as HTMLElement;
+  const pleading = normalizePleading(editor.state.doc.attrs.pleading);
+  const gridPx = pleading.enabled ? pleadingLineHeightPx(metrics, pleading) : null;
+
+  const run = () => {
+    layOut(root, metrics.contentWidthPx, gridPx, styles);
+    const pagination = computePageBreaks(root, {
+      pageHeightPx: metrics.contentHeightPx,
+      topMarginPx: metrics.marginTopPx,
+      bottomMarginPx: metrics.marginBottomPx,
+      pageGapPx: PAGE_GAP_PX,
+      ...(pleading.enabled ? PLEADING_PAGINATION : {}),
+      ...options,
+    });
+    const positions = anchorsToDocPositions(editor, pagination.breaks);
+    const betweenSpacerPx = metrics.marginBottomPx + PAGE_GAP_PX + metrics.marginTopPx;
+    editor.commands.setPaginationBreaks(
+      positions,
+      metrics.marginTopPx,
+      betweenSpacerPx,
+      metrics.marginBottomPx,
+      pagination.lastPage,
+    );
+    layOut(root, metrics.contentWidthPx, gridPx, styles);
+    return { pagination, positions };
+  };
+
+  const destroy = () => {
+    editor.destroy();
+    element.remove();
+  };
+
+  return { editor, root, metrics, gridPx, run, destroy };
+}
+
+/** Breaks as `useEditorPagination` keys them: positions, fills in layout units and footnotes. */
+export function breaksKey(positions: PaginationBreak[]): string {
+  const fill = (px: number) => Math.round(px * LAYOUT_UNITS_PER_PX);
+  return positions.map((p) => `${p.pos}+${fill(p.fillPx)}[${p.footnoteIds.join(" ")}]`).join("|");
+}
+
+/**
+ * Runs pagination until applying the breaks no longer changes them, as the editor does
+ * when the spacers it adds are measured again. Returns the runs it took.
+ */
+export function settle(paginated: PaginatedEditor, maxRuns = 5) {
+  const runs = [paginated.run()];
+  while (runs.length < maxRuns) {
+    const next = paginated.run();
+    const done = breaksKey(next.positions) === breaksKey(runs[runs.length - 1].positions);
+    runs.push(next);
+    if (done) break;
+  }
+  return runs;
+}
+
+/** Text nodes of the document, leaving out what pagination and footnotes draw. */
+function contentTextNodes(root: HTMLElement): Text[] {
+  const texts: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+    const parent = n.parentElement;
+    if (parent?.closest(".pm-page-break,.pm-page-bottom-spacer,.pm-footnote-measure")) continue;
+    texts.push(n as Text);
+  }
+  return texts;
+}
+
+export type ScreenLine = { top: number; bottom: number; text: string };
+
+/** Every line of text on screen, from top to bottom. */
+export function screenLines(root: HTMLElement): ScreenLine[] {
+  const lines = new Map<number, ScreenLine>();
+  for (const node of contentTextNodes(root)) {
+    for (const f of textFragments(node)) {
+      const line = lines.get(f.top) ?? { top: f.top, bottom: f.bottom, text: "" };
+      line.text += node.data.slice(f.start, f.end);
+      line.bottom = Math.max(line.bottom, f.bottom);
+      lines.set(f.top, line);
+    }
+  }
+  return [...lines.values()].sort((a, b) => a.top - b.top);
+}
+
+/** Content area of page `index` (0-based) in root coordinates, as the page frames draw it. */
+export function pageContentBox(pagination: PaginationResult, index: number): { top: number; bottom: number } {
+  const top = pagination.topMarginPx + index * pagination.pageStridePx;
+  return { top, bottom: top + pagination.pageHeightPx };
+}
+
+export type PrintedPage = { text: string; heightPx: number };
+
+const PRINT_STYLESHEET = new EditorStylesheet("print");
+
+/**
+ * The pages print gives: the document laid out again by the stylesheet's print rules,
+ * with a new page after every element they break the page after. A page holds the lines
+ * that start on it, and is as tall as the boxes it prints, footnotes included; like
+ * print, it leaves out the margins that end at a page break. The layout stays set for
+ * print until the next `run`.
+ */
+export function printedPages({ root, metrics, gridPx }: PaginatedEditor): PrintedPage[] {
+  layOut(root, metrics.contentWidthPx, gridPx, PRINT_STYLESHEET);
+  const style = PRINT_STYLESHEET.resolver(gridPx);
+  const elements = Array.from(root.querySelectorAll("*"));
+  // Hidden elements have no box, and break no page.
+  const ends = elements
+    .filter((el) => style(el).breakAfter === "page" && el.getClientRects().length > 0)
+    .map((el) => el.getBoundingClientRect().bottom);
+  ends.push(root.getBoundingClientRect().bottom);
+  const tops = [0, ...ends];
+  const boxes = elements.map((el) => el.getBoundingClientRect()).filter((box) => box.bottom > box.top);
+  const pages = ends.map((end, i) => {
+    const printed = boxes.filter((box) => box.top >= tops[i] && box.bottom <= end);
+    return { text: "", heightPx: Math.max(tops[i], ...printed.map((box) => box.bottom)) - tops[i] };
+  });
+  for (const line of screenLines(root)) {
+    pages[tops.filter((top) => top <= line.top).length - 1].text += line.text;
+  }
+  return pages;
+}
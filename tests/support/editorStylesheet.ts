@@ -0,0 +1,355 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * The app's stylesheet (app/globals.css) applied to the editor's DOM the way a browser
+ * cascades it, so the fake layout can set documents in the editor's own CSS instead of
+ * in numbers taken from the code it is compared with. Only what block and line layout
+ * need is resolved: display and position, font size, weight and line height, margins,
+ * padding, border widths, sizes, flex growth, generated `content` and page breaks.
+ *
+ * Tailwind's preflight, which the app loads before these rules, zeroes every margin,
+ * padding and border and sizes boxes border-box; properties no rule sets start from
+ * there. `.editor-shell` is the editor's frame: its rules apply to the editor root
+ * (`.ProseMirror`), and its `.is-pleading` rules only on pleading paper's grid.
+ */
+
+const STYLESHEET_PATH = path.join(__dirname, "../../app/globals.css");
+
+const ROOT_FONT_PX = 16;
+const PX_PER_IN = 96;
+
+export type EditorMedia = "screen" | "print";
+
+type Declaration = { value: string; important: boolean };
+
+type Rule = {
+  selector: string;
+  /** Set for rules on a `::before` or `::after` pseudo-element. */
+  pseudo: "before" | "after" | null;
+  specificity: number;
+  order: number;
+  media: string | null;
+  declarations: Map<string, Declaration>;
+};
+
+export type Edges = { top: number; right: number; bottom: number; left: number };
+
+export type ComputedStyle = {
+  display: string;
+  position: string;
+  fontSizePx: number;
+  lineHeightPx: number;
+  /** A unitless line height, which descendants inherit as the number; null for a length. */
+  lineHeightFactor: number | null;
+  bold: boolean;
+  /** Set in a monospace face, as preflight sets code. */
+  mono: boolean;
+  margin: Edges;
+  padding: Edges;
+  border: Edges;
+  /** Border-box height; null for `auto`. */
+  heightPx: number | null;
+  /** Border-box width; null for `auto` or a percentage. */
+  widthPx: number | null;
+  minWidthPx: number;
+  flexGrow: number;
+  /** Offsets of an absolutely positioned box from its container's top and bottom. */
+  insetTopPx: number | null;
+  insetBottomPx: number | null;
+  /** Text of the `::before` and `::after` pseudo-elements. */
+  before: string;
+  after: string;
+  /** `page` where print starts a new page after the element. */
+  breakAfter: string;
+};
+
+const EDGES = ["top", "right", "bottom", "left"] as const;
+
+const DEFAULT_DISPLAY: Record<string, string> = {
+  DIV: "block",
+  P: "block",
+  H1: "block",
+  H2: "block",
+  H3: "block",
+  H4: "block",
+  H5: "block",
+  H6: "block",
+  PRE: "block",
+  UL: "block",
+  OL: "block",
+  LI: "block",
+  BLOCKQUOTE: "block",
+  SECTION: "block",
+  HR: "block",
+  TABLE: "table",
+  TBODY: "table-row-group",
+  THEAD: "table-row-group",
+  TR: "table-row",
+  TD: "table-cell",
+  TH: "table-cell",
+  COLGROUP: "none",
+  COL: "none",
+};
+
+// Longhands set by each shorthand, in the order of the shorthand's values.
+const BOX_SHORTHANDS: Record<string, (side: string) => string> = {
+  margin: (side) => `margin-${side}`,
+  padding: (side) => `padding-${side}`,
+};
+
+/** Expands `margin`, `padding`, `border` and `flex` into the longhands the layout reads. */
+function expand(property: string, value: string): [string, string][] {
+  const parts = value.split(/\s+(?![^(]*\))/);
+  if (property in BOX_SHORTHANDS) {
+    const [top, right = top, bottom = top, left = right] = parts;
+    const values = { top, right, bottom, left };
+    return EDGES.map((side) => [BOX_SHORTHANDS[property](side), values[side]]);
+  }
+  const border = /^border(?:-(top|right|bottom|left))?$/.exec(property);
+  if (border) {
+    const width = parts.find((part) => /^[\d.]+(px)?$/.test(part)) ?? "0";
+    const sides = border[1] ? [border[1]] : EDGES;
+    return sides.map((side) => [`border-${side}-width`, value === "none" ? "0" : width]);
+  }
+  if (property === "flex") return [["flex-grow", /^[\d.]+$/.test(parts[0]) ? parts[0] : "0"]];
+  return [[property, value]];
+}
+
+/** Specificity of `selector` as one number: ids, then classes, attributes and pseudo-classes, then types. */
+function specificityOf(selector: string): number {
+  const ids = selector.match(/#[\w-]+/g)?.length ?? 0;
+  const classes = selector.match(/\.[\w-]+|\[[^\]]*\]|(?<!:):(?!:)[\w-]+/g)?.length ?? 0;
+  const stripped = selector.replace(/#[\w-]+|\.[\w-]+|\[[^\]]*\]|::?[\w-]+(\([^)]*\))?/g, "");
+  const types = stripped.match(/[a-z][\w-]*/gi)?.length ?? 0;
+  return ids * 10000 + classes * 100 + types;
+}
+
+function parseRules(css: string, media: string | null, rules: Rule[]) {
+  let at = 0;
+  while (at < css.length) {
+    const open = css.indexOf("{", at);
+    if (open === -1) return;
+    const semicolon = css.indexOf(";", at);
+    if (semicolon !== -1 && semicolon < open) {
+      // A statement such as `@import`.
+      at = semicolon + 1;
+      continue;
+    }
+    let close = open + 1;
+    for (let depth = 1; depth > 0; close++) {
+      if (css[close] === "{") depth++;
+      else if (css[close] === "}") depth--;
+    }
+    const prelude = css.slice(at, open).trim();
+    const body = css.slice(open + 1, close - 1);
+    at = close;
+    if (prelude.startsWith("@media")) {
+      parseRules(body, prelude.slice("@media".length).trim(), rules);
+      continue;
+    }
+    if (prelude.startsWith("@")) continue;
+
+    const declarations = new Map<string, Declaration>();
+    for (const declaration of body.split(";")) {
+      const colon = declaration.indexOf(":");
+      if (colon === -1) continue;
+      const property = declaration.slice(0, colon).trim();
+      let value = declaration.slice(colon + 1).trim();
+      const important = value.endsWith("!important");
+      if (important) value = value.slice(0, -"!important".length).trim();
+      for (const [longhand, longValue] of expand(property, value)) {
+        declarations.set(longhand, { value: longValue, important });
+      }
+    }
+    for (const selector of prelude.split(",").map((s) => s.trim())) {
+      const pseudo = /::(before|after)$/.exec(selector);
+      rules.push({
+        selector: pseudo ? selector.slice(0, pseudo.index) : selector,
+        pseudo: pseudo ? (pseudo[1] as "before" | "after") : null,
+        specificity: specificityOf(selector),
+        order: rules.length,
+        media,
+        declarations,
+      });
+    }
+  }
+}
+
+/** Evaluates the arithmetic of a `calc()` whose lengths are already in px. */
+function evaluate(expression: string): number {
+  const tokens = expression.match(/[\d.]+(?:px)?|[-+*/()]/g) ?? [];
+  let i = 0;
+  const factor = (): number => {
+    const token = tokens[i++];
+    if (token === "(") {
+      const value = sum();
+      i++;
+      return value;
+    }
+    if (token === "-") return -factor();
+    return parseFloat(token);
+  };
+  const product = (): number => {
+    let value = factor();
+    while (tokens[i] === "*" || tokens[i] === "/") value = tokens[i++] === "*" ? value * factor() : value / factor();
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (tokens[i] === "+" || tokens[i] === "-") value = tokens[i++] === "+" ? value + product() : value - product();
+    return value;
+  };
+  return sum();
+}
+
+export class EditorStylesheet {
+  private readonly rules: Rule[] = [];
+
+  constructor(
+    readonly media: EditorMedia = "screen",
+    css = readFileSync(STYLESHEET_PATH, "utf8"),
+  ) {
+    parseRules(css.replace(/\/\*[\s\S]*?\*\//g, ""), null, this.rules);
+  }
+
+  /**
+   * Computed styles of the editor's elements, with `gridPx` as pleading paper's grid
+   * line (`--pm-pleading-line`), or null off the grid.
+   */
+  resolver(gridPx: number | null): (el: Element) => ComputedStyle {
+    const cache = new Map<Element, ComputedStyle>();
+    const resolve = (el: Element): ComputedStyle => {
+      let style = cache.get(el);
+      if (!style) {
+        style = this.compute(el, el.parentElement ? resolve(el.parentElement) : null, gridPx);
+        cache.set(el, style);
+      }
+      return style;
+    };
+    return resolve;
+  }
+
+  private applies(rule: Rule, el: Element, gridPx: number | null): boolean {
+    if (rule.media !== null && rule.media !== this.media) return false;
+    let selector = rule.selector;
+    if (selector.startsWith(".editor-shell.is-pleading ")) {
+      if (gridPx === null) return false;
+      selector = selector.slice(".editor-shell.is-pleading ".length);
+    } else if (selector.startsWith(".editor-shell ")) {
+      selector = selector.slice(".editor-shell ".length);
+    } else if (selector.startsWith(".editor-shell") || /(^|\s)(html|body|:root)\b/.test(selector)) {
+      return false;
+    }
+    try {
+      return el.matches(selector);
+    } catch {
+      return false;
+    }
+  }
+
+  /** The value of `property` the `matched` rules and inline style give `el` (or its pseudo-element), if any. */
+  private cascaded(matched: Rule[], el: Element, property: string, pseudo: Rule["pseudo"] = null): string | null {
+    let winner: Rule | null = null;
+    let declaration: Declaration | null = null;
+    for (const rule of matched) {
+      const candidate = rule.declarations.get(property);
+      if (!candidate || rule.pseudo !== pseudo) continue;
+      const wins =
+        !declaration ||
+        (candidate.important && !declaration.important) ||
+        (candidate.important === declaration.important && rule.specificity >= winner!.specificity);
+      if (wins) {
+        winner = rule;
+        declaration = candidate;
+      }
+    }
+    const inline = pseudo === null && el instanceof HTMLElement ? el.style.getPropertyValue(property) : "";
+    if (inline && !declaration?.important) return inline;
+    return declaration?.value ?? null;
+  }
+
+  /** Replaces `var()` references, read from the element and its ancestors' inline styles. */
+  private substitute(value: string, el: Element, gridPx: number | null): string {
+    return value.replace(/var\((--[\w-]+)(?:,\s*([^)]*))?\)/g, (_, name: string, fallback = "0px") => {
+      if (name === "--pm-pleading-line" && gridPx !== null) return `${gridPx}px`;
+      for (let node: Element | null = el; node; node = node.parentElement) {
+        const set = node instanceof HTMLElement ? node.style.getPropertyValue(name) : "";
+        if (set) return set.trim();
+      }
+      return fallback;
+    });
+  }
+
+  /** A length in px; null for `auto`, percentages and anything else not a length. */
+  private length(value: string | null, el: Element, fontSizePx: number, gridPx: number | null): number | null {
+    if (value === null) return null;
+    const resolved = this.substitute(value, el, gridPx).replace(
+      /(-?[\d.]+)(px|rem|em|in)\b/g,
+      (_, n: string, unit: string) =>
+        `${parseFloat(n) * { px: 1, rem: ROOT_FONT_PX, em: fontSizePx, in: PX_PER_IN }[unit as "px"]}px`,
+    );
+    if (/^calc\(/.test(resolved)) return evaluate(resolved.slice("calc".length));
+    const match = /^(-?[\d.]+)(px)?$/.exec(resolved);
+    return match ? parseFloat(match[1]) : null;
+  }
+
+  private generated(matched: Rule[], el: Element, pseudo: "before" | "after"): string {
+    if (this.cascaded(matched, el, "position", pseudo) === "absolute") return "";
+    const content = this.cascaded(matched, el, "content", pseudo);
+    const attr = content && /^attr\(([\w-]+)\)$/.exec(content);
+    if (attr) return el.getAttribute(attr[1]) ?? "";
+    const quoted = content && /^"(.*)"$/.exec(content);
+    return quoted ? quoted[1] : "";
+  }
+
+  private compute(el: Element, parent: ComputedStyle | null, gridPx: number | null): ComputedStyle {
+    const matched = this.rules.filter((rule) => this.applies(rule, el, gridPx));
+    const value = (property: string) => this.cascaded(matched, el, property);
+    const parentFontPx = parent?.fontSizePx ?? ROOT_FONT_PX;
+    const fontSizePx = this.length(value("font-size"), el, parentFontPx, gridPx) ?? parentFontPx;
+    const px = (property: string) => this.length(value(property), el, fontSizePx, gridPx);
+
+    // A unitless line height is inherited as the number, a length as the length.
+    const lineHeight = value("line-height");
+    let lineHeightFactor = parent?.lineHeightFactor ?? null;
+    let lineHeightPx = lineHeightFactor === null ? (parent?.lineHeightPx ?? fontSizePx) : lineHeightFactor * fontSizePx;
+    if (lineHeight !== null && /^[\d.]+$/.test(lineHeight)) {
+      lineHeightFactor = parseFloat(lineHeight);
+      lineHeightPx = lineHeightFactor * fontSizePx;
+    } else if (lineHeight !== null && px("line-height") !== null) {
+      lineHeightFactor = null;
+      lineHeightPx = px("line-height")!;
+    }
+
+    const weight = value("font-weight");
+    const edges = (name: (side: string) => string): Edges => ({
+      top: px(name("top")) ?? 0,
+      right: px(name("right")) ?? 0,
+      bottom: px(name("bottom")) ?? 0,
+      left: px(name("left")) ?? 0,
+    });
+
+    return {
+      display: value("display") ?? DEFAULT_DISPLAY[el.tagName] ?? "inline",
+      position: value("position") ?? "static",
+      fontSizePx,
+      lineHeightPx,
+      lineHeightFactor,
+      bold: weight === null ? (parent?.bold ?? false) : weight === "bold" || parseFloat(weight) >= 600,
+      mono: el.matches("code,pre,kbd,samp") || (parent?.mono ?? false),
+      margin: edges((side) => `margin-${side}`),
+      padding: edges((side) => `padding-${side}`),
+      border: edges((side) => `border-${side}-width`),
+      heightPx: px("height"),
+      widthPx: px("width"),
+      minWidthPx: px("min-width") ?? 0,
+      flexGrow: parseFloat(value("flex-grow") ?? "0"),
+      insetTopPx: px("top"),
+      insetBottomPx: px("bottom"),
+      before: this.generated(matched, el, "before"),
+      after: this.generated(matched, el, "after"),
+      breakAfter: value("break-after") ?? "auto",
+    };
+  }
+}
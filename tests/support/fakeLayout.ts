@@ -0,0 +1,379 @@
+import { layOutWithStylesheet } from "./cssLayout";
+import { EditorStylesheet } from "./editorStylesheet";
+
+/**
+ * A deterministic stand-in for browser layout, so pagination can run under jsdom.
+ * jsdom builds the DOM but lays nothing out: every rect is empty. `layOut` flows a
+ * root's content the way the editor's CSS roughly does, with fixed metrics that make
+ * expected break positions easy to work out by hand:
+ *
+ * - every character is `CHAR_WIDTH_PX` wide; lines wrap at spaces, and a word longer
+ *   than a line wraps anywhere;
+ * - each block type has a fixed line height and top margin (`BLOCK_STYLES`), and
+ *   blocks stack without margin collapsing;
+ * - pagination spacers are exactly `--pm-spacer-height` tall, and a spacer inside a
+ *   paragraph ends the line before it;
+ * - footnote areas and the footnote measuring box take no space in the flow;
+ * - on pleading paper's grid, every line is one grid line tall and blocks have no margins.
+ *
+ * Given an `EditorStylesheet` instead, `layOut` sets the document in the app's CSS
+ * (see `cssLayout`), for comparisons with code whose own metrics must agree with it.
+ *
+ * `installFakeLayout` patches the measuring APIs `computePageBreaks` reads to answer
+ * from the last `layOut`; call `layOut` again after every DOM change.
+ */
+
+export const CHAR_WIDTH_PX = 8;
+
+type BlockStyle = { lineHeightPx: number; marginTopPx: number; indentPx: number };
+
+export type BlockStyles = Record<string, BlockStyle>;
+
+export const BLOCK_STYLES: BlockStyles = {
+  P: { lineHeightPx: 24, marginTopPx: 8, indentPx: 0 },
+  H1: { lineHeightPx: 36, marginTopPx: 16, indentPx: 0 },
+  H2: { lineHeightPx: 30, marginTopPx: 12, indentPx: 0 },
+  H3: { lineHeightPx: 26, marginTopPx: 10, indentPx: 0 },
+  PRE: { lineHeightPx: 20, marginTopPx: 8, indentPx: 0 },
+  UL: { lineHeightPx: 24, marginTopPx: 0, indentPx: 24 },
+  OL: { lineHeightPx: 24, marginTopPx: 0, indentPx: 24 },
+  BLOCKQUOTE: { lineHeightPx: 24, marginTopPx: 8, indentPx: 24 },
+};
+
+const DEFAULT_STYLE: BlockStyle = { lineHeightPx: 24, marginTopPx: 0, indentPx: 0 };
+
+/** Height of a hard page break marker, which has no content of its own. */
+export const HARD_BREAK_HEIGHT_PX = 16;
+
+const BLOCK_TAGS = new Set([
+  "P",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "PRE",
+  "UL",
+  "OL",
+  "LI",
+  "BLOCKQUOTE",
+  "DIV",
+  "SECTION",
+  "HR",
+]);
+const SPACER_SELECTOR = ".pm-page-break,.pm-page-top-spacer,.pm-page-bottom-spacer";
+const OUT_OF_FLOW_SELECTOR = ".pm-footnote-measure,.pm-footnotes";
+
+export type Box = { top: number; bottom: number; left: number; right: number };
+
+/** A run of characters of one text node laid out on one line. */
+export type Fragment = { start: number; end: number; top: number; bottom: number; left: number; charWidthPx: number };
+
+/** Where a layout put the root's content: its height, element boxes and lines of text. */
+export type LaidOut = { heightPx: number; boxes: Map<Element, Box>; text: Map<Text, Fragment[]> };
+
+type Layout = LaidOut & { root: HTMLElement; widthPx: number };
+
+let current: Layout | null = null;
+
+function isBlock(node: Node): node is Element {
+  return node instanceof Element && (BLOCK_TAGS.has(node.tagName) || node.matches(SPACER_SELECTOR));
+}
+
+/** One item of a block's inline content: a character, an atom (e.g. a footnote mark) or a line break. */
+type InlineItem =
+  | { kind: "char"; node: Text; offset: number; space: boolean; owners: Element[] }
+  | { kind: "atom"; element: Element; owners: Element[] }
+  | { kind: "br" };
+
+/** Whether a word ends before the item: at a space or a line break. */
+const endsWord = (item: InlineItem) => item.kind === "br" || (item.kind === "char" && item.space);
+
+function collectInline(nodes: Node[], owners: Element[], out: InlineItem[]) {
+  for (const node of nodes) {
+    if (node instanceof Text) {
+      for (let offset = 0; offset < node.data.length; offset++) {
+        out.push({ kind: "char", node, offset, space: /\s/.test(node.data[offset]), owners });
+      }
+    } else if (node instanceof Element) {
+      if (node.matches(OUT_OF_FLOW_SELECTOR) || node.tagName === "IMG") continue;
+      if (node.tagName === "BR") {
+        out.push({ kind: "br" });
+      } else if (node.textContent === "") {
+        out.push({ kind: "atom", element: node, owners });
+      } else {
+        collectInline(Array.from(node.childNodes), [...owners, node], out);
+      }
+    }
+  }
+}
+
+class Flow {
+  boxes = new Map<Element, Box>();
+  text = new Map<Text, Fragment[]>();
+
+  constructor(
+    readonly widthPx: number,
+    readonly gridPx: number | null,
+    readonly styles: BlockStyles,
+  ) {}
+
+  styleOf(el: Element | null): BlockStyle {
+    const style = (el && this.styles[el.tagName]) ?? DEFAULT_STYLE;
+    return this.gridPx === null ? style : { ...style, lineHeightPx: this.gridPx, marginTopPx: 0 };
+  }
+
+  private extend(el: Element, box: Box) {
+    const prev = this.boxes.get(el);
+    this.boxes.set(
+      el,
+      prev
+        ? {
+            top: Math.min(prev.top, box.top),
+            bottom: Math.max(prev.bottom, box.bottom),
+            left: Math.min(prev.left, box.left),
+            right: Math.max(prev.right, box.right),
+          }
+        : box,
+    );
+  }
+
+  /** Lays out inline items as lines starting at `y`; returns the bottom of the last line. */
+  private lines(items: InlineItem[], y: number, left: number, right: number, style: BlockStyle): number {
+    if (items.length === 0) return y;
+    const maxChars = Math.max(1, Math.floor((right - left) / CHAR_WIDTH_PX));
+    const { lineHeightPx } = style;
+    let top = y;
+    let column = 0;
+    let lineCount = 0;
+    let lineUsed = false;
+
+    const newLine = () => {
+      top += lineHeightPx;
+      column = 0;
+      lineUsed = false;
+    };
+    const place = (item: InlineItem, widthChars: number) => {
+      const x = left + column * CHAR_WIDTH_PX;
+      const box = { top, bottom: top + lineHeightPx, left: x, right: x + widthChars * CHAR_WIDTH_PX };
+      if (item.kind === "char") {
+        const fragments = this.text.get(item.node) ?? [];
+        const last = fragments[fragments.length - 1];
+        if (last && last.top === top && last.end === item.offset) last.end++;
+        else {
+          fragments.push({
+            start: item.offset,
+            end: item.offset + 1,
+            top,
+            bottom: top + lineHeightPx,
+            left: x,
+            charWidthPx: CHAR_WIDTH_PX,
+          });
+        }
+        this.text.set(item.node, fragments);
+      } else if (item.kind === "atom") {
+        this.extend(item.element, box);
+      }
+      if (item.kind !== "br") item.owners.forEach((owner) => this.extend(owner, box));
+      column += widthChars;
+      if (!lineUsed) lineCount++;
+      lineUsed = true;
+    };
+
+    let i = 0;
+    while (i < items.length) {
+      const item = items[i];
+      if (item.kind === "br") {
+        // A break ends its line; an empty line still takes its height.
+        if (!lineUsed) lineCount++;
+        newLine();
+        i++;
+        continue;
+      }
+      if (item.kind === "char" && item.space) {
+        // Spaces hang at the end of a full line instead of wrapping.
+        place(item, column < maxChars ? 1 : 0);
+        i++;
+        continue;
+      }
+      let end = i;
+      while (end < items.length && !endsWord(items[end])) end++;
+      const length = end - i;
+      if (column > 0 && column + length > maxChars) newLine();
+      for (let j = i; j < end; j++) {
+        if (column >= maxChars) newLine();
+        place(items[j], 1);
+      }
+      i = end;
+    }
+    // A trailing line break opens no line of its own.
+    return y + lineCount * lineHeightPx;
+  }
+
+  /** Lays out `el` with its top margin at `y`; returns the bottom of its box. */
+  block(el: Element, y: number, left: number, right: number): number {
+    if (el.matches(SPACER_SELECTOR)) {
+      const heightPx = parseFloat((el as HTMLElement).style.getPropertyValue("--pm-spacer-height")) || 0;
+      this.boxes.set(el, { top: y, bottom: y + heightPx, left, right });
+      return y + heightPx;
+    }
+    const style = this.styleOf(el);
+    const top = y + style.marginTopPx;
+    const innerLeft = left + style.indentPx;
+    let bottom = this.content(el, top, innerLeft, right, style);
+    if (bottom === top && el.matches("[data-page-break]")) bottom = top + HARD_BREAK_HEIGHT_PX;
+    this.boxes.set(el, { top, bottom, left, right });
+    return bottom;
+  }
+
+  /** Lays out the children of `el` from `y`, block children stacked and inline runs as lines. */
+  content(el: Element, y: number, left: number, right: number, style: BlockStyle): number {
+    let run: Node[] = [];
+    const flush = () => {
+      const items: InlineItem[] = [];
+      collectInline(run, [], items);
+      y = this.lines(items, y, left, right, style);
+      run = [];
+    };
+    for (const child of Array.from(el.childNodes)) {
+      if (child instanceof Element && child.matches(OUT_OF_FLOW_SELECTOR)) continue;
+      if (isBlock(child)) {
+        flush();
+        y = this.block(child, y, left, right);
+      } else {
+        run.push(child);
+      }
+    }
+    flush();
+    return y;
+  }
+}
+
+/**
+ * Lays out `root` at `widthPx` for the measurements that follow, in `styles` or by an
+ * editor stylesheet; with `gridPx`, on pleading paper's line grid.
+ */
+export function layOut(
+  root: HTMLElement,
+  widthPx: number,
+  gridPx: number | null = null,
+  styles: BlockStyles | EditorStylesheet = BLOCK_STYLES,
+): void {
+  if (styles instanceof EditorStylesheet) {
+    current = { root, widthPx, ...layOutWithStylesheet(root, widthPx, gridPx, styles) };
+    return;
+  }
+  const flow = new Flow(widthPx, gridPx, styles);
+  const heightPx = flow.content(root, 0, 0, widthPx, flow.styleOf(null));
+  current = { root, widthPx, heightPx, boxes: flow.boxes, text: flow.text };
+}
+
+function rect({ top, bottom, left, right }: Box): DOMRect {
+  return {
+    x: left,
+    y: top,
+    top,
+    bottom,
+    left,
+    right,
+    width: right - left,
+    height: bottom - top,
+    toJSON() {
+      return this;
+    },
+  } as DOMRect;
+}
+
+const EMPTY: Box = { top: 0, bottom: 0, left: 0, right: 0 };
+
+function elementBox(el: Element): Box {
+  if (!current) return EMPTY;
+  if (el === current.root) return { top: 0, bottom: current.heightPx, left: 0, right: current.widthPx };
+  return current.boxes.get(el) ?? EMPTY;
+}
+
+/** Rects of the text in `range`, one per line of each text node. */
+function rangeRects(range: Range): Box[] {
+  if (!current) return [];
+  const boxes: Box[] = [];
+  const container = range.commonAncestorContainer;
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  const texts: Text[] = container instanceof Text ? [container] : [];
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) texts.push(n as Text);
+  for (const node of texts) {
+    if (!range.intersectsNode(node)) continue;
+    const from = node === range.startContainer ? range.startOffset : 0;
+    const to = node === range.endContainer ? range.endOffset : node.data.length;
+    for (const f of current.text.get(node) ?? []) {
+      const start = Math.max(from, f.start);
+      const end = Math.min(to, f.end);
+      if (end <= start) continue;
+      const left = f.left + (start - f.start) * f.charWidthPx;
+      boxes.push({ top: f.top, bottom: f.bottom, left, right: left + (end - start) * f.charWidthPx });
+    }
+  }
+  return boxes;
+}
+
+/** Where the characters of `node` were laid out: one fragment per line, in order. */
+export function textFragments(node: Text): { start: number; end: number; top: number; bottom: number }[] {
+  return current?.text.get(node) ?? [];
+}
+
+/** Patches jsdom's measuring APIs to answer from the last `layOut`. Returns a function that undoes it. */
+export function installFakeLayout(): () => void {
+  const restore: (() => void)[] = [];
+  const patch = <T extends object>(proto: T, name: string, descriptor: PropertyDescriptor) => {
+    const original = Object.getOwnPropertyDescriptor(proto, name);
+    Object.defineProperty(proto, name, { configurable: true, ...descriptor });
+    restore.push(() => {
+      if (original) Object.defineProperty(proto, name, original);
+      else delete (proto as Record<string, unknown>)[name];
+    });
+  };
+
+  patch(Element.prototype, "getBoundingClientRect", {
+    value(this: Element) {
+      return rect(elementBox(this));
+    },
+  });
+  patch(Element.prototype, "getClientRects", {
+    value(this: Element) {
+      const box = elementBox(this);
+      return box === EMPTY ? [] : [rect(box)];
+    },
+  });
+  patch(Range.prototype, "getClientRects", {
+    value(this: Range) {
+      return rangeRects(this).map(rect);
+    },
+  });
+  patch(Range.prototype, "getBoundingClientRect", {
+    value(this: Range) {
+      const boxes = rangeRects(this);
+      if (boxes.length === 0) return rect(EMPTY);
+      return rect({
+        top: Math.min(...boxes.map((b) => b.top)),
+        bottom: Math.max(...boxes.map((b) => b.bottom)),
+        left: Math.min(...boxes.map((b) => b.left)),
+        right: Math.max(...boxes.map((b) => b.right)),
+      });
+    },
+  });
+  patch(Element.prototype, "scrollHeight", {
+    get(this: Element) {
+      return this === current?.root ? current.heightPx : 0;
+    },
+  });
+  patch(Element.prototype, "clientWidth", {
+    get(this: Element) {
+      return this === current?.root ? current.widthPx : 0;
+    },
+  });
+
+  return () => {
+    restore.reverse().forEach((undo) => undo());
+    current = null;
+  };
+}